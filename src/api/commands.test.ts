@@ -0,0 +1,42 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCommand } from './commands';
+import { setWorkspaceRoot } from './fileSystem';
+
+let root: string;
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-')));
+  setWorkspaceRoot(root);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('runCommand', () => {
+  it('returns the output and exit code', async () => {
+    expect(await runCommand('echo hi; exit 3', 5000)).toEqual({ output: 'hi\n', exitCode: 3, timedOut: false });
+  });
+
+  it('stops a backgrounded child at the timeout after the shell has exited', async () => {
+    const started = Date.now();
+    const result = await runCommand('sleep 8 & echo hi', 500);
+
+    expect(result.timedOut).toBe(true);
+    expect(result.output).toBe('hi\n');
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+
+  it('stops the command when the signal aborts', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const running = runCommand('sleep 8', 60 * 1000, controller.signal);
+    setTimeout(() => controller.abort(), 200);
+
+    expect((await running).timedOut).toBe(false);
+    expect(Date.now() - started).toBeLessThan(3000);
+  });
+});
@@ -0,0 +1,111 @@
+// One-off shell commands in the workspace root, for the AI Coworker agent
+import { ChildProcess, spawn } from 'child_process';
+import { getWorkspaceRoot } from './fileSystem';
+import { HttpError, jsonResponse, readJsonBody } from './http';
+import { getShellEnvironment } from './terminal';
+
+export interface CommandResult {
+  output: string;
+  exitCode: number | null;
+  timedOut: boolean;
+}
+
+const DEFAULT_TIMEOUT = 60 * 1000;
+const MAX_TIMEOUT = 10 * 60 * 1000;
+// Output past this is dropped; the agent only needs the gist
+const MAX_OUTPUT = 100 * 1024;
+
+// The shell runs in its own process group so everything it started can be stopped with it; killing
+// only the shell would leave its children holding the output pipes open. The group is signalled even
+// after the shell has exited, since a backgrounded child (`sleep 60 &`) outlives it.
+const killProcessTree = (child: ChildProcess) => {
+  if (child.pid === undefined) return;
+
+  try {
+    if (process.platform === 'win32') {
+      // taskkill only finds the tree through a running parent
+      if (child.exitCode !== null || child.signalCode !== null) return;
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' });
+    } else {
+      process.kill(-child.pid, 'SIGKILL');
+    }
+  } catch (error) {
+    // ESRCH: the whole group is already gone
+    if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+      console.error('Error stopping command:', error);
+    }
+  }
+};
+
+// Runs until the command exits, the timeout passes or `signal` aborts (the client went away)
+export const runCommand = (command: string, timeout: number = DEFAULT_TIMEOUT, signal?: AbortSignal): Promise<CommandResult> => {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      cwd: getWorkspaceRoot(),
+      shell: true,
+      detached: process.platform !== 'win32',
+      env: getShellEnvironment({ CI: '1', FORCE_COLOR: '0' }),
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let output = '';
+    let truncated = false;
+    let timedOut = false;
+
+    // stdout and stderr are interleaved as they arrive, like in a terminal
+    const collect = (chunk: Buffer) => {
+      if (truncated) return;
+      output += chunk.toString();
+      if (output.length > MAX_OUTPUT) {
+        output = output.slice(0, MAX_OUTPUT);
+        truncated = true;
+      }
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, timeout);
+
+    const handleAbort = () => killProcessTree(child);
+    if (signal?.aborted) handleAbort();
+    signal?.addEventListener('abort', handleAbort);
+
+    const cleanUp = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    child.on('error', error => {
+      cleanUp();
+      reject(error);
+    });
+    child.on('close', exitCode => {
+      cleanUp();
+      resolve({ output: truncated ? `${output}\n[output truncated]` : output, exitCode, timedOut });
+    });
+  });
+};
+
+export async function handleRunCommand(req: Request): Promise<Response> {
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    return jsonResponse({ error: (error as HttpError).message }, (error as HttpError).status);
+  }
+
+  if (typeof body.command !== 'string' || !body.command.trim()) {
+    return jsonResponse({ error: 'Missing "command"' }, 400);
+  }
+
+  const timeout = Number(body.timeout) > 0 ? Math.min(Number(body.timeout), MAX_TIMEOUT) : DEFAULT_TIMEOUT;
+
+  try {
+    return jsonResponse(await runCommand(body.command, timeout, req.signal));
+  } catch (error) {
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Could not run the command' }, 500);
+  }
+}
@@ -0,0 +1,78 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ViteDevServer } from 'vite';
+import { workspaceApiPlugin } from './devServer';
+import { SESSION_HEADER, SESSION_TOKEN } from './http';
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void | Promise<void>;
+
+let root: string;
+const httpServer = new EventEmitter();
+const middlewares: Middleware[] = [];
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-')));
+  const server = {
+    httpServer,
+    middlewares: { use: (middleware: Middleware) => middlewares.push(middleware) },
+    config: { logger: { info: () => undefined } },
+  } as unknown as ViteDevServer;
+
+  const { configureServer } = workspaceApiPlugin({ root });
+  await (configureServer as (server: ViteDevServer) => unknown)(server);
+});
+
+afterAll(async () => {
+  // Stops the watcher and the terminal server
+  httpServer.emit('close');
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+// Run a request through the plugin's middlewares; `next` past the last one means Vite would answer
+const dispatch = async (method: string, url: string, headers: Record<string, string>, remoteAddress: string) => {
+  const req = Object.assign(new EventEmitter(), {
+    method, url, headers, socket: { remoteAddress }, resume: () => undefined,
+  }) as unknown as IncomingMessage;
+
+  const answer = { status: 0, body: '', passedOn: false };
+  const res = {
+    setHeader: () => undefined,
+    set statusCode(status: number) { answer.status = status; },
+    end: (body: string) => { answer.body = body; },
+  } as unknown as ServerResponse;
+
+  for (const middleware of middlewares) {
+    let next = false;
+    await middleware(req, res, () => { next = true; });
+    if (!next) return answer;
+  }
+  return { ...answer, passedOn: true };
+};
+
+describe('workspaceApiPlugin', () => {
+  it('refuses run-command from another machine even when it names localhost', async () => {
+    const answer = await dispatch('POST', '/api/run-command', {
+      host: 'localhost:8080',
+      [SESSION_HEADER]: SESSION_TOKEN,
+      'content-type': 'application/json',
+    }, '192.0.2.2');
+
+    expect(answer.status).toBe(403);
+    expect(answer.body).not.toContain('exitCode');
+  });
+
+  it('keeps the page, and its session token, from other machines', async () => {
+    const answer = await dispatch('GET', '/', { host: 'localhost:8080' }, '192.0.2.2');
+    expect(answer.status).toBe(403);
+    expect(answer.passedOn).toBe(false);
+  });
+
+  it('leaves the page to Vite for this machine', async () => {
+    const answer = await dispatch('GET', '/', { host: 'localhost:8080' }, '127.0.0.1');
+    expect(answer.passedOn).toBe(true);
+  });
+});
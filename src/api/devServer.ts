@@ -0,0 +1,206 @@
+// Vite plugin that mounts the workspace API routes on the dev server
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse, Server as HttpServer } from 'http';
+import {
+  handleListFiles,
+  handleReadFile,
+  handleWriteFile,
+  handleDeleteFile,
+  handleCreateDirectory,
+  handleRenameFile,
+  handleWorkspaceInfo,
+  getWorkspaceRoot,
+  initFileWatcher,
+  setWorkspaceRoot,
+  subscribeToFileEvents,
+  MAX_FILE_SIZE
+} from './fileSystem';
+import { attachTerminalServer } from './terminal';
+import { handleRunCommand } from './commands';
+import { handleGit } from './git';
+import { ApiRoute, HttpError, isLoopbackPeer, rejectRequest, RouteRules, SESSION_META_NAME, SESSION_TOKEN } from './http';
+
+const routes: Record<string, ApiRoute> = {
+  '/api/list-files': { method: 'GET', handler: handleListFiles, requiresSession: true },
+  '/api/read-file': { method: 'GET', handler: handleReadFile, requiresSession: true },
+  '/api/write-file': { method: 'POST', handler: handleWriteFile, requiresSession: true },
+  '/api/delete-file': { method: 'DELETE', handler: handleDeleteFile, requiresSession: true },
+  '/api/create-directory': { method: 'POST', handler: handleCreateDirectory, requiresSession: true },
+  '/api/rename-file': { method: 'POST', handler: handleRenameFile, requiresSession: true },
+  '/api/workspace': { method: 'GET', handler: handleWorkspaceInfo, requiresSession: true },
+  '/api/run-command': { method: 'POST', handler: handleRunCommand, requiresSession: true },
+  '/api/git': { method: 'POST', handler: handleGit, requiresSession: true },
+};
+
+// The event stream is answered here rather than by a handler, but checked the same way
+const WATCH_ROUTE: RouteRules = { method: 'GET', requiresSession: true };
+
+const HEARTBEAT_INTERVAL = 25 * 1000; // keeps proxies from closing idle streams
+
+// Stream file events to the browser as Server-Sent Events
+const handleWatchStream = (req: IncomingMessage, res: ServerResponse) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+  });
+  res.write('retry: 2000\n\n');
+
+  const unsubscribe = subscribeToFileEvents(event => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify({ path: event.path })}\n\n`);
+  });
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+interface WorkspaceApiOptions {
+  root?: string;
+}
+
+// Collect the request body, answering 413 once it grows past the file size limit
+const readBody = (req: IncomingMessage): Promise<Buffer | null> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // Keep draining the stream so the client can still read our answer
+      if (size <= MAX_FILE_SIZE) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(size > MAX_FILE_SIZE ? null : Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+};
+
+// Translate a Node request into a fetch Request the handlers understand. Its signal aborts when the
+// client goes away before the answer is sent.
+const toWebRequest = (req: IncomingMessage, res: ServerResponse, body: Buffer): Request => {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(key, value);
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  const method = req.method || 'GET';
+  return new Request(`http://localhost${req.url}`, {
+    method,
+    headers,
+    body: method === 'GET' || method === 'HEAD' || body.length === 0 ? undefined : body,
+    signal: controller.signal,
+  });
+};
+
+const sendError = (res: ServerResponse, error: HttpError) => {
+  res.statusCode = error.status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify({ error: error.message }));
+};
+
+const sendWebResponse = async (res: ServerResponse, response: Response) => {
+  res.statusCode = response.status;
+  for (const [key, value] of response.headers.entries()) {
+    res.setHeader(key, value);
+  }
+  res.end(await response.text());
+};
+
+export function workspaceApiPlugin(options: WorkspaceApiOptions = {}): Plugin {
+  return {
+    name: 'workspace-api',
+    // The API is this machine's shell and files, so the server only listens on the loopback interface
+    config() {
+      return { server: { host: 'localhost' } };
+    },
+    // The page learns the session token from its own HTML, which other sites can't read
+    transformIndexHtml(html, context) {
+      if (!context.server) return html;
+      return {
+        html,
+        tags: [{ tag: 'meta', attrs: { name: SESSION_META_NAME, content: SESSION_TOKEN }, injectTo: 'head' }],
+      };
+    },
+    configureServer(server) {
+      if (options.root) {
+        setWorkspaceRoot(options.root);
+      }
+
+      // Initialize file watcher
+      const stopWatching = initFileWatcher();
+      server.httpServer?.on('close', stopWatching);
+      server.config.logger.info(`Watching workspace ${getWorkspaceRoot()}`, { timestamp: true });
+
+      // Shells for the terminal panel, over WebSocket on the same port
+      if (server.httpServer) {
+        const stopTerminals = attachTerminalServer(server.httpServer as HttpServer);
+        server.httpServer.on('close', stopTerminals);
+      }
+
+      // Everything, the page with its session token included, is refused to other machines. The
+      // peer's address is checked rather than the Host header, which a client can set to anything.
+      server.middlewares.use((req, res, next) => {
+        if (isLoopbackPeer(req)) {
+          next();
+          return;
+        }
+        req.resume();
+        sendError(res, new HttpError('Requests must come from this machine', 403));
+      });
+
+      server.middlewares.use(async (req, res, next) => {
+        const pathname = req.url?.split('?')[0] || '';
+
+        if (pathname === '/api/watch') {
+          const rejection = rejectRequest(req, WATCH_ROUTE);
+          if (rejection) {
+            sendError(res, rejection);
+          } else {
+            handleWatchStream(req, res);
+          }
+          return;
+        }
+
+        const route = routes[pathname];
+
+        if (!route) {
+          next();
+          return;
+        }
+
+        const rejection = rejectRequest(req, route);
+        if (rejection) {
+          if (rejection.status === 405) res.setHeader('Allow', route.method);
+          req.resume();
+          sendError(res, rejection);
+          return;
+        }
+
+        try {
+          const body = await readBody(req);
+          if (body === null) {
+            sendError(res, new HttpError(`Request body exceeds the ${MAX_FILE_SIZE} byte limit`, 413));
+            return;
+          }
+
+          const response = await route.handler(toWebRequest(req, res, body));
+          await sendWebResponse(res, response);
+        } catch (error) {
+          console.error(`Error handling ${pathname}:`, error);
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        }
+      });
+    },
+  };
+}
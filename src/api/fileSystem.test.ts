@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSystemError, readFile, resolveWorkspacePath, setWorkspaceRoot, writeFile } from './fileSystem';
+
+let root: string;
+let outside: string;
+
+beforeAll(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-')));
+  outside = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'outside-')));
+  await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  await fs.symlink(outside, path.join(root, 'link'));
+  await fs.mkdir(path.join(root, '.git', 'hooks'), { recursive: true });
+  await fs.symlink(path.join(root, '.git'), path.join(root, 'git-link'));
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+  await fs.rm(outside, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  setWorkspaceRoot(root);
+  // The file operations log their failures
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+describe('resolveWorkspacePath', () => {
+  it('resolves relative, leading-slash and backslash paths inside the root', () => {
+    expect(resolveWorkspacePath('src/a.ts')).toBe(path.join(root, 'src', 'a.ts'));
+    expect(resolveWorkspacePath('/src/a.ts')).toBe(path.join(root, 'src', 'a.ts'));
+    expect(resolveWorkspacePath('src\\a.ts')).toBe(path.join(root, 'src', 'a.ts'));
+    expect(resolveWorkspacePath('.')).toBe(root);
+  });
+
+  it('rejects paths that climb out of the root', () => {
+    for (const attempt of ['..', '../etc/passwd', 'src/../../x', '..\\x']) {
+      expect(() => resolveWorkspacePath(attempt)).toThrow(FileSystemError);
+    }
+  });
+
+  it('rejects a sibling folder that shares the root as a prefix', () => {
+    expect(() => resolveWorkspacePath(`../${path.basename(root)}-other/a.ts`)).toThrow(FileSystemError);
+  });
+
+  it('rejects paths into .git however they are spelled', () => {
+    for (const attempt of ['.git', '.git/config', '/.git/hooks/pre-commit', 'src/../.git/config', '.GIT\\hooks\\post-checkout', 'sub/.git/config']) {
+      expect(() => resolveWorkspacePath(attempt)).toThrow(FileSystemError);
+    }
+    expect(resolveWorkspacePath('.gitignore')).toBe(path.join(root, '.gitignore'));
+  });
+});
+
+describe('readFile and writeFile', () => {
+  it('refuse to follow a symlink out of the workspace', async () => {
+    await expect(readFile('link/secret.txt')).rejects.toMatchObject({ status: 403 });
+    await expect(writeFile('link/new.txt', 'x')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('refuse to write into .git through a symlink', async () => {
+    await expect(writeFile('git-link/hooks/pre-commit', '#!/bin/sh')).rejects.toMatchObject({ status: 403 });
+  });
+
+  it('validate the path before looking in the cache', async () => {
+    await expect(readFile('../outside.txt')).rejects.toBeInstanceOf(FileSystemError);
+  });
+
+  it('refuse to read binary files as text', async () => {
+    await fs.writeFile(path.join(root, 'image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x1a]));
+    await fs.writeFile(path.join(root, 'latin1.txt'), Buffer.from([0x63, 0x61, 0x66, 0xe9]));
+    await expect(readFile('image.png')).rejects.toMatchObject({ status: 415 });
+    await expect(readFile('latin1.txt')).rejects.toMatchObject({ status: 415 });
+  });
+
+  it('share one cache entry between spellings of the same path', async () => {
+    await writeFile('./a.ts', 'first');
+    await fs.writeFile(path.join(root, 'a.ts'), 'changed on disk');
+    // The watcher would invalidate "a.ts"; every spelling must read through that one entry
+    expect(await readFile('/a.ts')).toBe('first');
+    expect(await readFile('a.ts')).toBe('first');
+
+    await writeFile('/a.ts', 'second');
+    expect(await readFile('./a.ts')).toBe('second');
+  });
+});
@@ -1,180 +1,438 @@
-// Mock implementation for file system operations
-import EventEmitter from 'events';
-import mime from 'mime-types';
-
-// Cache for file contents
-const fileCache = new Map<string, { content: string; timestamp: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
-
-// Mock file system data
-const mockFileSystem = {
-  files: new Map<string, string>(),
-  directories: new Set<string>(),
-};
-
-// Event emitter for file changes
-export const fileWatcher = new EventEmitter();
-let watcher: any = null;
-
-// Initialize file watcher
-export function initFileWatcher(dir: string = '.') {
-  console.log('Mock file watcher initialized');
-  return () => {};
-}
-
-// Get file type based on extension
-export function getFileType(filePath: string): string {
-  // Extract extension from path
-  const ext = filePath.split('.').pop()?.toLowerCase() || '';
-  
-  // Map common extensions to language types for syntax highlighting
-  const languageMap: Record<string, string> = {
-    'js': 'javascript',
-    'jsx': 'javascript',
-    'ts': 'typescript',
-    'tsx': 'typescript',
-    'html': 'html',
-    'css': 'css',
-    'scss': 'scss',
-    'json': 'json',
-    'md': 'markdown',
-    'py': 'python',
-    'java': 'java',
-    'c': 'c',
-    'cpp': 'cpp',
-    'go': 'go',
-    'rs': 'rust',
-    'php': 'php',
-    'rb': 'ruby',
-    'swift': 'swift',
-    'kt': 'kotlin',
-    'sh': 'bash',
-    'sql': 'sql',
-    'xml': 'xml',
-    'yaml': 'yaml',
-    'yml': 'yaml',
-  };
-  
-  return languageMap[ext] || 'plaintext';
-}
-
-// API functions that will be called from the frontend
-export async function listFiles(dir: string = '.'): Promise<string[]> {
-  // Return mock file list
-  return Array.from(mockFileSystem.files.keys());
-}
-
-export async function readFile(filePath: string): Promise<string> {
-  try {
-    // Check cache first
-    const cached = fileCache.get(filePath);
-    const now = Date.now();
-    
-    if (cached && (now - cached.timestamp) < CACHE_TTL) {
-      return cached.content;
-    }
-    
-    // Get content from mock file system
-    const content = mockFileSystem.files.get(filePath) || '';
-    
-    // Update cache
-    fileCache.set(filePath, { content, timestamp: now });
-    
-    return content;
-  } catch (error) {
-    console.error(`Error reading file ${filePath}:`, error);
-    throw error;
-  }
-}
-
-export async function writeFile(filePath: string, content: string): Promise<void> {
-  try {
-    // Update mock file system
-    mockFileSystem.files.set(filePath, content);
-    
-    // Update cache
-    fileCache.set(filePath, { content, timestamp: Date.now() });
-    
-    // Emit file changed event
-    fileWatcher.emit('fileChanged', filePath);
-  } catch (error) {
-    console.error(`Error writing file ${filePath}:`, error);
-    throw error;
-  }
-}
-
-export async function deleteFile(filePath: string): Promise<void> {
-  try {
-    // Remove from mock file system
-    mockFileSystem.files.delete(filePath);
-    
-    // Remove from cache
-    fileCache.delete(filePath);
-    
-    // Emit file removed event
-    fileWatcher.emit('fileRemoved', filePath);
-  } catch (error) {
-    console.error(`Error deleting file ${filePath}:`, error);
-    throw error;
-  }
-}
-
-export async function createDirectory(dirPath: string): Promise<void> {
-  try {
-    // Add to mock directories
-    mockFileSystem.directories.add(dirPath);
-    
-    // Emit directory created event
-    fileWatcher.emit('directoryCreated', dirPath);
-  } catch (error) {
-    console.error(`Error creating directory ${dirPath}:`, error);
-    throw error;
-  }
-}
-
-// API route handlers - these will be used by the server
-export async function handleListFiles(req: Request): Promise<Response> {
-  return new Response(JSON.stringify(Array.from(mockFileSystem.files.keys())), {
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-export async function handleReadFile(req: Request): Promise<Response> {
-  const url = new URL(req.url);
-  const filePath = url.searchParams.get('path') || '';
-  const content = mockFileSystem.files.get(filePath) || '';
-  const fileType = getFileType(filePath);
-  
-  return new Response(JSON.stringify({ content, fileType }), {
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-export async function handleWriteFile(req: Request): Promise<Response> {
-  const { path, content } = await req.json();
-  mockFileSystem.files.set(path, content);
-  
-  return new Response(JSON.stringify({ success: true }), {
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-export async function handleDeleteFile(req: Request): Promise<Response> {
-  const url = new URL(req.url);
-  const filePath = url.searchParams.get('path') || '';
-  mockFileSystem.files.delete(filePath);
-  
-  return new Response(JSON.stringify({ success: true }), {
-    headers: { 'Content-Type': 'application/json' }
-  });
-}
-
-export async function handleCreateDirectory(req: Request): Promise<Response> {
-  const { path } = await req.json();
-  mockFileSystem.directories.add(path);
-  
-  return new Response(JSON.stringify({ success: true }), {
-    headers: { 'Content-Type': 'application/json' }
-  });
-} 
+// Disk-backed implementation of the workspace file operations served under /api/*
+import EventEmitter from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import mime from 'mime-types';
+import chokidar from 'chokidar';
+import { HttpError, jsonResponse, readJsonBody } from './http';
+import { decodeTextContent } from '../lib/binary';
+
+// Cache for file contents
+const fileCache = new Map<string, { content: string; timestamp: number }>();
+const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+// Answered for files that aren't text, which the editor would damage by saving them back
+export const NOT_TEXT_STATUS = 415;
+
+// Directories that are never listed or watched
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+// Root directory all API paths are resolved against
+let workspaceRoot = path.resolve(process.env.WORKSPACE_ROOT || process.cwd());
+
+// Event emitter for file changes
+export const fileWatcher = new EventEmitter();
+
+// Error carrying the HTTP status the route handlers should answer with
+export class FileSystemError extends HttpError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'FileSystemError';
+  }
+}
+
+// Change the directory the API operates on
+export function setWorkspaceRoot(dir: string) {
+  workspaceRoot = path.resolve(dir);
+  fileCache.clear();
+}
+
+export function getWorkspaceRoot(): string {
+  return workspaceRoot;
+}
+
+// Events pushed to clients when the workspace changes on disk
+export type FileEventType = 'fileAdded' | 'fileChanged' | 'fileRemoved' | 'directoryCreated' | 'directoryRemoved';
+
+export interface FileEvent {
+  type: FileEventType;
+  path: string;
+}
+
+const FILE_EVENT_TYPES: FileEventType[] = ['fileAdded', 'fileChanged', 'fileRemoved', 'directoryCreated', 'directoryRemoved'];
+
+// Initialize file watcher
+export function initFileWatcher(dir: string = '.') {
+  const watchRoot = resolveWorkspacePath(dir);
+  const watcher = chokidar.watch(watchRoot, {
+    ignoreInitial: true,
+    ignored: (watchedPath: string) => path.basename(watchedPath) !== '' && IGNORED_DIRECTORIES.has(path.basename(watchedPath)),
+    awaitWriteFinish: { stabilityThreshold: 100, pollInterval: 50 },
+  });
+
+  const forward = (type: FileEventType) => (absolutePath: string) => {
+    const relativePath = toWorkspaceRelative(absolutePath);
+    if (!relativePath) return;
+
+    // Anything touched on disk may differ from what we cached
+    fileCache.delete(relativePath);
+    fileWatcher.emit(type, relativePath);
+  };
+
+  watcher
+    .on('add', forward('fileAdded'))
+    .on('change', forward('fileChanged'))
+    .on('unlink', forward('fileRemoved'))
+    .on('addDir', forward('directoryCreated'))
+    .on('unlinkDir', forward('directoryRemoved'))
+    .on('error', error => console.error('File watcher error:', error));
+
+  return () => {
+    watcher.close().catch(error => console.error('Error closing file watcher:', error));
+  };
+}
+
+// Listen to every file event; returns the unsubscribe function
+export function subscribeToFileEvents(listener: (event: FileEvent) => void) {
+  const handlers = FILE_EVENT_TYPES.map(type => {
+    const handler = (filePath: string) => listener({ type, path: filePath });
+    fileWatcher.on(type, handler);
+    return { type, handler };
+  });
+
+  return () => {
+    handlers.forEach(({ type, handler }) => fileWatcher.off(type, handler));
+  };
+}
+
+// Git runs hooks and reads settings like core.fsmonitor from .git, so writing there would let
+// anyone with file access run commands. No file route touches it.
+const isInsideGitFolder = (relativePath: string) => {
+  return relativePath.split(path.sep).some(part => part.toLowerCase() === '.git');
+};
+
+// Resolve a workspace-relative path, rejecting anything that escapes the root or points into .git
+export function resolveWorkspacePath(relativePath: string): string {
+  const normalized = relativePath.replace(/\\/g, '/').replace(/^\/+/, '');
+  const resolved = path.resolve(workspaceRoot, normalized);
+
+  if (resolved !== workspaceRoot && !resolved.startsWith(workspaceRoot + path.sep)) {
+    throw new FileSystemError(`Path is outside the workspace: ${relativePath}`, 403);
+  }
+
+  if (isInsideGitFolder(path.relative(workspaceRoot, resolved))) {
+    throw new FileSystemError(`Paths inside .git can't be accessed: ${relativePath}`, 403);
+  }
+
+  return resolved;
+}
+
+// Follow symlinks on the deepest existing ancestor so links can't point outside the root
+async function assertInsideWorkspace(absolutePath: string): Promise<void> {
+  let current = absolutePath;
+
+  while (current !== path.dirname(current)) {
+    try {
+      const real = await fs.realpath(current);
+      const realRoot = await fs.realpath(workspaceRoot);
+      if (real !== realRoot && !real.startsWith(realRoot + path.sep)) {
+        throw new FileSystemError('Path resolves outside the workspace', 403);
+      }
+      // A symlink to .git doesn't get around it either
+      if (isInsideGitFolder(path.relative(realRoot, real))) {
+        throw new FileSystemError('Path resolves inside .git', 403);
+      }
+      return;
+    } catch (error) {
+      if (error instanceof FileSystemError) throw error;
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      current = path.dirname(current);
+    }
+  }
+}
+
+// Convert an absolute path back to the forward-slash form the client uses
+export function toWorkspaceRelative(absolutePath: string): string {
+  return path.relative(workspaceRoot, absolutePath).split(path.sep).join('/');
+}
+
+// Get file type based on extension
+export function getFileType(filePath: string): string {
+  // Extract extension from path
+  const ext = filePath.split('.').pop()?.toLowerCase() || '';
+
+  // Map common extensions to language types for syntax highlighting
+  const languageMap: Record<string, string> = {
+    'js': 'javascript',
+    'jsx': 'javascript',
+    'ts': 'typescript',
+    'tsx': 'typescript',
+    'html': 'html',
+    'css': 'css',
+    'scss': 'scss',
+    'json': 'json',
+    'md': 'markdown',
+    'py': 'python',
+    'java': 'java',
+    'c': 'c',
+    'cpp': 'cpp',
+    'go': 'go',
+    'rs': 'rust',
+    'php': 'php',
+    'rb': 'ruby',
+    'swift': 'swift',
+    'kt': 'kotlin',
+    'sh': 'bash',
+    'sql': 'sql',
+    'xml': 'xml',
+    'yaml': 'yaml',
+    'yml': 'yaml',
+  };
+
+  return languageMap[ext] || 'plaintext';
+}
+
+// API functions that will be called from the frontend
+export async function listFiles(dir: string = '.'): Promise<string[]> {
+  const start = resolveWorkspacePath(dir);
+  await assertInsideWorkspace(start);
+  const results: string[] = [];
+
+  const walk = async (current: string) => {
+    const entries = await fs.readdir(current, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name)) {
+          await walk(entryPath);
+        }
+      } else if (entry.isFile()) {
+        results.push(toWorkspaceRelative(entryPath));
+      }
+    }
+  };
+
+  await walk(start);
+  return results.sort();
+}
+
+export async function readFile(filePath: string): Promise<string> {
+  try {
+    const absolutePath = resolveWorkspacePath(filePath);
+    await assertInsideWorkspace(absolutePath);
+
+    // Cached under the normalized path, the one the file watcher invalidates
+    const cacheKey = toWorkspaceRelative(absolutePath);
+    const cached = fileCache.get(cacheKey);
+    const now = Date.now();
+
+    if (cached && (now - cached.timestamp) < CACHE_TTL) {
+      return cached.content;
+    }
+
+    const stats = await fs.stat(absolutePath);
+    if (stats.isDirectory()) {
+      throw new FileSystemError(`Not a file: ${filePath}`, 400);
+    }
+    if (stats.size > MAX_FILE_SIZE) {
+      throw new FileSystemError(`File exceeds the ${MAX_FILE_SIZE} byte limit: ${filePath}`, 413);
+    }
+
+    const content = decodeTextContent(await fs.readFile(absolutePath));
+    if (content === null) {
+      throw new FileSystemError(`Not a text file: ${filePath}`, NOT_TEXT_STATUS);
+    }
+
+    // Update cache
+    fileCache.set(cacheKey, { content, timestamp: now });
+
+    return content;
+  } catch (error) {
+    // Binary files are expected in any workspace
+    if (!(error instanceof FileSystemError && error.status === NOT_TEXT_STATUS)) {
+      console.error(`Error reading file ${filePath}:`, error);
+    }
+    throw error;
+  }
+}
+
+export async function writeFile(filePath: string, content: string): Promise<void> {
+  try {
+    if (Buffer.byteLength(content, 'utf-8') > MAX_FILE_SIZE) {
+      throw new FileSystemError(`Content exceeds the ${MAX_FILE_SIZE} byte limit`, 413);
+    }
+
+    const absolutePath = resolveWorkspacePath(filePath);
+    await assertInsideWorkspace(absolutePath);
+
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+    await fs.writeFile(absolutePath, content, 'utf-8');
+
+    // Update cache
+    fileCache.set(toWorkspaceRelative(absolutePath), { content, timestamp: Date.now() });
+  } catch (error) {
+    console.error(`Error writing file ${filePath}:`, error);
+    throw error;
+  }
+}
+
+export async function deleteFile(filePath: string): Promise<void> {
+  try {
+    const absolutePath = resolveWorkspacePath(filePath);
+    if (absolutePath === workspaceRoot) {
+      throw new FileSystemError('Refusing to delete the workspace root', 403);
+    }
+    await assertInsideWorkspace(absolutePath);
+
+    // Throws ENOENT for missing paths so the handler can answer 404
+    await fs.stat(absolutePath);
+    await fs.rm(absolutePath, { recursive: true });
+
+    // Remove the file, or everything under the folder, from the cache
+    const relativePath = toWorkspaceRelative(absolutePath);
+    for (const key of Array.from(fileCache.keys())) {
+      if (key === relativePath || key.startsWith(`${relativePath}/`)) fileCache.delete(key);
+    }
+  } catch (error) {
+    console.error(`Error deleting file ${filePath}:`, error);
+    throw error;
+  }
+}
+
+export async function createDirectory(dirPath: string): Promise<void> {
+  try {
+    const absolutePath = resolveWorkspacePath(dirPath);
+    await assertInsideWorkspace(absolutePath);
+    await fs.mkdir(absolutePath, { recursive: true });
+  } catch (error) {
+    console.error(`Error creating directory ${dirPath}:`, error);
+    throw error;
+  }
+}
+
+export async function renameFile(oldPath: string, newPath: string): Promise<void> {
+  try {
+    const absoluteOld = resolveWorkspacePath(oldPath);
+    const absoluteNew = resolveWorkspacePath(newPath);
+    await assertInsideWorkspace(absoluteOld);
+    await assertInsideWorkspace(absoluteNew);
+
+    if (await fs.stat(absoluteNew).then(() => true, () => false)) {
+      throw new FileSystemError(`Target already exists: ${newPath}`, 409);
+    }
+
+    await fs.mkdir(path.dirname(absoluteNew), { recursive: true });
+    await fs.rename(absoluteOld, absoluteNew);
+
+    // Cached entries are keyed by the old paths
+    fileCache.clear();
+  } catch (error) {
+    console.error(`Error renaming ${oldPath} to ${newPath}:`, error);
+    throw error;
+  }
+}
+
+const errorResponse = (error: unknown) => {
+  if (error instanceof HttpError) {
+    return jsonResponse({ error: error.message }, error.status);
+  }
+
+  const code = (error as NodeJS.ErrnoException)?.code;
+  switch (code) {
+    case 'ENOENT':
+      return jsonResponse({ error: 'File not found' }, 404);
+    case 'EACCES':
+    case 'EPERM':
+      return jsonResponse({ error: 'Permission denied' }, 403);
+    case 'EISDIR':
+    case 'ENOTDIR':
+      return jsonResponse({ error: 'Invalid path type' }, 400);
+    default:
+      return jsonResponse({ error: error instanceof Error ? error.message : 'Internal error' }, 500);
+  }
+};
+
+// The path may arrive as a query parameter or in the JSON body
+const getRequestPath = (req: Request, body: Record<string, unknown> = {}): string => {
+  const url = new URL(req.url);
+  const filePath = url.searchParams.get('path') ?? (typeof body.path === 'string' ? body.path : '');
+
+  if (!filePath) {
+    throw new FileSystemError('Missing "path" parameter', 400);
+  }
+
+  return filePath;
+};
+
+// API route handlers - these will be used by the server
+export async function handleListFiles(req: Request): Promise<Response> {
+  try {
+    const url = new URL(req.url);
+    const files = await listFiles(url.searchParams.get('dir') || '.');
+    return jsonResponse(files);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleReadFile(req: Request): Promise<Response> {
+  try {
+    const filePath = getRequestPath(req);
+    const content = await readFile(filePath);
+    const fileType = getFileType(filePath);
+
+    return jsonResponse({ content, fileType, mimeType: mime.lookup(filePath) || 'text/plain' });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleWriteFile(req: Request): Promise<Response> {
+  try {
+    const declaredLength = Number(req.headers.get('content-length') || 0);
+    if (declaredLength > MAX_FILE_SIZE) {
+      throw new FileSystemError(`Request body exceeds the ${MAX_FILE_SIZE} byte limit`, 413);
+    }
+
+    const body = await readJsonBody(req);
+    const filePath = getRequestPath(req, body);
+
+    if (typeof body.content !== 'string') {
+      throw new FileSystemError('Missing "content" in request body', 400);
+    }
+
+    await writeFile(filePath, body.content);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleDeleteFile(req: Request): Promise<Response> {
+  try {
+    await deleteFile(getRequestPath(req));
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleCreateDirectory(req: Request): Promise<Response> {
+  try {
+    const body = await readJsonBody(req);
+    await createDirectory(getRequestPath(req, body));
+    return jsonResponse({ success: true }, 201);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleRenameFile(req: Request): Promise<Response> {
+  try {
+    const body = await readJsonBody(req);
+    if (typeof body.from !== 'string' || typeof body.to !== 'string') {
+      throw new FileSystemError('Request body needs "from" and "to" paths', 400);
+    }
+
+    await renameFile(body.from, body.to);
+    return jsonResponse({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function handleWorkspaceInfo(req: Request): Promise<Response> {
+  return jsonResponse({ name: path.basename(workspaceRoot) || 'workspace' });
+}
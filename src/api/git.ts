@@ -0,0 +1,246 @@
+// Git for the disk workspace, run through the git CLI in the workspace root
+import { execFile } from 'child_process';
+import path from 'path';
+import { getWorkspaceRoot } from './fileSystem';
+import { HttpError, jsonResponse, readJsonBody } from './http';
+
+// Large enough for `git show` of any file the editor would open
+const MAX_BUFFER = 20 * 1024 * 1024;
+
+class GitCommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitCommandError';
+  }
+}
+
+const git = (args: string[]): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd: getWorkspaceRoot(), maxBuffer: MAX_BUFFER }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new GitCommandError(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+};
+
+// Like git(), for commands whose failure just means "no"
+const tryGit = async (args: string[]): Promise<string | null> => {
+  try {
+    return await git(args);
+  } catch {
+    return null;
+  }
+};
+
+const hasHead = async () => (await tryGit(['rev-parse', '--verify', '-q', 'HEAD'])) !== null;
+
+type ChangeType = 'added' | 'modified' | 'deleted' | 'untracked';
+
+const toChangeType = (code: string): ChangeType | undefined => {
+  switch (code) {
+    case 'A':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'M':
+    case 'T':
+      return 'modified';
+    default:
+      return undefined;
+  }
+};
+
+// Porcelain v1 with -z: "XY path\0" per entry, paths relative to the repository root
+const parseStatus = (output: string) => {
+  return output.split('\0').filter(Boolean).map(line => {
+    const index = line[0];
+    const workdir = line[1];
+    const filePath = line.slice(3);
+
+    if (index === '?') {
+      return { path: filePath, unstaged: 'untracked' as const };
+    }
+    return { path: filePath, staged: toChangeType(index), unstaged: toChangeType(workdir) };
+  });
+};
+
+interface BlameCommit {
+  author: string;
+  timestamp: number;
+  summary: string;
+}
+
+// `git blame --porcelain`: a "<oid> <old line> <new line> [<count>]" header per line, the commit's
+// details after the first header that names it, then the line itself behind a tab
+const parseBlame = (output: string) => {
+  const commits = new Map<string, BlameCommit>();
+  const lines: { oid: string; author: string; timestamp: number; summary: string }[] = [];
+  let current: { oid: string; commit: BlameCommit } | null = null;
+
+  for (const line of output.split('\n')) {
+    if (line.startsWith('\t')) {
+      if (current) lines.push({ oid: current.oid, ...current.commit });
+      current = null;
+    } else if (!current) {
+      const oid = line.split(' ')[0];
+      if (!oid) continue;
+      if (!commits.has(oid)) commits.set(oid, { author: '', timestamp: 0, summary: '' });
+      current = { oid, commit: commits.get(oid)! };
+    } else if (line.startsWith('author ')) {
+      current.commit.author = line.slice('author '.length);
+    } else if (line.startsWith('author-time ')) {
+      current.commit.timestamp = Number(line.slice('author-time '.length)) * 1000;
+    } else if (line.startsWith('summary ')) {
+      current.commit.summary = line.slice('summary '.length);
+    }
+  }
+
+  return lines;
+};
+
+const stringList = (value: unknown): string[] => {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new GitCommandError('"paths" must be a list of paths');
+  }
+  return value;
+};
+
+const requireString = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new GitCommandError(`Missing "${name}"`);
+  }
+  return value;
+};
+
+// Branch names end up in git's arguments, where one starting with "-" would be read as an option
+const requireBranchName = async (value: unknown, name: string): Promise<string> => {
+  const branch = requireString(value, name);
+  if (branch.startsWith('-') || (await tryGit(['check-ref-format', '--branch', branch])) === null) {
+    throw new GitCommandError(`Invalid branch name: ${branch}`);
+  }
+  return branch;
+};
+
+type GitAction = (body: Record<string, unknown>) => Promise<unknown>;
+
+const actions: Record<string, GitAction> = {
+  // Only a repository rooted at the workspace counts, not one further up
+  isRepository: async () => {
+    const topLevel = await tryGit(['rev-parse', '--show-toplevel']);
+    return topLevel !== null && path.resolve(topLevel.trim()) === path.resolve(getWorkspaceRoot());
+  },
+
+  init: async () => {
+    await git(['init', '-q']);
+    await git(['symbolic-ref', 'HEAD', 'refs/heads/main']);
+  },
+
+  status: async () => {
+    return parseStatus(await git(['status', '--porcelain=v1', '-z', '--untracked-files=all', '--no-renames']));
+  },
+
+  currentBranch: async () => {
+    const branch = await tryGit(['symbolic-ref', '--short', '-q', 'HEAD']);
+    return branch?.trim() || null;
+  },
+
+  listBranches: async () => {
+    const output = await git(['for-each-ref', '--format=%(refname:short)', 'refs/heads']);
+    const branches = output.split('\n').filter(Boolean);
+    // Before the first commit the current branch has no ref yet
+    const current = (await tryGit(['symbolic-ref', '--short', '-q', 'HEAD']))?.trim();
+    return current && !branches.includes(current) ? [current, ...branches] : branches;
+  },
+
+  readFile: async (body) => {
+    const filePath = requireString(body.path, 'path');
+    const revision = body.revision === 'INDEX' ? '' : 'HEAD';
+    return tryGit(['show', `${revision}:${filePath}`]);
+  },
+
+  stage: async (body) => {
+    const paths = stringList(body.paths);
+    if (paths.length) await git(['add', '-A', '--', ...paths]);
+  },
+
+  unstage: async (body) => {
+    const paths = stringList(body.paths);
+    if (!paths.length) return;
+
+    if (await hasHead()) {
+      await git(['reset', '-q', '--', ...paths]);
+    } else {
+      await git(['rm', '--cached', '-r', '-q', '--', ...paths]);
+    }
+  },
+
+  commit: async (body) => {
+    const message = requireString(body.message, 'message');
+    const author = (body.author ?? {}) as { name?: unknown; email?: unknown };
+
+    // The user's own git config wins; the IDE's author only fills in when there is none
+    const configured = (await tryGit(['config', 'user.email']))?.trim();
+    const identity = !configured && typeof author.name === 'string' && typeof author.email === 'string'
+      ? ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`]
+      : [];
+
+    await git([...identity, 'commit', '-q', '-m', message]);
+    return (await git(['rev-parse', 'HEAD'])).trim();
+  },
+
+  createBranch: async (body) => {
+    await git(['checkout', '-q', '-b', await requireBranchName(body.name, 'name')]);
+  },
+
+  // The files change on disk, so the file watcher tells the editor what moved
+  checkout: async (body) => {
+    // "--" keeps git from taking the branch for a path
+    await git(['checkout', '-q', await requireBranchName(body.branch, 'branch'), '--']);
+    return { written: [], deleted: [] };
+  },
+
+  log: async (body) => {
+    if (!(await hasHead())) return [];
+
+    const depth = Number(body.depth) > 0 ? Math.floor(Number(body.depth)) : 50;
+    const output = await git(['log', '-n', String(depth), '--format=%H%x00%an%x00%ae%x00%at%x00%B%x1e']);
+
+    return output.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+      const [oid, author, email, timestamp, message] = record.split('\0');
+      return { oid, author, email, timestamp: Number(timestamp) * 1000, message: message.trim() };
+    });
+  },
+
+  blame: async (body) => {
+    const filePath = requireString(body.path, 'path');
+    if (!(await hasHead())) return null;
+
+    const output = await tryGit(['blame', '--porcelain', 'HEAD', '--', filePath]);
+    return output === null ? null : parseBlame(output);
+  },
+};
+
+// POST { action, ...arguments }, answered with { result }
+export async function handleGit(req: Request): Promise<Response> {
+  let body: Record<string, unknown>;
+  try {
+    body = await readJsonBody(req);
+  } catch (error) {
+    return jsonResponse({ error: (error as HttpError).message }, (error as HttpError).status);
+  }
+
+  const name = typeof body.action === 'string' ? body.action : '';
+  if (!Object.prototype.hasOwnProperty.call(actions, name)) {
+    return jsonResponse({ error: 'Unknown git action' }, 400);
+  }
+
+  try {
+    return jsonResponse({ result: (await actions[name](body)) ?? null });
+  } catch (error) {
+    const status = error instanceof GitCommandError ? 400 : 500;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Git failed' }, status);
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { IncomingMessage } from 'http';
+import { rejectRequest, RouteRules, SESSION_HEADER, SESSION_TOKEN } from './http';
+
+const request = (method: string, headers: Record<string, string>, url = '/api/read-file', remoteAddress = '127.0.0.1') => {
+  return { method, url, headers: { host: 'localhost:8080', ...headers }, socket: { remoteAddress } } as unknown as IncomingMessage;
+};
+
+const READ: RouteRules = { method: 'GET', requiresSession: true };
+const WRITE: RouteRules = { method: 'POST', requiresSession: true };
+
+describe('rejectRequest', () => {
+  it('lets the page through with its token', () => {
+    expect(rejectRequest(request('GET', { [SESSION_HEADER]: SESSION_TOKEN }), READ)).toBeNull();
+    expect(rejectRequest(request('GET', {}, `/api/watch?session=${SESSION_TOKEN}`), READ)).toBeNull();
+    expect(rejectRequest(request('POST', {
+      [SESSION_HEADER]: SESSION_TOKEN,
+      'content-type': 'application/json; charset=utf-8',
+      origin: 'http://localhost:8080',
+    }), WRITE)).toBeNull();
+  });
+
+  it('refuses requests without the token, even without an Origin header', () => {
+    expect(rejectRequest(request('GET', {}), READ)?.status).toBe(403);
+    expect(rejectRequest(request('GET', { [SESSION_HEADER]: 'guess' }), READ)?.status).toBe(403);
+  });
+
+  it('refuses hosts other than localhost', () => {
+    const withToken = { [SESSION_HEADER]: SESSION_TOKEN };
+    expect(rejectRequest(request('GET', { ...withToken, host: '192.168.1.20:8080' }), READ)?.status).toBe(403);
+    expect(rejectRequest(request('GET', { ...withToken, host: 'rebound.example.com:8080' }), READ)?.status).toBe(403);
+    expect(rejectRequest(request('GET', { ...withToken, host: '127.0.0.1:8080' }), READ)).toBeNull();
+    expect(rejectRequest(request('GET', { ...withToken, host: '[::1]:8080' }), READ)).toBeNull();
+  });
+
+  it('refuses other machines, whatever host they name', () => {
+    const withToken = { [SESSION_HEADER]: SESSION_TOKEN };
+    const url = '/api/read-file';
+    expect(rejectRequest(request('GET', withToken, url, '192.0.2.2'), READ)?.status).toBe(403);
+    expect(rejectRequest(request('GET', withToken, url, '::ffff:192.0.2.2'), READ)?.status).toBe(403);
+    expect(rejectRequest(request('GET', withToken, url, '::ffff:127.0.0.1'), READ)).toBeNull();
+    expect(rejectRequest(request('GET', withToken, url, '::1'), READ)).toBeNull();
+  });
+
+  it('refuses other origins, wrong methods and writes that are not JSON', () => {
+    const withToken = { [SESSION_HEADER]: SESSION_TOKEN };
+    expect(rejectRequest(request('GET', { ...withToken, origin: 'http://evil.example' }), READ)?.status).toBe(403);
+    expect(rejectRequest(request('POST', withToken), READ)?.status).toBe(405);
+    expect(rejectRequest(request('POST', { ...withToken, 'content-type': 'text/plain' }), WRITE)?.status).toBe(415);
+  });
+});
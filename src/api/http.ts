@@ -0,0 +1,128 @@
+// Helpers shared by the /api route modules, and the checks every request passes before its handler
+import type { IncomingMessage } from 'http';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+export type RouteHandler = (req: Request) => Promise<Response>;
+
+export interface ApiRoute {
+  method: 'GET' | 'POST' | 'DELETE';
+  handler: RouteHandler;
+  // Only for the dev server's own page, which alone knows the session token
+  requiresSession?: boolean;
+}
+
+// What a request is checked against before it reaches a handler
+export type RouteRules = Pick<ApiRoute, 'method' | 'requiresSession'>;
+
+// Error carrying the HTTP status the route handlers should answer with
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const jsonResponse = (body: unknown, status: number = 200) => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
+
+// Read the JSON body, tolerating requests that only carry query parameters
+export const readJsonBody = async (req: Request): Promise<Record<string, unknown>> => {
+  const text = await req.text();
+  if (!text) return {};
+
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    throw new HttpError('Request body must be valid JSON', 400);
+  }
+};
+
+// A page on another site can still send requests here. Browsers always say where a POST or a
+// cross-site fetch comes from, so anything naming an origin other than the dev server's is refused.
+export const isSameOrigin = (req: IncomingMessage) => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// The workspace API runs commands and edits files as the user, so only this machine may use it.
+// The Host header is whatever the client says, so the peer's own address is what keeps other
+// machines out; it reads 127.x, ::1 or, on a dual-stack socket, ::ffff:127.x.
+export const isLoopbackPeer = (req: IncomingMessage) => {
+  const address = req.socket?.remoteAddress?.replace(/^::ffff:/i, '') ?? '';
+  return address === '::1' || /^127(\.\d{1,3}){3}$/.test(address);
+};
+
+// A DNS name can be pointed at the dev server after its page has loaded, and the browser then sends
+// that name as the Host. Requests must name it as localhost, so rebound names get nowhere.
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export const isLocalHost = (req: IncomingMessage) => {
+  try {
+    return LOCAL_HOSTNAMES.has(new URL(`http://${req.headers.host}`).hostname);
+  } catch {
+    return false;
+  }
+};
+
+// A secret for this run of the dev server, handed only to the page it serves (see devServer.ts).
+// The routes ask for it as the header or, from an EventSource or WebSocket, the query parameter.
+export const SESSION_TOKEN = randomBytes(32).toString('hex');
+export const SESSION_HEADER = 'x-workspace-session';
+export const SESSION_PARAM = 'session';
+export const SESSION_META_NAME = 'workspace-session';
+
+export const hasSessionToken = (req: IncomingMessage) => {
+  const header = req.headers[SESSION_HEADER];
+  const token = typeof header === 'string'
+    ? header
+    : new URL(req.url || '', 'http://localhost').searchParams.get(SESSION_PARAM) ?? '';
+
+  const expected = Buffer.from(SESSION_TOKEN);
+  const given = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+// Why a request can't reach its route's handler, or null when it can
+export const rejectRequest = (req: IncomingMessage, route: RouteRules): HttpError | null => {
+  if (req.method !== route.method) {
+    return new HttpError(`Method ${req.method} not allowed`, 405);
+  }
+
+  if (!isLoopbackPeer(req)) {
+    return new HttpError('Requests must come from this machine', 403);
+  }
+
+  if (!isLocalHost(req)) {
+    return new HttpError('Requests must be addressed to localhost', 403);
+  }
+
+  if (!isSameOrigin(req)) {
+    return new HttpError('Cross-origin requests are not allowed', 403);
+  }
+
+  if (route.requiresSession && !hasSessionToken(req)) {
+    return new HttpError('Missing or invalid session token', 403);
+  }
+
+  // A JSON body can't be sent from another site without the browser asking first, unlike text/plain
+  const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  if (route.method === 'POST' && contentType !== 'application/json') {
+    return new HttpError('Content-Type must be application/json', 415);
+  }
+
+  return null;
+};
@@ -0,0 +1,157 @@
+// Pseudo-terminals for the IDE terminal panel, one per WebSocket connection
+import type { Server as HttpServer, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { platform } from 'os';
+import type { IPty } from 'node-pty';
+import { WebSocketServer, WebSocket } from 'ws';
+import { getWorkspaceRoot } from './fileSystem';
+import { hasSessionToken, isLocalHost, isLoopbackPeer, isSameOrigin } from './http';
+
+export const TERMINAL_PATH = '/api/terminal';
+
+// Messages from the browser
+export type TerminalClientMessage =
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+// Messages to the browser
+export type TerminalServerMessage =
+  | { type: 'output'; data: string }
+  | { type: 'exit'; exitCode: number };
+
+const DEFAULT_COLS = 80;
+const DEFAULT_ROWS = 24;
+
+const getDefaultShell = () => {
+  if (platform() === 'win32') {
+    return process.env.COMSPEC || 'powershell.exe';
+  }
+  return process.env.SHELL || 'bash';
+};
+
+// What a shell needs to find its tools and the user's home; the rest of the dev server's
+// environment (API keys, tokens from .env) stays out of it
+const INHERITED_VARIABLES = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LANGUAGE', 'TZ', 'TMPDIR',
+  // Windows
+  'SYSTEMROOT', 'WINDIR', 'COMSPEC', 'PATHEXT', 'USERPROFILE', 'APPDATA', 'LOCALAPPDATA', 'TEMP', 'TMP', 'HOMEDRIVE', 'HOMEPATH',
+];
+
+export const getShellEnvironment = (extra: Record<string, string> = {}): Record<string, string> => {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(process.env)) {
+    if (value !== undefined && (INHERITED_VARIABLES.includes(key.toUpperCase()) || key.startsWith('LC_'))) {
+      env[key] = value;
+    }
+  }
+  return { ...env, ...extra };
+};
+
+// Terminal sizes come from the client, so keep them to something sane
+const toDimension = (value: unknown, fallback: number) => {
+  const number = Math.floor(Number(value));
+  return number > 0 && number <= 1000 ? number : fallback;
+};
+
+const parseMessage = (raw: WebSocket.RawData): TerminalClientMessage | null => {
+  try {
+    const message = JSON.parse(raw.toString());
+    if (message?.type === 'input' && typeof message.data === 'string') return message;
+    if (message?.type === 'resize') return message;
+  } catch {
+    // Ignore anything that isn't one of our messages
+  }
+  return null;
+};
+
+const send = (socket: WebSocket, message: TerminalServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+type PtyModule = typeof import('node-pty');
+
+// node-pty is a native addon that may be missing or have failed to build. Only the terminal needs it,
+// so it's loaded on the first connection and the rest of the dev server runs without it.
+let ptyModule: Promise<PtyModule> | null = null;
+const loadPty = () => {
+  ptyModule ??= import('node-pty');
+  return ptyModule;
+};
+
+// Spawn a shell in the workspace root and wire it to the socket until either side goes away
+const handleConnection = (pty: PtyModule, socket: WebSocket, req: IncomingMessage) => {
+  const url = new URL(req.url || '', 'http://localhost');
+  let shell: IPty;
+  try {
+    shell = pty.spawn(getDefaultShell(), [], {
+      name: 'xterm-256color',
+      cols: toDimension(url.searchParams.get('cols'), DEFAULT_COLS),
+      rows: toDimension(url.searchParams.get('rows'), DEFAULT_ROWS),
+      cwd: getWorkspaceRoot(),
+      env: getShellEnvironment({ TERM: 'xterm-256color', COLORTERM: 'truecolor' }),
+    });
+  } catch (error) {
+    // A missing shell or workspace root ends this terminal, not the dev server
+    console.error('Error starting terminal shell:', error);
+    send(socket, { type: 'output', data: `Could not start a shell: ${error instanceof Error ? error.message : error}\r\n` });
+    send(socket, { type: 'exit', exitCode: 1 });
+    socket.close();
+    return;
+  }
+
+  shell.onData(data => send(socket, { type: 'output', data }));
+  shell.onExit(({ exitCode }) => {
+    send(socket, { type: 'exit', exitCode });
+    socket.close();
+  });
+
+  socket.on('message', raw => {
+    const message = parseMessage(raw);
+    if (!message) return;
+
+    if (message.type === 'input') {
+      shell.write(message.data);
+    } else {
+      shell.resize(toDimension(message.cols, shell.cols), toDimension(message.rows, shell.rows));
+    }
+  });
+
+  socket.on('close', () => {
+    try {
+      shell.kill();
+    } catch {
+      // Already exited
+    }
+  });
+};
+
+// Take over WebSocket upgrades for the terminal path; everything else (e.g. Vite's HMR) is left alone.
+// A shell is only handed to the dev server's own page, which alone knows the session token; browsers
+// let any site open a WebSocket to localhost. Returns a function that closes every open terminal.
+export const attachTerminalServer = (httpServer: HttpServer) => {
+  const wss = new WebSocketServer({ noServer: true });
+
+  const handleUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (req.url?.split('?')[0] !== TERMINAL_PATH) return;
+    if (!isLoopbackPeer(req) || !isLocalHost(req) || !isSameOrigin(req) || !hasSessionToken(req)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    loadPty().then(
+      pty => wss.handleUpgrade(req, socket, head, ws => handleConnection(pty, ws, req)),
+      error => {
+        console.error('Error loading node-pty, the terminal is unavailable:', error);
+        socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n');
+      }
+    );
+  };
+  httpServer.on('upgrade', handleUpgrade);
+
+  return () => {
+    httpServer.off('upgrade', handleUpgrade);
+    wss.clients.forEach(client => client.terminate());
+    wss.close();
+  };
+};
@@ -1,44 +1,41 @@
 import { useState, useRef, useEffect } from 'react';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import ReactMarkdown from 'react-markdown';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { useFileContext } from './FileContextProvider';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
-const systemPrompt = `You are CodeBuddy, an expert programming assistant. Your role is to:
-1. Help users with coding tasks, debugging, and best practices
-2. Provide clear, concise explanations with code examples
-3. Follow modern development standards and patterns
-4. Consider security, performance, and maintainability
-5. Use markdown formatting for better readability
-6. Include relevant documentation links when helpful
-7. Break down complex problems into manageable steps
-8. Suggest improvements and optimizations
-9. Help with both frontend and backend development
-10. Maintain a friendly and professional tone`;
+import { Settings, History, SquarePen } from 'lucide-react';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { useChat } from '@/hooks/use-chat';
+import { useChatContext } from '@/hooks/use-chat-context';
+import { useAssistantRequests } from '@/hooks/use-assistant-requests';
+import { MarkdownMessage } from './chat/MarkdownMessage';
+import { AssistantMessage } from './chat/AssistantMessage';
+import { ContextSummary } from './chat/ContextSummary';
+import { ContextChips } from './chat/ContextChips';
+import { ConversationList } from './chat/ConversationList';
+import { UserMessage } from './chat/UserMessage';
 
 export function CodeBuddyChat() {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const { files, currentFile, setCurrentFile } = useFileContext();
+  const { settings, activeProvider, openSettings } = useAISettings();
+  // Prepare file context for the AI
+  const { getContext, pinnedPaths, excludedPaths, unpin, unexclude } = useChatContext();
 
-  const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY);
-  const model = genAI.getGenerativeModel({
-    model: "gemini-pro",
-    generationConfig: {
-      temperature: 0.7,
-      topP: 0.95,
-      topK: 64,
-      maxOutputTokens: 65536,
-    },
-  });
+  const {
+    messages,
+    conversation,
+    projectId,
+    isStreaming,
+    sendMessage,
+    editMessage,
+    stop,
+    retry,
+    getBranchInfo,
+    switchBranch,
+    newConversation,
+    openConversation,
+    renameConversation
+  } = useChat({ getContext });
+  // Messages from the editor's "Ask AI" actions land here
+  useAssistantRequests(sendMessage, Boolean(conversation), isStreaming);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -48,123 +45,128 @@ export function CodeBuddyChat() {
     scrollToBottom();
   }, [messages]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (isStreaming) {
+      stop();
+      return;
+    }
     if (!input.trim()) return;
 
-    const userMessage = input.trim();
+    sendMessage(input);
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', content: userMessage }]);
-    setIsLoading(true);
-
-    try {
-      // Prepare file context for the AI
-      const fileContext = files.map(file => ({
-        path: file.path,
-        content: file.content,
-        isOpen: file.isOpen
-      })).filter(file => file.content); // Only include files with content
-      
-      const currentFileInfo = currentFile 
-        ? files.find(f => f.path === currentFile) 
-        : null;
-      
-      const fileContextMessage = `Current workspace files:\n${JSON.stringify(fileContext, null, 2)}\n\n${
-        currentFileInfo ? `Currently open file: ${currentFileInfo.path}\nFile type: ${currentFileInfo.fileType}\nContent:\n\`\`\`${currentFileInfo.fileType}\n${currentFileInfo.content}\n\`\`\`` : 'No file currently open.'
-      }`;
-      
-      const chat = model.startChat({
-        history: [
-          {
-            role: 'user',
-            parts: [{ text: fileContextMessage }],
-          },
-          {
-            role: 'model',
-            parts: [{ text: 'I understand the file context. How can I help you with your code?' }],
-          },
-          ...messages.map(msg => ({
-            role: msg.role,
-            parts: [{ text: msg.content }],
-          })),
-        ],
-      });
-
-      const result = await chat.sendMessage(userMessage);
-      const response = await result.response;
-      const text = response.text();
-
-      setMessages(prev => [...prev, { role: 'assistant', content: text }]);
-    } catch (error) {
-      console.error('Error:', error);
-      setMessages(prev => [...prev, { 
-        role: 'assistant', 
-        content: 'Sorry, I encountered an error. Please try again.' 
-      }]);
-    } finally {
-      setIsLoading(false);
-    }
   };
 
   return (
-    <div className="flex flex-col h-screen bg-gray-900 text-gray-100">
+    <div className="relative flex flex-col h-screen bg-gray-900 text-gray-100">
+      {showHistory && projectId && (
+        <ConversationList
+          projectId={projectId}
+          currentId={conversation?.id}
+          onOpen={openConversation}
+          onNew={newConversation}
+          onRename={renameConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message, index) => (
+        {messages.map((message) => (
           <div
-            key={index}
+            key={message.id}
             className={`${
               message.role === 'user'
                 ? 'ml-auto bg-blue-600 rounded-tl-lg rounded-tr-lg rounded-bl-lg'
                 : 'bg-gray-800 w-full'
             } p-4 max-w-3xl`}
           >
-            <ReactMarkdown
-              components={{
-                code({ node, inline, className, children, ...props }) {
-                  const match = /language-(\w+)/.exec(className || '');
-                  return !inline && match ? (
-                    <SyntaxHighlighter
-                      style={vscDarkPlus}
-                      language={match[1]}
-                      PreTag="div"
-                      {...props}
-                    >
-                      {String(children).replace(/\n$/, '')}
-                    </SyntaxHighlighter>
-                  ) : (
-                    <code className={className} {...props}>
-                      {children}
-                    </code>
-                  );
-                },
-              }}
-            >
-              {message.content}
-            </ReactMarkdown>
+            {message.role === 'assistant' ? (
+              <AssistantMessage content={message.content} />
+            ) : (
+              <UserMessage
+                content={message.content}
+                branch={getBranchInfo(message)}
+                disabled={isStreaming}
+                onEdit={(text) => editMessage(message.id, text)}
+                onSwitchBranch={(offset) => switchBranch(message.id, offset)}
+              >
+                <MarkdownMessage content={message.content} />
+              </UserMessage>
+            )}
+            {message.context && <ContextSummary report={message.context} />}
+            {message.status === 'streaming' && !message.content && (
+              <span className="text-gray-400 animate-pulse">Thinking...</span>
+            )}
+            {message.status === 'cancelled' && (
+              <div className="mt-2 text-xs text-gray-400">Response stopped</div>
+            )}
+            {message.status === 'error' && (
+              <div className="mt-2 text-sm text-red-400">
+                {message.error}
+                <button
+                  onClick={retry}
+                  disabled={isStreaming}
+                  className="ml-3 underline hover:text-red-300 disabled:opacity-50"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
           </div>
         ))}
         <div ref={messagesEndRef} />
       </div>
 
       <form onSubmit={handleSubmit} className="p-4 border-t border-gray-700">
+        <ContextChips
+          pinnedPaths={pinnedPaths}
+          excludedPaths={excludedPaths}
+          onUnpin={unpin}
+          onUnexclude={unexclude}
+        />
         <div className="flex space-x-4">
+          <button
+            type="button"
+            onClick={openSettings}
+            title={`${activeProvider.label}: ${settings.providers[settings.provider].model}`}
+            className="text-gray-400 hover:text-gray-100 focus:outline-none"
+          >
+            <Settings size={18} />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowHistory(true)}
+            disabled={!projectId}
+            title="Conversations"
+            className="text-gray-400 hover:text-gray-100 focus:outline-none"
+          >
+            <History size={18} />
+          </button>
+          <button
+            type="button"
+            onClick={newConversation}
+            disabled={!projectId}
+            title="New conversation"
+            className="text-gray-400 hover:text-gray-100 focus:outline-none"
+          >
+            <SquarePen size={18} />
+          </button>
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder="Ask me anything about coding..."
+            placeholder="Ask me anything about coding... (@file to pin, @!file to exclude)"
             className="flex-1 bg-gray-800 text-gray-100 rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-            disabled={isLoading}
           />
           <button
             type="submit"
-            disabled={isLoading}
+            disabled={!isStreaming && !input.trim()}
             className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
           >
-            {isLoading ? 'Thinking...' : 'Send'}
+            {isStreaming ? 'Stop' : 'Send'}
           </button>
         </div>
       </form>
     </div>
   );
-} 
\ No newline at end of file
+}
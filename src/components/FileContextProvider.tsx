@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect } from 'react';
-import { fileWatcher } from '../api/fileSystem';
+import { createContext, useContext, useMemo } from 'react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { flattenFiles, toStoragePath, toTreePath } from '@/lib/storage/tree';
 
 interface FileInfo {
   path: string;
@@ -20,168 +21,66 @@ interface FileContextType {
 
 const FileContext = createContext<FileContextType | null>(null);
 
+// Flat, path-based view of the workspace for components that work with plain file lists.
+// Everything goes through FileSystemContext, so these components see the same files as the editor.
 export function FileContextProvider({ children }: { children: React.ReactNode }) {
-  const [files, setFiles] = useState<FileInfo[]>([]);
-  const [currentFile, setCurrentFile] = useState<string | null>(null);
+  const {
+    files: tree,
+    selectedFile,
+    selectFile,
+    getFileByPath,
+    writeFileAtPath,
+    deleteFile: deleteItem,
+    createFile,
+    reloadFileSystem
+  } = useFileSystem();
 
-  const readFileContent = async (path: string): Promise<{ content: string; fileType: string }> => {
-    try {
-      const response = await fetch(`/api/read-file?path=${encodeURIComponent(path)}`);
-      if (!response.ok) throw new Error('Failed to read file');
-      return await response.json();
-    } catch (error) {
-      console.error(`Error reading file ${path}:`, error);
-      return { content: '', fileType: 'plaintext' };
-    }
-  };
+  const files = useMemo<FileInfo[]>(() => {
+    return flattenFiles(tree).map(file => ({
+      path: toStoragePath(file.path),
+      content: file.content || '',
+      fileType: file.language || 'plaintext',
+      isOpen: file.id === selectedFile
+    }));
+  }, [tree, selectedFile]);
+
+  const currentFile = files.find(file => file.isOpen)?.path ?? null;
 
-  const listFiles = async (): Promise<string[]> => {
-    try {
-      const response = await fetch('/api/list-files');
-      if (!response.ok) throw new Error('Failed to list files');
-      return await response.json();
-    } catch (error) {
-      console.error('Error listing files:', error);
-      return [];
+  const setCurrentFile = (path: string) => {
+    const item = getFileByPath(path);
+    if (item) {
+      selectFile(item.id);
     }
   };
 
-  const refreshFiles = async () => {
-    try {
-      const filePaths = await listFiles();
-      const fileInfos = await Promise.all(
-        filePaths.map(async (path) => {
-          const { content, fileType } = await readFileContent(path);
-          return {
-            path,
-            content,
-            fileType,
-            isOpen: path === currentFile
-          };
-        })
-      );
-      setFiles(fileInfos);
-    } catch (error) {
-      console.error('Error refreshing files:', error);
-    }
+  const refreshFiles = () => {
+    reloadFileSystem();
   };
 
   const writeFile = async (path: string, content: string): Promise<void> => {
-    try {
-      const response = await fetch(`/api/write-file?path=${encodeURIComponent(path)}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ content }),
-      });
-      
-      if (!response.ok) throw new Error('Failed to write file');
-      
-      // Update the file in the state
-      setFiles(prev => 
-        prev.map(file => 
-          file.path === path 
-            ? { ...file, content } 
-            : file
-        )
-      );
-    } catch (error) {
-      console.error(`Error writing file ${path}:`, error);
-      throw error;
+    if (!writeFileAtPath(path, content)) {
+      throw new Error(`Cannot write ${path}`);
     }
   };
 
   const deleteFile = async (path: string): Promise<void> => {
-    try {
-      const response = await fetch(`/api/delete-file?path=${encodeURIComponent(path)}`, {
-        method: 'DELETE',
-      });
-      
-      if (!response.ok) throw new Error('Failed to delete file');
-      
-      // Remove the file from the state
-      setFiles(prev => prev.filter(file => file.path !== path));
-      
-      // If the deleted file was the current file, clear the current file
-      if (path === currentFile) {
-        setCurrentFile(null);
-      }
-    } catch (error) {
-      console.error(`Error deleting file ${path}:`, error);
-      throw error;
+    const item = getFileByPath(path);
+    if (!item) {
+      throw new Error(`File not found: ${path}`);
     }
+    deleteItem(item.id);
   };
 
   const createDirectory = async (path: string): Promise<void> => {
-    try {
-      const response = await fetch(`/api/create-directory?path=${encodeURIComponent(path)}`, {
-        method: 'POST',
-      });
-      
-      if (!response.ok) throw new Error('Failed to create directory');
-      
-      // Refresh the file list to include any new files in the directory
-      refreshFiles();
-    } catch (error) {
-      console.error(`Error creating directory ${path}:`, error);
-      throw error;
+    const parts = path.split('/').filter(Boolean);
+    const parentPath = toTreePath(tree[0].path, parts.slice(0, -1).join('/'));
+
+    if (!getFileByPath(parentPath)) {
+      throw new Error(`Parent folder not found for ${path}`);
     }
+    createFile(parentPath, parts[parts.length - 1], 'folder');
   };
 
-  // Set up file watcher
-  useEffect(() => {
-    const handleFileAdded = (path: string) => {
-      readFileContent(path).then(({ content, fileType }) => {
-        setFiles(prev => [...prev, { path, content, fileType, isOpen: false }]);
-      });
-    };
-    
-    const handleFileChanged = (path: string) => {
-      readFileContent(path).then(({ content, fileType }) => {
-        setFiles(prev => 
-          prev.map(file => 
-            file.path === path 
-              ? { ...file, content, fileType } 
-              : file
-          )
-        );
-      });
-    };
-    
-    const handleFileRemoved = (path: string) => {
-      setFiles(prev => prev.filter(file => file.path !== path));
-      if (path === currentFile) {
-        setCurrentFile(null);
-      }
-    };
-    
-    fileWatcher.on('fileAdded', handleFileAdded);
-    fileWatcher.on('fileChanged', handleFileChanged);
-    fileWatcher.on('fileRemoved', handleFileRemoved);
-    
-    return () => {
-      fileWatcher.off('fileAdded', handleFileAdded);
-      fileWatcher.off('fileChanged', handleFileChanged);
-      fileWatcher.off('fileRemoved', handleFileRemoved);
-    };
-  }, [currentFile]);
-
-  // Initial file load
-  useEffect(() => {
-    refreshFiles();
-  }, []);
-
-  // Update isOpen state when currentFile changes
-  useEffect(() => {
-    setFiles(prev => 
-      prev.map(file => ({
-        ...file,
-        isOpen: file.path === currentFile
-      }))
-    );
-  }, [currentFile]);
-
   return (
     <FileContext.Provider value={{ 
       files, 
@@ -203,4 +102,4 @@ export function useFileContext() {
     throw new Error('useFileContext must be used within a FileContextProvider');
   }
   return context;
-} 
\ No newline at end of file
+}
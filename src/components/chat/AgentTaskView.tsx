@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import {
+  Ban,
+  Bot,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  FilePen,
+  FilePlus,
+  FileSearch,
+  FileText,
+  FileX,
+  FolderTree,
+  Loader,
+  ShieldAlert,
+  Terminal,
+  Undo2,
+  User,
+  X
+} from 'lucide-react';
+import type { AgentStep, AgentTask, PermissionDecision } from '@/hooks/use-agent';
+import { ToolName, describeToolCall } from '@/lib/ai/agent/tools';
+import { ContextSummary } from './ContextSummary';
+import { MarkdownMessage } from './MarkdownMessage';
+
+const TOOL_ICONS: Record<ToolName, typeof FileText> = {
+  list_files: FolderTree,
+  read_file: FileText,
+  search: FileSearch,
+  write_file: FilePlus,
+  edit_file: FilePen,
+  delete_file: FileX,
+  run_command: Terminal,
+};
+
+const STATUS_LABELS: Record<AgentTask['status'], string> = {
+  running: 'Working',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Stopped',
+  reverted: 'Reverted',
+};
+
+type ToolStep = Extract<AgentStep, { kind: 'tool' }>;
+
+const StepStatusIcon = ({ status }: { status: ToolStep['status'] }) => {
+  switch (status) {
+    case 'waiting':
+      return <ShieldAlert size={12} className="text-yellow-400" />;
+    case 'running':
+      return <Loader size={12} className="animate-spin" />;
+    case 'done':
+      return <Check size={12} className="text-green-400" />;
+    case 'error':
+      return <X size={12} className="text-red-400" />;
+    case 'denied':
+      return <Ban size={12} className="text-slate-400" />;
+  }
+};
+
+interface ToolStepRowProps {
+  step: ToolStep;
+  onPermission: (decision: PermissionDecision) => void;
+}
+
+// One tool call; its output is collapsed until clicked
+function ToolStepRow({ step, onPermission }: ToolStepRowProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const Icon = TOOL_ICONS[step.call.tool];
+  const hasOutput = Boolean(step.output);
+
+  return (
+    <div className="text-xs">
+      <button
+        className="flex w-full items-center gap-1.5 text-left opacity-90 hover:opacity-100 disabled:cursor-default"
+        onClick={() => setIsExpanded(prev => !prev)}
+        disabled={!hasOutput}
+      >
+        <StepStatusIcon status={step.status} />
+        <Icon size={12} className="shrink-0 text-blue-300" />
+        <span className="flex-1 truncate font-mono" title={describeToolCall(step.call)}>
+          {describeToolCall(step.call)}
+        </span>
+        {hasOutput && (isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+      </button>
+
+      {isExpanded && step.output && (
+        <pre className="mt-1 ml-5 max-h-60 overflow-auto whitespace-pre-wrap rounded bg-black/30 p-2 font-mono text-[11px]">
+          {step.output}
+        </pre>
+      )}
+
+      {step.status === 'waiting' && (
+        <div className="mt-1.5 ml-5 rounded border border-yellow-500/40 bg-yellow-500/10 p-2">
+          <div className="mb-2">Allow AI Coworker to {describeToolCall(step.call).replace(/^\w/, letter => letter.toLowerCase())}?</div>
+          <div className="flex flex-wrap gap-1.5">
+            <button className="rounded bg-blue-600 px-2 py-0.5 hover:bg-blue-500" onClick={() => onPermission('allow')}>
+              Allow
+            </button>
+            <button className="rounded bg-gray-600 px-2 py-0.5 hover:bg-gray-500" onClick={() => onPermission('allow-all')}>
+              Allow all for this task
+            </button>
+            <button className="rounded bg-gray-600 px-2 py-0.5 hover:bg-gray-500" onClick={() => onPermission('deny')}>
+              Deny
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface AgentTaskViewProps {
+  task: AgentTask;
+  canRevert: boolean;
+  onPermission: (decision: PermissionDecision) => void;
+  onRevert: () => void;
+}
+
+// A task and the timeline of what the agent did for it
+export function AgentTaskView({ task, canRevert, onPermission, onRevert }: AgentTaskViewProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const toolSteps = task.steps.filter(step => step.kind === 'tool').length;
+  const isRunning = task.status === 'running';
+
+  return (
+    <div className="space-y-2">
+      <div className="chat-bubble-user">
+        <div className="flex items-center mb-1">
+          <User size={14} className="mr-1 text-green-400" />
+          <span className="text-xs opacity-75">Task</span>
+        </div>
+        <div className="whitespace-pre-wrap text-sm">{task.prompt}</div>
+        {task.context && <ContextSummary report={task.context} />}
+      </div>
+
+      <div className="chat-bubble-ai">
+        <div className="flex items-center mb-1 text-xs">
+          <Bot size={14} className="mr-1 text-blue-400" />
+          <span className="opacity-75">AI Coworker • {STATUS_LABELS[task.status]}</span>
+          {task.steps.length > 0 && (
+            <button
+              className="ml-auto flex items-center opacity-75 hover:opacity-100"
+              onClick={() => setIsCollapsed(prev => !prev)}
+            >
+              {isCollapsed ? <ChevronRight size={12} /> : <ChevronDown size={12} />}
+              <span className="ml-0.5">{toolSteps} {toolSteps === 1 ? 'step' : 'steps'}</span>
+            </button>
+          )}
+        </div>
+
+        {!isCollapsed && task.steps.length > 0 && (
+          <div className="my-2 space-y-1.5 border-l border-gray-500 pl-2">
+            {task.steps.map(step => step.kind === 'message' ? (
+              <MarkdownMessage key={step.id} content={step.content} />
+            ) : (
+              <ToolStepRow key={step.id} step={step} onPermission={onPermission} />
+            ))}
+          </div>
+        )}
+
+        {isRunning && task.thinking && (
+          <div className="text-sm opacity-75 animate-pulse">Thinking...</div>
+        )}
+        {task.answer && <MarkdownMessage content={task.answer} />}
+        {task.status === 'error' && <div className="mt-1 text-sm text-red-400">{task.error}</div>}
+
+        {task.changedPaths.length > 0 && (
+          <div className="mt-2 flex items-center gap-2 border-t border-gray-600 pt-2 text-xs">
+            <span className="flex-1 truncate opacity-75" title={task.changedPaths.join('\n')}>
+              {task.status === 'reverted' ? 'Reverted' : 'Changed'} {task.changedPaths.length} {task.changedPaths.length === 1 ? 'file' : 'files'}
+            </span>
+            {canRevert && (
+              <button
+                className="flex items-center rounded px-1.5 py-0.5 hover:bg-gray-600"
+                onClick={onRevert}
+                title={task.ranCommands
+                  ? 'Undo every file change this task made; changes made by the commands it ran are kept'
+                  : 'Undo every file change this task made'}
+              >
+                <Undo2 size={12} className="mr-1" />
+                Revert task
+              </button>
+            )}
+          </div>
+        )}
+        {task.changedPaths.length > 0 && task.ranCommands && (
+          <div className="mt-1 flex items-center text-xs opacity-75">
+            <Terminal size={12} className="mr-1 flex-shrink-0" />
+            Reverting doesn't undo what the task's commands changed.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
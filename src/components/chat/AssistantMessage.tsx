@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { parseEditProposals } from '@/lib/ai/editProposals';
+import { MarkdownMessage } from './MarkdownMessage';
+import { EditProposalCard } from './EditProposalCard';
+
+interface AssistantMessageProps {
+  content: string;
+  className?: string;
+}
+
+// Assistant reply: markdown, with edit proposals rendered as reviewable diffs
+export function AssistantMessage({ content, className }: AssistantMessageProps) {
+  const { files } = useFileSystem();
+  const rootPath = files[0]?.path;
+  const segments = useMemo(() => parseEditProposals(content, rootPath), [content, rootPath]);
+
+  return (
+    <div className={className}>
+      {segments.map((segment, index) => segment.type === 'edit' ? (
+        <EditProposalCard key={segment.proposal.key} proposal={segment.proposal} />
+      ) : (
+        <MarkdownMessage key={index} content={segment.content} />
+      ))}
+    </div>
+  );
+}
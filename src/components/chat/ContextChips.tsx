@@ -0,0 +1,42 @@
+import { EyeOff, Pin, X } from 'lucide-react';
+
+interface ContextChipsProps {
+  pinnedPaths: string[];
+  excludedPaths: string[];
+  onUnpin: (path: string) => void;
+  onUnexclude: (path: string) => void;
+}
+
+const fileName = (path: string) => path.split('/').pop() || path;
+
+// Files pinned into or kept out of the chat context with @mentions
+export function ContextChips({ pinnedPaths, excludedPaths, onUnpin, onUnexclude }: ContextChipsProps) {
+  if (pinnedPaths.length === 0 && excludedPaths.length === 0) return null;
+
+  const chips = [
+    ...pinnedPaths.map(path => ({ path, excluded: false })),
+    ...excludedPaths.map(path => ({ path, excluded: true })),
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {chips.map(({ path, excluded }) => (
+        <span
+          key={`${excluded}:${path}`}
+          className={`flex items-center px-1.5 py-0.5 text-xs rounded-sm bg-sidebar border border-border ${excluded ? 'text-slate-400 line-through' : 'text-blue-400'}`}
+          title={excluded ? `${path} is left out of the context` : `${path} is always sent`}
+        >
+          {excluded ? <EyeOff size={10} className="mr-1" /> : <Pin size={10} className="mr-1" />}
+          {fileName(path)}
+          <button
+            className="ml-1 hover:text-white"
+            onClick={() => excluded ? onUnexclude(path) : onUnpin(path)}
+            title={excluded ? 'Include again' : 'Unpin'}
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { ContextReason, ContextReport } from '@/lib/ai/workspaceContext';
+
+const REASON_LABELS: Record<ContextReason, string> = {
+  active: 'open file',
+  selection: 'selection',
+  pinned: 'pinned',
+  imported: 'imported',
+  importer: 'imports open file',
+  related: 'related',
+  open: 'open tab',
+  recent: 'recent',
+  workspace: 'workspace',
+};
+
+// Omitted files beyond this are only counted
+const MAX_OMITTED_SHOWN = 10;
+
+const formatTokens = (tokens: number) => {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+};
+
+// What workspace context a message was sent with, collapsed to one line by default
+export function ContextSummary({ report }: { report: ContextReport }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const fileCount = new Set(report.entries.map(entry => entry.path)).size;
+
+  return (
+    <div className="mt-1 text-xs opacity-75">
+      <button
+        className="flex items-center hover:opacity-100"
+        onClick={() => setIsExpanded(prev => !prev)}
+      >
+        {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+        <span className="ml-0.5">
+          Context: {fileCount} {fileCount === 1 ? 'file' : 'files'} · ~{formatTokens(report.tokens)} of {formatTokens(report.budget)} tokens
+        </span>
+      </button>
+      {isExpanded && (
+        <div className="mt-1 ml-3 space-y-0.5">
+          {report.entries.map(entry => (
+            <div key={`${entry.reason}:${entry.path}`} className="flex justify-between gap-3">
+              <span className="truncate font-mono" title={entry.path}>{entry.path}</span>
+              <span className="shrink-0">
+                {REASON_LABELS[entry.reason]}{entry.truncated ? ', truncated' : ''} · {formatTokens(entry.tokens)}
+              </span>
+            </div>
+          ))}
+          {report.omitted.length > 0 && (
+            <div className="pt-1" title={report.omitted.join('\n')}>
+              Left out to fit the budget: {report.omitted.slice(0, MAX_OMITTED_SHOWN).join(', ')}
+              {report.omitted.length > MAX_OMITTED_SHOWN && ` and ${report.omitted.length - MAX_OMITTED_SHOWN} more`}
+            </div>
+          )}
+          {report.excluded.length > 0 && (
+            <div className="pt-1">Excluded: {report.excluded.join(', ')}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
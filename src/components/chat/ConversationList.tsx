@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Braces, FileText, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { ConversationSummary, conversationToJSON, conversationToMarkdown } from '@/lib/ai/conversations';
+import {
+  deleteConversation,
+  listConversations,
+  loadConversation,
+  subscribeToConversations,
+} from '@/lib/ai/conversationStore';
+import { downloadFile, toFileName } from '@/lib/download';
+import { toast } from 'sonner';
+
+interface ConversationListProps {
+  projectId: string;
+  currentId?: string;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onClose: () => void;
+}
+
+// Stored conversations of the current project, shown over a chat panel's messages
+export function ConversationList({ projectId, currentId, onOpen, onNew, onRename, onClose }: ConversationListProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+
+  useEffect(() => {
+    const refresh = () => {
+      listConversations(projectId)
+        .then(setConversations)
+        .catch(error => console.error('Failed to list conversations:', error));
+    };
+
+    refresh();
+    return subscribeToConversations(changedProjectId => {
+      if (changedProjectId === projectId) refresh();
+    });
+  }, [projectId]);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setRenamingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const finishRename = () => {
+    if (renamingId && title.trim()) {
+      onRename(renamingId, title.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (conversation: ConversationSummary) => {
+    try {
+      await deleteConversation(conversation);
+      toast.success(`Deleted "${conversation.title}"`);
+    } catch (error) {
+      toast.error(`Failed to delete "${conversation.title}"`);
+    }
+  };
+
+  const handleExport = async (summary: ConversationSummary, format: 'md' | 'json') => {
+    try {
+      const conversation = await loadConversation(summary.id);
+      if (!conversation) return;
+
+      downloadFile(
+        `${toFileName(conversation.title, 'conversation')}.${format}`,
+        format === 'md' ? conversationToMarkdown(conversation) : conversationToJSON(conversation),
+        format === 'md' ? 'text/markdown' : 'application/json'
+      );
+    } catch (error) {
+      toast.error(`Failed to export "${summary.title}"`);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-10 flex flex-col bg-sidebar text-sidebar-foreground">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-sm font-medium opacity-90">Conversations</span>
+        <div className="flex items-center gap-1">
+          <button
+            className="p-1 text-slate-400 hover:text-white rounded-sm"
+            onClick={() => {
+              onNew();
+              onClose();
+            }}
+            title="New conversation"
+          >
+            <Plus size={14} />
+          </button>
+          <button className="p-1 text-slate-400 hover:text-white rounded-sm" onClick={onClose} title="Close">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {conversations.length === 0 && (
+          <div className="px-2 py-3 text-xs opacity-60">No saved conversations in this project yet.</div>
+        )}
+        {conversations.map(conversation => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-1 px-2 py-1.5 rounded-sm hover:bg-[#cccccc29] ${conversation.id === currentId ? 'bg-[#cccccc1a]' : ''}`}
+          >
+            {renamingId === conversation.id ? (
+              <input
+                autoFocus
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="flex-1 min-w-0 bg-terminal border border-border rounded-sm px-1 text-sm"
+              />
+            ) : (
+              <button
+                className="flex-1 min-w-0 text-left"
+                onClick={() => {
+                  onOpen(conversation.id);
+                  onClose();
+                }}
+              >
+                <div className="truncate text-sm">{conversation.title}</div>
+                <div className="text-xs opacity-60">
+                  {formatDistanceToNow(conversation.updatedAt, { addSuffix: true })}
+                </div>
+              </button>
+            )}
+            <div className="flex shrink-0 items-center opacity-0 group-hover:opacity-100">
+              <button className="p-1 text-slate-400 hover:text-white" onClick={() => startRename(conversation)} title="Rename">
+                <Pencil size={12} />
+              </button>
+              <button className="p-1 text-slate-400 hover:text-white" onClick={() => handleExport(conversation, 'md')} title="Export as Markdown">
+                <FileText size={12} />
+              </button>
+              <button className="p-1 text-slate-400 hover:text-white" onClick={() => handleExport(conversation, 'json')} title="Export as JSON">
+                <Braces size={12} />
+              </button>
+              <button className="p-1 text-slate-400 hover:text-red-400" onClick={() => handleDelete(conversation)} title="Delete">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
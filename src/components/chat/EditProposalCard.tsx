@@ -0,0 +1,236 @@
+import { useRef, useState } from 'react';
+import { DiffEditor, DiffOnMount } from '@monaco-editor/react';
+import { Check, FilePlus, FileX, FileDiff, X } from 'lucide-react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { EditProposal } from '@/lib/ai/editProposals';
+import { applyHunk, computeHunks, DiffHunk, formatHunkHeader, revertHunk, splitLines } from '@/lib/diff';
+import { getLanguageFromExtension } from '@/lib/languages';
+import { toast } from 'sonner';
+
+type Resolution = 'applied' | 'rejected' | 'partial';
+
+const LINE_HEIGHT = 19;
+const MAX_EDITOR_HEIGHT = 320;
+
+const ACTION_ICONS = {
+  create: FilePlus,
+  modify: FileDiff,
+  delete: FileX,
+};
+
+// Files usually end with a newline while fenced blocks can't show one; follow the current file
+const matchTrailingNewline = (proposed: string, current: string) => {
+  if (current.endsWith('\n') && !proposed.endsWith('\n')) return `${proposed}\n`;
+  return proposed;
+};
+
+// Inline diff of an AI edit proposal against the workspace, with accept/reject per hunk or per file
+export function EditProposalCard({ proposal }: { proposal: EditProposal }) {
+  const { files, getFileByPath, createFile, updateFileContent, deleteFile, addLogMessage } = useFileSystem();
+  const { editorTheme } = useTheme();
+  const diffEditorRef = useRef<Parameters<DiffOnMount>[0] | null>(null);
+
+  const file = getFileByPath(proposal.path);
+  const current = file?.type === 'file' ? file.content || '' : '';
+
+  // The proposal as still on offer; rejected hunks are reverted here, accepted ones land in the file
+  const [proposed, setProposed] = useState(() =>
+    proposal.action === 'delete' ? '' : matchTrailingNewline(proposal.content, current)
+  );
+  const [resolution, setResolution] = useState<Resolution | null>(null);
+  const [hasAccepted, setHasAccepted] = useState(false);
+  const [hasRejected, setHasRejected] = useState(false);
+
+  const isDelete = proposal.action === 'delete';
+  const hunks = isDelete ? [] : computeHunks(current, proposed);
+  const Icon = ACTION_ICONS[proposal.action];
+
+  // Write content to the proposal's path, creating the file and any missing folders first
+  const writeContent = (content: string) => {
+    if (file?.type === 'file') {
+      updateFileContent(file.id, content);
+      return true;
+    }
+    if (file) {
+      toast.error(`${proposal.path} is a folder`);
+      return false;
+    }
+
+    const root = files[0];
+    if (!root) return false;
+
+    const parts = proposal.path.split('/');
+    let parentPath = root.path;
+    for (const folder of parts.slice(0, -1)) {
+      const folderPath = `${parentPath}/${folder}`;
+      const existing = getFileByPath(folderPath);
+      if (existing && existing.type !== 'folder') {
+        toast.error(`${folderPath} is a file`);
+        return false;
+      }
+      if (!existing) createFile(parentPath, folder, 'folder');
+      parentPath = folderPath;
+    }
+
+    const id = createFile(parentPath, parts[parts.length - 1], 'file');
+    if (!id) return false;
+    updateFileContent(id, content);
+    return true;
+  };
+
+  const finishIfDone = (remaining: number, accepted: boolean, rejected: boolean) => {
+    if (remaining > 0) return;
+    setResolution(accepted && rejected ? 'partial' : accepted ? 'applied' : 'rejected');
+  };
+
+  const handleAcceptHunk = (hunk: DiffHunk) => {
+    if (!writeContent(applyHunk(current, hunk))) return;
+    addLogMessage('success', `Applied AI change ${formatHunkHeader(hunk)} to ${proposal.path}`);
+    setHasAccepted(true);
+    finishIfDone(hunks.length - 1, true, hasRejected);
+  };
+
+  const handleRejectHunk = (hunk: DiffHunk) => {
+    setProposed(revertHunk(proposed, hunk));
+    addLogMessage('info', `Rejected AI change ${formatHunkHeader(hunk)} to ${proposal.path}`);
+    setHasRejected(true);
+    finishIfDone(hunks.length - 1, hasAccepted, true);
+  };
+
+  const handleAcceptAll = () => {
+    if (isDelete) {
+      if (!file) return;
+      deleteFile(file.id);
+      addLogMessage('success', `Deleted ${proposal.path} (AI edit)`);
+    } else {
+      if (!writeContent(proposed)) return;
+      addLogMessage('success', `${file ? 'Updated' : 'Created'} ${proposal.path} (AI edit, ${hunks.length} ${hunks.length === 1 ? 'change' : 'changes'})`);
+    }
+    setResolution(hasRejected ? 'partial' : 'applied');
+  };
+
+  const handleRejectAll = () => {
+    setProposed(current);
+    addLogMessage('info', `Rejected AI edit to ${proposal.path}`);
+    setResolution(hasAccepted ? 'partial' : 'rejected');
+  };
+
+  const revealHunk = (hunk: DiffHunk) => {
+    const editor = diffEditorRef.current?.getModifiedEditor();
+    editor?.revealLineInCenter(Math.max(1, hunk.newStart + 1));
+  };
+
+  const header = (
+    <div className="flex items-center min-w-0 text-xs">
+      <Icon size={14} className="mr-1.5 shrink-0 text-blue-400" />
+      <span className="mr-1.5 capitalize opacity-75">{proposal.action}</span>
+      <span className="truncate font-mono" title={proposal.path}>{proposal.path}</span>
+    </div>
+  );
+
+  if (resolution) {
+    return (
+      <div className="my-2 flex items-center justify-between rounded border border-border bg-sidebar px-2 py-1.5">
+        {header}
+        <span className={`ml-2 shrink-0 text-xs ${resolution === 'rejected' ? 'text-slate-400' : 'text-green-400'}`}>
+          {resolution === 'applied' ? 'Applied' : resolution === 'rejected' ? 'Rejected' : 'Partially applied'}
+        </span>
+      </div>
+    );
+  }
+
+  // Nothing left to review: the file already matches, or the file to delete is gone
+  const isNoop = isDelete ? !file : hunks.length === 0;
+  const original = current;
+  const modified = isDelete ? '' : proposed;
+  const lineCount = Math.max(splitLines(original).length, splitLines(modified).length);
+  const height = Math.min(MAX_EDITOR_HEIGHT, lineCount * LINE_HEIGHT + 10);
+
+  return (
+    <div className="my-2 rounded border border-border bg-sidebar overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b border-border">
+        {header}
+        {!isNoop && (
+          <div className="ml-2 flex shrink-0 items-center gap-1">
+            <button
+              className="flex items-center px-1.5 py-0.5 text-xs text-green-400 hover:bg-[#cccccc29] rounded-sm"
+              onClick={handleAcceptAll}
+              title={isDelete ? 'Delete the file' : 'Accept all changes'}
+            >
+              <Check size={12} className="mr-1" />
+              {isDelete ? 'Delete' : 'Accept'}
+            </button>
+            <button
+              className="flex items-center px-1.5 py-0.5 text-xs text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded-sm"
+              onClick={handleRejectAll}
+              title="Reject all changes"
+            >
+              <X size={12} className="mr-1" />
+              Reject
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isNoop ? (
+        <div className="px-2 py-1.5 text-xs opacity-75">
+          {isDelete ? 'File no longer exists' : 'No changes to apply'}
+        </div>
+      ) : (
+        <>
+          <DiffEditor
+            height={height}
+            original={original}
+            modified={modified}
+            language={getLanguageFromExtension(proposal.path)}
+            theme={editorTheme}
+            onMount={(editor) => { diffEditorRef.current = editor; }}
+            options={{
+              readOnly: true,
+              renderSideBySide: false,
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              lineNumbers: 'off',
+              folding: false,
+              renderOverviewRuler: false,
+              fontSize: 12,
+            }}
+          />
+          {hunks.length > 1 && (
+            <div className="border-t border-border">
+              {hunks.map(hunk => (
+                <div key={formatHunkHeader(hunk)} className="flex items-center justify-between px-2 py-0.5 text-xs">
+                  <button
+                    className="truncate font-mono opacity-75 hover:opacity-100"
+                    onClick={() => revealHunk(hunk)}
+                    title="Show in diff"
+                  >
+                    {formatHunkHeader(hunk)}
+                  </button>
+                  <div className="ml-2 flex shrink-0 items-center">
+                    <button
+                      className="p-0.5 text-green-400 hover:bg-[#cccccc29] rounded-sm"
+                      onClick={() => handleAcceptHunk(hunk)}
+                      title="Accept this change"
+                    >
+                      <Check size={12} />
+                    </button>
+                    <button
+                      className="p-0.5 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded-sm"
+                      onClick={() => handleRejectHunk(hunk)}
+                      title="Reject this change"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
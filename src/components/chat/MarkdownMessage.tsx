@@ -0,0 +1,41 @@
+import ReactMarkdown from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
+
+interface MarkdownMessageProps {
+  content: string;
+  className?: string;
+}
+
+// Chat message markdown, with syntax highlighted code blocks
+export function MarkdownMessage({ content, className }: MarkdownMessageProps) {
+  return (
+    <div className={className}>
+      <ReactMarkdown
+        components={{
+          code({ className, children }) {
+            const match = /language-(\w+)/.exec(className || '');
+            const code = String(children).replace(/\n$/, '');
+
+            // Fenced blocks either name a language or span several lines
+            return match || code.includes('\n') ? (
+              <SyntaxHighlighter
+                style={vscDarkPlus}
+                language={match?.[1] || 'text'}
+                PreTag="div"
+              >
+                {code}
+              </SyntaxHighlighter>
+            ) : (
+              <code className={className}>
+                {children}
+              </code>
+            );
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+
+interface UserMessageProps {
+  content: string;
+  // Position among the alternatives created by editing
+  branch: { index: number; count: number };
+  disabled?: boolean;
+  onEdit: (text: string) => void;
+  onSwitchBranch: (offset: number) => void;
+  children: React.ReactNode;
+}
+
+// A user message that can be edited into a new branch, with a switcher between branches
+export function UserMessage({ content, branch, disabled, onEdit, onSwitchBranch, children }: UserMessageProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+
+  const startEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    setIsEditing(false);
+    if (draft.trim() !== content) onEdit(draft);
+  };
+
+  if (isEditing) {
+    return (
+      <div>
+        <textarea
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            }
+            if (e.key === 'Escape') setIsEditing(false);
+          }}
+          className="w-full min-h-[60px] bg-transparent border border-border rounded-sm p-1 text-sm text-inherit resize-y focus:outline-none"
+        />
+        <div className="mt-1 flex justify-end gap-2 text-xs">
+          <button className="opacity-75 hover:opacity-100" onClick={() => setIsEditing(false)}>Cancel</button>
+          <button className="font-medium hover:opacity-80" onClick={submit} disabled={disabled}>Send</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group">
+      {children}
+      <div className="mt-1 flex items-center justify-end gap-1 text-xs opacity-75">
+        {branch.count > 1 && (
+          <>
+            <button
+              className="disabled:opacity-40"
+              onClick={() => onSwitchBranch(-1)}
+              disabled={disabled || branch.index === 0}
+              title="Previous version"
+            >
+              <ChevronLeft size={12} />
+            </button>
+            <span>{branch.index + 1} / {branch.count}</span>
+            <button
+              className="disabled:opacity-40"
+              onClick={() => onSwitchBranch(1)}
+              disabled={disabled || branch.index === branch.count - 1}
+              title="Next version"
+            >
+              <ChevronRight size={12} />
+            </button>
+          </>
+        )}
+        <button
+          className="ml-1 opacity-0 group-hover:opacity-100 disabled:hidden"
+          onClick={startEditing}
+          disabled={disabled}
+          title="Edit and resend"
+        >
+          <Pencil size={12} />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,31 +1,81 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, User, Bot, Paperclip, Maximize2, Minimize2 } from 'lucide-react';
+import { Send, User, Bot, Square, RotateCcw, Settings, History, SquarePen, MessageSquare, ListChecks } from 'lucide-react';
 import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { useChat, createChatMessage } from '@/hooks/use-chat';
+import { useChatContext } from '@/hooks/use-chat-context';
+import { useAssistantRequests } from '@/hooks/use-assistant-requests';
+import { useAgent } from '@/hooks/use-agent';
+import { AssistantMessage } from '@/components/chat/AssistantMessage';
+import { ContextSummary } from '@/components/chat/ContextSummary';
+import { ContextChips } from '@/components/chat/ContextChips';
+import { ConversationList } from '@/components/chat/ConversationList';
+import { UserMessage } from '@/components/chat/UserMessage';
+import { AgentTaskView } from '@/components/chat/AgentTaskView';
+
+const WELCOME_MESSAGE = createChatMessage('assistant', 'Hello! I\'m your AI coding assistant. How can I help you today?');
+
+const AGENT_WELCOME = 'Describe a task and I\'ll carry it out in the workspace: reading, searching and editing files, and running commands when a shell is available. I\'ll ask before deleting or overwriting files or running commands, and you can revert a whole task afterwards.';
+
+type CoworkerMode = 'chat' | 'agent';
 
 const AICoworker: React.FC = () => {
-  const [messages, setMessages] = useState<{
-    id: string;
-    type: 'user' | 'assistant';
-    content: string;
-    timestamp: Date;
-  }[]>([
-    {
-      id: '1',
-      type: 'assistant',
-      content: 'Hello! I\'m your AI coding assistant. How can I help you today?',
-      timestamp: new Date()
-    }
-  ]);
+  const [mode, setMode] = useState<CoworkerMode>('chat');
   const [inputValue, setInputValue] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const { addLogMessage } = useFileSystem();
+  const { settings, openSettings } = useAISettings();
+  const { getContext, pinnedPaths, excludedPaths, unpin, unexclude } = useChatContext();
+
+  const {
+    messages,
+    conversation,
+    projectId,
+    isStreaming,
+    sendMessage,
+    editMessage,
+    stop,
+    retry,
+    getBranchInfo,
+    switchBranch,
+    newConversation,
+    openConversation,
+    renameConversation
+  } = useChat({
+    getContext,
+    // Log the AI response
+    onResponse: (message) => settings.mirrorToLogs && addLogMessage('success', `AI: ${message.content}`)
+  });
+
+  const {
+    tasks,
+    isRunning,
+    runTask,
+    stop: stopTask,
+    respondToPermission,
+    revertTask,
+    canRevert,
+    clearTasks
+  } = useAgent({ getContext });
+
+  const isAgent = mode === 'agent';
+  const isBusy = isAgent ? isRunning : isStreaming;
+
+  // Messages from the editor's "Ask AI" actions land here, in the chat
+  useAssistantRequests((message) => {
+    setMode('chat');
+    sendMessage(message);
+  }, Boolean(conversation), isStreaming);
+
+  const visibleMessages = messages.length > 0 ? messages : [WELCOME_MESSAGE];
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, tasks, mode]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -49,17 +99,13 @@ const AICoworker: React.FC = () => {
   };
 
   const handleSendMessage = () => {
-    if (!inputValue.trim()) return;
-
-    // Add user message
-    const userMessage = {
-      id: Date.now().toString(),
-      type: 'user' as const,
-      content: inputValue,
-      timestamp: new Date()
-    };
+    if (!inputValue.trim() || isBusy) return;
 
-    setMessages(prev => [...prev, userMessage]);
+    if (isAgent) {
+      runTask(inputValue);
+    } else {
+      sendMessage(inputValue);
+    }
     setInputValue('');
     
     // Reset textarea height
@@ -68,34 +114,9 @@ const AICoworker: React.FC = () => {
     }
 
     // Log the message
-    addLogMessage('info', `User: ${inputValue}`);
-
-    // Simulate AI response
-    setTimeout(() => {
-      let response = '';
-      
-      if (inputValue.toLowerCase().includes('hello') || inputValue.toLowerCase().includes('hi')) {
-        response = 'Hello! How can I assist with your coding today?';
-      } else if (inputValue.toLowerCase().includes('help')) {
-        response = 'I can help you with coding tasks, explain concepts, or suggest optimizations. What are you working on?';
-      } else if (inputValue.toLowerCase().includes('code') || inputValue.toLowerCase().includes('function')) {
-        response = 'Would you like me to help you write or optimize some code? Please share more details about what you\'re trying to accomplish.';
-      } else {
-        response = 'I\'m here to assist with your development tasks. Can you provide more details about what you need help with?';
-      }
-
-      const aiMessage = {
-        id: Date.now().toString(),
-        type: 'assistant' as const,
-        content: response,
-        timestamp: new Date()
-      };
-
-      setMessages(prev => [...prev, aiMessage]);
-      
-      // Log the AI response
-      addLogMessage('success', `AI: ${response}`);
-    }, 1000);
+    if (settings.mirrorToLogs) {
+      addLogMessage('info', `${isAgent ? 'Task' : 'User'}: ${inputValue}`);
+    }
   };
 
   const formatTimestamp = (date: Date) => {
@@ -106,38 +127,156 @@ const AICoworker: React.FC = () => {
   };
 
   return (
-    <div className="h-full flex flex-col bg-terminal">
+    <div className="relative h-full flex flex-col bg-terminal">
       {/* AI Coworker Header */}
       <div className="flex items-center justify-between px-3 py-2 bg-sidebar border-b border-border">
         <div className="flex items-center">
           <Bot size={16} className="mr-2 text-blue-400" />
-          <span className="text-sm font-medium text-sidebar-foreground opacity-90">AI Coworker</span>
+          <span className="text-sm font-medium text-sidebar-foreground opacity-90 truncate" title={conversation?.title}>
+            AI Coworker
+          </span>
+        </div>
+        <div className="flex items-center">
+          <div className="flex items-center mr-1 rounded-sm bg-terminal">
+            <button
+              className={`p-1 rounded-sm ${!isAgent ? 'bg-[#cccccc29] text-white' : 'text-slate-400 hover:text-white'}`}
+              onClick={() => setMode('chat')}
+              title="Chat"
+            >
+              <MessageSquare size={14} />
+            </button>
+            <button
+              className={`p-1 rounded-sm ${isAgent ? 'bg-[#cccccc29] text-white' : 'text-slate-400 hover:text-white'}`}
+              onClick={() => setMode('agent')}
+              title="Agent: carry out tasks in the workspace"
+            >
+              <ListChecks size={14} />
+            </button>
+          </div>
+          {isAgent ? (
+            <button
+              className="p-1 text-slate-400 hover:text-white rounded-sm"
+              onClick={clearTasks}
+              disabled={isRunning}
+              title="Clear tasks"
+            >
+              <SquarePen size={14} />
+            </button>
+          ) : (
+            <>
+              <button
+                className="p-1 text-slate-400 hover:text-white rounded-sm"
+                onClick={newConversation}
+                disabled={!projectId}
+                title="New conversation"
+              >
+                <SquarePen size={14} />
+              </button>
+              <button
+                className="p-1 text-slate-400 hover:text-white rounded-sm"
+                onClick={() => setShowHistory(true)}
+                disabled={!projectId}
+                title="Conversations"
+              >
+                <History size={14} />
+              </button>
+            </>
+          )}
+          <button
+            className="flex items-center p-1 text-xs text-slate-400 hover:text-white rounded-sm"
+            onClick={openSettings}
+            title="AI Settings"
+          >
+            <span className="mr-1.5">{settings.providers[settings.provider].model}</span>
+            <Settings size={14} />
+          </button>
         </div>
       </div>
 
+      {showHistory && projectId && (
+        <ConversationList
+          projectId={projectId}
+          currentId={conversation?.id}
+          onOpen={openConversation}
+          onNew={newConversation}
+          onRename={renameConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Messages Container */}
       <div className="flex-1 overflow-y-auto p-3 space-y-4">
-        {messages.map(message => (
+        {isAgent && tasks.length === 0 && (
+          <div className="chat-bubble-ai">
+            <div className="flex items-center mb-1">
+              <Bot size={14} className="mr-1 text-blue-400" />
+              <span className="text-xs opacity-75">AI Coworker</span>
+            </div>
+            <div className="text-sm">{AGENT_WELCOME}</div>
+          </div>
+        )}
+        {isAgent && tasks.map(task => (
+          <AgentTaskView
+            key={task.id}
+            task={task}
+            canRevert={canRevert(task.id)}
+            onPermission={respondToPermission}
+            onRevert={() => revertTask(task.id)}
+          />
+        ))}
+        {!isAgent && visibleMessages.map(message => (
           <div 
             key={message.id} 
-            className={`flex ${message.type === 'user' ? 'justify-end' : 'justify-start'}`}
+            className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
           >
             <div 
-              className={message.type === 'user' ? 'chat-bubble-user' : 'chat-bubble-ai'}
+              className={message.role === 'user' ? 'chat-bubble-user' : 'chat-bubble-ai'}
             >
               <div className="flex items-center mb-1">
-                {message.type === 'assistant' ? (
+                {message.role === 'assistant' ? (
                   <Bot size={14} className="mr-1 text-blue-400" />
                 ) : (
                   <User size={14} className="mr-1 text-green-400" />
                 )}
                 <span className="text-xs opacity-75">
-                  {message.type === 'assistant' ? 'AI Assistant' : 'You'} • {formatTimestamp(message.timestamp)}
+                  {message.role === 'assistant' ? 'AI Assistant' : 'You'} • {formatTimestamp(message.timestamp)}
                 </span>
               </div>
-              <div className="whitespace-pre-wrap text-sm">
-                {message.content}
-              </div>
+              {message.role === 'assistant' ? (
+                <AssistantMessage content={message.content} className="text-sm" />
+              ) : (
+                <UserMessage
+                  content={message.content}
+                  branch={getBranchInfo(message)}
+                  disabled={isStreaming}
+                  onEdit={(text) => editMessage(message.id, text)}
+                  onSwitchBranch={(offset) => switchBranch(message.id, offset)}
+                >
+                  <div className="whitespace-pre-wrap text-sm">
+                    {message.content}
+                  </div>
+                </UserMessage>
+              )}
+              {message.context && <ContextSummary report={message.context} />}
+              {message.status === 'streaming' && !message.content && (
+                <div className="text-sm opacity-75 animate-pulse">Thinking...</div>
+              )}
+              {message.status === 'cancelled' && (
+                <div className="mt-1 text-xs opacity-75">Response stopped</div>
+              )}
+              {message.status === 'error' && (
+                <div className="mt-1 flex items-center text-sm text-red-400">
+                  <span className="flex-1">{message.error}</span>
+                  <button
+                    className="ml-2 p-1 hover:text-red-300 rounded-sm disabled:opacity-50"
+                    onClick={retry}
+                    disabled={isStreaming}
+                    title="Retry"
+                  >
+                    <RotateCcw size={14} />
+                  </button>
+                </div>
+              )}
             </div>
           </div>
         ))}
@@ -146,23 +285,39 @@ const AICoworker: React.FC = () => {
 
       {/* Input Area */}
       <div className="p-3 border-t border-border">
+        <ContextChips
+          pinnedPaths={pinnedPaths}
+          excludedPaths={excludedPaths}
+          onUnpin={unpin}
+          onUnexclude={unexclude}
+        />
         <div className="relative flex items-end">
           <textarea
             ref={inputRef}
             value={inputValue}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
-            placeholder="Type your message..."
+            placeholder={isAgent ? 'Describe a task... (@file to pin, @!file to exclude)' : 'Type your message... (@file to pin, @!file to exclude)'}
             className="terminal-input min-h-[60px] max-h-[150px] resize-none pr-10"
             rows={1}
           />
-          <button 
-            className="absolute right-3 bottom-3 p-1.5 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded-full transition-colors"
-            onClick={handleSendMessage}
-            disabled={!inputValue.trim()}
-          >
-            <Send size={16} className={!inputValue.trim() ? 'opacity-50' : ''} />
-          </button>
+          {isBusy ? (
+            <button 
+              className="absolute right-3 bottom-3 p-1.5 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded-full transition-colors"
+              onClick={isAgent ? stopTask : stop}
+              title={isAgent ? 'Stop the task' : 'Stop generating'}
+            >
+              <Square size={16} />
+            </button>
+          ) : (
+            <button 
+              className="absolute right-3 bottom-3 p-1.5 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded-full transition-colors"
+              onClick={handleSendMessage}
+              disabled={!inputValue.trim()}
+            >
+              <Send size={16} className={!inputValue.trim() ? 'opacity-50' : ''} />
+            </button>
+          )}
         </div>
       </div>
     </div>
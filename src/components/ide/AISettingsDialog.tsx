@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader, RefreshCw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { providerList, providers } from '@/lib/ai/providers';
+import { AISettings, ProviderId, ProviderSettings } from '@/lib/ai/types';
+import { toast } from 'sonner';
+
+export const AISettingsDialog: React.FC = () => {
+  const { settings, setSettings, isSettingsOpen, closeSettings } = useAISettings();
+  // Edits stay local until saved
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isFetchingModels, setIsFetchingModels] = useState(false);
+
+  // The draft starts over from the saved settings each time the dialog opens, not when they change
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    if (isSettingsOpen) {
+      setDraft(settingsRef.current);
+      setAvailableModels([]);
+    }
+  }, [isSettingsOpen]);
+
+  const provider = providers[draft.provider];
+  const providerSettings = draft.providers[draft.provider];
+
+  const updateProviderSettings = (changes: Partial<ProviderSettings>) => {
+    setDraft(prev => ({
+      ...prev,
+      providers: {
+        ...prev.providers,
+        [prev.provider]: { ...prev.providers[prev.provider], ...changes }
+      }
+    }));
+  };
+
+  const handleProviderChange = (id: string) => {
+    setDraft(prev => ({ ...prev, provider: id as ProviderId }));
+    setAvailableModels([]);
+  };
+
+  const handleFetchModels = async () => {
+    if (!provider.listModels) return;
+
+    setIsFetchingModels(true);
+    try {
+      const models = await provider.listModels(providerSettings);
+      setAvailableModels(models);
+      toast.success(`Found ${models.length} ${models.length === 1 ? 'model' : 'models'}`);
+    } catch (error) {
+      toast.error(`Could not list models: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsFetchingModels(false);
+    }
+  };
+
+  const handleSave = () => {
+    setSettings(draft);
+    toast.success(`Using ${provider.label} (${providerSettings.model})`);
+    closeSettings();
+  };
+
+  const modelSuggestions = Array.from(new Set([...availableModels, ...provider.suggestedModels]));
+
+  return (
+    <Dialog open={isSettingsOpen} onOpenChange={(open) => !open && closeSettings()}>
+      <DialogContent className="sm:max-w-md bg-sidebar border-border text-sidebar-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">AI Settings</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            Choose the model the chat panels talk to. Keys are stored in this browser only.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="ai-provider">Provider</Label>
+            <Select value={draft.provider} onValueChange={handleProviderChange}>
+              <SelectTrigger id="ai-provider" className="bg-terminal border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {providerList.map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {provider.usesBaseUrl && (
+            <div className="grid gap-2">
+              <Label htmlFor="ai-base-url">Server URL</Label>
+              <Input
+                id="ai-base-url"
+                value={providerSettings.baseUrl}
+                onChange={(e) => updateProviderSettings({ baseUrl: e.target.value })}
+                placeholder={provider.defaults.baseUrl}
+                className="bg-terminal border-border"
+              />
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-api-key">API key{provider.requiresApiKey ? '' : ' (optional)'}</Label>
+            <Input
+              id="ai-api-key"
+              type="password"
+              autoComplete="off"
+              value={providerSettings.apiKey}
+              onChange={(e) => updateProviderSettings({ apiKey: e.target.value })}
+              className="bg-terminal border-border"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-model">Model</Label>
+            <div className="flex gap-2">
+              <Input
+                id="ai-model"
+                list="ai-model-suggestions"
+                value={providerSettings.model}
+                onChange={(e) => updateProviderSettings({ model: e.target.value })}
+                className="bg-terminal border-border"
+              />
+              {provider.listModels && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="shrink-0 bg-terminal border-border"
+                  onClick={handleFetchModels}
+                  disabled={isFetchingModels}
+                  title="Fetch models from the server"
+                >
+                  {isFetchingModels ? <Loader className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                </Button>
+              )}
+            </div>
+            <datalist id="ai-model-suggestions">
+              {modelSuggestions.map(model => (
+                <option key={model} value={model} />
+              ))}
+            </datalist>
+          </div>
+
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label>Temperature</Label>
+              <span className="text-xs opacity-70">{providerSettings.temperature.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={0}
+              max={2}
+              step={0.1}
+              value={[providerSettings.temperature]}
+              onValueChange={([value]) => updateProviderSettings({ temperature: value })}
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-max-tokens">Max output tokens</Label>
+            <Input
+              id="ai-max-tokens"
+              type="number"
+              min={1}
+              value={providerSettings.maxTokens}
+              onChange={(e) => updateProviderSettings({ maxTokens: Math.max(1, Number(e.target.value) || 1) })}
+              className="bg-terminal border-border"
+            />
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="ai-context-tokens">Context budget (tokens)</Label>
+            <Input
+              id="ai-context-tokens"
+              type="number"
+              min={500}
+              step={500}
+              value={providerSettings.contextTokens}
+              onChange={(e) => updateProviderSettings({ contextTokens: Math.max(500, Number(e.target.value) || 500) })}
+              className="bg-terminal border-border"
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="ai-mirror-logs">Copy chat messages to the logs panel</Label>
+            <Switch
+              id="ai-mirror-logs"
+              checked={draft.mirrorToLogs}
+              onCheckedChange={(checked) => setDraft(prev => ({ ...prev, mirrorToLogs: checked }))}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="ai-inline-completions">Inline completions in the editor</Label>
+            <Switch
+              id="ai-inline-completions"
+              checked={draft.inlineCompletions}
+              onCheckedChange={(checked) => setDraft(prev => ({ ...prev, inlineCompletions: checked }))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="bg-terminal border-border" onClick={closeSettings}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!providerSettings.model.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,338 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMonaco } from '@monaco-editor/react';
+import type { editor, IRange } from 'monaco-editor';
+import { formatDistanceToNow } from 'date-fns';
+import { GitCommitHorizontal, Undo2, X } from 'lucide-react';
+import { useEditor } from '@/contexts/EditorContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useGit } from '@/contexts/GitContext';
+import { useRegisterCommands } from '@/contexts/CommandContext';
+import { computeLineChanges, findLineChange, LineChange, toBaselineLine } from '@/lib/git/lineChanges';
+import { GitBlameLine } from '@/lib/git/types';
+import { toStoragePath } from '@/lib/storage/tree';
+
+// The peek shows at most this many old lines before scrolling
+const MAX_PEEK_LINES = 12;
+const PEEK_HEADER_PX = 28;
+// Diffing waits for typing to pause. Files longer than this, or with more changes, get no markers.
+const DIFF_DEBOUNCE_MS = 300;
+const MAX_DIFF_LINES = 20000;
+const MAX_MARKED_CHANGES = 2000;
+const NO_CHANGES: LineChange[] = [];
+
+const OVERVIEW_COLORS: Record<LineChange['kind'], string> = {
+  added: '#2ea04399',
+  modified: '#1b81a899',
+  deleted: '#f8514999',
+};
+
+interface Baseline {
+  path: string;
+  content: string;
+  // The last commit when the workspace is a repository, otherwise the saved file
+  source: 'commit' | 'saved';
+}
+
+interface Peek {
+  change: LineChange;
+  // The editor the zone is in, which may no longer be the active one
+  editor: editor.ICodeEditor;
+  zoneId: string;
+  node: HTMLElement;
+  // The old lines are shown in the editor's own font
+  font: React.CSSProperties;
+}
+
+// The edit that puts a change's lines back the way the baseline had them
+const toRevertEdit = (model: editor.ITextModel, { hunk }: LineChange): { range: IRange; text: string } => {
+  const lineCount = model.getLineCount();
+  const start = hunk.newStart + 1;
+  const end = hunk.newStart + hunk.newLines.length;
+  const oldText = hunk.oldLines.join('\n');
+
+  if (hunk.newLines.length === 0) {
+    // Deleted lines go back in before the line that now follows them
+    return start <= lineCount
+      ? { range: { startLineNumber: start, startColumn: 1, endLineNumber: start, endColumn: 1 }, text: `${oldText}\n` }
+      : {
+        range: { startLineNumber: lineCount, startColumn: model.getLineMaxColumn(lineCount), endLineNumber: lineCount, endColumn: model.getLineMaxColumn(lineCount) },
+        text: `\n${oldText}`,
+      };
+  }
+
+  if (hunk.oldLines.length === 0) {
+    // Added lines go, with their line breaks
+    if (end < lineCount) {
+      return { range: { startLineNumber: start, startColumn: 1, endLineNumber: end + 1, endColumn: 1 }, text: '' };
+    }
+    return start > 1
+      ? { range: { startLineNumber: start - 1, startColumn: model.getLineMaxColumn(start - 1), endLineNumber: end, endColumn: model.getLineMaxColumn(end) }, text: '' }
+      : { range: { startLineNumber: 1, startColumn: 1, endLineNumber: end, endColumn: model.getLineMaxColumn(end) }, text: '' };
+  }
+
+  return { range: { startLineNumber: start, startColumn: 1, endLineNumber: end, endColumn: model.getLineMaxColumn(end) }, text: oldText };
+};
+
+const countLines = (text: string) => {
+  let count = 1;
+  for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) count++;
+  return count;
+};
+
+const formatBlame = (line: GitBlameLine) => {
+  return `${line.author}, ${formatDistanceToNow(line.timestamp, { addSuffix: true })} • ${line.summary}`;
+};
+
+// Gutter markers for lines changed since the last commit (or the last save), a peek at the old
+// lines with a revert button, and an optional blame annotation on the cursor line
+export const ChangeMarkers: React.FC = () => {
+  const monaco = useMonaco();
+  const { monacoInstance, openedTabs, activeTabId, getTabContent } = useEditor();
+  const { getFileById } = useFileSystem();
+  const { isRepository, headOid, readFile, blame, showInlineBlame, toggleInlineBlame } = useGit();
+  const [baseline, setBaseline] = useState<Baseline | null>(null);
+  const [blameLines, setBlameLines] = useState<{ path: string; lines: GitBlameLine[] | null } | null>(null);
+  const [cursorLine, setCursorLine] = useState(1);
+  const [peek, setPeek] = useState<Peek | null>(null);
+  const [diffed, setDiffed] = useState<{ path: string; content: string } | null>(null);
+
+  const activeTab = openedTabs.find(tab => tab.id === activeTabId);
+  const path = activeTab ? toStoragePath(activeTab.path) : null;
+  // Without a repository the saved file is the baseline, and each save moves it
+  const savedBaseline = isRepository === false && activeTabId ? getFileById(activeTabId)?.content ?? '' : null;
+  const content = activeTabId ? getTabContent(activeTabId) : '';
+
+  // A newly shown file is diffed straight away, edits to it once typing pauses
+  const isDiffedFile = diffed?.path === path;
+  useEffect(() => {
+    if (!path) return;
+    const timer = window.setTimeout(
+      () => setDiffed(prev => (prev?.path === path && prev.content === content ? prev : { path, content })),
+      isDiffedFile ? DIFF_DEBOUNCE_MS : 0
+    );
+    return () => window.clearTimeout(timer);
+  }, [path, content, isDiffedFile]);
+
+  // Baselines belong to one file; a stale one would mark the wrong lines
+  const currentBaseline = baseline?.path === path ? baseline : null;
+  // Null when there is nothing to go on yet or the diff is too large to mark
+  const lineChanges = useMemo(() => {
+    if (!currentBaseline || !diffed || diffed.path !== path) return null;
+    if (countLines(currentBaseline.content) > MAX_DIFF_LINES || countLines(diffed.content) > MAX_DIFF_LINES) return null;
+
+    const computed = computeLineChanges(currentBaseline.content, diffed.content);
+    return computed.length > MAX_MARKED_CHANGES ? null : computed;
+  }, [currentBaseline, diffed, path]);
+  const changes = lineChanges ?? NO_CHANGES;
+
+  // Mouse handlers are registered once per editor and read the latest changes here
+  const changesRef = useRef(changes);
+  changesRef.current = changes;
+  const peekRef = useRef(peek);
+  peekRef.current = peek;
+
+  useRegisterCommands([
+    {
+      id: 'view.toggleInlineBlame',
+      title: 'Toggle Inline Blame',
+      category: 'View',
+      icon: <GitCommitHorizontal size={16} />,
+      run: toggleInlineBlame
+    }
+  ]);
+
+  useEffect(() => {
+    if (!path || isRepository === null) return;
+
+    if (savedBaseline !== null) {
+      setBaseline({ path, content: savedBaseline, source: 'saved' });
+      return;
+    }
+
+    let cancelled = false;
+    readFile(path, 'HEAD')
+      .then(committed => !cancelled && setBaseline({ path, content: committed ?? '', source: 'commit' }))
+      .catch(error => console.error('Failed to read the committed file:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, isRepository, headOid, savedBaseline, readFile]);
+
+  useEffect(() => {
+    if (!path || !isRepository || !showInlineBlame) return;
+
+    let cancelled = false;
+    blame(path)
+      .then(lines => !cancelled && setBlameLines({ path, lines }))
+      .catch(error => console.error('Failed to blame the file:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, isRepository, headOid, showInlineBlame, blame]);
+
+  const closePeek = useCallback(() => {
+    const current = peekRef.current;
+    if (!current) return;
+    current.editor.changeViewZones(accessor => accessor.removeZone(current.zoneId));
+    peekRef.current = null;
+    setPeek(null);
+  }, []);
+
+  const openPeek = useCallback((change: LineChange) => {
+    if (!monacoInstance || !monaco) return;
+    const { fontFamily, fontSize, lineHeight } = monacoInstance.getOption(monaco.editor.EditorOption.fontInfo);
+    const shownLines = Math.min(Math.max(change.hunk.oldLines.length, 1), MAX_PEEK_LINES);
+
+    closePeek();
+    monacoInstance.changeViewZones(accessor => {
+      const node = document.createElement('div');
+      const zoneId = accessor.addZone({
+        afterLineNumber: change.kind === 'deleted' ? change.startLine : change.endLine,
+        heightInPx: PEEK_HEADER_PX + shownLines * lineHeight + 8,
+        domNode: node,
+        // Let the buttons inside take their own clicks
+        suppressMouseDown: true,
+      });
+      // Set right away, so a second click before the next render still finds this zone
+      peekRef.current = { change, editor: monacoInstance, zoneId, node, font: { fontFamily, fontSize, lineHeight: `${lineHeight}px` } };
+      setPeek(peekRef.current);
+    });
+  }, [monacoInstance, monaco, closePeek]);
+
+  const revertChange = (change: LineChange) => {
+    const model = monacoInstance?.getModel();
+    if (!model) return;
+
+    closePeek();
+    monacoInstance!.pushUndoStop();
+    monacoInstance!.executeEdits('revert-change', [toRevertEdit(model, change)]);
+    monacoInstance!.pushUndoStop();
+  };
+
+  // A click on a marker toggles the peek at that change
+  useEffect(() => {
+    if (!monacoInstance || !monaco) return;
+
+    const subscription = monacoInstance.onMouseDown(e => {
+      if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_LINE_DECORATIONS || !e.target.position) return;
+      const change = findLineChange(changesRef.current, e.target.position.lineNumber);
+      if (!change) return;
+
+      if (peekRef.current?.change.hunk === change.hunk) {
+        closePeek();
+      } else {
+        openPeek(change);
+      }
+    });
+    const cursor = monacoInstance.onDidChangeCursorPosition(e => setCursorLine(e.position.lineNumber));
+
+    return () => {
+      subscription.dispose();
+      cursor.dispose();
+    };
+  }, [monacoInstance, monaco, closePeek, openPeek]);
+
+  // The peek describes one diff; once the text or file changes it no longer applies
+  useEffect(() => {
+    closePeek();
+  }, [changes, monacoInstance, closePeek]);
+
+  const markersRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const blameRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+
+  useEffect(() => {
+    if (!monacoInstance) return;
+    markersRef.current = monacoInstance.createDecorationsCollection();
+    blameRef.current = monacoInstance.createDecorationsCollection();
+
+    return () => {
+      markersRef.current?.clear();
+      blameRef.current?.clear();
+      markersRef.current = null;
+      blameRef.current = null;
+    };
+  }, [monacoInstance]);
+
+  useEffect(() => {
+    if (!monaco || !markersRef.current) return;
+
+    markersRef.current.set(changes.map(change => ({
+      range: new monaco.Range(Math.max(change.startLine, 1), 1, Math.max(change.endLine, 1), 1),
+      options: {
+        isWholeLine: true,
+        linesDecorationsClassName: `line-change-marker line-change-${change.kind}`,
+        overviewRuler: { color: OVERVIEW_COLORS[change.kind], position: monaco.editor.OverviewRulerLane.Left },
+      },
+    })));
+  }, [changes, monaco, monacoInstance]);
+
+  useEffect(() => {
+    const model = monacoInstance?.getModel();
+    if (!monaco || !blameRef.current || !model) return;
+
+    const lines = blameLines?.path === path ? blameLines.lines : undefined;
+    // Without the changes there is no telling which committed line the cursor line was
+    if (!showInlineBlame || !isRepository || currentBaseline?.source !== 'commit' || !lineChanges || lines === undefined || cursorLine > model.getLineCount()) {
+      blameRef.current.clear();
+      return;
+    }
+
+    const committedLine = toBaselineLine(changes, cursorLine);
+    const line = committedLine !== null ? lines?.[committedLine - 1] : undefined;
+    const text = line ? formatBlame(line) : committedLine === null || !lines ? 'You • Uncommitted changes' : null;
+    if (!text) {
+      blameRef.current.clear();
+      return;
+    }
+
+    const column = model.getLineMaxColumn(cursorLine);
+    blameRef.current.set([{
+      range: new monaco.Range(cursorLine, column, cursorLine, column),
+      options: {
+        after: { content: `    ${text}`, inlineClassName: 'inline-blame' },
+      },
+    }]);
+  }, [blameLines, changes, lineChanges, cursorLine, showInlineBlame, isRepository, currentBaseline, monaco, monacoInstance, path]);
+
+  if (!peek) return null;
+
+  const { change } = peek;
+  const { oldLines } = change.hunk;
+  const since = currentBaseline?.source === 'commit' ? 'the last commit' : 'the last save';
+
+  return createPortal(
+    <div className="h-full flex flex-col border-y border-border bg-sidebar text-sidebar-foreground">
+      <div className="flex items-center gap-2 px-2 text-xs" style={{ height: PEEK_HEADER_PX }}>
+        <span className="flex-1 opacity-80">
+          {change.kind === 'added' && `${change.hunk.newLines.length} line${change.hunk.newLines.length === 1 ? '' : 's'} added since ${since}`}
+          {change.kind === 'modified' && `Changed since ${since}; before:`}
+          {change.kind === 'deleted' && `${oldLines.length} line${oldLines.length === 1 ? '' : 's'} deleted since ${since}:`}
+        </span>
+        <button
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded text-slate-300 hover:text-white hover:bg-[#cccccc29]"
+          onClick={() => revertChange(change)}
+          title="Revert this change"
+        >
+          <Undo2 size={14} />
+          Revert
+        </button>
+        <button
+          className="p-0.5 rounded text-slate-400 hover:text-white hover:bg-[#cccccc29]"
+          onClick={closePeek}
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      {oldLines.length > 0 && (
+        <pre className="flex-1 overflow-auto m-0 px-2 bg-red-500/10 text-sidebar-foreground" style={peek.font}>
+          {oldLines.join('\n')}
+        </pre>
+      )}
+    </div>,
+    peek.node
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { Loader } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { useEditor } from '@/contexts/EditorContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { isAbortError } from '@/lib/ai/chatService';
+import { CODE_ACTIONS, CodeActionRequest, getTestFilePath, runCodeAction } from '@/lib/ai/codeActions';
+import { getLanguageFromExtension } from '@/lib/languages';
+import { splitLines } from '@/lib/diff';
+import { toast } from 'sonner';
+
+interface CodeActionPreviewProps {
+  request: CodeActionRequest;
+  // Editor tab the selection came from
+  tabId: string;
+  onClose: () => void;
+}
+
+interface PreviewResult {
+  path: string;
+  original: string;
+  modified: string;
+}
+
+// Runs an "Ask AI" editor action and shows the result as a diff to accept into the editor
+export const CodeActionPreview: React.FC<CodeActionPreviewProps> = ({ request, tabId, onClose }) => {
+  const { settings } = useAISettings();
+  const { openTab, updateTabContent, getTabContent } = useEditor();
+  const { getFileByPath, writeFileAtPath, addLogMessage } = useFileSystem();
+  const { editorTheme } = useTheme();
+  const [result, setResult] = useState<PreviewResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const label = CODE_ACTIONS.find(action => action.id === request.action)?.label || 'AI action';
+  const isTests = request.action === 'tests';
+
+  // The action runs once per request, with the settings of when it starts and the files of when it ends
+  const latestRef = useRef({ settings, getFileByPath });
+  latestRef.current = { settings, getFileByPath };
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    runCodeAction(request, latestRef.current.settings, controller.signal)
+      .then(code => {
+        if (isTests) {
+          const path = getTestFilePath(request.path);
+          const existing = latestRef.current.getFileByPath(path);
+          setResult({ path, original: existing?.content || '', modified: `${code}\n` });
+          return;
+        }
+
+        // Replace the selected lines, keeping the rest of the file as it is in the editor
+        const lines = splitLines(request.fileContent);
+        lines.splice(request.startLine - 1, request.endLine - request.startLine + 1, ...splitLines(code));
+        setResult({ path: request.path, original: request.fileContent, modified: lines.join('\n') });
+      })
+      .catch(err => {
+        if (!isAbortError(err)) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      });
+
+    return () => controller.abort();
+  }, [request, isTests]);
+
+  const handleAccept = () => {
+    if (!result) return;
+
+    if (isTests) {
+      // New test files are created empty, then filled through the editor so the change can be reviewed and saved
+      const existing = getFileByPath(result.path);
+      const fileId = existing?.type === 'file' ? existing.id : writeFileAtPath(result.path, '');
+      if (!fileId) {
+        toast.error(`Could not create ${result.path}`);
+        return;
+      }
+      openTab(fileId);
+      updateTabContent(fileId, result.modified);
+    } else {
+      if (getTabContent(tabId) !== request.fileContent) {
+        toast.error('The file changed while the AI was working; run the action again');
+        return;
+      }
+      updateTabContent(tabId, result.modified);
+    }
+
+    addLogMessage('success', `${label}: updated ${result.path}`);
+    onClose();
+  };
+
+  const lineCount = result ? Math.max(splitLines(result.original).length, splitLines(result.modified).length) : 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl bg-sidebar border-border text-sidebar-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">{label}</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            {result
+              ? `Review the changes to ${result.path}. Accepting puts them in the editor; save to keep them.`
+              : `Lines ${request.startLine}-${request.endLine} of ${request.path}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <div className="py-6 text-sm text-red-400">{error}</div>
+        ) : result ? (
+          <div className="border border-border rounded overflow-hidden">
+            <DiffEditor
+              height={Math.min(480, Math.max(160, lineCount * 19 + 10))}
+              original={result.original}
+              modified={result.modified}
+              language={getLanguageFromExtension(result.path)}
+              theme={editorTheme}
+              options={{
+                readOnly: true,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+                renderOverviewRuler: false,
+                fontSize: 12,
+              }}
+            />
+          </div>
+        ) : (
+          <div className="flex items-center justify-center py-10 text-sm opacity-75">
+            <Loader className="mr-2 h-4 w-4 animate-spin" />
+            Waiting for the AI...
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" className="bg-terminal border-border" onClick={onClose}>
+            {result ? 'Reject' : 'Cancel'}
+          </Button>
+          <Button onClick={handleAccept} disabled={!result}>
+            Accept
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
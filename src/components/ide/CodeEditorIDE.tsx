@@ -2,46 +2,262 @@
 import React, { useState, useEffect } from 'react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import FileExplorer from './FileExplorer';
+import SearchPanel from './SearchPanel';
+import SourceControlPanel from './SourceControlPanel';
 import EditorArea from './EditorArea';
 import AICoworker from './AICoworker';
-import { CodeBuddyChat } from '../CodeBuddyChat';
 import StatusBar from './StatusBar';
 import TerminalPanel from './TerminalPanel';
-import CommandPalette from './CommandPalette';
-import { FileSystemProvider } from '@/contexts/FileSystemContext';
-import { EditorProvider } from '@/contexts/EditorContext';
+import CommandPalette, { PalettePromptKind } from './CommandPalette';
+import { KeybindingsDialog } from './KeybindingsDialog';
+import { ShortcutsReferenceDialog } from './ShortcutsReferenceDialog';
+import { ProjectImportDialog } from './ProjectImportDialog';
+import { FileSystemProvider, useFileSystem } from '@/contexts/FileSystemContext';
+import { EditorProvider, useEditor } from '@/contexts/EditorContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { FontProvider } from '@/contexts/FontContext';
+import { AISettingsProvider, useAISettings } from '@/contexts/AISettingsContext';
+import { InlineCompletionProvider, useInlineCompletions } from '@/contexts/InlineCompletionContext';
+import { CommandProvider, useRegisterCommands } from '@/contexts/CommandContext';
+import { GitProvider } from '@/contexts/GitContext';
 import TopBar from './TopBar';
-import { Toaster } from 'sonner';
+import { Toaster, toast } from 'sonner';
 import { ProjectStartup } from './ProjectStartup';
+import { AISettingsDialog } from './AISettingsDialog';
+import { onAssistantNeeded } from '@/lib/ai/assistantRequests';
+import { createProjectZip } from '@/lib/projectArchive';
+import { downloadFile, toFileName } from '@/lib/download';
+import {
+  AtSign, Command, Download, FilePlus, FileSearch, FolderOpen, FolderPlus, FolderTree, FolderX, GitBranch, Hash, Keyboard,
+  MessageSquare, PanelLeft, Search, Settings, Sparkles, Terminal, Trash2, Upload
+} from 'lucide-react';
 
-const CodeEditorIDE: React.FC = () => {
-  const [showCommandPalette, setShowCommandPalette] = useState(false);
+type LeftView = 'explorer' | 'search' | 'git';
+
+// The IDE's layout, inside the providers so its commands can use them
+const Workbench: React.FC = () => {
+  const { activeTabId } = useEditor();
+  const { files, deleteFile, addLogMessage, backendKind, canOpenFolders, openFolder, closeFolder } = useFileSystem();
+  const { openSettings } = useAISettings();
+  const { toggleInlineCompletions } = useInlineCompletions();
+  const [palette, setPalette] = useState<{ query: string; prompt?: PalettePromptKind } | null>(null);
   const [showLeftSidebar, setShowLeftSidebar] = useState(true);
+  const [leftView, setLeftView] = useState<LeftView>('explorer');
   const [showRightSidebar, setShowRightSidebar] = useState(true);
   const [showTerminal, setShowTerminal] = useState(true);
+  const [shortcutsDialog, setShortcutsDialog] = useState<'reference' | 'keybindings' | null>(null);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   
-  // Handle keyboard shortcuts
+  // Show the chat when something asks the assistant while it is hidden
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Command palette: Ctrl/Cmd + P
-      if ((e.ctrlKey || e.metaKey) && e.key === 'p') {
-        e.preventDefault();
-        setShowCommandPalette(prev => !prev);
-      }
-      
-      // Toggle left sidebar: Ctrl/Cmd + B
-      if ((e.ctrlKey || e.metaKey) && e.key === 'b') {
-        e.preventDefault();
-        setShowLeftSidebar(prev => !prev);
-      }
-    };
-    
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
+    return onAssistantNeeded(() => setShowRightSidebar(true));
   }, []);
 
+  // The same shortcut again closes the palette
+  const togglePalette = (query: string) => {
+    setPalette(prev => prev && !prev.prompt && prev.query === query ? null : { query });
+  };
+
+  const showLeftView = (view: LeftView) => {
+    setLeftView(view);
+    setShowLeftSidebar(true);
+  };
+
+  // Without the File System Access API a folder can only come in as a copy
+  const openLocalFolder = () => {
+    if (canOpenFolders) {
+      openFolder();
+      return;
+    }
+    toast.info('This browser can\'t edit a folder in place, so it will be imported as a copy. Use Chrome or Edge, or serve the folder with the dev server (VITE_STORAGE_BACKEND=http), to save straight to disk.');
+    setShowImportDialog(true);
+  };
+
+  // Saved content only, like any export from disk
+  const exportProject = () => {
+    const root = files[0];
+    if (!root) {
+      addLogMessage('error', 'No project to export');
+      return;
+    }
+
+    downloadFile(`${toFileName(root.name, 'project')}.zip`, createProjectZip(root), 'application/zip');
+    addLogMessage('success', `Exported ${root.name} as a zip archive`);
+  };
+
+  useRegisterCommands([
+    {
+      id: 'file.newFile',
+      title: 'New File...',
+      category: 'File',
+      icon: <FilePlus size={16} />,
+      keybinding: 'Alt+N',
+      run: () => setPalette({ query: '', prompt: 'file' })
+    },
+    {
+      id: 'file.newFolder',
+      title: 'New Folder...',
+      category: 'File',
+      icon: <FolderPlus size={16} />,
+      run: () => setPalette({ query: '', prompt: 'folder' })
+    },
+    {
+      id: 'file.delete',
+      title: 'Delete File',
+      category: 'File',
+      icon: <Trash2 size={16} />,
+      run: () => {
+        if (activeTabId) {
+          deleteFile(activeTabId);
+          addLogMessage('success', 'File deleted');
+        } else {
+          addLogMessage('error', 'No file selected');
+        }
+      }
+    },
+    {
+      id: 'file.openFolder',
+      title: 'Open Folder...',
+      category: 'File',
+      icon: <FolderOpen size={16} />,
+      run: openLocalFolder
+    },
+    {
+      id: 'file.closeFolder',
+      title: 'Close Folder',
+      category: 'File',
+      icon: <FolderX size={16} />,
+      run: () => {
+        if (backendKind === 'local') {
+          closeFolder();
+        } else {
+          addLogMessage('info', 'No local folder is open');
+        }
+      }
+    },
+    {
+      id: 'file.importProject',
+      title: 'Import Project...',
+      category: 'File',
+      icon: <Upload size={16} />,
+      run: () => setShowImportDialog(true)
+    },
+    {
+      id: 'file.exportProject',
+      title: 'Export Project as Zip',
+      category: 'File',
+      icon: <Download size={16} />,
+      run: exportProject
+    },
+    {
+      id: 'view.toggleSidebar',
+      title: 'Toggle Side Bar',
+      category: 'View',
+      icon: <PanelLeft size={16} />,
+      keybinding: 'Ctrl+B',
+      run: () => setShowLeftSidebar(prev => !prev)
+    },
+    {
+      id: 'view.showExplorer',
+      title: 'Show Explorer',
+      category: 'View',
+      icon: <FolderTree size={16} />,
+      keybinding: 'Ctrl+Shift+E',
+      run: () => showLeftView('explorer')
+    },
+    {
+      id: 'view.searchInFiles',
+      title: 'Search in Files',
+      category: 'View',
+      icon: <Search size={16} />,
+      keybinding: 'Ctrl+Shift+F',
+      run: () => showLeftView('search')
+    },
+    {
+      id: 'view.showSourceControl',
+      title: 'Show Source Control',
+      category: 'View',
+      icon: <GitBranch size={16} />,
+      keybinding: 'Ctrl+Shift+G',
+      run: () => showLeftView('git')
+    },
+    {
+      id: 'view.toggleTerminal',
+      title: 'Toggle Terminal',
+      category: 'View',
+      icon: <Terminal size={16} />,
+      keybinding: 'Ctrl+`',
+      run: () => setShowTerminal(prev => !prev)
+    },
+    {
+      id: 'view.toggleAICoworker',
+      title: 'Toggle AI Coworker Panel',
+      category: 'View',
+      icon: <MessageSquare size={16} />,
+      keybinding: 'Ctrl+Alt+B',
+      run: () => setShowRightSidebar(prev => !prev)
+    },
+    {
+      id: 'go.quickOpen',
+      title: 'Go to File...',
+      category: 'Go',
+      icon: <FileSearch size={16} />,
+      keybinding: 'Ctrl+P',
+      run: () => togglePalette('')
+    },
+    {
+      id: 'go.commands',
+      title: 'Show All Commands',
+      category: 'Go',
+      icon: <Command size={16} />,
+      keybinding: 'Ctrl+Shift+P',
+      run: () => togglePalette('>')
+    },
+    {
+      id: 'go.symbol',
+      title: 'Go to Symbol in File...',
+      category: 'Go',
+      icon: <AtSign size={16} />,
+      keybinding: 'Ctrl+Shift+O',
+      run: () => togglePalette('@')
+    },
+    {
+      id: 'go.line',
+      title: 'Go to Line...',
+      category: 'Go',
+      icon: <Hash size={16} />,
+      keybinding: 'Ctrl+G',
+      run: () => togglePalette(':')
+    },
+    {
+      id: 'ai.openSettings',
+      title: 'Open AI Settings',
+      category: 'AI',
+      icon: <Settings size={16} />,
+      run: openSettings
+    },
+    {
+      id: 'ai.toggleInlineCompletions',
+      title: 'Toggle Inline AI Completions',
+      category: 'AI',
+      icon: <Sparkles size={16} />,
+      run: toggleInlineCompletions
+    },
+    {
+      id: 'help.shortcutsReference',
+      title: 'Keyboard Shortcuts Reference',
+      category: 'Help',
+      icon: <Keyboard size={16} />,
+      run: () => setShortcutsDialog('reference')
+    },
+    {
+      id: 'help.keybindings',
+      title: 'Customize Keyboard Shortcuts',
+      category: 'Help',
+      icon: <Keyboard size={16} />,
+      run: () => setShortcutsDialog('keybindings')
+    }
+  ]);
 
   /*
  <ResizablePanelGroup direction="horizontal">
@@ -73,74 +289,125 @@ const CodeEditorIDE: React.FC = () => {
   */
   
   return (
-    <ThemeProvider>
-      <FontProvider>
-        <FileSystemProvider>
-          <EditorProvider>
-            <div className="flex flex-col h-full w-full bg-editor text-foreground">
-              <Toaster position="bottom-right" />
-              <TopBar />
-              
-              <div className="flex-1 flex overflow-hidden">
-                  <ResizablePanelGroup direction="horizontal">
-                    {/* Left Sidebar - File Explorer */}
-                    <ResizablePanel defaultSize={19} minSize={15} maxSize={25}>
-                      <FileExplorer />
-                    </ResizablePanel>
-                    
-                    <ResizableHandle withHandle />
-                    
-                    {/* Main Content Area */}
-                    <ResizablePanel defaultSize={61}>
-                      <ResizablePanelGroup direction="vertical">
-                        {/* Editor Area */}
-                        <ResizablePanel defaultSize={75}>
-                          <EditorArea />
-                        </ResizablePanel>
-                        
-                        {/* Terminal */}
-                        {showTerminal && (
-                          <>
-                            <ResizableHandle withHandle />
-                            <ResizablePanel defaultSize={25} maxSize={28}>
-                              <TerminalPanel />
-                            </ResizablePanel>
-                          </>
-                        )}
-                      </ResizablePanelGroup>
-                    </ResizablePanel>
-
-                    {/* AI Coworker (Right Sidebar) */}
-                    {showRightSidebar && (
-                      <>
-                        <ResizableHandle withHandle />
-                        <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
-                          <CodeBuddyChat />
-                        </ResizablePanel>
-                      </>
-                    )}
-                  </ResizablePanelGroup>
+    <div className="flex flex-col h-full w-full bg-editor text-foreground">
+      <Toaster position="bottom-right" />
+      <TopBar />
+  
+      <div className="flex-1 flex overflow-hidden">
+        <ResizablePanelGroup direction="horizontal">
+          {/* Left Sidebar - File Explorer, Search or Source Control, all kept mounted to keep their state */}
+          {showLeftSidebar && (
+            <>
+              <ResizablePanel defaultSize={19} minSize={15} maxSize={25}>
+                <div className={leftView === 'explorer' ? 'h-full' : 'hidden'}>
+                  <FileExplorer
+                    onSearchInFiles={() => setLeftView('search')}
+                    onShowSourceControl={() => setLeftView('git')}
+                  />
                 </div>
-
-              {/* Status Bar */}
-              <StatusBar 
-                toggleTerminal={() => setShowTerminal(prev => !prev)}
-                toggleLeftSidebar={() => setShowLeftSidebar(prev => !prev)}
-                toggleRightSidebar={() => setShowRightSidebar(prev => !prev)}
-              />
-              
-              {/* Command Palette */}
-              {showCommandPalette && (
-                <CommandPalette 
-                  onClose={() => setShowCommandPalette(false)}
-                />
+                <div className={leftView === 'search' ? 'h-full' : 'hidden'}>
+                  <SearchPanel isVisible={leftView === 'search'} onClose={() => setLeftView('explorer')} />
+                </div>
+                <div className={leftView === 'git' ? 'h-full' : 'hidden'}>
+                  <SourceControlPanel onClose={() => setLeftView('explorer')} />
+                </div>
+              </ResizablePanel>
+          
+              <ResizableHandle withHandle />
+            </>
+          )}
+      
+          {/* Main Content Area */}
+          <ResizablePanel defaultSize={61}>
+            <ResizablePanelGroup direction="vertical">
+              {/* Editor Area */}
+              <ResizablePanel defaultSize={75}>
+                <EditorArea />
+              </ResizablePanel>
+          
+              {/* Terminal */}
+              {showTerminal && (
+                <>
+                  <ResizableHandle withHandle />
+                  <ResizablePanel defaultSize={25} maxSize={28}>
+                    <TerminalPanel />
+                  </ResizablePanel>
+                </>
               )}
+            </ResizablePanelGroup>
+          </ResizablePanel>
+
+          {/* AI Coworker (Right Sidebar) */}
+          {showRightSidebar && (
+            <>
+              <ResizableHandle withHandle />
+              <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
+                <AICoworker />
+              </ResizablePanel>
+            </>
+          )}
+        </ResizablePanelGroup>
+      </div>
+
+      {/* Status Bar */}
+      <StatusBar 
+        toggleTerminal={() => setShowTerminal(prev => !prev)}
+        toggleLeftSidebar={() => setShowLeftSidebar(prev => !prev)}
+        toggleRightSidebar={() => setShowRightSidebar(prev => !prev)}
+      />
+  
+      {/* Command Palette, remounted for each mode a command opens it in */}
+      {palette && (
+        <CommandPalette 
+          key={`${palette.query}:${palette.prompt}`}
+          onClose={() => setPalette(null)}
+          initialQuery={palette.query}
+          initialPrompt={palette.prompt}
+        />
+      )}
+
+      {/* Project Startup Dialog */}
+      <ProjectStartup />
 
-              {/* Project Startup Dialog */}
-              <ProjectStartup />
-            </div>
-          </EditorProvider>
-        </FileSystemProvider>
+      {/* AI Provider Settings */}
+      <AISettingsDialog />
+
+      {/* Import a local folder or zip */}
+      {showImportDialog && (
+        <ProjectImportDialog isOpen={showImportDialog} onClose={() => setShowImportDialog(false)} />
+      )}
+
+      {/* Keyboard shortcuts */}
+      <ShortcutsReferenceDialog
+        open={shortcutsDialog === 'reference'}
+        onClose={() => setShortcutsDialog(null)}
+        onCustomize={() => setShortcutsDialog('keybindings')}
+      />
+      <KeybindingsDialog
+        open={shortcutsDialog === 'keybindings'}
+        onClose={() => setShortcutsDialog(null)}
+      />
+    </div>
+  );
+};
+
+const CodeEditorIDE: React.FC = () => {
+  return (
+    <ThemeProvider>
+      <FontProvider>
+        <AISettingsProvider>
+          <FileSystemProvider>
+            <EditorProvider>
+              <InlineCompletionProvider>
+                <GitProvider>
+                  <CommandProvider>
+                    <Workbench />
+                  </CommandProvider>
+                </GitProvider>
+              </InlineCompletionProvider>
+            </EditorProvider>
+          </FileSystemProvider>
+        </AISettingsProvider>
       </FontProvider>
     </ThemeProvider>
   );
@@ -1,103 +1,285 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Search, File, Folder, Command, Terminal, Settings } from 'lucide-react';
-import { useFileSystem, FileSystemItem } from '@/contexts/FileSystemContext';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useMonaco } from '@monaco-editor/react';
+import {
+  Search, File, Folder, Command, Hash, Box, Braces, FunctionSquare, Heading, Variable, Type, ListTree, Puzzle
+} from 'lucide-react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
 import { useEditor } from '@/contexts/EditorContext';
+import { useCommands } from '@/contexts/CommandContext';
+import { fuzzyMatch, fuzzyMatchPath } from '@/lib/fuzzy';
+import { DocumentSymbol, SymbolKind, getDocumentSymbols } from '@/lib/symbols';
+import { flattenFiles, toStoragePath } from '@/lib/storage/tree';
+import { getFileIcon } from './FileExplorer';
+import { toast } from 'sonner';
+
+export type PalettePromptKind = 'file' | 'folder';
 
 interface CommandPaletteProps {
   onClose: () => void;
+  // Start in a mode, e.g. ">" to list commands
+  initialQuery?: string;
+  // Start by asking for the path of a new file or folder
+  initialPrompt?: PalettePromptKind;
 }
 
-interface CommandItem {
+interface PaletteItem {
   id: string;
-  type: 'file' | 'command';
   title: string;
+  titleMatches?: number[];
+  description?: string;
+  descriptionMatches?: number[];
   icon: React.ReactNode;
-  action: () => void;
+  shortcut?: string;
+  isCommand?: boolean;
+  run: () => void;
+}
+
+// Asks for a path in the palette input, for New File and New Folder
+interface PalettePrompt {
+  kind: PalettePromptKind;
+  placeholder: string;
 }
 
-const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
-  const { searchFiles } = useFileSystem();
-  const { openTab } = useEditor();
-  const [query, setQuery] = useState('');
-  const [results, setResults] = useState<CommandItem[]>([]);
+const PROMPTS: Record<PalettePromptKind, PalettePrompt> = {
+  file: { kind: 'file', placeholder: 'Path of the new file, e.g. src/utils.ts' },
+  folder: { kind: 'folder', placeholder: 'Path of the new folder, e.g. src/components' },
+};
+
+type PaletteMode = 'files' | 'commands' | 'symbols' | 'line';
+
+const MODE_PREFIXES: [string, PaletteMode][] = [['>', 'commands'], ['@', 'symbols'], [':', 'line']];
+
+const MAX_FILE_RESULTS = 50;
+// Recently opened files rank above equally good matches
+const RECENT_FILE_BONUS = 10;
+
+const SYMBOL_ICONS: Record<SymbolKind, React.ReactNode> = {
+  class: <Box size={16} />,
+  interface: <Puzzle size={16} />,
+  type: <Type size={16} />,
+  enum: <ListTree size={16} />,
+  function: <FunctionSquare size={16} />,
+  method: <FunctionSquare size={16} />,
+  property: <Braces size={16} />,
+  variable: <Variable size={16} />,
+  module: <Braces size={16} />,
+  heading: <Heading size={16} />,
+  selector: <Hash size={16} />,
+};
+
+const getMode = (query: string): { mode: PaletteMode; text: string } => {
+  const prefix = MODE_PREFIXES.find(([character]) => query.startsWith(character));
+  return prefix ? { mode: prefix[1], text: query.slice(1).trim() } : { mode: 'files', text: query.trim() };
+};
+
+// Text with the fuzzy-matched characters in bold
+const Highlighted: React.FC<{ text: string; matches?: number[] }> = ({ text, matches }) => {
+  if (!matches?.length) return <>{text}</>;
+
+  const matched = new Set(matches);
+  return (
+    <>
+      {text.split('').map((character, index) => matched.has(index)
+        ? <span key={index} className="font-bold text-blue-400">{character}</span>
+        : character
+      )}
+    </>
+  );
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose, initialQuery = '', initialPrompt }) => {
+  const { files, getFileByPath, writeFileAtPath, createFile } = useFileSystem();
+  const { openTab, recentFileIds, monacoInstance } = useEditor();
+  const { commands, executeCommand, getKeybinding } = useCommands();
+  const monaco = useMonaco();
+  const [query, setQuery] = useState(initialQuery);
+  const prompt = initialPrompt ? PROMPTS[initialPrompt] : null;
+  const [symbols, setSymbols] = useState<DocumentSymbol[] | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
-  
-  // Define available commands
-  const commands: CommandItem[] = [
-    {
-      id: 'command-new-file',
-      type: 'command',
-      title: 'New File',
-      icon: <File size={16} />,
-      action: () => {
-        // Implement new file action
-        onClose();
-      }
-    },
-    {
-      id: 'command-new-folder',
-      type: 'command',
-      title: 'New Folder',
-      icon: <Folder size={16} />,
-      action: () => {
-        // Implement new folder action
-        onClose();
-      }
-    },
-    {
-      id: 'command-show-terminal',
-      type: 'command',
-      title: 'Toggle Terminal',
-      icon: <Terminal size={16} />,
-      action: () => {
-        // This would be handled at a higher level
-        onClose();
-      }
-    },
-    {
-      id: 'command-settings',
-      type: 'command',
-      title: 'Open Settings',
-      icon: <Settings size={16} />,
-      action: () => {
-        // Implement settings action
-        onClose();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { mode, text } = getMode(query);
+  const model = monacoInstance?.getModel();
+
+  const createItem = (path: string, type: PalettePromptKind) => {
+    const relativePath = path.split('/').filter(Boolean).join('/');
+    if (!relativePath) return;
+
+    if (getFileByPath(relativePath)) {
+      toast.error(`${relativePath} already exists`);
+      return;
+    }
+
+    if (type === 'file') {
+      const fileId = writeFileAtPath(relativePath, '');
+      if (fileId) openTab(fileId);
+    } else {
+      const slash = relativePath.lastIndexOf('/');
+      const parent = getFileByPath(slash === -1 ? '' : relativePath.slice(0, slash));
+      if (parent?.type !== 'folder') {
+        toast.error(`No folder to create ${relativePath} in`);
+        return;
       }
+      createFile(parent.path, relativePath.slice(slash + 1), 'folder');
     }
-  ];
-  
-  // Search for files and commands based on query
+    onClose();
+  };
+
+  const revealPosition = (line: number, column = 1) => {
+    if (!monacoInstance) return;
+    monacoInstance.setPosition({ lineNumber: line, column });
+    monacoInstance.revealPositionInCenter({ lineNumber: line, column });
+    monacoInstance.focus();
+    onClose();
+  };
+
+  // Symbols of the file in the editor, loaded the first time "@" is typed
   useEffect(() => {
-    if (query.trim() === '') {
-      setResults(commands);
-      return;
-    }
-    
-    // Search for matching files
-    const fileResults = searchFiles(query).map(file => ({
-      id: file.id,
-      type: 'file' as const,
-      title: file.name,
-      icon: file.type === 'file' ? <File size={16} /> : <Folder size={16} />,
-      action: () => {
-        if (file.type === 'file') {
+    if (mode !== 'symbols' || symbols || !model) return;
+
+    let cancelled = false;
+    getDocumentSymbols(monaco, model).then(result => {
+      if (!cancelled) setSymbols(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, symbols, model, monaco]);
+
+  const recentRank = useMemo(() => new Map(recentFileIds.map((id, index) => [id, index])), [recentFileIds]);
+
+  const getFileItems = (): PaletteItem[] => {
+    const candidates = flattenFiles(files).map(file => ({ file, path: toStoragePath(file.path) }));
+
+    const toItem = ({ file, path }: typeof candidates[number], matches: number[] = []): PaletteItem => {
+      const nameStart = path.lastIndexOf('/') + 1;
+      return {
+        id: file.id,
+        title: file.name,
+        titleMatches: matches.filter(index => index >= nameStart).map(index => index - nameStart),
+        description: path.slice(0, Math.max(0, nameStart - 1)),
+        descriptionMatches: matches.filter(index => index < nameStart),
+        icon: getFileIcon(file.name),
+        run: () => {
           openTab(file.id);
+          onClose();
         }
-        onClose();
-      }
-    }));
-    
-    // Filter commands
-    const commandResults = commands.filter(command => 
-      command.title.toLowerCase().includes(query.toLowerCase())
-    );
-    
-    setResults([...fileResults, ...commandResults]);
+      };
+    };
+
+    // With no query, recently opened files come first
+    if (!text) {
+      return [...candidates]
+        .sort((a, b) => (recentRank.get(a.file.id) ?? Infinity) - (recentRank.get(b.file.id) ?? Infinity) || a.path.localeCompare(b.path))
+        .slice(0, MAX_FILE_RESULTS)
+        .map(candidate => toItem(candidate));
+    }
+
+    return candidates
+      .map(candidate => {
+        const match = fuzzyMatchPath(text, candidate.path);
+        const rank = recentRank.get(candidate.file.id);
+        const bonus = rank === undefined ? 0 : RECENT_FILE_BONUS * (1 - rank / recentFileIds.length);
+        return match ? { candidate, match, score: match.score + bonus } : null;
+      })
+      .filter((result): result is NonNullable<typeof result> => result !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_FILE_RESULTS)
+      .map(({ candidate, match }) => toItem(candidate, match.matches));
+  };
+
+  const getCommandItems = (): PaletteItem[] => {
+    return commands
+      .map(command => ({ command, match: fuzzyMatch(text, command.title) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => (text ? b.match!.score - a.match!.score : 0))
+      .map(({ command, match }) => ({
+        id: command.id,
+        title: command.title,
+        titleMatches: match!.matches,
+        description: command.category,
+        icon: command.icon ?? <Command size={16} />,
+        shortcut: getKeybinding(command.id),
+        isCommand: true,
+        run: () => {
+          // Close first, so a command can open the palette again in another mode
+          onClose();
+          executeCommand(command.id);
+        }
+      }));
+  };
+
+  const getSymbolItems = (): PaletteItem[] => {
+    return (symbols || [])
+      .map(symbol => ({ symbol, match: fuzzyMatch(text, symbol.name) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => (text ? b.match!.score - a.match!.score : 0))
+      .map(({ symbol, match }) => ({
+        id: `symbol-${symbol.line}-${symbol.column}-${symbol.name}`,
+        title: symbol.name,
+        titleMatches: match!.matches,
+        description: symbol.container ? `${symbol.container} · ${symbol.kind}` : symbol.kind,
+        icon: SYMBOL_ICONS[symbol.kind],
+        run: () => revealPosition(symbol.line, symbol.column)
+      }));
+  };
+
+  const getLineItems = (): PaletteItem[] => {
+    const lineCount = model?.getLineCount() ?? 0;
+    const match = /^(\d+)(?:[:,](\d+))?$/.exec(text);
+    if (!match) return [];
+
+    const line = Math.min(Math.max(1, Number(match[1])), lineCount);
+    const column = match[2] ? Math.max(1, Number(match[2])) : undefined;
+    return [{
+      id: 'go-to-line',
+      title: column ? `Go to line ${line}, column ${column}` : `Go to line ${line}`,
+      icon: <Hash size={16} />,
+      run: () => revealPosition(line, column)
+    }];
+  };
+
+  const getPromptItems = (): PaletteItem[] => {
+    if (!prompt || !query.trim()) return [];
+    return [{
+      id: 'prompt',
+      title: `Create ${query.trim()}`,
+      icon: prompt.kind === 'folder' ? <Folder size={16} /> : <File size={16} />,
+      run: () => createItem(query.trim(), prompt.kind)
+    }];
+  };
+
+  const items = prompt
+    ? getPromptItems()
+    : mode === 'commands'
+      ? getCommandItems()
+      : mode === 'symbols'
+        ? getSymbolItems()
+        : mode === 'line'
+          ? getLineItems()
+          : getFileItems();
+
+  const emptyText = prompt
+    ? prompt.placeholder
+    : (mode === 'symbols' || mode === 'line') && !model
+      ? 'Open a file in the editor first'
+      : mode === 'symbols' && !symbols
+        ? 'Loading symbols...'
+        : mode === 'line'
+          ? `Type a line number between 1 and ${model?.getLineCount()}`
+          : 'No results found';
+
+  useEffect(() => {
     setSelectedIndex(0);
-  }, [query, commands, searchFiles, openTab, onClose]);
-  
+  }, [query, prompt]);
+
+  // Keep the selected item in view
+  useEffect(() => {
+    listRef.current?.querySelector('[data-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
   // Handle key navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -108,35 +290,36 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
           break;
         case 'ArrowDown':
           e.preventDefault();
-          setSelectedIndex(prev => (prev + 1) % results.length);
+          if (items.length > 0) setSelectedIndex(prev => (prev + 1) % items.length);
           break;
         case 'ArrowUp':
           e.preventDefault();
-          setSelectedIndex(prev => (prev - 1 + results.length) % results.length);
+          if (items.length > 0) setSelectedIndex(prev => (prev - 1 + items.length) % items.length);
           break;
         case 'Enter':
           e.preventDefault();
-          if (results[selectedIndex]) {
-            results[selectedIndex].action();
+          if (items[selectedIndex]) {
+            items[selectedIndex].run();
           }
           break;
       }
     };
-    
+
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [results, selectedIndex, onClose]);
-  
-  // Focus input on mount
+  }, [items, selectedIndex, onClose]);
+
+  // Focus input on mount and when a command switches the mode or asks for a name
   useEffect(() => {
-    if (inputRef.current) {
-      inputRef.current.focus();
-    }
-  }, []);
-  
+    inputRef.current?.focus();
+  }, [mode, prompt]);
+
   return (
-    <div className="fixed inset-0 flex items-start justify-center pt-20 bg-black bg-opacity-50 z-50">
-      <div className="w-full max-w-2xl bg-sidebar rounded-md shadow-lg overflow-hidden">
+    <div
+      className="fixed inset-0 flex items-start justify-center pt-20 bg-black bg-opacity-50 z-50"
+      onClick={onClose}
+    >
+      <div className="w-full max-w-2xl bg-sidebar rounded-md shadow-lg overflow-hidden" onClick={(e) => e.stopPropagation()}>
         <div className="p-2 flex items-center border-b border-border">
           <Search size={18} className="mr-2 text-slate-400" />
           <input
@@ -144,29 +327,40 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
             type="text"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            placeholder="Search files or type a command..."
+            placeholder={prompt?.placeholder ?? 'Search files by name (> commands, @ symbols, : go to line)'}
             className="flex-1 bg-transparent border-none outline-none text-white"
           />
           <div className="text-xs text-slate-400">
             <span className="px-1 py-0.5 border border-slate-600 rounded">ESC</span> to close
           </div>
         </div>
-        
-        <div className="max-h-96 overflow-y-auto">
-          {results.length > 0 ? (
+
+        <div ref={listRef} className="max-h-96 overflow-y-auto">
+          {items.length > 0 ? (
             <div className="py-2">
-              {results.map((item, index) => (
+              {items.map((item, index) => (
                 <div
                   key={item.id}
-                  className={`px-4 py-2 flex items-center ${
+                  data-selected={index === selectedIndex}
+                  className={`px-4 py-1.5 flex items-center ${
                     index === selectedIndex ? 'bg-sidebar-foreground bg-opacity-20' : ''
                   } hover:bg-sidebar-foreground hover:bg-opacity-10 cursor-pointer`}
-                  onClick={() => item.action()}
+                  onClick={() => item.run()}
                 >
-                  <span className="mr-2 text-slate-400">{item.icon}</span>
-                  <span className="text-white">{item.title}</span>
-                  {item.type === 'command' && (
-                    <span className="ml-auto text-slate-400">
+                  <span className="mr-2 text-slate-400 shrink-0">{item.icon}</span>
+                  <span className="text-white shrink-0">
+                    <Highlighted text={item.title} matches={item.titleMatches} />
+                  </span>
+                  {item.description && (
+                    <span className="ml-2 text-sm text-slate-400 truncate">
+                      <Highlighted text={item.description} matches={item.descriptionMatches} />
+                    </span>
+                  )}
+                  {item.shortcut && (
+                    <span className="ml-auto pl-2 text-xs text-slate-400 shrink-0">{item.shortcut}</span>
+                  )}
+                  {item.isCommand && !item.shortcut && (
+                    <span className="ml-auto pl-2 text-slate-400">
                       <Command size={14} />
                     </span>
                   )}
@@ -175,7 +369,7 @@ const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
             </div>
           ) : (
             <div className="p-4 text-center text-slate-400">
-              No results found
+              {emptyText}
             </div>
           )}
         </div>
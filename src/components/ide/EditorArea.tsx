@@ -1,393 +1,892 @@
-
-import React, { useRef, useEffect, useCallback } from 'react';
-import { Editor, OnMount, useMonaco } from '@monaco-editor/react';
-import { X, Circle } from 'lucide-react';
-import { useEditor } from '@/contexts/EditorContext';
-import { useFileSystem } from '@/contexts/FileSystemContext';
-import { useTheme } from '@/contexts/ThemeContext';
-import { useFont } from '@/contexts/FontContext';
-
-// Tab component for the editor
-interface TabProps {
-  id: string;
-  name: string;
-  isActive: boolean;
-  isModified: boolean;
-  onClick: () => void;
-  onClose: (e: React.MouseEvent) => void;
-}
-
-const Tab: React.FC<TabProps> = ({ id, name, isActive, isModified, onClick, onClose }) => {
-  return (
-    <div 
-      className={`flex items-center px-3 py-1 border-r border-border cursor-pointer ${
-        isActive ? 'bg-tab-active text-white' : 'bg-tab-inactive text-slate-400 hover:text-white'
-      }`}
-      onClick={onClick}
-    >
-      <span className="text-sm truncate max-w-40">{name}</span>
-      {isModified && <Circle size={8} className="ml-2 fill-current text-blue-500" />}
-      <button 
-        className="ml-2 p-0.5 text-slate-400 hover:text-white hover:bg-sidebar-foreground hover:bg-opacity-10 rounded-sm transition-colors"
-        onClick={onClose}
-      >
-        <X size={14} />
-      </button>
-    </div>
-  );
-};
-
-const EditorArea: React.FC = () => {
-  const { 
-    openedTabs, 
-    activeTabId, 
-    openTab, 
-    closeTab, 
-    setActiveTab, 
-    updateMonacoInstance,
-    saveActiveFile,
-    getTabContent,
-    updateTabContent,
-    undoLastAction,
-    redoLastAction
-  } = useEditor();
-  
-  const { editorTheme } = useTheme();
-  const { editorFont } = useFont();
-  const monaco = useMonaco();
-  const editorRef = useRef<any>(null);
-  
-  // Handle keyboard shortcuts
-  const handleKeyboardShortcuts = useCallback((e: KeyboardEvent) => {
-    if (e.ctrlKey || e.metaKey) {
-      if (e.key === 's') {
-        e.preventDefault();
-        saveActiveFile();
-      } else if (e.key === 'z' && !e.shiftKey) {
-        e.preventDefault();
-        undoLastAction();
-      } else if ((e.key === 'z' && e.shiftKey) || e.key === 'y') {
-        e.preventDefault();
-        redoLastAction();
-      }
-    }
-  }, [saveActiveFile, undoLastAction, redoLastAction]);
-
-  // Set up global keyboard shortcut listeners
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyboardShortcuts);
-    return () => {
-      window.removeEventListener('keydown', handleKeyboardShortcuts);
-    };
-  }, [handleKeyboardShortcuts]);
-  
-  // Set up Monaco editor
-  const handleEditorMount: OnMount = (editor, monaco) => {
-    editorRef.current = editor;
-    updateMonacoInstance(editor);
-    
-    // Set up editor options for better coding experience
-    editor.updateOptions({
-      fontSize: 14,
-      fontFamily: editorFont + ", 'JetBrains Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
-      minimap: { enabled: true },
-      scrollBeyondLastLine: false,
-      renderLineHighlight: 'all',
-      cursorBlinking: 'smooth',
-      cursorSmoothCaretAnimation: 'on',
-      smoothScrolling: true,
-      linkedEditing: true,
-      formatOnPaste: true,
-      formatOnType: true,
-      autoClosingBrackets: 'always',
-      autoClosingQuotes: 'always',
-      autoIndent: 'full',
-      tabSize: 2,
-      wordWrap: 'on',
-    });
-
-    // Set up context menu with copy/paste options
-    editor.addAction({
-      id: 'custom-copy',
-      label: 'Copy',
-      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyC],
-      contextMenuGroupId: 'modification',
-      run: () => {
-        const selection = editor.getSelection();
-        if (selection) {
-          const text = editor.getModel()?.getValueInRange(selection);
-          if (text) {
-            navigator.clipboard.writeText(text).catch(err => {
-              console.error('Failed to copy text: ', err);
-            });
-          }
-        }
-      }
-    });
-
-    editor.addAction({
-      id: 'custom-paste',
-      label: 'Paste',
-      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyV],
-      contextMenuGroupId: 'modification',
-      run: async () => {
-        try {
-          const text = await navigator.clipboard.readText();
-          editor.executeEdits('clipboard', [{
-            range: editor.getSelection(),
-            text: text,
-            forceMoveMarkers: true
-          }]);
-        } catch (err) {
-          console.error('Failed to paste text: ', err);
-        }
-      }
-    });
-
-    editor.addAction({
-      id: 'custom-cut',
-      label: 'Cut',
-      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyX],
-      contextMenuGroupId: 'modification',
-      run: () => {
-        const selection = editor.getSelection();
-        if (selection) {
-          const text = editor.getModel()?.getValueInRange(selection);
-          if (text) {
-            navigator.clipboard.writeText(text).then(() => {
-              editor.executeEdits('clipboard', [{
-                range: selection,
-                text: '',
-                forceMoveMarkers: true
-              }]);
-            }).catch(err => {
-              console.error('Failed to cut text: ', err);
-            });
-          }
-        }
-      }
-    });
-
-    // Set up save shortcut
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      if (activeTabId) {
-        saveActiveFile();
-      }
-    });
-
-   /* // Set up undo/redo shortcuts
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ, () => {
-      undoLastAction();
-    });
-
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ, () => {
-      redoLastAction();
-    });*/
-  };
-  
-  // Get active file content
-  const getActiveFileContent = () => {
-    if (!activeTabId) return '';
-    return getTabContent(activeTabId);
-  };
-  
-  // Get active file language
-  const getFileLanguage = () => {
-    if (!activeTabId) return 'plaintext';
-    const tab = openedTabs.find(tab => tab.id === activeTabId);
-    return tab?.language || 'plaintext';
-  };
-  
-  // Handle editor value changes
-  const handleEditorChange = (value: string | undefined) => {
-    if (activeTabId && value !== undefined) {
-      updateTabContent(activeTabId, value);
-    }
-  };
-  
-  // Handle tab close
-  const handleCloseTab = (e: React.MouseEvent, tabId: string) => {
-    e.stopPropagation();
-    closeTab(tabId);
-  };
-  
-  // Set up Monaco editor themes
-  useEffect(() => {
-    if (monaco) {
-      // Define custom dark theme for the editor
-      monaco.editor.defineTheme('custom-dark', {
-        base: 'vs-dark',
-        inherit: true,
-        rules: [
-          { token: 'comment', foreground: '6A737D' },
-          { token: 'keyword', foreground: 'C678DD' },
-          { token: 'string', foreground: '98C379' },
-          { token: 'number', foreground: 'D19A66' },
-          { token: 'operator', foreground: '56B6C2' },
-          { token: 'function', foreground: '61AFEF' },
-          { token: 'variable', foreground: 'E06C75' },
-          { token: 'type', foreground: 'E5C07B' },
-        ],
-        colors: {
-          'editor.background': '#1a1e26',
-          'editor.foreground': '#D4D4D4',
-          'editorCursor.foreground': '#AEAFAD',
-          'editor.lineHighlightBackground': '#2C313C',
-          'editorLineNumber.foreground': '#858585',
-          'editor.selectionBackground': '#264F78',
-          'editor.inactiveSelectionBackground': '#3A3D41',
-          'editorWidget.background': '#1a1e26',
-          'editorWidget.border' :'#4545454f',
-          'input.background':'#d6ddeb1a',
-          'menu.background': '#1a1e26',
-          'menu.selectionBackground': '#272b34',
-          'menu.foreground':'#d6ddeb',
-          'inputOption.activeBackground': '#272b34',
-          'quickInputList.focusBackground': '#272b34',
-          'inputOption.activeBorder': '#272b3300',
-          'focusBorder': '#272b3300',
-          'editorSuggestWidget.background': '#1a1e26',
-          'editorSuggestWidget.border': '#383E4C',
-          'editorSuggestWidget.selectedBackground': '#2C313C',
-          'editorHoverWidget.background': '#1a1e26',
-          'editorHoverWidget.border': '#383E4C',
-        }
-      });
-
-monaco.editor.defineTheme('custom-light', {
-        base: 'vs-dark',
-        inherit: true,
-        rules: [
-          { token: 'comment', foreground: '6A737D' },
-          { token: 'keyword', foreground: 'C678DD' },
-          { token: 'string', foreground: '98C379' },
-          { token: 'number', foreground: 'D19A66' },
-          { token: 'operator', foreground: '56B6C2' },
-          { token: 'function', foreground: '61AFEF' },
-          { token: 'variable', foreground: 'E06C75' },
-          { token: 'type', foreground: 'E5C07B' },
-        ],
-        colors: {
-          'editor.background': '#1a1e26',
-          'editor.foreground': '#D4D4D4',
-          'editorCursor.foreground': '#AEAFAD',
-          'editor.lineHighlightBackground': '#2C313C',
-          'editorLineNumber.foreground': '#858585',
-          'editor.selectionBackground': '#264F78',
-          'editor.inactiveSelectionBackground': '#3A3D41',
-          'editorWidget.background': '#1a1e26',
-          'editorWidget.border' :'#4545454f',
-          'input.background':'#d6ddeb1a',
-          'menu.background': '#1a1e26',
-          'menu.selectionBackground': '#272b34',
-          'menu.foreground':'#d6ddeb',
-          'inputOption.activeBackground': '#272b34',
-          'quickInputList.focusBackground': '#272b34',
-          'inputOption.activeBorder': '#272b3300',
-          'focusBorder': '#272b3300',
-          'editorSuggestWidget.background': '#1a1e26',
-          'editorSuggestWidget.border': '#383E4C',
-          'editorSuggestWidget.selectedBackground': '#2C313C',
-          'editorHoverWidget.background': '#1a1e26',
-          'editorHoverWidget.border': '#383E4C',
-        }
-      });
-      
-      // Define custom light theme for the editor
-     /* monaco.editor.defineTheme('custom-light', {
-        base: 'vs',
-        inherit: true,
-        rules: [
-          { token: 'comment', foreground: '6A737D' },
-          { token: 'keyword', foreground: 'D73A49' },
-          { token: 'string', foreground: '032F62' },
-          { token: 'number', foreground: '005CC5' },
-          { token: 'operator', foreground: 'D73A49' },
-          { token: 'function', foreground: '6F42C1' },
-          { token: 'variable', foreground: 'E36209' },
-          { token: 'type', foreground: '6F42C1' },
-        ],
-        colors: {
-          'editor.background': '#F8F8F8',
-          'editor.foreground': '#24292E',
-          'editorCursor.foreground': '#24292E',
-          'editor.lineHighlightBackground': '#F0F0F0',
-          'editorLineNumber.foreground': '#6E7781',
-          'editor.selectionBackground': '#B4D8FE',
-          'editor.inactiveSelectionBackground': '#E5EBF1',
-          'editorSuggestWidget.background': '#FFFFFF',
-          'editorSuggestWidget.border': '#E1E4E8',
-          'editorSuggestWidget.selectedBackground': '#F1F2F3',
-          'editorHoverWidget.background': '#FFFFFF',
-          'editorHoverWidget.border': '#E1E4E8',
-        }
-      });*/
-    }
-  }, [monaco]);
-  
-  return (
-    <div className="h-full flex flex-col">
-      {/* Tabs bar */}
-      <div className="flex items-center bg-sidebar border-b border-border">
-        {openedTabs.map(tab => (
-          <Tab
-            key={tab.id}
-            id={tab.id}
-            name={tab.name}
-            isActive={tab.id === activeTabId}
-            isModified={tab.isModified}
-            onClick={() => setActiveTab(tab.id)}
-            onClose={(e) => handleCloseTab(e, tab.id)}
-          />
-        ))}
-      </div>
-      
-      {/* Editor */}
-      <div className="flex-1">
-        {activeTabId ? (
-          <Editor
-            height="100%"
-            defaultLanguage={getFileLanguage()}
-            language={getFileLanguage()}
-            value={getActiveFileContent()}
-            theme={editorTheme}
-            onChange={handleEditorChange}
-            onMount={handleEditorMount}
-            options={{
-              readOnly: false,
-              automaticLayout: true,
-              autoIndent: 'full',
-              formatOnPaste: true,
-              formatOnType: true,
-              autoClosingBrackets: 'always',
-              autoClosingQuotes: 'always',
-              wordWrap: 'on',
-              quickSuggestions: {
-                other: true,
-                comments: true,
-                strings: true
-              },
-              suggestOnTriggerCharacters: true,
-              acceptSuggestionOnCommitCharacter: true,
-              tabCompletion: 'on',
-              parameterHints: {
-                enabled: true,
-                cycle: true
-              },
-              fontFamily: editorFont + ", 'JetBrains Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
-            }}
-          />
-        ) : (
-          <div className="h-full flex items-center justify-center bg-editor text-slate-400">
-            <div className="text-center">
-              <p>No file is open</p>
-              <p className="text-sm mt-1">Open a file from the explorer to start editing</p>
-            </div>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-};
-
-export default EditorArea;
+
+import React, { useCallback, useRef, useEffect, useLayoutEffect, useState } from 'react';
+import { Editor, OnMount, useMonaco } from '@monaco-editor/react';
+import type { editor } from 'monaco-editor';
+import { Menu, Item, Separator, useContextMenu } from 'react-contexify';
+import {
+  X,
+  Circle,
+  Save,
+  SaveAll,
+  Undo,
+  Redo,
+  Columns2,
+  Rows2,
+  Pin,
+  PinOff,
+  ListX,
+  ArrowRightToLine,
+  CheckCheck,
+  Copy,
+  FolderTree,
+  ChevronDown,
+} from 'lucide-react';
+import { EditorGroup, useEditor } from '@/contexts/EditorContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useCommands, useRegisterCommands } from '@/contexts/CommandContext';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useFont } from '@/contexts/FontContext';
+import { askAssistant } from '@/lib/ai/assistantRequests';
+import { buildExplainMessage, CODE_ACTIONS, CodeActionId, CodeActionRequest } from '@/lib/ai/codeActions';
+import { toStoragePath } from '@/lib/storage/tree';
+import { EditorLayout, layoutGroupIds } from '@/lib/editorLayout';
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
+import { CodeActionPreview } from './CodeActionPreview';
+import { ChangeMarkers } from './ChangeMarkers';
+import { toast } from 'sonner';
+
+// Drag data for a tab, so dropping files or text on a group is left alone
+const TAB_DRAG_TYPE = 'application/x-editor-tab';
+
+interface DraggedTab {
+  tabId: string;
+  groupId: string;
+}
+
+const isTabDrag = (e: React.DragEvent) => e.dataTransfer.types.includes(TAB_DRAG_TYPE);
+
+const readDraggedTab = (e: React.DragEvent): DraggedTab | null => {
+  try {
+    return JSON.parse(e.dataTransfer.getData(TAB_DRAG_TYPE));
+  } catch {
+    return null;
+  }
+};
+
+// Tab component for the editor
+interface TabProps {
+  id: string;
+  name: string;
+  isActive: boolean;
+  isModified: boolean;
+  isPreview: boolean;
+  isPinned: boolean;
+  onClick: () => void;
+  onDoubleClick: () => void;
+  onClose: (e: React.MouseEvent) => void;
+  onUnpin: (e: React.MouseEvent) => void;
+  onContextMenu: (e: React.MouseEvent) => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+}
+
+const Tab: React.FC<TabProps> = ({
+  id,
+  name,
+  isActive,
+  isModified,
+  isPreview,
+  isPinned,
+  onClick,
+  onDoubleClick,
+  onClose,
+  onUnpin,
+  onContextMenu,
+  onDragStart,
+  onDrop
+}) => {
+  return (
+    <div 
+      className={`flex flex-shrink-0 items-center px-3 py-1 border-r border-border cursor-pointer ${
+        isActive ? 'bg-tab-active text-white' : 'bg-tab-inactive text-slate-400 hover:text-white'
+      }`}
+      data-tab-id={id}
+      draggable
+      onClick={onClick}
+      onDoubleClick={onDoubleClick}
+      onContextMenu={onContextMenu}
+      // Middle click closes the tab, rather than starting the browser's autoscroll
+      onMouseDown={(e) => e.button === 1 && e.preventDefault()}
+      onAuxClick={(e) => e.button === 1 && onClose(e)}
+      onDragStart={onDragStart}
+      onDrop={onDrop}
+    >
+      <span className={`text-sm truncate max-w-40 ${isPreview ? 'italic' : ''}`}>{name}</span>
+      {isModified && <Circle size={8} className="ml-2 fill-current text-blue-500" />}
+      {isPinned ? (
+        <button 
+          className="ml-2 p-0.5 text-slate-400 hover:text-white hover:bg-sidebar-foreground hover:bg-opacity-10 rounded-sm transition-colors"
+          onClick={onUnpin}
+          title="Unpin"
+        >
+          <Pin size={14} />
+        </button>
+      ) : (
+        <button 
+          className="ml-2 p-0.5 text-slate-400 hover:text-white hover:bg-sidebar-foreground hover:bg-opacity-10 rounded-sm transition-colors"
+          onClick={onClose}
+        >
+          <X size={14} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Cursor, selections, folding and scroll of a tab, by group and tab, and by tab alone for the latest of any group
+type ViewStates = Map<string, editor.ICodeEditorViewState>;
+
+interface EditorGroupPaneProps {
+  group: EditorGroup;
+  viewStates: ViewStates;
+  onCodeAction: (request: CodeActionRequest, tabId: string) => void;
+}
+
+// One group: its tab strip and its editor
+const EditorGroupPane: React.FC<EditorGroupPaneProps> = ({ group, viewStates, onCodeAction }) => {
+  const {
+    openedTabs,
+    groups,
+    activeGroupId,
+    closeTab,
+    closeTabs,
+    closeGroup,
+    keepTab,
+    pinTab,
+    unpinTab,
+    setActiveTab,
+    registerEditor,
+    focusGroup,
+    moveTab,
+    moveTabToGroup,
+    getModel
+  } = useEditor();
+  
+  const { revealFile } = useFileSystem();
+  const { executeCommand } = useCommands();
+  const { editorTheme } = useTheme();
+  const { editorFont } = useFont();
+  const { show } = useContextMenu();
+  const [isDropTarget, setIsDropTarget] = useState(false);
+  const stripRef = useRef<HTMLDivElement>(null);
+  const [editorInstance, setEditorInstance] = useState<editor.IStandaloneCodeEditor | null>(null);
+  // The tab whose model the editor shows
+  const shownTabIdRef = useRef<string | null>(null);
+  
+  const tabs = group.tabIds.flatMap(tabId => openedTabs.filter(tab => tab.id === tabId));
+  const activeTab = openedTabs.find(tab => tab.id === group.activeTabId);
+  const isActiveGroup = group.id === activeGroupId;
+  // Null until EditorContext has made the file's model; the same model every render after that
+  const activeModel = activeTab ? getModel(activeTab.id) : null;
+  
+  // Editor actions are registered once at mount; they read the active tab through this ref
+  const activeTabRef = useRef(activeTab);
+  activeTabRef.current = activeTab;
+  
+  const saveViewState = useCallback(() => {
+    const tabId = shownTabIdRef.current;
+    const viewState = editorInstance?.getModel() ? editorInstance.saveViewState() : null;
+    if (!tabId || !viewState) return;
+    viewStates.set(`${group.id}:${tabId}`, viewState);
+    viewStates.set(tabId, viewState);
+  }, [editorInstance, group.id, viewStates]);
+  
+  // Switching tabs swaps the file's model into the editor, so each file keeps its own undo history.
+  // A layout effect, so everything reading the editor in its effects already sees the new model.
+  const activeTabId = activeTab?.id ?? null;
+  useLayoutEffect(() => {
+    if (!editorInstance || editorInstance.getModel() === activeModel) return;
+    
+    saveViewState();
+    editorInstance.setModel(activeModel);
+    shownTabIdRef.current = activeModel ? activeTabId : null;
+    
+    const viewState = activeModel && activeTabId && (viewStates.get(`${group.id}:${activeTabId}`) ?? viewStates.get(activeTabId));
+    if (viewState) {
+      editorInstance.restoreViewState(viewState);
+    }
+  }, [editorInstance, activeModel, activeTabId, group.id, viewStates, saveViewState]);
+  
+  // The pane goes away when the layout changes around it; the next one picks up where this left off
+  useEffect(() => {
+    return saveViewState;
+  }, [saveViewState]);
+  
+  // Bring the active tab into view when the tabs overflow
+  useEffect(() => {
+    if (!group.activeTabId) return;
+    stripRef.current
+      ?.querySelector<HTMLElement>(`[data-tab-id="${CSS.escape(group.activeTabId)}"]`)
+      ?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [group.activeTabId]);
+  
+  const tabMenuId = `editor-tab-menu-${group.id}`;
+  const tabListMenuId = `editor-tab-list-${group.id}`;
+  const isPinned = (tabId: string) => group.pinnedTabIds.includes(tabId);
+  
+  // Close Others, Close to the Right and Close Saved leave pinned tabs open
+  const closeOthers = (tabId: string) => {
+    closeTabs(group.tabIds.filter(id => id !== tabId && !isPinned(id)), group.id);
+  };
+  
+  const closeToTheRight = (tabId: string) => {
+    closeTabs(group.tabIds.slice(group.tabIds.indexOf(tabId) + 1).filter(id => !isPinned(id)), group.id);
+  };
+  
+  const closeSaved = () => {
+    closeTabs(tabs.filter(tab => !tab.isModified && !isPinned(tab.id)).map(tab => tab.id), group.id);
+  };
+  
+  const copyPath = (tabId: string) => {
+    const tab = openedTabs.find(candidate => candidate.id === tabId);
+    if (!tab) return;
+    navigator.clipboard.writeText(toStoragePath(tab.path))
+      .then(() => toast.success('Path copied to clipboard'))
+      .catch(err => console.error('Failed to copy path: ', err));
+  };
+  
+  const revealInExplorer = (tabId: string) => {
+    revealFile(tabId);
+    executeCommand('view.showExplorer');
+  };
+  
+  // Set up Monaco editor
+  const handleEditorMount: OnMount = (editor, monaco) => {
+    // The editor starts with a model of its own; the tabs' models come from EditorContext
+    editor.getModel()?.dispose();
+    setEditorInstance(editor);
+    registerEditor(group.id, editor);
+    editor.onDidDispose(() => {
+      registerEditor(group.id, null);
+      setEditorInstance(null);
+    });
+    // Typing in a group makes it the active one
+    editor.onDidFocusEditorText(() => focusGroup(group.id));
+    
+    // Set up editor options for better coding experience
+    editor.updateOptions({
+      fontSize: 14,
+      fontFamily: editorFont + ", 'JetBrains Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
+      minimap: { enabled: true },
+      scrollBeyondLastLine: false,
+      renderLineHighlight: 'all',
+      cursorBlinking: 'smooth',
+      cursorSmoothCaretAnimation: 'on',
+      smoothScrolling: true,
+      linkedEditing: true,
+      formatOnPaste: true,
+      formatOnType: true,
+      autoClosingBrackets: 'always',
+      autoClosingQuotes: 'always',
+      autoIndent: 'full',
+      tabSize: 2,
+      wordWrap: 'on',
+    });
+
+    // Set up context menu with copy/paste options
+    editor.addAction({
+      id: 'custom-copy',
+      label: 'Copy',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyC],
+      contextMenuGroupId: 'modification',
+      run: () => {
+        const selection = editor.getSelection();
+        if (selection) {
+          const text = editor.getModel()?.getValueInRange(selection);
+          if (text) {
+            navigator.clipboard.writeText(text).catch(err => {
+              console.error('Failed to copy text: ', err);
+            });
+          }
+        }
+      }
+    });
+
+    editor.addAction({
+      id: 'custom-paste',
+      label: 'Paste',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyV],
+      contextMenuGroupId: 'modification',
+      run: async () => {
+        try {
+          const text = await navigator.clipboard.readText();
+          editor.executeEdits('clipboard', [{
+            range: editor.getSelection(),
+            text: text,
+            forceMoveMarkers: true
+          }]);
+        } catch (err) {
+          console.error('Failed to paste text: ', err);
+        }
+      }
+    });
+
+    editor.addAction({
+      id: 'custom-cut',
+      label: 'Cut',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyX],
+      contextMenuGroupId: 'modification',
+      run: () => {
+        const selection = editor.getSelection();
+        if (selection) {
+          const text = editor.getModel()?.getValueInRange(selection);
+          if (text) {
+            navigator.clipboard.writeText(text).then(() => {
+              editor.executeEdits('clipboard', [{
+                range: selection,
+                text: '',
+                forceMoveMarkers: true
+              }]);
+            }).catch(err => {
+              console.error('Failed to cut text: ', err);
+            });
+          }
+        }
+      }
+    });
+
+    // "Ask AI" actions on the selection, which is widened to whole lines
+    const runCodeAction = (action: CodeActionId) => {
+      const selection = editor.getSelection();
+      const model = editor.getModel();
+      const tab = activeTabRef.current;
+      if (!selection || selection.isEmpty() || !model || !tab) return;
+      
+      const startLine = selection.startLineNumber;
+      // A selection that ends at the start of a line doesn't include that line
+      const endLine = selection.endColumn === 1 && selection.endLineNumber > startLine
+        ? selection.endLineNumber - 1
+        : selection.endLineNumber;
+      const range = new monaco.Range(startLine, 1, endLine, model.getLineMaxColumn(endLine));
+      
+      const diagnostics = monaco.editor.getModelMarkers({ resource: model.uri })
+        .filter(marker => marker.startLineNumber <= endLine && marker.endLineNumber >= startLine)
+        .map(marker => `Line ${marker.startLineNumber}: ${marker.message}`);
+      
+      const request: CodeActionRequest = {
+        action,
+        path: toStoragePath(tab.path),
+        language: tab.language,
+        fileContent: model.getValue(),
+        selection: model.getValueInRange(range),
+        startLine,
+        endLine,
+        diagnostics,
+      };
+      
+      if (action === 'explain') {
+        askAssistant(buildExplainMessage(request));
+      } else {
+        onCodeAction(request, tab.id);
+      }
+    };
+    
+    CODE_ACTIONS.forEach(({ id, label }, index) => {
+      editor.addAction({
+        id: `ask-ai-${id}`,
+        label: `Ask AI: ${label}`,
+        precondition: 'editorHasSelection',
+        // After Copy/Cut/Paste in the same group
+        contextMenuGroupId: 'modification',
+        contextMenuOrder: 100 + index,
+        run: () => runCodeAction(id)
+      });
+    });
+
+   /* // Set up undo/redo shortcuts
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyZ, () => {
+      undoLastAction();
+    });
+
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyZ, () => {
+      redoLastAction();
+    });*/
+  };
+  
+  // Handle tab close
+  const handleCloseTab = (e: React.MouseEvent, tabId: string) => {
+    e.stopPropagation();
+    closeTab(tabId, group.id);
+  };
+  
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!isTabDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDropTarget(true);
+  };
+  
+  // A tab dropped on a tab takes its place; dropped anywhere else in the group, it goes to the end
+  const handleDrop = (e: React.DragEvent, index?: number) => {
+    setIsDropTarget(false);
+    const dragged = isTabDrag(e) ? readDraggedTab(e) : null;
+    if (!dragged) return;
+    e.preventDefault();
+    e.stopPropagation();
+    
+    if (dragged.groupId === group.id) {
+      moveTab(group.tabIds.indexOf(dragged.tabId), index ?? group.tabIds.length - 1, group.id);
+    } else {
+      moveTabToGroup(dragged.tabId, dragged.groupId, group.id, index);
+    }
+  };
+  
+  return (
+    <div
+      className={`h-full flex flex-col ${isDropTarget ? 'ring-1 ring-inset ring-blue-500' : ''}`}
+      onMouseDown={() => focusGroup(group.id)}
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false);
+      }}
+      onDrop={(e) => handleDrop(e)}
+    >
+      {/* Tabs bar */}
+      <div className={`flex items-center bg-sidebar border-b ${isActiveGroup && groups.length > 1 ? 'border-blue-500' : 'border-border'}`}>
+        <div
+          ref={stripRef}
+          className="tab-strip flex flex-1 min-w-0 overflow-x-auto"
+          // The wheel scrolls overflowing tabs sideways
+          onWheel={(e) => {
+            if (e.deltaY && !e.deltaX) e.currentTarget.scrollLeft += e.deltaY;
+          }}
+        >
+          {tabs.map((tab, index) => (
+            <Tab
+              key={tab.id}
+              id={tab.id}
+              name={tab.name}
+              isActive={tab.id === group.activeTabId}
+              isModified={tab.isModified}
+              isPreview={tab.id === group.previewTabId}
+              isPinned={isPinned(tab.id)}
+              onClick={() => setActiveTab(tab.id, group.id)}
+              onDoubleClick={() => keepTab(tab.id, group.id)}
+              onClose={(e) => handleCloseTab(e, tab.id)}
+              onUnpin={(e) => {
+                e.stopPropagation();
+                unpinTab(tab.id, group.id);
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                show({ event: e, id: tabMenuId, props: { tabId: tab.id } });
+              }}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(TAB_DRAG_TYPE, JSON.stringify({ tabId: tab.id, groupId: group.id }));
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDrop={(e) => handleDrop(e, index)}
+            />
+          ))}
+        </div>
+        {tabs.length > 0 && (
+          <button
+            className="mx-1 p-0.5 text-slate-400 hover:text-white hover:bg-sidebar-foreground hover:bg-opacity-10 rounded-sm transition-colors"
+            onClick={(e) => show({ event: e, id: tabListMenuId })}
+            title="Open Editors"
+          >
+            <ChevronDown size={14} />
+          </button>
+        )}
+        {groups.length > 1 && (
+          <button
+            className="mr-1 p-0.5 text-slate-400 hover:text-white hover:bg-sidebar-foreground hover:bg-opacity-10 rounded-sm transition-colors"
+            onClick={() => closeGroup(group.id)}
+            title="Close Group"
+          >
+            <X size={14} />
+          </button>
+        )}
+      </div>
+      
+      {/* Editor */}
+      <div className="flex-1 min-h-0">
+        {activeTab ? (
+          <Editor
+            height="100%"
+            // The models belong to EditorContext, which also keeps the view state; the editor only shows them
+            keepCurrentModel
+            saveViewState={false}
+            theme={editorTheme}
+            onMount={handleEditorMount}
+            options={{
+              readOnly: false,
+              automaticLayout: true,
+              autoIndent: 'full',
+              formatOnPaste: true,
+              formatOnType: true,
+              autoClosingBrackets: 'always',
+              autoClosingQuotes: 'always',
+              wordWrap: 'on',
+              quickSuggestions: {
+                other: true,
+                comments: true,
+                strings: true
+              },
+              suggestOnTriggerCharacters: true,
+              acceptSuggestionOnCommitCharacter: true,
+              tabCompletion: 'on',
+              inlineSuggest: { enabled: true },
+              parameterHints: {
+                enabled: true,
+                cycle: true
+              },
+              fontFamily: editorFont + ", 'JetBrains Mono', 'Menlo', 'Monaco', 'Courier New', monospace",
+            }}
+          />
+        ) : (
+          <div className="h-full flex items-center justify-center bg-editor text-slate-400">
+            <div className="text-center">
+              <p>No file is open</p>
+              <p className="text-sm mt-1">Open a file from the explorer to start editing</p>
+            </div>
+          </div>
+        )}
+      </div>
+      
+      <Menu id={tabMenuId} className="context-menu">
+        <Item onClick={({ props }) => closeTab(props.tabId, group.id)} className="context-menu-item">
+          <div className="flex items-center">
+            <X size={14} className="mr-2 opacity-70" />
+            <span>Close</span>
+          </div>
+        </Item>
+        <Item onClick={({ props }) => closeOthers(props.tabId)} className="context-menu-item">
+          <div className="flex items-center">
+            <ListX size={14} className="mr-2 opacity-70" />
+            <span>Close Others</span>
+          </div>
+        </Item>
+        <Item onClick={({ props }) => closeToTheRight(props.tabId)} className="context-menu-item">
+          <div className="flex items-center">
+            <ArrowRightToLine size={14} className="mr-2 opacity-70" />
+            <span>Close to the Right</span>
+          </div>
+        </Item>
+        <Item onClick={closeSaved} className="context-menu-item">
+          <div className="flex items-center">
+            <CheckCheck size={14} className="mr-2 opacity-70" />
+            <span>Close Saved</span>
+          </div>
+        </Item>
+        <Separator />
+        <Item
+          hidden={({ props }) => props.tabId !== group.previewTabId}
+          onClick={({ props }) => keepTab(props.tabId, group.id)}
+          className="context-menu-item"
+        >
+          <div className="flex items-center">
+            <Circle size={14} className="mr-2 opacity-70" />
+            <span>Keep Open</span>
+          </div>
+        </Item>
+        <Item
+          hidden={({ props }) => isPinned(props.tabId)}
+          onClick={({ props }) => pinTab(props.tabId, group.id)}
+          className="context-menu-item"
+        >
+          <div className="flex items-center">
+            <Pin size={14} className="mr-2 opacity-70" />
+            <span>Pin</span>
+          </div>
+        </Item>
+        <Item
+          hidden={({ props }) => !isPinned(props.tabId)}
+          onClick={({ props }) => unpinTab(props.tabId, group.id)}
+          className="context-menu-item"
+        >
+          <div className="flex items-center">
+            <PinOff size={14} className="mr-2 opacity-70" />
+            <span>Unpin</span>
+          </div>
+        </Item>
+        <Separator />
+        <Item onClick={({ props }) => copyPath(props.tabId)} className="context-menu-item">
+          <div className="flex items-center">
+            <Copy size={14} className="mr-2 opacity-70" />
+            <span>Copy Path</span>
+          </div>
+        </Item>
+        <Item onClick={({ props }) => revealInExplorer(props.tabId)} className="context-menu-item">
+          <div className="flex items-center">
+            <FolderTree size={14} className="mr-2 opacity-70" />
+            <span>Reveal in Explorer</span>
+          </div>
+        </Item>
+      </Menu>
+      
+      {/* Every tab in the group, for when they don't all fit */}
+      <Menu id={tabListMenuId} className="context-menu">
+        {tabs.map(tab => (
+          <Item key={tab.id} onClick={() => setActiveTab(tab.id, group.id)} className="context-menu-item">
+            <div className="flex items-center">
+              {isPinned(tab.id) && <Pin size={12} className="mr-2 opacity-70" />}
+              <span className={tab.id === group.previewTabId ? 'italic' : ''}>{tab.name}</span>
+              {tab.isModified && <Circle size={8} className="ml-2 fill-current text-blue-500" />}
+            </div>
+          </Item>
+        ))}
+      </Menu>
+    </div>
+  );
+};
+
+const EditorArea: React.FC = () => {
+  const { 
+    groups,
+    layout,
+    activeGroupId,
+    activeTabId, 
+    closeTab, 
+    closeGroup,
+    splitEditor,
+    saveActiveFile,
+    saveAllFiles,
+    monacoInstance,
+    undoLastAction,
+    redoLastAction
+  } = useEditor();
+  
+  const monaco = useMonaco();
+  const [codeAction, setCodeAction] = useState<{ request: CodeActionRequest; tabId: string } | null>(null);
+  // Outlives the group panes, which are remounted when a split changes the layout around them
+  const viewStatesRef = useRef<ViewStates>(new Map());
+  
+  // Editor commands. Inside the editor, Ctrl+Z and Ctrl+Y go straight to Monaco; elsewhere (and from the
+  // menus) they undo and redo in the active editor
+  useRegisterCommands([
+    {
+      id: 'file.save',
+      title: 'Save',
+      category: 'File',
+      icon: <Save size={16} />,
+      keybinding: 'Ctrl+S',
+      run: saveActiveFile
+    },
+    {
+      id: 'file.saveAll',
+      title: 'Save All',
+      category: 'File',
+      icon: <SaveAll size={16} />,
+      keybinding: 'Ctrl+Alt+S',
+      run: saveAllFiles
+    },
+    {
+      id: 'file.closeEditor',
+      title: 'Close Editor',
+      category: 'File',
+      icon: <X size={16} />,
+      run: () => {
+        if (activeTabId) closeTab(activeTabId, activeGroupId);
+      }
+    },
+    {
+      id: 'view.splitEditorRight',
+      title: 'Split Editor Right',
+      category: 'View',
+      icon: <Columns2 size={16} />,
+      keybinding: 'Ctrl+\\',
+      run: () => splitEditor('horizontal')
+    },
+    {
+      id: 'view.splitEditorDown',
+      title: 'Split Editor Down',
+      category: 'View',
+      icon: <Rows2 size={16} />,
+      run: () => splitEditor('vertical')
+    },
+    {
+      id: 'view.closeEditorGroup',
+      title: 'Close Editor Group',
+      category: 'View',
+      icon: <X size={16} />,
+      run: () => closeGroup(activeGroupId)
+    },
+    {
+      id: 'edit.undo',
+      title: 'Undo',
+      category: 'Edit',
+      icon: <Undo size={16} />,
+      keybinding: 'Ctrl+Z',
+      skipInInputs: true,
+      run: () => {
+        monacoInstance?.focus();
+        monacoInstance?.trigger('menu', 'undo', null);
+      }
+    },
+    {
+      id: 'edit.redo',
+      title: 'Redo',
+      category: 'Edit',
+      icon: <Redo size={16} />,
+      keybinding: 'Ctrl+Y',
+      skipInInputs: true,
+      run: () => {
+        monacoInstance?.focus();
+        monacoInstance?.trigger('menu', 'redo', null);
+      }
+    },
+    {
+      id: 'edit.undoTabChange',
+      title: 'Undo Open/Close Editor',
+      category: 'Edit',
+      icon: <Undo size={16} />,
+      run: undoLastAction
+    },
+    {
+      id: 'edit.redoTabChange',
+      title: 'Redo Open/Close Editor',
+      category: 'Edit',
+      icon: <Redo size={16} />,
+      run: redoLastAction
+    }
+  ]);
+  
+  // Splits become nested panel groups with a pane for every group at the leaves
+  const renderLayout = (node: EditorLayout): React.ReactNode => {
+    if (node.type === 'group') {
+      const group = groups.find(candidate => candidate.id === node.groupId);
+      return group ? <EditorGroupPane key={group.id} group={group} viewStates={viewStatesRef.current} onCodeAction={(request, tabId) => setCodeAction({ request, tabId })} /> : null;
+    }
+    
+    return (
+      <ResizablePanelGroup direction={node.direction}>
+        {node.children.map((child, index) => {
+          // A panel is known by its first group, which stays put while groups are added after it
+          const panelId = layoutGroupIds(child)[0];
+          return (
+            <React.Fragment key={panelId}>
+              {index > 0 && <ResizableHandle />}
+              <ResizablePanel id={panelId} order={index} minSize={10}>
+                {renderLayout(child)}
+              </ResizablePanel>
+            </React.Fragment>
+          );
+        })}
+      </ResizablePanelGroup>
+    );
+  };
+  
+  // Set up Monaco editor themes
+  useEffect(() => {
+    if (monaco) {
+      // Define custom dark theme for the editor
+      monaco.editor.defineTheme('custom-dark', {
+        base: 'vs-dark',
+        inherit: true,
+        rules: [
+          { token: 'comment', foreground: '6A737D' },
+          { token: 'keyword', foreground: 'C678DD' },
+          { token: 'string', foreground: '98C379' },
+          { token: 'number', foreground: 'D19A66' },
+          { token: 'operator', foreground: '56B6C2' },
+          { token: 'function', foreground: '61AFEF' },
+          { token: 'variable', foreground: 'E06C75' },
+          { token: 'type', foreground: 'E5C07B' },
+        ],
+        colors: {
+          'editor.background': '#1a1e26',
+          'editor.foreground': '#D4D4D4',
+          'editorCursor.foreground': '#AEAFAD',
+          'editor.lineHighlightBackground': '#2C313C',
+          'editorLineNumber.foreground': '#858585',
+          'editor.selectionBackground': '#264F78',
+          'editor.inactiveSelectionBackground': '#3A3D41',
+          'editorWidget.background': '#1a1e26',
+          'editorWidget.border' :'#4545454f',
+          'input.background':'#d6ddeb1a',
+          'menu.background': '#1a1e26',
+          'menu.selectionBackground': '#272b34',
+          'menu.foreground':'#d6ddeb',
+          'inputOption.activeBackground': '#272b34',
+          'quickInputList.focusBackground': '#272b34',
+          'inputOption.activeBorder': '#272b3300',
+          'focusBorder': '#272b3300',
+          'editorSuggestWidget.background': '#1a1e26',
+          'editorSuggestWidget.border': '#383E4C',
+          'editorSuggestWidget.selectedBackground': '#2C313C',
+          'editorHoverWidget.background': '#1a1e26',
+          'editorHoverWidget.border': '#383E4C',
+        }
+      });
+
+monaco.editor.defineTheme('custom-light', {
+        base: 'vs-dark',
+        inherit: true,
+        rules: [
+          { token: 'comment', foreground: '6A737D' },
+          { token: 'keyword', foreground: 'C678DD' },
+          { token: 'string', foreground: '98C379' },
+          { token: 'number', foreground: 'D19A66' },
+          { token: 'operator', foreground: '56B6C2' },
+          { token: 'function', foreground: '61AFEF' },
+          { token: 'variable', foreground: 'E06C75' },
+          { token: 'type', foreground: 'E5C07B' },
+        ],
+        colors: {
+          'editor.background': '#1a1e26',
+          'editor.foreground': '#D4D4D4',
+          'editorCursor.foreground': '#AEAFAD',
+          'editor.lineHighlightBackground': '#2C313C',
+          'editorLineNumber.foreground': '#858585',
+          'editor.selectionBackground': '#264F78',
+          'editor.inactiveSelectionBackground': '#3A3D41',
+          'editorWidget.background': '#1a1e26',
+          'editorWidget.border' :'#4545454f',
+          'input.background':'#d6ddeb1a',
+          'menu.background': '#1a1e26',
+          'menu.selectionBackground': '#272b34',
+          'menu.foreground':'#d6ddeb',
+          'inputOption.activeBackground': '#272b34',
+          'quickInputList.focusBackground': '#272b34',
+          'inputOption.activeBorder': '#272b3300',
+          'focusBorder': '#272b3300',
+          'editorSuggestWidget.background': '#1a1e26',
+          'editorSuggestWidget.border': '#383E4C',
+          'editorSuggestWidget.selectedBackground': '#2C313C',
+          'editorHoverWidget.background': '#1a1e26',
+          'editorHoverWidget.border': '#383E4C',
+        }
+      });
+      
+      // Define custom light theme for the editor
+     /* monaco.editor.defineTheme('custom-light', {
+        base: 'vs',
+        inherit: true,
+        rules: [
+          { token: 'comment', foreground: '6A737D' },
+          { token: 'keyword', foreground: 'D73A49' },
+          { token: 'string', foreground: '032F62' },
+          { token: 'number', foreground: '005CC5' },
+          { token: 'operator', foreground: 'D73A49' },
+          { token: 'function', foreground: '6F42C1' },
+          { token: 'variable', foreground: 'E36209' },
+          { token: 'type', foreground: '6F42C1' },
+        ],
+        colors: {
+          'editor.background': '#F8F8F8',
+          'editor.foreground': '#24292E',
+          'editorCursor.foreground': '#24292E',
+          'editor.lineHighlightBackground': '#F0F0F0',
+          'editorLineNumber.foreground': '#6E7781',
+          'editor.selectionBackground': '#B4D8FE',
+          'editor.inactiveSelectionBackground': '#E5EBF1',
+          'editorSuggestWidget.background': '#FFFFFF',
+          'editorSuggestWidget.border': '#E1E4E8',
+          'editorSuggestWidget.selectedBackground': '#F1F2F3',
+          'editorHoverWidget.background': '#FFFFFF',
+          'editorHoverWidget.border': '#E1E4E8',
+        }
+      });*/
+    }
+  }, [monaco]);
+  
+  return (
+    <div className="h-full flex flex-col">
+      <ChangeMarkers />
+      <div className="flex-1 min-h-0">
+        {renderLayout(layout)}
+      </div>
+      
+      {codeAction && (
+        <CodeActionPreview
+          request={codeAction.request}
+          tabId={codeAction.tabId}
+          onClose={() => setCodeAction(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EditorArea;
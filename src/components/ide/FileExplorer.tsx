@@ -1,9 +1,9 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { 
-  File, Folder, FolderOpen, ChevronDown, ChevronRight, Plus, Search, X,
+  File, Folder, FolderOpen, ChevronDown, ChevronRight, Plus, Search, X, FileSearch,
   FileCode, FileText, FileImage, FileVideo, FileAudio, FileJson, FileCheck, 
-  FileCog, FileSpreadsheet, Edit, Trash, FolderPlus
+  FileCog, FileSpreadsheet, Edit, Trash, FolderPlus, GitBranch
 } from 'lucide-react';
 import { useFileSystem, FileSystemItem, FileType } from '@/contexts/FileSystemContext';
 import { useEditor } from '@/contexts/EditorContext';
@@ -14,7 +14,7 @@ const CONTEXT_MENU_ID = 'file-explorer-context-menu';
 const FILE_ITEM_MENU_ID = 'file-item-context-menu';
 const FOLDER_ITEM_MENU_ID = 'folder-item-context-menu';
 
-const getFileIcon = (fileName: string) => {
+export const getFileIcon = (fileName: string) => {
   const extension = fileName.split('.').pop()?.toLowerCase();
   
   switch(extension) {
@@ -88,8 +88,15 @@ const getFileIcon = (fileName: string) => {
   }
 };
 
-const FileExplorer: React.FC = () => {
-  const { files, createFile, renameFile, deleteFile, toggleFolder } = useFileSystem();
+interface FileExplorerProps {
+  // Switch the sidebar to the workspace-wide search
+  onSearchInFiles?: () => void;
+  // Switch the sidebar to source control
+  onShowSourceControl?: () => void;
+}
+
+const FileExplorer: React.FC<FileExplorerProps> = ({ onSearchInFiles, onShowSourceControl }) => {
+  const { files, createFile, renameFile, deleteFile, toggleFolder, searchFiles } = useFileSystem();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<FileSystemItem[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -127,23 +134,7 @@ const FileExplorer: React.FC = () => {
     }
     
     setIsSearching(true);
-    
-    const results: FileSystemItem[] = [];
-    
-    const searchInItems = (items: FileSystemItem[]) => {
-      for (const item of items) {
-        if (item.name.toLowerCase().includes(query.toLowerCase())) {
-          results.push(item);
-        }
-        
-        if (item.type === 'folder' && item.children) {
-          searchInItems(item.children);
-        }
-      }
-    };
-    
-    searchInItems(files);
-    setSearchResults(results);
+    setSearchResults(searchFiles(query));
   };
 
   const startCreatingNewItem = (parentPath: string, type: FileType) => {
@@ -224,9 +215,28 @@ const FileExplorer: React.FC = () => {
           <button 
             className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
             onClick={() => setIsSearching(!isSearching)}
+            title="Find files by name"
           >
             <Search size={16} />
           </button>
+          {onSearchInFiles && (
+            <button 
+              className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
+              onClick={onSearchInFiles}
+              title="Search in files (Ctrl+Shift+F)"
+            >
+              <FileSearch size={16} />
+            </button>
+          )}
+          {onShowSourceControl && (
+            <button 
+              className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
+              onClick={onShowSourceControl}
+              title="Source control (Ctrl+Shift+G)"
+            >
+              <GitBranch size={16} />
+            </button>
+          )}
           <button 
             className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
             onClick={() => startCreatingNewItem(files[0].path, 'file')}
@@ -375,26 +385,37 @@ const FileExplorerItem: React.FC<FileExplorerItemProps> = ({
 }) => {
   const { toggleFolder, selectedFile } = useFileSystem();
   const { openTab } = useEditor();
+  const itemRef = useRef<HTMLDivElement>(null);
   
+  // A single click previews the file; a double click keeps it open
   const handleItemClick = () => {
     if (item.type === 'folder') {
       toggleFolder(item.id);
     } else {
-      openTab(item.id);
+      openTab(item.id, { preview: true });
     }
   };
   
   const isSelected = selectedFile === item.id;
+  
+  // Keep the selected file in sight, e.g. after Reveal in Explorer
+  useEffect(() => {
+    if (isSelected) {
+      itemRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [isSelected]);
   const showNewItemInput = newItemType && newItemParentPath === item.path;
   
   return (
     <div>
       <div
+        ref={itemRef}
         className={`file-explorer-item flex items-center py-0.5 px-1 cursor-pointer rounded ${
           isSelected ? 'selected' : ''
         }`}
         style={{ paddingLeft: `${(depth * 12) + 4}px` }}
         onClick={handleItemClick}
+        onDoubleClick={() => item.type === 'file' && openTab(item.id)}
         onContextMenu={(e) => handleItemContextMenu(e, item)}
       >
         {item.type === 'folder' && (
@@ -476,7 +497,7 @@ const SearchResultItem: React.FC<SearchResultItemProps> = ({ item, handleItemCon
   
   const handleClick = () => {
     if (item.type === 'file') {
-      openTab(item.id);
+      openTab(item.id, { preview: true });
     }
   };
   
@@ -484,6 +505,7 @@ const SearchResultItem: React.FC<SearchResultItemProps> = ({ item, handleItemCon
     <div
       className="file-explorer-item flex items-center py-0.5 px-2 cursor-pointer rounded hover:bg-[#cccccc29] transition-colors"
       onClick={handleClick}
+      onDoubleClick={() => item.type === 'file' && openTab(item.id)}
       onContextMenu={(e) => handleItemContextMenu(e, item)}
     >
       <span className="mr-2 text-slate-400">
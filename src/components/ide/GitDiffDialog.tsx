@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useGit } from '@/contexts/GitContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { getLanguageFromExtension } from '@/lib/languages';
+
+interface GitDiffDialogProps {
+  path: string;
+  // Staged changes compare HEAD with the index; the others compare the index with the saved file
+  staged: boolean;
+  onOpenFile?: () => void;
+  onClose: () => void;
+}
+
+// What changed in one file, side by side
+export const GitDiffDialog: React.FC<GitDiffDialogProps> = ({ path, staged, onOpenFile, onClose }) => {
+  const { editorTheme } = useTheme();
+  const { readFile } = useGit();
+  const { getFileByPath } = useFileSystem();
+  const [sides, setSides] = useState<{ original: string; modified: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The working copy is read once, when the diff loads
+  const getFileByPathRef = useRef(getFileByPath);
+  getFileByPathRef.current = getFileByPath;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      if (staged) {
+        const [head, index] = await Promise.all([readFile(path, 'HEAD'), readFile(path, 'INDEX')]);
+        return { original: head ?? '', modified: index ?? '' };
+      }
+
+      // Untracked files aren't in the index, so the whole file shows as added
+      const index = await readFile(path, 'INDEX');
+      return { original: index ?? '', modified: getFileByPathRef.current(path)?.content ?? '' };
+    };
+
+    load()
+      .then(result => !cancelled && setSides(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Could not load the diff'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path, staged, readFile]);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl bg-sidebar border-border text-sidebar-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">{path}</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            {staged ? 'Staged changes (HEAD ↔ index)' : 'Changes not yet staged (index ↔ working tree)'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[420px] border border-border rounded overflow-hidden">
+          {error && <div className="p-3 text-sm text-red-400">{error}</div>}
+          {sides && (
+            <DiffEditor
+              height="100%"
+              original={sides.original}
+              modified={sides.modified}
+              language={getLanguageFromExtension(path)}
+              theme={editorTheme}
+              options={{
+                readOnly: true,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+                renderOverviewRuler: false,
+                fontSize: 12,
+              }}
+            />
+          )}
+        </div>
+
+        <DialogFooter>
+          {onOpenFile && (
+            <Button variant="outline" className="bg-terminal border-border" onClick={onOpenFile}>
+              Open File
+            </Button>
+          )}
+          <Button onClick={onClose}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Pencil, RotateCcw, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useCommands } from '@/contexts/CommandContext';
+import { isTypingKeybinding, keybindingFromEvent } from '@/lib/keybindings';
+
+interface KeybindingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const Keybinding: React.FC<{ keybinding: string }> = ({ keybinding }) => (
+  <span className="inline-flex gap-0.5">
+    {keybinding.split('+').map((key, index) => (
+      <kbd key={index} className="px-1.5 py-0.5 text-xs border border-border rounded bg-terminal">{key}</kbd>
+    ))}
+  </span>
+);
+
+// Lists every command with its keybinding, and records new ones
+export const KeybindingsDialog: React.FC<KeybindingsDialogProps> = ({ open, onClose }) => {
+  const {
+    commands,
+    getKeybinding,
+    keybindingOverrides,
+    setKeybinding,
+    resetKeybinding,
+    resetAllKeybindings,
+    conflicts
+  } = useCommands();
+  const [filter, setFilter] = useState('');
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+
+  const titles = new Map(commands.map(command => [command.id, command.title]));
+  const lowerFilter = filter.trim().toLowerCase();
+  const visibleCommands = commands.filter(command => !lowerFilter
+    || `${command.category}: ${command.title}`.toLowerCase().includes(lowerFilter)
+    || getKeybinding(command.id)?.toLowerCase().includes(lowerFilter)
+  );
+
+  const startRecording = (id: string) => {
+    setRecordingId(id);
+    setRecordingError(null);
+  };
+
+  const handleRecordKeyDown = (e: React.KeyboardEvent, id: string) => {
+    // Keep the key from running a command or closing the dialog
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+
+    const keybinding = keybindingFromEvent(e.nativeEvent);
+    // Only a modifier so far
+    if (!keybinding) return;
+
+    if (isTypingKeybinding(keybinding)) {
+      setRecordingError(`${keybinding} would get in the way of typing; add Ctrl or Alt`);
+      return;
+    }
+
+    setKeybinding(id, keybinding);
+    setRecordingId(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent
+        className="sm:max-w-3xl bg-sidebar border-border text-sidebar-foreground"
+        onEscapeKeyDown={(e) => recordingId && e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">Keyboard Shortcuts</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            Click a shortcut to change it. Keys the code editor uses itself, like Ctrl+F or Ctrl+D, still go to the editor while it has focus.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Search commands or shortcuts"
+          className="bg-terminal border-border"
+        />
+
+        <div className="h-[400px] overflow-y-auto border border-border rounded">
+          {visibleCommands.map(command => {
+            const keybinding = getKeybinding(command.id);
+            const isRecording = recordingId === command.id;
+            const isChanged = command.id in keybindingOverrides;
+            const others = keybinding
+              ? (conflicts.get(keybinding) || []).filter(id => id !== command.id).map(id => titles.get(id))
+              : [];
+
+            return (
+              <div key={command.id} className="flex items-center gap-3 px-3 py-1.5 text-sm border-b border-border last:border-b-0">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">
+                    <span className="opacity-60">{command.category}: </span>
+                    {command.title}
+                  </div>
+                  {others.length > 0 && (
+                    <div className="text-xs text-amber-400">Also used by {others.join(', ')}</div>
+                  )}
+                  {isRecording && recordingError && (
+                    <div className="text-xs text-red-400">{recordingError}</div>
+                  )}
+                </div>
+
+                {isRecording ? (
+                  <button
+                    autoFocus
+                    className="w-44 px-2 py-0.5 text-xs text-left border border-blue-500 rounded bg-terminal"
+                    onKeyDown={(e) => handleRecordKeyDown(e, command.id)}
+                    onBlur={() => setRecordingId(null)}
+                  >
+                    Press the new shortcut...
+                  </button>
+                ) : (
+                  <button
+                    className="w-44 text-left hover:opacity-80"
+                    onClick={() => startRecording(command.id)}
+                    title="Change shortcut"
+                  >
+                    {keybinding ? <Keybinding keybinding={keybinding} /> : <span className="text-xs opacity-50">None</span>}
+                  </button>
+                )}
+
+                <div className="flex w-20 justify-end gap-1">
+                  <button
+                    className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded"
+                    onClick={() => startRecording(command.id)}
+                    title="Change shortcut"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  {keybinding && (
+                    <button
+                      className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded"
+                      onClick={() => setKeybinding(command.id, null)}
+                      title="Remove shortcut"
+                    >
+                      <X size={14} />
+                    </button>
+                  )}
+                  {isChanged && (
+                    <button
+                      className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded"
+                      onClick={() => resetKeybinding(command.id)}
+                      title="Reset to default"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="bg-terminal border-border"
+            onClick={resetAllKeybindings}
+            disabled={Object.keys(keybindingOverrides).length === 0}
+          >
+            Reset All
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileArchive, FolderOpen, Loader, Upload, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import {
+  ImportProgress,
+  ImportSource,
+  loadImportSource,
+  MAX_IMPORT_FILE_SIZE,
+  readDirectoryHandle,
+  readDroppedFolder,
+  readFileList
+} from '@/lib/projectImport';
+import { readZipArchive } from '@/lib/projectArchive';
+import { REPLACE_WORKSPACE_UNSUPPORTED } from '@/lib/storage';
+import { isAbortError } from '@/lib/ai/chatService';
+import { toast } from 'sonner';
+
+interface ProjectImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'An unknown error occurred';
+
+const readZipFile = async (file: File) => readZipArchive(new Uint8Array(await file.arrayBuffer()), file.name);
+
+// Import a local folder or a zip archive as the workspace, replacing the open project
+export const ProjectImportDialog: React.FC<ProjectImportDialogProps> = ({ isOpen, onClose }) => {
+  const [status, setStatus] = useState<'idle' | 'reading' | 'importing'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const { replaceFileSystem, canReplaceWorkspace, writeFileAtPath, addLogMessage } = useFileSystem();
+
+  const busy = status !== 'idle';
+  // Nothing is read where the import couldn't replace the workspace
+  const disabled = busy || !canReplaceWorkspace;
+  const shownError = error ?? (canReplaceWorkspace ? null : REPLACE_WORKSPACE_UNSUPPORTED);
+
+  // Closing the dialog stops whatever is still being read
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Every way in ends here: list the source, then read it and replace the workspace
+  const importSource = async (getSource: () => Promise<ImportSource | null>) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setError(null);
+    setProgress(null);
+    setStatus('reading');
+    try {
+      const source = await getSource();
+      if (!source) return;
+
+      setStatus('importing');
+      const result = await loadImportSource(source, setProgress, controller.signal);
+
+      // Only once everything is read does the new project replace the open one
+      replaceFileSystem(source.name);
+      result.files.forEach(file => writeFileAtPath(file.path, file.content));
+
+      const details = [
+        result.ignored ? `${result.ignored} ignored by .gitignore` : '',
+        result.skipped.length ? `${result.skipped.length} skipped` : '',
+      ].filter(Boolean).join(', ');
+      addLogMessage('success', `Imported ${source.name}: ${result.files.length} files${details ? `, ${details}` : ''}`);
+      result.skipped.forEach(({ path, reason }) => {
+        addLogMessage('warning', `Skipped ${path}: ${reason === 'large' ? `larger than ${Math.round(MAX_IMPORT_FILE_SIZE / 1024)} KB` : reason === 'binary' ? 'binary file' : 'could not be read'}`);
+      });
+
+      toast.success(`Project ${source.name} imported successfully!`);
+      onClose();
+    } catch (error) {
+      // Dismissing the folder picker rejects with an AbortError too
+      if (isAbortError(error)) return;
+      console.error('Error importing project:', error);
+      setError(errorMessage(error));
+      addLogMessage('error', `Failed to import project: ${errorMessage(error)}`);
+    } finally {
+      if (abortRef.current === controller) setStatus('idle');
+    }
+  };
+
+  const handleOpenFolder = () => {
+    if (window.showDirectoryPicker) {
+      importSource(async () => readDirectoryHandle(await window.showDirectoryPicker!({ id: 'import-project' })));
+    } else {
+      // Without the File System Access API the browser's directory upload does the same job
+      folderInputRef.current?.click();
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    if (disabled) return;
+
+    const item = e.dataTransfer.items[0];
+    const entry = item?.webkitGetAsEntry();
+    const file = item?.getAsFile();
+
+    if (entry?.isDirectory) {
+      importSource(() => readDroppedFolder(entry as FileSystemDirectoryEntry));
+    } else if (file && /\.zip$/i.test(file.name)) {
+      importSource(() => readZipFile(file));
+    } else {
+      setError('Drop a folder or a .zip archive.');
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setStatus('idle');
+    setProgress(null);
+  };
+
+  const percent = progress && progress.total ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md bg-sidebar border-border">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground flex items-center gap-2">
+            <Upload className="h-5 w-5" /> Import Project
+          </DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            Open a folder or a zip archive from your computer. It replaces the current project.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-3">
+          <div
+            className={`flex flex-col items-center justify-center gap-2 h-28 rounded border border-dashed text-sm text-slate-400 transition-colors ${
+              isDragOver ? 'border-blue-500 bg-blue-500/10' : 'border-border bg-terminal'
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragOver(true);
+            }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+          >
+            <Upload size={20} />
+            Drop a folder or a .zip file here
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={handleOpenFolder}
+              disabled={disabled}
+              variant="outline"
+              className="bg-terminal border-border flex-1"
+            >
+              <FolderOpen size={16} className="mr-2" />
+              Open Folder...
+            </Button>
+            <Button
+              onClick={() => zipInputRef.current?.click()}
+              disabled={disabled}
+              variant="outline"
+              className="bg-terminal border-border flex-1"
+            >
+              <FileArchive size={16} className="mr-2" />
+              Open Zip...
+            </Button>
+          </div>
+
+          <input
+            ref={(input) => {
+              folderInputRef.current = input;
+              // Not in React's types; asks for a folder instead of files
+              input?.setAttribute('webkitdirectory', '');
+            }}
+            type="file"
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = '';
+              importSource(async () => readFileList(files));
+            }}
+          />
+          <input
+            ref={zipInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) importSource(() => readZipFile(file));
+            }}
+          />
+
+          {shownError && (
+            <div className="p-3 bg-red-500 bg-opacity-20 border border-red-500 border-opacity-30 rounded text-red-400 text-sm">
+              <div className="flex items-start">
+                <X size={16} className="mt-0.5 mr-2 flex-shrink-0" />
+                <span>{shownError}</span>
+              </div>
+            </div>
+          )}
+
+          {busy && (
+            <div className="space-y-2 p-4 bg-terminal border border-border rounded">
+              <div className="flex justify-between text-sm text-terminal-foreground">
+                <span className="flex items-center">
+                  <Loader size={14} className="animate-spin mr-2" />
+                  {progress ? 'Reading files...' : 'Listing files...'}
+                </span>
+                {progress && <span>{progress.done} / {progress.total}</span>}
+              </div>
+              <Progress value={percent} className="h-2" />
+              <div className="flex justify-between items-center text-xs text-slate-400">
+                <span>{progress?.skipped ? `${progress.skipped} skipped (binary or too large)` : ''}</span>
+                <Button variant="outline" className="bg-terminal border-border h-6 px-2 text-xs" onClick={handleCancel}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-slate-400">
+            <p>
+              Files matched by the project's .gitignore, .git and node_modules folders, binary files and files
+              over {Math.round(MAX_IMPORT_FILE_SIZE / 1024)} KB are left out.
+            </p>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,106 +1,305 @@
-
-import React, { useState } from 'react';
-import { Github, FileCode, Loader } from 'lucide-react';
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-} from '@/components/ui/dialog';
-import { Button } from '@/components/ui/button';
-import { useFileSystem } from '@/contexts/FileSystemContext';
-import { toast } from 'sonner';
-import { GithubRepoLoader } from './GithubRepoLoader';
-
-export const ProjectStartup: React.FC = () => {
-  const [isOpen, setIsOpen] = useState(true);
-  const [showGithubLoader, setShowGithubLoader] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-  const { resetFileSystem } = useFileSystem();
-
-  const handleClose = () => {
-    setIsOpen(false);
-  };
-
-  const handleStartNewProject = () => {
-    setIsLoading(true);
-    
-    // Add a small delay to show loading state
-    setTimeout(() => {
-      resetFileSystem();
-      toast.success('New project created successfully');
-      setIsLoading(false);
-      handleClose();
-    }, 800);
-  };
-
-  const handleLoadFromGithub = () => {
-    setShowGithubLoader(true);
-  };
-
-  return (
-    <>
-      <Dialog open={isOpen} onOpenChange={setIsOpen}>
-        <DialogContent className="sm:max-w-md bg-sidebar border-border">
-          <DialogHeader>
-            <DialogTitle className="text-sidebar-foreground">Welcome to Code Editor</DialogTitle>
-            <DialogDescription className="text-sidebar-foreground opacity-70">
-              Choose how you want to get started with your project
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="grid grid-cols-1 gap-4 py-4">
-            <Button
-              variant="outline"
-              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
-              onClick={handleLoadFromGithub}
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <Loader className="h-6 w-6 text-blue-500 animate-spin" />
-              ) : (
-                <Github className="h-6 w-6 text-blue-500" />
-              )}
-              <div className="text-left">
-                <div className="font-medium">Load from GitHub</div>
-                <div className="text-sm text-muted-foreground">
-                  Import code from an existing public repository
-                </div>
-              </div>
-            </Button>
-            
-            <Button
-              variant="outline"
-              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
-              onClick={handleStartNewProject}
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <Loader className="h-6 w-6 text-green-500 animate-spin" />
-              ) : (
-                <FileCode className="h-6 w-6 text-green-500" />
-              )}
-              <div className="text-left">
-                <div className="font-medium">Start New Project</div>
-                <div className="text-sm text-muted-foreground">
-                  Begin with a blank workspace
-                </div>
-              </div>
-            </Button>
-          </div>
-        </DialogContent>
-      </Dialog>
-
-      {showGithubLoader && (
-        <GithubRepoLoader 
-          isOpen={showGithubLoader} 
-          onClose={() => {
-            setShowGithubLoader(false);
-            handleClose();
-          }}
-        />
-      )}
-    </>
-  );
-};
+
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Github, FileCode, Loader, FolderOpen, Trash2, Upload, HardDrive } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useFileSystem, ProjectSummary } from '@/contexts/FileSystemContext';
+import { deleteProjectConversations } from '@/lib/ai/conversationStore';
+import { deleteProjectRepository } from '@/lib/git/gitStore';
+import { REPLACE_WORKSPACE_UNSUPPORTED } from '@/lib/storage';
+import { toast } from 'sonner';
+import { GithubRepoLoader } from './GithubRepoLoader';
+import { ProjectImportDialog } from './ProjectImportDialog';
+
+export const ProjectStartup: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(true);
+  const [showGithubLoader, setShowGithubLoader] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [projectName, setProjectName] = useState('');
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const {
+    resetFileSystem,
+    canReplaceWorkspace,
+    supportsProjects,
+    listRecentProjects,
+    openProject,
+    deleteProject,
+    workspaceId,
+    isLoading: isWorkspaceLoading,
+    canOpenFolders,
+    openFolder,
+    reopenFolder,
+    folderToReopen
+  } = useFileSystem();
+
+  // Refresh the recent projects list once the current workspace is known
+  useEffect(() => {
+    if (!supportsProjects || !isOpen || isWorkspaceLoading) return;
+    
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch(error => console.error('Failed to list projects:', error));
+  }, [supportsProjects, listRecentProjects, isOpen, isWorkspaceLoading, workspaceId]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+  };
+
+  const handleStartNewProject = () => {
+    setIsLoading(true);
+    
+    // Add a small delay to show loading state
+    setTimeout(() => {
+      try {
+        resetFileSystem(projectName.trim() || undefined);
+        toast.success('New project created successfully');
+        handleClose();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to create the project');
+      } finally {
+        setIsLoading(false);
+      }
+    }, 800);
+  };
+
+  const handleLoadFromGithub = () => {
+    setShowGithubLoader(true);
+  };
+
+  // Browsers without the File System Access API import a copy of the folder instead
+  const handleOpenFolder = async () => {
+    if (!canOpenFolders) {
+      setShowImportDialog(true);
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      if (await openFolder()) handleClose();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReopenFolder = async () => {
+    setIsLoading(true);
+    try {
+      if (await reopenFolder()) handleClose();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenProject = async (project: ProjectSummary) => {
+    if (project.id === workspaceId) {
+      handleClose();
+      return;
+    }
+    
+    setIsLoading(true);
+    try {
+      await openProject(project.id);
+      toast.success(`Opened ${project.name}`);
+      handleClose();
+    } catch (error) {
+      toast.error(`Failed to open ${project.name}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteProject = async (project: ProjectSummary) => {
+    try {
+      await deleteProject(project.id);
+      // Its chat history and git repository go with it
+      deleteProjectConversations(project.id).catch(error => console.error('Failed to delete conversations:', error));
+      deleteProjectRepository(project.id).catch(error => console.error('Failed to delete the git repository:', error));
+      setRecentProjects(prev => prev.filter(p => p.id !== project.id));
+      toast.success(`Deleted ${project.name}`);
+    } catch (error) {
+      toast.error(`Failed to delete ${project.name}`);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-md bg-sidebar border-border">
+          <DialogHeader>
+            <DialogTitle className="text-sidebar-foreground">Welcome to Code Editor</DialogTitle>
+            <DialogDescription className="text-sidebar-foreground opacity-70">
+              Choose how you want to get started with your project
+            </DialogDescription>
+          </DialogHeader>
+
+          {!canReplaceWorkspace && (
+            <div className="text-sm text-muted-foreground">{REPLACE_WORKSPACE_UNSUPPORTED}</div>
+          )}
+          
+          <div className="grid grid-cols-1 gap-4 py-4">
+            <Button
+              variant="outline"
+              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
+              onClick={handleLoadFromGithub}
+              disabled={isLoading || !canReplaceWorkspace}
+            >
+              {isLoading ? (
+                <Loader className="h-6 w-6 text-blue-500 animate-spin" />
+              ) : (
+                <Github className="h-6 w-6 text-blue-500" />
+              )}
+              <div className="text-left">
+                <div className="font-medium">Load from GitHub</div>
+                <div className="text-sm text-muted-foreground">
+                  Import code from an existing public repository
+                </div>
+              </div>
+            </Button>
+
+            <Button
+              variant="outline"
+              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
+              onClick={() => setShowImportDialog(true)}
+              disabled={isLoading || !canReplaceWorkspace}
+            >
+              <Upload className="h-6 w-6 text-purple-500" />
+              <div className="text-left">
+                <div className="font-medium">Import from Your Computer</div>
+                <div className="text-sm text-muted-foreground">
+                  Copy a local folder or a zip archive into a new project
+                </div>
+              </div>
+            </Button>
+
+            <Button
+              variant="outline"
+              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
+              onClick={handleOpenFolder}
+              disabled={isLoading || (!canOpenFolders && !canReplaceWorkspace)}
+            >
+              <HardDrive className="h-6 w-6 text-yellow-500" />
+              <div className="text-left">
+                <div className="font-medium">Open Folder</div>
+                <div className="text-sm text-muted-foreground whitespace-normal">
+                  {canOpenFolders
+                    ? 'Edit a folder on your computer; saves go straight to disk'
+                    : 'Not supported by this browser; imports a copy instead'}
+                </div>
+              </div>
+            </Button>
+
+            {folderToReopen && (
+              <Button
+                variant="outline"
+                className="flex items-center justify-start gap-2 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
+                onClick={handleReopenFolder}
+                disabled={isLoading}
+              >
+                <FolderOpen className="h-4 w-4 text-yellow-500" />
+                Reopen {folderToReopen}
+              </Button>
+            )}
+            
+            <Input
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !isLoading && canReplaceWorkspace && handleStartNewProject()}
+              placeholder="new-project"
+              className="bg-terminal border-border text-sidebar-foreground"
+              disabled={isLoading || !canReplaceWorkspace}
+            />
+            
+            <Button
+              variant="outline"
+              className="flex items-center justify-start gap-2 h-20 px-4 bg-terminal hover:bg-terminal/90 border-border text-sidebar-foreground"
+              onClick={handleStartNewProject}
+              disabled={isLoading || !canReplaceWorkspace}
+            >
+              {isLoading ? (
+                <Loader className="h-6 w-6 text-green-500 animate-spin" />
+              ) : (
+                <FileCode className="h-6 w-6 text-green-500" />
+              )}
+              <div className="text-left">
+                <div className="font-medium">Start New Project</div>
+                <div className="text-sm text-muted-foreground">
+                  Begin with a blank workspace
+                </div>
+              </div>
+            </Button>
+          </div>
+          
+          {recentProjects.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-sidebar-foreground">Recent projects</div>
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {recentProjects.map(project => (
+                  <div
+                    key={project.id}
+                    className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-terminal cursor-pointer text-sidebar-foreground"
+                    onClick={() => !isLoading && handleOpenProject(project)}
+                  >
+                    <FolderOpen className="h-4 w-4 text-yellow-500 shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm truncate">
+                        {project.name}
+                        {project.id === workspaceId && (
+                          <span className="ml-2 text-xs text-muted-foreground">(current)</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {project.fileCount} {project.fileCount === 1 ? 'file' : 'files'} · updated {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      title="Delete project"
+                      disabled={isLoading || project.id === workspaceId}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteProject(project);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {showGithubLoader && (
+        <GithubRepoLoader 
+          isOpen={showGithubLoader} 
+          onClose={() => {
+            setShowGithubLoader(false);
+            handleClose();
+          }}
+        />
+      )}
+
+      {showImportDialog && (
+        <ProjectImportDialog
+          isOpen={showImportDialog}
+          onClose={() => {
+            setShowImportDialog(false);
+            handleClose();
+          }}
+        />
+      )}
+    </>
+  );
+};
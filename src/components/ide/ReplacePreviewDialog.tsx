@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useTheme } from '@/contexts/ThemeContext';
+import { getLanguageFromExtension } from '@/lib/languages';
+
+export interface ReplaceChange {
+  fileId: string;
+  path: string;
+  original: string;
+  modified: string;
+  count: number;
+}
+
+interface ReplacePreviewDialogProps {
+  changes: ReplaceChange[];
+  onApply: (changes: ReplaceChange[]) => void;
+  onClose: () => void;
+}
+
+// Shows what "Replace All" will do to each file, and lets files be left out before applying
+export const ReplacePreviewDialog: React.FC<ReplacePreviewDialogProps> = ({ changes, onApply, onClose }) => {
+  const { editorTheme } = useTheme();
+  const [selectedPaths, setSelectedPaths] = useState(() => new Set(changes.map(change => change.path)));
+  const [previewPath, setPreviewPath] = useState(changes[0]?.path);
+
+  const preview = changes.find(change => change.path === previewPath);
+  const selected = changes.filter(change => selectedPaths.has(change.path));
+  const occurrenceCount = selected.reduce((total, change) => total + change.count, 0);
+
+  const toggleSelected = (path: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-5xl bg-sidebar border-border text-sidebar-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">Replace All</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            Review the replacements. Files open with unsaved changes are changed in the editor; other files are saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex h-[420px] gap-3">
+          <div className="w-64 shrink-0 overflow-y-auto border border-border rounded">
+            {changes.map(change => (
+              <div
+                key={change.path}
+                className={`flex items-center gap-2 px-2 py-1 text-sm cursor-pointer ${
+                  change.path === previewPath ? 'bg-[#cccccc29]' : 'hover:bg-[#cccccc14]'
+                }`}
+                onClick={() => setPreviewPath(change.path)}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedPaths.has(change.path)}
+                  onChange={() => toggleSelected(change.path)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                <span className="flex-1 truncate" title={change.path}>{change.path}</span>
+                <span className="text-xs opacity-60">{change.count}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 border border-border rounded overflow-hidden">
+            {preview && (
+              <DiffEditor
+                height="100%"
+                original={preview.original}
+                modified={preview.modified}
+                language={getLanguageFromExtension(preview.path)}
+                theme={editorTheme}
+                options={{
+                  readOnly: true,
+                  minimap: { enabled: false },
+                  scrollBeyondLastLine: false,
+                  automaticLayout: true,
+                  renderOverviewRuler: false,
+                  fontSize: 12,
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="bg-terminal border-border" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onApply(selected)} disabled={selected.length === 0}>
+            Replace {occurrenceCount} {occurrenceCount === 1 ? 'occurrence' : 'occurrences'} in {selected.length} {selected.length === 1 ? 'file' : 'files'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  CaseSensitive, ChevronDown, ChevronRight, ChevronsDownUp, Ellipsis, Regex, ReplaceAll, WholeWord, X
+} from 'lucide-react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useEditor } from '@/contexts/EditorContext';
+import { FileSearchResult, SearchOptions, SearchResults, replaceInContent, searchInFiles } from '@/lib/search';
+import { flattenFiles, toStoragePath } from '@/lib/storage/tree';
+import { getFileIcon } from './FileExplorer';
+import { ReplaceChange, ReplacePreviewDialog } from './ReplacePreviewDialog';
+
+// Wait for a pause in typing before scanning the workspace
+const SEARCH_DEBOUNCE_MS = 250;
+
+const EMPTY_OPTIONS: SearchOptions = {
+  query: '',
+  isRegex: false,
+  matchCase: false,
+  wholeWord: false,
+  include: '',
+  exclude: '',
+};
+
+interface SearchPanelProps {
+  // Focus the search box whenever the panel is shown
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+const OptionToggle: React.FC<{ active: boolean; title: string; onClick: () => void; children: React.ReactNode }> = ({
+  active, title, onClick, children
+}) => (
+  <button
+    className={`p-0.5 rounded ${active ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-[#cccccc29]'}`}
+    onClick={onClick}
+    title={title}
+  >
+    {children}
+  </button>
+);
+
+// Workspace-wide search and replace, for the left sidebar
+const SearchPanel: React.FC<SearchPanelProps> = ({ isVisible, onClose }) => {
+  const { files, updateFileContent, addLogMessage } = useFileSystem();
+  const { openedTabs, openTabAt, updateTabContent } = useEditor();
+  const [options, setOptions] = useState<SearchOptions>(EMPTY_OPTIONS);
+  const [replacement, setReplacement] = useState('');
+  const [showReplace, setShowReplace] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+  const [replaceChanges, setReplaceChanges] = useState<ReplaceChange[] | null>(null);
+  const queryInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isVisible) {
+      queryInputRef.current?.focus();
+      queryInputRef.current?.select();
+    }
+  }, [isVisible]);
+
+  // Workspace files by path, with unsaved editor changes taking the place of the saved content
+  const searchFiles = useMemo(() => {
+    return flattenFiles(files).map(file => {
+      const tab = openedTabs.find(tab => tab.id === file.id);
+      return {
+        id: file.id,
+        path: toStoragePath(file.path),
+        // A modified tab always holds its own text
+        content: tab?.isModified && tab.content !== undefined ? tab.content : file.content || '',
+      };
+    });
+  }, [files, openedTabs]);
+
+  useEffect(() => {
+    if (!options.query) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      try {
+        setResults(searchInFiles(searchFiles, options));
+        setError(null);
+      } catch (err) {
+        setResults(null);
+        setError(err instanceof Error ? err.message : 'Invalid search');
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [options, searchFiles]);
+
+  const setOption = <K extends keyof SearchOptions>(key: K, value: SearchOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const openMatch = (result: FileSearchResult, index: number) => {
+    const file = searchFiles.find(file => file.path === result.path);
+    const match = result.matches[index];
+    if (!file) return;
+
+    openTabAt(file.id, { line: match.line, column: match.column, endColumn: match.column + match.length });
+  };
+
+  const previewReplaceAll = () => {
+    if (!results) return;
+
+    const changes = results.files.flatMap(result => {
+      const file = searchFiles.find(file => file.path === result.path);
+      if (!file) return [];
+
+      const { content, count } = replaceInContent(file.content, options, replacement);
+      return count > 0 && content !== file.content
+        ? [{ fileId: file.id, path: file.path, original: file.content, modified: content, count }]
+        : [];
+    });
+
+    if (changes.length > 0) setReplaceChanges(changes);
+  };
+
+  const applyReplaceAll = (changes: ReplaceChange[]) => {
+    for (const change of changes) {
+      // Unsaved editor changes stay unsaved, now with the replacements in them
+      const tab = openedTabs.find(tab => tab.id === change.fileId);
+      if (tab?.isModified) {
+        updateTabContent(tab.id, change.modified);
+      } else {
+        updateFileContent(change.fileId, change.modified);
+      }
+    }
+
+    const count = changes.reduce((total, change) => total + change.count, 0);
+    addLogMessage('success', `Replaced ${count} occurrence${count === 1 ? '' : 's'} of "${options.query}" in ${changes.length} file${changes.length === 1 ? '' : 's'}`);
+    setReplaceChanges(null);
+  };
+
+  const summary = results && (
+    results.matchCount === 0
+      ? 'No results found'
+      : `${results.matchCount}${results.truncated ? '+' : ''} result${results.matchCount === 1 ? '' : 's'} in ${results.files.length} file${results.files.length === 1 ? '' : 's'}`
+  );
+
+  return (
+    <div className="h-full bg-sidebar flex flex-col">
+      <div className="px-2 py-0.5 flex justify-between items-center border-b border-border">
+        <h2 className="text-sm font-medium text-sidebar-foreground">SEARCH</h2>
+        <div className="flex space-x-1">
+          <button
+            className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
+            onClick={() => setCollapsedPaths(new Set(results?.files.map(result => result.path)))}
+            title="Collapse all"
+          >
+            <ChevronsDownUp size={16} />
+          </button>
+          <button
+            className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors"
+            onClick={onClose}
+            title="Back to the explorer"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-2 py-2 space-y-1.5 border-b border-border">
+        <div className="flex items-start gap-1">
+          <button
+            className="mt-1 text-slate-400 hover:text-white"
+            onClick={() => setShowReplace(prev => !prev)}
+            title="Toggle replace"
+          >
+            {showReplace ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </button>
+          <div className="flex-1 space-y-1.5 min-w-0">
+            <div className="relative">
+              <input
+                ref={queryInputRef}
+                type="text"
+                value={options.query}
+                onChange={(e) => setOption('query', e.target.value)}
+                className="w-full bg-sidebar-foreground bg-opacity-10 text-sm pl-2 pr-[4.5rem] py-1 rounded text-sidebar-foreground outline-none"
+                placeholder="Search"
+              />
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 flex gap-0.5">
+                <OptionToggle active={options.matchCase} title="Match case" onClick={() => setOption('matchCase', !options.matchCase)}>
+                  <CaseSensitive size={14} />
+                </OptionToggle>
+                <OptionToggle active={options.wholeWord} title="Match whole word" onClick={() => setOption('wholeWord', !options.wholeWord)}>
+                  <WholeWord size={14} />
+                </OptionToggle>
+                <OptionToggle active={options.isRegex} title="Use regular expression" onClick={() => setOption('isRegex', !options.isRegex)}>
+                  <Regex size={14} />
+                </OptionToggle>
+              </div>
+            </div>
+
+            {showReplace && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  className="flex-1 min-w-0 bg-sidebar-foreground bg-opacity-10 text-sm px-2 py-1 rounded text-sidebar-foreground outline-none"
+                  placeholder={options.isRegex ? 'Replace ($1 for groups)' : 'Replace'}
+                />
+                <button
+                  className="p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded disabled:opacity-50"
+                  onClick={previewReplaceAll}
+                  disabled={!results?.matchCount}
+                  title="Replace all"
+                >
+                  <ReplaceAll size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            className="text-slate-400 hover:text-white"
+            onClick={() => setShowFilters(prev => !prev)}
+            title="Toggle search details"
+          >
+            <Ellipsis size={14} />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="space-y-1.5">
+            <div>
+              <label className="text-xs text-slate-400">files to include</label>
+              <input
+                type="text"
+                value={options.include}
+                onChange={(e) => setOption('include', e.target.value)}
+                className="w-full bg-sidebar-foreground bg-opacity-10 text-sm px-2 py-1 rounded text-sidebar-foreground outline-none"
+                placeholder="e.g. src/**/*.ts, *.md"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-400">files to exclude</label>
+              <input
+                type="text"
+                value={options.exclude}
+                onChange={(e) => setOption('exclude', e.target.value)}
+                className="w-full bg-sidebar-foreground bg-opacity-10 text-sm px-2 py-1 rounded text-sidebar-foreground outline-none"
+                placeholder="e.g. node_modules, dist"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto py-1">
+        {error && <div className="px-3 py-1 text-sm text-red-400">{error}</div>}
+        {summary && <div className="px-3 py-1 text-xs text-slate-400">{summary}</div>}
+
+        {results?.files.map(result => {
+          const isCollapsed = collapsedPaths.has(result.path);
+          const slash = result.path.lastIndexOf('/');
+          const name = result.path.slice(slash + 1);
+          const folder = slash > 0 ? result.path.slice(0, slash) : '';
+
+          return (
+            <div key={result.path}>
+              <div
+                className="file-explorer-item flex items-center py-0.5 px-1 cursor-pointer rounded"
+                onClick={() => toggleCollapsed(result.path)}
+                title={result.path}
+              >
+                <span className="mr-1 text-slate-400">
+                  {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                </span>
+                <span className="mr-1 text-slate-400">{getFileIcon(name)}</span>
+                <span className="text-sm text-sidebar-foreground opacity-90 truncate">{name}</span>
+                <span className="text-xs text-slate-500 ml-2 truncate opacity-70 flex-1">{folder}</span>
+                <span className="ml-1 px-1.5 rounded-full bg-[#cccccc29] text-xs text-sidebar-foreground">
+                  {result.matches.length}
+                </span>
+              </div>
+
+              {!isCollapsed && result.matches.map((match, index) => (
+                <div
+                  key={`${match.line}:${match.column}`}
+                  className="file-explorer-item py-0.5 pl-9 pr-2 cursor-pointer rounded text-xs text-sidebar-foreground truncate"
+                  onClick={() => openMatch(result, index)}
+                  title={`Line ${match.line}`}
+                >
+                  <span className="opacity-75">{match.preview.slice(0, match.previewOffset)}</span>
+                  <span className={showReplace && replacement ? 'bg-red-500/30 line-through' : 'bg-yellow-500/40'}>
+                    {match.preview.slice(match.previewOffset, match.previewOffset + match.length)}
+                  </span>
+                  {showReplace && replacement && !options.isRegex && (
+                    <span className="bg-green-500/30">{replacement}</span>
+                  )}
+                  <span className="opacity-75">{match.preview.slice(match.previewOffset + match.length)}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {replaceChanges && (
+        <ReplacePreviewDialog
+          changes={replaceChanges}
+          onApply={applyReplaceAll}
+          onClose={() => setReplaceChanges(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Copy, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { COMMAND_CATEGORIES, useCommands } from '@/contexts/CommandContext';
+import { buildShortcutsReference } from '@/lib/keybindings';
+import { downloadFile } from '@/lib/download';
+import { toast } from 'sonner';
+
+interface ShortcutsReferenceDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onCustomize: () => void;
+}
+
+// Cheat sheet of the shortcuts in effect, generated from the command registry
+export const ShortcutsReferenceDialog: React.FC<ShortcutsReferenceDialogProps> = ({ open, onClose, onCustomize }) => {
+  const { commands, getKeybinding } = useCommands();
+
+  const entries = commands
+    .map(command => ({ category: command.category, title: command.title, keybinding: getKeybinding(command.id) }))
+    .filter(entry => entry.keybinding);
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(buildShortcutsReference(entries));
+      toast.success('Shortcuts copied as Markdown');
+    } catch (error) {
+      toast.error('Could not copy to the clipboard');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-2xl bg-sidebar border-border text-sidebar-foreground">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground">Keyboard Shortcuts Reference</DialogTitle>
+          <DialogDescription className="text-sidebar-foreground opacity-70">
+            Ctrl is Cmd on macOS. Includes your customized shortcuts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[420px] overflow-y-auto grid sm:grid-cols-2 gap-x-6 gap-y-4">
+          {COMMAND_CATEGORIES.map(category => {
+            const categoryEntries = entries.filter(entry => entry.category === category);
+            if (categoryEntries.length === 0) return null;
+
+            return (
+              <div key={category}>
+                <h3 className="text-xs font-medium uppercase opacity-60 mb-1">{category}</h3>
+                {categoryEntries.map(entry => (
+                  <div key={entry.title} className="flex items-center justify-between py-0.5 text-sm">
+                    <span className="truncate">{entry.title}</span>
+                    <kbd className="ml-2 px-1.5 py-0.5 text-xs border border-border rounded bg-terminal whitespace-nowrap">
+                      {entry.keybinding}
+                    </kbd>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" className="bg-terminal border-border" onClick={copyMarkdown}>
+            <Copy size={14} className="mr-2" />
+            Copy as Markdown
+          </Button>
+          <Button
+            variant="outline"
+            className="bg-terminal border-border"
+            onClick={() => downloadFile('keyboard-shortcuts.md', buildShortcutsReference(entries), 'text/markdown')}
+          >
+            <Download size={14} className="mr-2" />
+            Download
+          </Button>
+          <Button onClick={onCustomize}>Customize...</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Check, ChevronDown, ChevronRight, FileText, GitBranch, Minus, Plus, RefreshCw, UserCog, X
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useGit } from '@/contexts/GitContext';
+import { useEditor } from '@/contexts/EditorContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { GitChangeType, GitStatusEntry } from '@/lib/git/types';
+import { getFileIcon } from './FileExplorer';
+import { GitDiffDialog } from './GitDiffDialog';
+
+interface SourceControlPanelProps {
+  onClose: () => void;
+}
+
+const CHANGE_LETTERS: Record<GitChangeType, { letter: string; className: string; label: string }> = {
+  added: { letter: 'A', className: 'text-green-400', label: 'Added' },
+  modified: { letter: 'M', className: 'text-yellow-400', label: 'Modified' },
+  deleted: { letter: 'D', className: 'text-red-400', label: 'Deleted' },
+  untracked: { letter: 'U', className: 'text-green-400', label: 'Untracked' },
+};
+
+const iconButtonClass = 'p-1 text-slate-400 hover:text-white hover:bg-[#cccccc29] rounded transition-colors disabled:opacity-50';
+const inputClass = 'w-full bg-sidebar-foreground bg-opacity-10 text-sm px-2 py-1 rounded text-sidebar-foreground outline-none';
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'Unknown error';
+
+// Changes, commits and branches of the workspace repository, for the left sidebar
+const SourceControlPanel: React.FC<SourceControlPanelProps> = ({ onClose }) => {
+  const {
+    isSupported, isRepository, branch, branches, changes, commits, isBusy, author, setAuthor,
+    refresh, init, stage, unstage, commit, createBranch, checkout
+  } = useGit();
+  const { getFileByPath } = useFileSystem();
+  const { openedTabs, openTab } = useEditor();
+  const [message, setMessage] = useState('');
+  const [newBranch, setNewBranch] = useState<string | null>(null);
+  const [showAuthor, setShowAuthor] = useState(false);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [diff, setDiff] = useState<{ path: string; staged: boolean } | null>(null);
+
+  const staged = changes.filter(entry => entry.staged);
+  const unstaged = changes.filter(entry => entry.unstaged);
+  const hasUnsavedTabs = openedTabs.some(tab => tab.isModified);
+
+  const toggleGroup = (group: string) => {
+    setCollapsedGroups(prev => {
+      const next = new Set(prev);
+      if (next.has(group)) {
+        next.delete(group);
+      } else {
+        next.add(group);
+      }
+      return next;
+    });
+  };
+
+  // Failures are already in the logs panel; a toast points there
+  const attempt = async (operation: () => Promise<unknown>) => {
+    try {
+      await operation();
+    } catch (error) {
+      toast.error(errorMessage(error));
+    }
+  };
+
+  const handleCommit = () => attempt(async () => {
+    if (await commit(message)) {
+      setMessage('');
+    }
+  });
+
+  const handleCreateBranch = () => {
+    const name = newBranch?.trim();
+    if (!name) {
+      setNewBranch(null);
+      return;
+    }
+    attempt(async () => {
+      await createBranch(name);
+      setNewBranch(null);
+    });
+  };
+
+  const openFile = (path: string) => {
+    const file = getFileByPath(path);
+    if (file) openTab(file.id);
+  };
+
+  const renderEntry = (entry: GitStatusEntry, isStaged: boolean) => {
+    const change = CHANGE_LETTERS[(isStaged ? entry.staged : entry.unstaged)!];
+    const slash = entry.path.lastIndexOf('/');
+    const name = entry.path.slice(slash + 1);
+    const folder = slash > 0 ? entry.path.slice(0, slash) : '';
+    const exists = !!getFileByPath(entry.path);
+
+    return (
+      <div
+        key={entry.path}
+        className="file-explorer-item group flex items-center py-0.5 pl-5 pr-1 cursor-pointer rounded"
+        onClick={() => setDiff({ path: entry.path, staged: isStaged })}
+        title={`${entry.path} • ${change.label}`}
+      >
+        <span className="mr-1 text-slate-400">{getFileIcon(name)}</span>
+        <span className={`text-sm truncate ${change.letter === 'D' ? 'line-through opacity-70' : 'text-sidebar-foreground opacity-90'}`}>{name}</span>
+        <span className="text-xs text-slate-500 ml-2 truncate opacity-70 flex-1">{folder}</span>
+        <span className="hidden group-hover:flex">
+          {exists && (
+            <button
+              className={iconButtonClass}
+              onClick={(e) => { e.stopPropagation(); openFile(entry.path); }}
+              title="Open file"
+            >
+              <FileText size={14} />
+            </button>
+          )}
+          <button
+            className={iconButtonClass}
+            onClick={(e) => {
+              e.stopPropagation();
+              attempt(() => isStaged ? unstage([entry.path]) : stage([entry.path]));
+            }}
+            disabled={isBusy}
+            title={isStaged ? 'Unstage changes' : 'Stage changes'}
+          >
+            {isStaged ? <Minus size={14} /> : <Plus size={14} />}
+          </button>
+        </span>
+        <span className={`w-4 text-center text-xs font-semibold ${change.className}`}>{change.letter}</span>
+      </div>
+    );
+  };
+
+  const renderGroup = (
+    id: string,
+    title: string,
+    entries: GitStatusEntry[],
+    isStaged: boolean
+  ) => {
+    const isCollapsed = collapsedGroups.has(id);
+    const paths = entries.map(entry => entry.path);
+
+    return (
+      <div>
+        <div
+          className="group flex items-center py-0.5 px-1 cursor-pointer text-xs font-semibold text-sidebar-foreground uppercase"
+          onClick={() => toggleGroup(id)}
+        >
+          <span className="mr-1 text-slate-400">
+            {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+          </span>
+          <span className="flex-1">{title}</span>
+          <span className="hidden group-hover:flex">
+            <button
+              className={iconButtonClass}
+              onClick={(e) => {
+                e.stopPropagation();
+                attempt(() => isStaged ? unstage(paths) : stage(paths));
+              }}
+              disabled={isBusy}
+              title={isStaged ? 'Unstage all changes' : 'Stage all changes'}
+            >
+              {isStaged ? <Minus size={14} /> : <Plus size={14} />}
+            </button>
+          </span>
+          <span className="ml-1 px-1.5 rounded-full bg-[#cccccc29] text-xs font-normal">{entries.length}</span>
+        </div>
+        {!isCollapsed && entries.map(entry => renderEntry(entry, isStaged))}
+      </div>
+    );
+  };
+
+  const renderRepository = () => (
+    <>
+      <div className="px-2 py-2 space-y-1.5 border-b border-border">
+        <div className="flex items-center gap-1">
+          <GitBranch size={14} className="text-slate-400 shrink-0" />
+          {newBranch === null ? (
+            <>
+              <select
+                value={branch ?? ''}
+                onChange={(e) => attempt(() => checkout(e.target.value))}
+                disabled={isBusy}
+                className="flex-1 min-w-0 bg-sidebar-foreground bg-opacity-10 text-sm px-1 py-0.5 rounded text-sidebar-foreground outline-none"
+                title="Switch branch"
+              >
+                {!branch && <option value="">(detached HEAD)</option>}
+                {branches.map(name => (
+                  <option key={name} value={name} className="bg-sidebar">{name}</option>
+                ))}
+              </select>
+              <button className={iconButtonClass} onClick={() => setNewBranch('')} disabled={isBusy} title="Create branch">
+                <Plus size={14} />
+              </button>
+            </>
+          ) : (
+            <input
+              type="text"
+              value={newBranch}
+              onChange={(e) => setNewBranch(e.target.value.replace(/\s/g, '-'))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreateBranch();
+                if (e.key === 'Escape') setNewBranch(null);
+              }}
+              onBlur={() => setNewBranch(null)}
+              className={inputClass}
+              placeholder="New branch name, then Enter"
+              autoFocus
+            />
+          )}
+        </div>
+
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+              e.preventDefault();
+              handleCommit();
+            }
+          }}
+          rows={3}
+          className={`${inputClass} resize-none`}
+          placeholder={`Message (Ctrl+Enter to commit on '${branch ?? 'HEAD'}')`}
+        />
+        <Button
+          className="w-full h-7 text-sm"
+          onClick={handleCommit}
+          disabled={isBusy || !message.trim() || changes.length === 0}
+        >
+          <Check size={14} className="mr-1" />
+          {staged.length > 0 ? 'Commit' : 'Commit All'}
+        </Button>
+        {hasUnsavedTabs && (
+          <div className="text-xs text-slate-400">Unsaved editor changes are left out until they are saved.</div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto py-1">
+        {changes.length === 0 && (
+          <div className="px-3 py-1 text-xs text-slate-400">No changes since the last commit.</div>
+        )}
+        {staged.length > 0 && renderGroup('staged', 'Staged Changes', staged, true)}
+        {unstaged.length > 0 && renderGroup('changes', 'Changes', unstaged, false)}
+
+        <div className="mt-2">
+          <div
+            className="flex items-center py-0.5 px-1 cursor-pointer text-xs font-semibold text-sidebar-foreground uppercase"
+            onClick={() => toggleGroup('history')}
+          >
+            <span className="mr-1 text-slate-400">
+              {collapsedGroups.has('history') ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+            </span>
+            History
+          </div>
+          {!collapsedGroups.has('history') && (
+            commits.length === 0
+              ? <div className="px-5 py-1 text-xs text-slate-400">No commits yet.</div>
+              : commits.map(entry => (
+                <div
+                  key={entry.oid}
+                  className="py-1 pl-5 pr-2 text-xs text-sidebar-foreground"
+                  title={`${entry.oid}\n${entry.author} <${entry.email}>\n${new Date(entry.timestamp).toLocaleString()}\n\n${entry.message}`}
+                >
+                  <div className="truncate opacity-90">{entry.message.split('\n')[0]}</div>
+                  <div className="flex gap-2 text-slate-500">
+                    <span className="font-mono">{entry.oid.slice(0, 7)}</span>
+                    <span className="truncate flex-1">{entry.author}</span>
+                    <span className="shrink-0">{formatDistanceToNow(entry.timestamp, { addSuffix: true })}</span>
+                  </div>
+                </div>
+              ))
+          )}
+        </div>
+      </div>
+    </>
+  );
+
+  return (
+    <div className="h-full bg-sidebar flex flex-col">
+      <div className="px-2 py-0.5 flex justify-between items-center border-b border-border">
+        <h2 className="text-sm font-medium text-sidebar-foreground">SOURCE CONTROL</h2>
+        <div className="flex space-x-1">
+          <button className={iconButtonClass} onClick={() => setShowAuthor(prev => !prev)} title="Commit author">
+            <UserCog size={16} />
+          </button>
+          <button className={iconButtonClass} onClick={() => refresh()} title="Refresh">
+            <RefreshCw size={16} />
+          </button>
+          <button className={iconButtonClass} onClick={onClose} title="Back to the explorer">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {showAuthor && (
+        <div className="px-2 py-2 space-y-1.5 border-b border-border">
+          <label className="text-xs text-slate-400">commit as</label>
+          <input
+            type="text"
+            value={author.name}
+            onChange={(e) => setAuthor({ ...author, name: e.target.value })}
+            className={inputClass}
+            placeholder="Name"
+          />
+          <input
+            type="email"
+            value={author.email}
+            onChange={(e) => setAuthor({ ...author, email: e.target.value })}
+            className={inputClass}
+            placeholder="Email"
+          />
+        </div>
+      )}
+
+      {isSupported && isRepository === null && (
+        <div className="px-3 py-2 text-xs text-slate-400">Reading the repository...</div>
+      )}
+
+      {!isSupported && (
+        <div className="px-3 py-3 text-sm text-sidebar-foreground opacity-80">
+          Source control isn't available for folders opened from your computer. Use git in a terminal on the folder instead.
+        </div>
+      )}
+
+      {isSupported && isRepository === false && (
+        <div className="px-3 py-3 space-y-2 text-sm text-sidebar-foreground">
+          <p className="opacity-80">This workspace isn't a git repository yet.</p>
+          <Button className="w-full h-7 text-sm" onClick={() => attempt(init)} disabled={isBusy}>
+            Initialize Repository
+          </Button>
+        </div>
+      )}
+
+      {isRepository && renderRepository()}
+
+      {diff && (
+        <GitDiffDialog
+          path={diff.path}
+          staged={diff.staged}
+          onOpenFile={getFileByPath(diff.path) ? () => {
+            openFile(diff.path);
+            setDiff(null);
+          } : undefined}
+          onClose={() => setDiff(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SourceControlPanel;
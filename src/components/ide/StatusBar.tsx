@@ -1,9 +1,20 @@
 
 import React, { useState, useEffect } from 'react';
-import { GitBranch, Terminal, Columns, Sun, Moon } from 'lucide-react';
+import { GitBranch, Terminal, Columns, Sun, Moon, Sparkles, Loader } from 'lucide-react';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useEditor } from '@/contexts/EditorContext';
 import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useInlineCompletions, InlineCompletionStatus } from '@/contexts/InlineCompletionContext';
+import { useGit } from '@/contexts/GitContext';
+import { useCommands } from '@/contexts/CommandContext';
+
+const COMPLETION_STATUS_LABELS: Record<InlineCompletionStatus, string> = {
+  off: 'AI completions are off',
+  idle: 'AI completions are on',
+  busy: 'Fetching an AI completion',
+  unavailable: 'AI completions are unavailable',
+  error: 'The last AI completion failed',
+};
 
 interface StatusBarProps {
   toggleTerminal: () => void;
@@ -19,6 +30,9 @@ const StatusBar: React.FC<StatusBarProps> = ({
   const { theme, toggleTheme } = useTheme();
   const { activeTabId } = useEditor();
   const { getFileById, addLogMessage } = useFileSystem();
+  const { status: completionStatus, statusDetail: completionDetail, toggleInlineCompletions } = useInlineCompletions();
+  const { isSupported: isGitSupported, isRepository, branch, changes } = useGit();
+  const { executeCommand } = useCommands();
   const [time, setTime] = useState<string>('');
   const [activeFileInfo, setActiveFileInfo] = useState({ 
     language: 'Text', 
@@ -60,10 +74,17 @@ const StatusBar: React.FC<StatusBarProps> = ({
   return (
     <div className="flex items-center justify-between px-2 py-1.5 bg-status-bar text-slate-400 text-xs border-t border-border">
       <div className="flex items-center space-x-4">
-        <div className="flex items-center text-[13px]">
-          <GitBranch size={14} className="mr-1" />
-          <span>main</span>
-        </div>
+        {isGitSupported && (
+          <button
+            className="flex items-center hover:text-white transition-colors text-[13px]"
+            onClick={() => executeCommand('view.showSourceControl')}
+            title={isRepository ? `${changes.length} changed file${changes.length === 1 ? '' : 's'}` : 'Source Control'}
+          >
+            <GitBranch size={14} className="mr-1" />
+            <span>{isRepository ? branch ?? 'HEAD' : 'No repository'}</span>
+            {isRepository && changes.length > 0 && <span className="ml-1">{changes.length}*</span>}
+          </button>
+        )}
         
         <button 
           className="flex items-center hover:text-white transition-colors text-[13px]"
@@ -93,6 +114,17 @@ const StatusBar: React.FC<StatusBarProps> = ({
         
         <span className="text-[13px]">{activeFileInfo.language}</span>
         
+        <button
+          className={`flex items-center hover:text-white transition-colors text-[13px] ${
+            completionStatus === 'off' ? 'opacity-50' : completionStatus === 'unavailable' || completionStatus === 'error' ? 'text-yellow-500' : ''
+          }`}
+          onClick={toggleInlineCompletions}
+          title={`${COMPLETION_STATUS_LABELS[completionStatus]}${completionDetail ? `: ${completionDetail}` : ''}. Click to turn ${completionStatus === 'off' ? 'on' : 'off'}.`}
+        >
+          {completionStatus === 'busy' ? <Loader size={14} className="mr-1 animate-spin" /> : <Sparkles size={14} className="mr-1" />}
+          <span>AI</span>
+        </button>
+        
         <span className="text-[13px]">{time}</span>
         
         <button
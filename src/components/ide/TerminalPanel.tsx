@@ -5,6 +5,9 @@ import { FitAddon } from 'xterm-addon-fit';
 import 'xterm/css/xterm.css';
 import { Plus, X, Maximize2, Minimize2 } from 'lucide-react';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { createPtySession, PtySession } from '@/lib/ptySession';
+import { createVirtualShell, VirtualShell } from '@/lib/shell/virtualShell';
 import { toast } from 'sonner';
 
 interface TerminalTabProps {
@@ -41,6 +44,8 @@ interface TerminalInstance {
   terminal: XTerm;
   fitAddon: FitAddon;
   containerRef: React.RefObject<HTMLDivElement>;
+  // Shell connection, set once the terminal has been opened in the DOM
+  session: PtySession | VirtualShell | null;
 }
 
 interface TerminalPanelProps {
@@ -54,6 +59,16 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ maximizeTerminal, minimiz
   const [maximized, setMaximized] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const { terminalTheme } = useTheme();
+  const fileSystem = useFileSystem();
+  // The built-in shell reads the workspace through this, so it never sees a stale tree
+  const fileSystemRef = useRef(fileSystem);
+  fileSystemRef.current = fileSystem;
+  
+  // Latest terminals, for cleanup on unmount
+  const terminalsRef = useRef<TerminalInstance[]>([]);
+  terminalsRef.current = terminals;
+  // StrictMode runs mount effects twice; only open one shell
+  const createdFirstTerminalRef = useRef(false);
   
   // Initialize a new terminal
   const createTerminal = () => {
@@ -73,87 +88,125 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ maximizeTerminal, minimiz
     const fitAddon = new FitAddon();
     terminal.loadAddon(fitAddon);
     
-    const newTermRef = React.createRef<HTMLDivElement>();
+    const newTerm: TerminalInstance = {
+      id,
+      terminal,
+      fitAddon,
+      containerRef: React.createRef<HTMLDivElement>(),
+      session: null
+    };
     
-    setTerminals(prev => [...prev, { id, terminal, fitAddon, containerRef: newTermRef }]);
+    setTerminals(prev => [...prev, newTerm]);
     setActiveTerminalId(id);
     
-    return { id, terminal, fitAddon, containerRef: newTermRef };
+    return newTerm;
   };
   
-  // Initialize the first terminal
-  useEffect(() => {
-    if (terminals.length === 0) {
-      const newTerm = createTerminal();
-      
-      // Wait for the DOM to update
-      setTimeout(() => {
-        if (newTerm.containerRef.current) {
-          newTerm.terminal.open(newTerm.containerRef.current);
-          newTerm.fitAddon.fit();
-          
-          // Set up some initial terminal content
-          newTerm.terminal.writeln('Welcome to the IDE Terminal!');
-          newTerm.terminal.writeln('');
-          newTerm.terminal.write('$ ');
-          
-          // Set up basic terminal input handling
-          newTerm.terminal.onData(data => {
-            // Echo back input
-            newTerm.terminal.write(data);
-            
-            // Handle Enter key
-            if (data === '\r') {
-              newTerm.terminal.writeln('');
-              newTerm.terminal.write('$ ');
-            }
-          });
+  // Run the built-in shell on the workspace tree
+  const startVirtualShell = (term: TerminalInstance) => {
+    term.session = createVirtualShell({
+      cols: term.terminal.cols,
+      write: data => term.terminal.write(data),
+      getFileSystem: () => fileSystemRef.current
+    });
+  };
+  
+  // Connect to a shell on the dev server, falling back to the built-in shell if there is none
+  const startPtySession = (term: TerminalInstance) => {
+    const { terminal } = term;
+    term.session = createPtySession({
+      cols: terminal.cols,
+      rows: terminal.rows,
+      onOutput: data => terminal.write(data),
+      onExit: exitCode => {
+        terminal.writeln('');
+        terminal.writeln(`[Process exited with code ${exitCode}]`);
+      },
+      onDisconnect: wasConnected => {
+        if (wasConnected) {
+          terminal.writeln('');
+          terminal.writeln('[Connection to the shell was lost]');
+          return;
         }
-      }, 0);
+        terminal.writeln('[No shell available on the dev server, using the built-in shell]');
+        startVirtualShell(term);
+      }
+    });
+  };
+  
+  // Open the terminal in its container and attach a shell. Real shells run on disk, so they
+  // only make sense when the workspace is the dev server's folder; otherwise use the built-in one.
+  const startTerminal = (term: TerminalInstance) => {
+    const { terminal, fitAddon } = term;
+    terminal.open(term.containerRef.current!);
+    fitAddon.fit();
+    
+    if (fileSystem.backendKind === 'http') {
+      startPtySession(term);
+    } else {
+      startVirtualShell(term);
+    }
+    
+    terminal.onData(data => term.session?.write(data));
+    // FitAddon resizes the terminal; pass the new size on to the shell
+    terminal.onResize(({ cols, rows }) => term.session?.resize(cols, rows));
+  };
+  
+  // Fit a terminal to its container, skipping hidden ones that have no size
+  const fitTerminal = (term: TerminalInstance) => {
+    if (term.session && term.containerRef.current?.offsetParent) {
+      term.fitAddon.fit();
     }
+  };
+  
+  // The effects below call the latest of these without re-running each time they are redefined
+  const callbacksRef = useRef({ createTerminal, startTerminal });
+  callbacksRef.current = { createTerminal, startTerminal };
+  
+  // Initialize the first terminal, and shut every shell down on unmount
+  useEffect(() => {
+    if (!createdFirstTerminalRef.current) {
+      createdFirstTerminalRef.current = true;
+      callbacksRef.current.createTerminal();
+    }
+    
+    return () => {
+      terminalsRef.current.forEach(term => {
+        term.session?.dispose();
+        term.terminal.dispose();
+      });
+    };
   }, []);
   
-  // Resize terminals when window resizes
+  // Resize terminals when the window or the panel resizes
   useEffect(() => {
     const handleResize = () => {
-      terminals.forEach(term => {
-        term.fitAddon.fit();
-      });
+      terminals.forEach(fitTerminal);
     };
     
     window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
+    const observer = new ResizeObserver(handleResize);
+    if (containerRef.current) {
+      observer.observe(containerRef.current);
+    }
+    
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      observer.disconnect();
+    };
   }, [terminals]);
   
-  // Set up new terminal when created
+  // Start the active terminal the first time it is shown, and refit it when switching tabs
   useEffect(() => {
     const currentTerminal = terminals.find(t => t.id === activeTerminalId);
+    if (!currentTerminal || !currentTerminal.containerRef.current) return;
     
-    if (currentTerminal && currentTerminal.containerRef.current && 
-        !currentTerminal.containerRef.current.querySelector('.xterm')) {
-      currentTerminal.terminal.open(currentTerminal.containerRef.current);
-      currentTerminal.fitAddon.fit();
-      
-      // Set up some initial terminal content if this is a new terminal
-      const isNewTerminal = !currentTerminal.containerRef.current.querySelector('.xterm-cursor');
-      if (isNewTerminal) {
-        currentTerminal.terminal.writeln('Terminal session started.');
-        currentTerminal.terminal.writeln('');
-        currentTerminal.terminal.write('$ ');
-        
-        // Set up basic terminal input handling
-        currentTerminal.terminal.onData(data => {
-          // Echo back input
-          currentTerminal.terminal.write(data);
-          
-          // Handle Enter key
-          if (data === '\r') {
-            currentTerminal.terminal.writeln('');
-            currentTerminal.terminal.write('$ ');
-          }
-        });
-      }
+    if (!currentTerminal.session) {
+      callbacksRef.current.startTerminal(currentTerminal);
+    } else {
+      fitTerminal(currentTerminal);
     }
+    currentTerminal.terminal.focus();
   }, [terminals, activeTerminalId]);
 
   // Apply theme changes to existing terminals
@@ -172,6 +225,8 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ maximizeTerminal, minimiz
   const closeTerminal = (id: string) => {
     const terminalToClose = terminals.find(t => t.id === id);
     if (terminalToClose) {
+      // Closing the socket kills the shell on the server
+      terminalToClose.session?.dispose();
       terminalToClose.terminal.dispose();
     }
     
@@ -209,9 +264,7 @@ const TerminalPanel: React.FC<TerminalPanelProps> = ({ maximizeTerminal, minimiz
     
     // Resize terminals after the animation completes
     setTimeout(() => {
-      terminals.forEach(term => {
-        term.fitAddon.fit();
-      });
+      terminals.forEach(fitTerminal);
     }, 300);
   };
   
@@ -1,14 +1,14 @@
 
 import React, { useState } from 'react';
-import { Command, Save, Settings, File as FileIcon, Edit as EditIcon, Eye, HelpCircle, Copy, Clipboard, Download, Upload, Trash2, Undo, Redo, RotateCcw, X, LayoutGrid } from 'lucide-react';
-import { useEditor } from '@/contexts/EditorContext';
+import { Command, Save, Settings, File as FileIcon, Edit as EditIcon, Eye, HelpCircle, Copy, Clipboard, Download, Upload, Trash2, Undo, Redo, RotateCcw, X, LayoutGrid, Keyboard, FolderOpen, FolderX, Columns2, Rows2 } from 'lucide-react';
 import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useCommands } from '@/contexts/CommandContext';
 import FontSelector from './FontSelector';
 import { toast } from 'sonner';
 
 const TopBar: React.FC = () => {
-  const { saveActiveFile, activeTabId, undoLastAction, redoLastAction } = useEditor();
-  const { createFile, deleteFile, addLogMessage } = useFileSystem();
+  const { addLogMessage, backendKind } = useFileSystem();
+  const { executeCommand, getKeybinding } = useCommands();
   
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
   
@@ -21,24 +21,26 @@ const TopBar: React.FC = () => {
     }
   };
   
-  // Handle menu item actions
+  // Keybinding of a command, as the user has set it, for menu items and tooltips
+  const shortcut = (commandId: string) => {
+    const keybinding = getKeybinding(commandId);
+    return keybinding && <span className="ml-auto pl-4 text-xs opacity-70">{keybinding}</span>;
+  };
+
+  const withShortcut = (title: string, commandId: string) => {
+    const keybinding = getKeybinding(commandId);
+    return keybinding ? `${title} (${keybinding})` : title;
+  };
+  
+  // Run a registered command from a menu
+  const runCommand = (commandId: string) => {
+    executeCommand(commandId);
+    setActiveMenu(null);
+  };
+  
+  // Handle menu item actions that aren't commands
   const handleAction = (action: string) => {
     switch (action) {
-      case 'new-file':
-        createFile('/my-project', 'untitled.txt', 'file');
-        addLogMessage('success', 'New file created');
-        break;
-      case 'save':
-        saveActiveFile();
-        break;
-      case 'delete':
-        if (activeTabId) {
-          deleteFile(activeTabId);
-          addLogMessage('success', 'File deleted');
-        } else {
-          addLogMessage('error', 'No file selected');
-        }
-        break;
       case 'copy':
         if (document.execCommand('copy')) {
           toast.success('Content copied to clipboard');
@@ -54,21 +56,12 @@ const TopBar: React.FC = () => {
           toast.success('Content pasted from clipboard');
         }
         break;
-      case 'undo':
-        undoLastAction();
-        break;
-      case 'redo':
-        redoLastAction();
-        break;
       case 'toggle-minimap':
         addLogMessage('success', 'Minimap toggled');
         break;
       case 'toggle-wrap':
         addLogMessage('success', 'Word wrap toggled');
         break;
-      case 'keyboard-shortcuts':
-        toast.info('Keyboard shortcuts: Ctrl+S to save, Ctrl+Z to undo, Ctrl+Y to redo');
-        break;
       case 'about':
         addLogMessage('info', 'Code Editor IDE - Version 1.0.0');
         break;
@@ -94,17 +87,41 @@ const TopBar: React.FC = () => {
           </button>
           {activeMenu === 'file' && (
             <div className="menu-dropdown mt-1 left-0 bg-sidebar border border-border rounded shadow-lg py-1 z-50">
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('new-file')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.newFile')}>
                 <FileIcon size={14} className="mr-2" />
                 New File
+                {shortcut('file.newFile')}
               </div>
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('save')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.save')}>
                 <Save size={14} className="mr-2" />
                 Save
-                <span className="ml-auto text-xs opacity-70">Ctrl+S</span>
+                {shortcut('file.save')}
               </div>
               <div className="border-t border-border my-1"></div>
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('delete')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.openFolder')}>
+                <FolderOpen size={14} className="mr-2" />
+                Open Folder...
+                {shortcut('file.openFolder')}
+              </div>
+              {backendKind === 'local' && (
+                <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.closeFolder')}>
+                  <FolderX size={14} className="mr-2" />
+                  Close Folder
+                  {shortcut('file.closeFolder')}
+                </div>
+              )}
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.importProject')}>
+                <Upload size={14} className="mr-2" />
+                Import Project...
+                {shortcut('file.importProject')}
+              </div>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.exportProject')}>
+                <Download size={14} className="mr-2" />
+                Export Project as Zip
+                {shortcut('file.exportProject')}
+              </div>
+              <div className="border-t border-border my-1"></div>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('file.delete')}>
                 <Trash2 size={14} className="mr-2" />
                 Delete
               </div>
@@ -121,15 +138,15 @@ const TopBar: React.FC = () => {
           </button>
           {activeMenu === 'edit' && (
             <div className="menu-dropdown mt-1 left-0 bg-sidebar border border-border rounded shadow-lg py-1 z-50">
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('undo')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('edit.undo')}>
                 <Undo size={14} className="mr-2" />
                 Undo
-                <span className="ml-auto text-xs opacity-70">Ctrl+Z</span>
+                {shortcut('edit.undo')}
               </div>
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('redo')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('edit.redo')}>
                 <Redo size={14} className="mr-2" />
                 Redo
-                <span className="ml-auto text-xs opacity-70">Ctrl+Y</span>
+                {shortcut('edit.redo')}
               </div>
               <div className="border-t border-border my-1"></div>
               <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('copy')}>
@@ -168,6 +185,17 @@ const TopBar: React.FC = () => {
                 <RotateCcw size={14} className="mr-2" />
                 Toggle Word Wrap
               </div>
+              <div className="border-t border-border my-1"></div>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('view.splitEditorRight')}>
+                <Columns2 size={14} className="mr-2" />
+                Split Editor Right
+                {shortcut('view.splitEditorRight')}
+              </div>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('view.splitEditorDown')}>
+                <Rows2 size={14} className="mr-2" />
+                Split Editor Down
+                {shortcut('view.splitEditorDown')}
+              </div>
             </div>
           )}
         </div>
@@ -181,10 +209,14 @@ const TopBar: React.FC = () => {
           </button>
           {activeMenu === 'help' && (
             <div className="menu-dropdown mt-1 left-0 bg-sidebar border border-border rounded shadow-lg py-1 z-50">
-              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('keyboard-shortcuts')}>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('help.shortcutsReference')}>
                 <Command size={14} className="mr-2" />
                 Keyboard Shortcuts
               </div>
+              <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => runCommand('help.keybindings')}>
+                <Keyboard size={14} className="mr-2" />
+                Customize Shortcuts
+              </div>
               <div className="menu-item flex items-center px-3 py-1.5 hover:bg-tab-active hover:text-white cursor-pointer" onClick={() => handleAction('about')}>
                 <HelpCircle size={14} className="mr-2" />
                 About
@@ -199,38 +231,40 @@ const TopBar: React.FC = () => {
         
         <button 
           className="p-1 hover:text-white transition-colors"
-          onClick={() => handleAction('save')}
-          title="Save (Ctrl+S)"
+          onClick={() => runCommand('file.save')}
+          title={withShortcut('Save', 'file.save')}
         >
           <Save size={16} />
         </button>
         
         <button 
           className="p-1 hover:text-white transition-colors"
-          onClick={() => handleAction('undo')}
-          title="Undo (Ctrl+Z)"
+          onClick={() => runCommand('edit.undo')}
+          title={withShortcut('Undo', 'edit.undo')}
         >
           <Undo size={16} />
         </button>
         
         <button 
           className="p-1 hover:text-white transition-colors"
-          onClick={() => handleAction('redo')}
-          title="Redo (Ctrl+Y)"
+          onClick={() => runCommand('edit.redo')}
+          title={withShortcut('Redo', 'edit.redo')}
         >
           <Redo size={16} />
         </button>
         
         <button 
           className="p-1 hover:text-white transition-colors"
-          title="Command Palette (Ctrl+P)"
+          onClick={() => runCommand('go.commands')}
+          title={withShortcut('Command Palette', 'go.commands')}
         >
           <Command size={16} />
         </button>
         
         <button 
           className="p-1 hover:text-white transition-colors"
-          title="Settings"
+          onClick={() => runCommand('ai.openSettings')}
+          title="AI Settings"
         >
           <Settings size={16} />
         </button>
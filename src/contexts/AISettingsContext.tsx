@@ -0,0 +1,46 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { providers } from '@/lib/ai/providers';
+import { loadSettings, saveSettings } from '@/lib/ai/settings';
+import { AISettings, ChatProvider } from '@/lib/ai/types';
+
+interface AISettingsContextType {
+  settings: AISettings;
+  activeProvider: ChatProvider;
+  setSettings: (settings: AISettings) => void;
+  isSettingsOpen: boolean;
+  openSettings: () => void;
+  closeSettings: () => void;
+}
+
+const AISettingsContext = createContext<AISettingsContextType | undefined>(undefined);
+
+export const AISettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<AISettings>(loadSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Persist settings whenever they change
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  return (
+    <AISettingsContext.Provider value={{
+      settings,
+      activeProvider: providers[settings.provider],
+      setSettings,
+      isSettingsOpen,
+      openSettings: () => setIsSettingsOpen(true),
+      closeSettings: () => setIsSettingsOpen(false)
+    }}>
+      {children}
+    </AISettingsContext.Provider>
+  );
+};
+
+export const useAISettings = () => {
+  const context = useContext(AISettingsContext);
+  if (context === undefined) {
+    throw new Error('useAISettings must be used within an AISettingsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,178 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import {
+  KeybindingOverrides,
+  findKeybindingConflicts,
+  keybindingFromEvent,
+  loadKeybindingOverrides,
+  saveKeybindingOverrides
+} from '@/lib/keybindings';
+
+// In the order menus and the shortcuts reference list them
+export const COMMAND_CATEGORIES = ['File', 'Edit', 'View', 'Go', 'AI', 'Help'] as const;
+
+export type CommandCategory = typeof COMMAND_CATEGORIES[number];
+
+// Something menus, the command palette and keybindings can all run
+export interface Command {
+  id: string;
+  title: string;
+  category: CommandCategory;
+  icon?: React.ReactNode;
+  // Default keybinding, e.g. "Ctrl+Shift+P"; users can change it
+  keybinding?: string;
+  // Leave the key to text fields outside the editor, e.g. undo in the chat input
+  skipInInputs?: boolean;
+  run: () => void;
+}
+
+interface CommandContextType {
+  // Registered commands, grouped by category
+  commands: Command[];
+  executeCommand: (id: string) => void;
+  registerCommands: (commands: Command[]) => () => void;
+  // Keybinding in effect for a command, with the user's overrides applied
+  getKeybinding: (id: string) => string | undefined;
+  keybindingOverrides: KeybindingOverrides;
+  // null removes the keybinding
+  setKeybinding: (id: string, keybinding: string | null) => void;
+  resetKeybinding: (id: string) => void;
+  resetAllKeybindings: () => void;
+  // Keybindings used by more than one command, with the commands' ids
+  conflicts: Map<string, string[]>;
+}
+
+const CommandContext = createContext<CommandContextType | undefined>(undefined);
+
+// Text fields other than the code editor, which handles its own keys first
+const isTextInput = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement) || target.closest('.monaco-editor')) return false;
+  return target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+};
+
+const byCategory = (commands: Iterable<Command>) => {
+  return [...commands].sort((a, b) => COMMAND_CATEGORIES.indexOf(a.category) - COMMAND_CATEGORIES.indexOf(b.category));
+};
+
+export const CommandProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Latest definitions by id, so commands always run with their component's current state
+  const registryRef = useRef(new Map<string, Command>());
+  const [commands, setCommands] = useState<Command[]>([]);
+  const [keybindingOverrides, setKeybindingOverrides] = useState<KeybindingOverrides>(loadKeybindingOverrides);
+
+  // Persist overrides whenever they change
+  useEffect(() => {
+    saveKeybindingOverrides(keybindingOverrides);
+  }, [keybindingOverrides]);
+
+  const registerCommands = useCallback((newCommands: Command[]) => {
+    newCommands.forEach(command => registryRef.current.set(command.id, command));
+    setCommands(byCategory(registryRef.current.values()));
+
+    return () => {
+      newCommands.forEach(command => registryRef.current.delete(command.id));
+      setCommands(byCategory(registryRef.current.values()));
+    };
+  }, []);
+
+  const executeCommand = useCallback((id: string) => {
+    const command = registryRef.current.get(id);
+    if (!command) {
+      console.error(`Unknown command: ${id}`);
+      return;
+    }
+    command.run();
+  }, []);
+
+  const getKeybinding = useCallback((id: string) => {
+    if (id in keybindingOverrides) return keybindingOverrides[id] ?? undefined;
+    return registryRef.current.get(id)?.keybinding;
+  }, [keybindingOverrides]);
+
+  const conflicts = useMemo(() => {
+    return findKeybindingConflicts(new Map(commands.map(command => [command.id, getKeybinding(command.id)])));
+  }, [commands, getKeybinding]);
+
+  // One listener for every keybinding. It listens on the window, so the editor gets first go at
+  // keys it uses itself and stops them there.
+  useEffect(() => {
+    const commandsByKeybinding = new Map<string, string>();
+    for (const command of commands) {
+      const keybinding = getKeybinding(command.id);
+      // On a conflict the first command listed wins
+      if (keybinding && !commandsByKeybinding.has(keybinding)) {
+        commandsByKeybinding.set(keybinding, command.id);
+      }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Already handled, e.g. by the keybinding recorder
+      if (e.defaultPrevented) return;
+
+      const keybinding = keybindingFromEvent(e);
+      const commandId = keybinding && commandsByKeybinding.get(keybinding);
+      const command = commandId && registryRef.current.get(commandId);
+      if (!command) return;
+
+      if (isTextInput(e.target) && (command.skipInInputs || !/^(Ctrl|Alt)\+/.test(keybinding))) return;
+
+      e.preventDefault();
+      command.run();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [commands, getKeybinding]);
+
+  const setKeybinding = (id: string, keybinding: string | null) => {
+    setKeybindingOverrides(prev => ({ ...prev, [id]: keybinding }));
+  };
+
+  const resetKeybinding = (id: string) => {
+    setKeybindingOverrides(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  return (
+    <CommandContext.Provider value={{
+      commands,
+      executeCommand,
+      registerCommands,
+      getKeybinding,
+      keybindingOverrides,
+      setKeybinding,
+      resetKeybinding,
+      resetAllKeybindings: () => setKeybindingOverrides({}),
+      conflicts
+    }}>
+      {children}
+    </CommandContext.Provider>
+  );
+};
+
+export const useCommands = () => {
+  const context = useContext(CommandContext);
+  if (context === undefined) {
+    throw new Error('useCommands must be used within a CommandProvider');
+  }
+  return context;
+};
+
+// Register commands for as long as the component is mounted. The definitions can change on every
+// render; the latest ones are what run.
+export const useRegisterCommands = (commands: Command[]) => {
+  const { registerCommands } = useCommands();
+  const latestRef = useRef(commands);
+  latestRef.current = commands;
+
+  const ids = commands.map(command => command.id).join('\n');
+
+  useEffect(() => {
+    return registerCommands(latestRef.current.map(command => ({
+      ...command,
+      run: () => latestRef.current.find(latest => latest.id === command.id)?.run()
+    })));
+  }, [ids, registerCommands]);
+};
@@ -1,7 +1,18 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { editor } from 'monaco-editor';
-import { useFileSystem } from './FileSystemContext';
+import { useMonaco } from '@monaco-editor/react';
+import { FileSystemItem, useFileSystem } from './FileSystemContext';
+import { generateId } from '@/lib/storage/tree';
+import {
+  EditorLayout,
+  groupLayout,
+  isValidLayout,
+  layoutGroupIds,
+  removeFromLayout,
+  SplitDirection,
+  splitLayout,
+} from '@/lib/editorLayout';
 import { toast } from 'sonner';
 
 interface TabInfo {
@@ -13,50 +24,207 @@ interface TabInfo {
   content?: string; // Store content per tab
 }
 
+// A place in a file to show, e.g. a search result. 1-based, like Monaco.
+export interface EditorLocation {
+  line: number;
+  column?: number;
+  endColumn?: number;
+}
+
+// A pane of the editor area with its own tabs. A file can be open in several groups at once.
+export interface EditorGroup {
+  id: string;
+  // Tab order, pinned tabs first
+  tabIds: string[];
+  activeTabId: string | null;
+  // Opened with a single click and replaced by the next one, until editing or a double click keeps it
+  previewTabId: string | null;
+  // Left open by Close Others, Close to the Right and Close Saved
+  pinnedTabIds: string[];
+}
+
+interface GroupState {
+  groups: EditorGroup[];
+  layout: EditorLayout;
+  activeGroupId: string;
+}
+
 interface EditorContextType {
+  // Every open file, whichever groups show it
   openedTabs: TabInfo[];
+  groups: EditorGroup[];
+  layout: EditorLayout;
+  activeGroupId: string;
+  // The active group's tab and editor
   activeTabId: string | null;
+  // Files most recently made active, newest first
+  recentFileIds: string[];
   monacoInstance: editor.IStandaloneCodeEditor | null;
-  openTab: (fileId: string) => void;
-  closeTab: (tabId: string) => void;
-  setActiveTab: (tabId: string) => void;
-  updateMonacoInstance: (instance: editor.IStandaloneCodeEditor | null) => void;
+  openTab: (fileId: string, options?: { preview?: boolean }) => void;
+  openTabAt: (fileId: string, location: EditorLocation) => void;
+  // Without a group, the file is closed everywhere
+  closeTab: (tabId: string, groupId?: string) => void;
+  closeTabs: (tabIds: string[], groupId: string) => void;
+  // Without a group, a preview tab is kept wherever it is one
+  keepTab: (tabId: string, groupId?: string) => void;
+  pinTab: (tabId: string, groupId?: string) => void;
+  unpinTab: (tabId: string, groupId?: string) => void;
+  setActiveTab: (tabId: string, groupId?: string) => void;
+  registerEditor: (groupId: string, instance: editor.IStandaloneCodeEditor | null) => void;
+  focusGroup: (groupId: string) => void;
+  // Open the active file again in a new group beside or below the active one
+  splitEditor: (direction: SplitDirection) => void;
+  closeGroup: (groupId: string) => void;
+  moveTabToGroup: (tabId: string, fromGroupId: string, toGroupId: string, index?: number) => void;
   saveActiveFile: () => void;
   saveAllFiles: () => void;
-  moveTab: (fromIndex: number, toIndex: number) => void;
+  // Reorders a group's tabs, the active group's by default
+  moveTab: (fromIndex: number, toIndex: number, groupId?: string) => void;
   getTabContent: (tabId: string) => string;
   updateTabContent: (tabId: string, content: string) => void;
+  // The open file's Monaco model; null until Monaco has loaded and the model has been made
+  getModel: (tabId: string) => editor.ITextModel | null;
+  // Undo and redo opening and closing tabs; edits are undone by each file's model
   undoLastAction: () => void;
   redoLastAction: () => void;
 }
 
 interface EditorHistoryAction {
-  type: 'content' | 'tab' | 'delete';
+  type: 'open' | 'close';
   tabId: string;
-  content?: string;
-  previousContent?: string;
-  tabInfo?: TabInfo;
+  tabInfo: TabInfo;
 }
 
 const STORAGE_KEY_PREFIX = 'code-editor-tab-';
 const TABS_STORAGE_KEY = 'code-editor-tabs';
-const ACTIVE_TAB_KEY = 'code-editor-active-tab';
+const LAYOUT_STORAGE_KEY = 'code-editor-layout';
+const MAX_RECENT_FILES = 50;
+
+const createGroup = (tabIds: string[] = [], activeTabId: string | null = null): EditorGroup => ({
+  id: generateId(),
+  tabIds,
+  activeTabId,
+  previewTabId: null,
+  pinnedTabIds: []
+});
+
+const createGroupState = (tabIds: string[] = [], activeTabId: string | null = null): GroupState => {
+  const group = createGroup(tabIds, activeTabId);
+  return { groups: [group], layout: groupLayout(group.id), activeGroupId: group.id };
+};
+
+const activeTabOf = (state: GroupState) => state.groups.find(group => group.id === state.activeGroupId)?.activeTabId ?? null;
+
+// Closing the active tab shows the one after it, or the one before at the end
+const withoutTab = (group: EditorGroup, tabId: string): EditorGroup => {
+  const index = group.tabIds.indexOf(tabId);
+  if (index === -1) return group;
+  const tabIds = group.tabIds.filter(id => id !== tabId);
+  const activeTabId = group.activeTabId === tabId ? tabIds[Math.min(index, tabIds.length - 1)] ?? null : group.activeTabId;
+  return {
+    ...group,
+    tabIds,
+    activeTabId,
+    previewTabId: group.previewTabId === tabId ? null : group.previewTabId,
+    pinnedTabIds: group.pinnedTabIds.filter(id => id !== tabId)
+  };
+};
+
+// The last group always stays. Focus goes to the group before the removed one.
+const removeGroup = (state: GroupState, groupId: string): GroupState => {
+  if (state.groups.length === 1) return state;
+
+  const order = layoutGroupIds(state.layout);
+  const index = order.indexOf(groupId);
+  const groups = state.groups.filter(group => group.id !== groupId);
+  const activeGroupId = state.activeGroupId === groupId ? order[index - 1] ?? order[index + 1] : state.activeGroupId;
+  return { groups, layout: removeFromLayout(state.layout, groupId) ?? groupLayout(groups[0].id), activeGroupId };
+};
+
+// Change one group; closing its last tab closes the group too
+const updateGroup = (state: GroupState, groupId: string, update: (group: EditorGroup) => EditorGroup): GroupState => {
+  const group = state.groups.find(candidate => candidate.id === groupId);
+  if (!group) return state;
+
+  const updated = update(group);
+  const next = { ...state, groups: state.groups.map(candidate => candidate.id === groupId ? updated : candidate) };
+  return group.tabIds.length > 0 && updated.tabIds.length === 0 ? removeGroup(next, groupId) : next;
+};
+
+// A saved layout, trimmed to the tabs that were restored; null when it no longer fits
+const restoreGroupState = (saved: Partial<GroupState>, tabIds: string[]): GroupState | null => {
+  if (!Array.isArray(saved.groups) || saved.groups.length === 0) return null;
+
+  const groups = saved.groups.map(group => {
+    const groupTabIds = (Array.isArray(group.tabIds) ? group.tabIds : []).filter(id => tabIds.includes(id));
+    const activeTabId = group.activeTabId && groupTabIds.includes(group.activeTabId) ? group.activeTabId : groupTabIds[0] ?? null;
+    const previewTabId = group.previewTabId && groupTabIds.includes(group.previewTabId) ? group.previewTabId : null;
+    // Pinned tabs are the first ones, so only a leading run of them is kept
+    const pinned = Array.isArray(group.pinnedTabIds) ? group.pinnedTabIds : [];
+    const pinnedCount = groupTabIds.findIndex(id => !pinned.includes(id));
+    const pinnedTabIds = groupTabIds.slice(0, pinnedCount === -1 ? groupTabIds.length : pinnedCount);
+    return { id: String(group.id), tabIds: groupTabIds, activeTabId, previewTabId, pinnedTabIds };
+  });
+  const groupIds = groups.map(group => group.id);
+  if (!isValidLayout(saved.layout, groupIds)) return null;
+
+  const activeGroupId = saved.activeGroupId && groupIds.includes(saved.activeGroupId) ? saved.activeGroupId : groupIds[0];
+  return { groups, layout: saved.layout, activeGroupId };
+};
 
 const EditorContext = createContext<EditorContextType | undefined>(undefined);
 
+// What the provider's effects read from the latest render, without re-running whenever it changes
+interface LatestEditorState {
+  openedTabs: TabInfo[];
+  selectFile: (fileId: string) => void;
+  getFileById: (id: string) => FileSystemItem | undefined;
+  createModel: (tab: TabInfo, content: string) => editor.ITextModel;
+  getTabContent: (tabId: string) => string;
+}
+
 export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { getFileById, updateFileContent, selectFile } = useFileSystem();
+  const { files, getFileById, updateFileContent, selectFile, workspaceId } = useFileSystem();
+  const monaco = useMonaco();
   const [openedTabs, setOpenedTabs] = useState<TabInfo[]>([]);
-  const [activeTabId, setActiveTabId] = useState<string | null>(null);
-  const [monacoInstance, setMonacoInstance] = useState<editor.IStandaloneCodeEditor | null>(null);
+  const [groupState, setGroupState] = useState<GroupState>(createGroupState);
+  const groupStateRef = useRef(groupState);
+  // Each group's Monaco editor, while it is mounted
+  const [editors, setEditors] = useState<Record<string, editor.IStandaloneCodeEditor>>({});
   const [undoStack, setUndoStack] = useState<EditorHistoryAction[]>([]);
   const [redoStack, setRedoStack] = useState<EditorHistoryAction[]>([]);
+  const [recentFileIds, setRecentFileIds] = useState<string[]>([]);
+  const [pendingReveal, setPendingReveal] = useState<{ fileId: string; location: EditorLocation } | null>(null);
+  // One model per open file, by path, shared by every group showing it. Each keeps its own undo history.
+  const modelsRef = useRef(new Map<string, editor.ITextModel>());
+  // Set while tab content is written into a model, so the change isn't taken for an edit
+  const syncingModelRef = useRef(false);
+  // Each model's version as last saved or loaded, by tab; undoing back to it clears the modified mark
+  const savedVersionsRef = useRef(new Map<string, number>());
+  // Each tab's file content as last taken in, so only a file changed since then is synced again
+  const syncedContentRef = useRef(new Map<string, string>());
+  // Set on every render, once the helpers below are defined
+  const latestRef = useRef<LatestEditorState | null>(null);
+
+  const { groups, layout, activeGroupId } = groupState;
+  const activeGroup = groups.find(group => group.id === activeGroupId) ?? groups[0];
+  const activeTabId = activeGroup.activeTabId;
+  const monacoInstance = editors[activeGroup.id] ?? null;
+
+  // Apply a group update immediately and schedule the re-render, so several in a row build on each other
+  const updateGroupState = (update: (state: GroupState) => GroupState) => {
+    const next = update(groupStateRef.current);
+    groupStateRef.current = next;
+    setGroupState(next);
+    return next;
+  };
 
   // Load tabs from session storage on initial load
   useEffect(() => {
+    const { selectFile } = latestRef.current!;
     try {
       const savedTabsJson = sessionStorage.getItem(TABS_STORAGE_KEY);
-      const savedActiveTab = sessionStorage.getItem(ACTIVE_TAB_KEY);
+      const savedLayoutJson = sessionStorage.getItem(LAYOUT_STORAGE_KEY);
       
       if (savedTabsJson) {
         const savedTabs: TabInfo[] = JSON.parse(savedTabsJson);
@@ -72,8 +240,13 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         
         setOpenedTabs(loadedTabs);
         
+        const tabIds = loadedTabs.map(tab => tab.id);
+        const restored = (savedLayoutJson && restoreGroupState(JSON.parse(savedLayoutJson), tabIds))
+          || createGroupState(tabIds, tabIds[0] ?? null);
+        updateGroupState(() => restored);
+        
+        const savedActiveTab = activeTabOf(restored);
         if (savedActiveTab) {
-          setActiveTabId(savedActiveTab);
           selectFile(savedActiveTab);
         }
       }
@@ -82,6 +255,98 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     }
   }, []);
 
+  // Tabs belong to the workspace they were opened in; close them all when another one is opened
+  const previousWorkspaceIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    const previous = previousWorkspaceIdRef.current;
+    previousWorkspaceIdRef.current = workspaceId;
+    if (previous === null || previous === workspaceId) return;
+    
+    const { openedTabs } = latestRef.current!;
+    openedTabs.forEach(tab => sessionStorage.removeItem(`${STORAGE_KEY_PREFIX}${tab.id}`));
+    modelsRef.current.forEach(model => model.dispose());
+    modelsRef.current.clear();
+    savedVersionsRef.current.clear();
+    syncedContentRef.current.clear();
+    setOpenedTabs([]);
+    updateGroupState(() => createGroupState());
+    setUndoStack([]);
+    setRedoStack([]);
+  }, [workspaceId]);
+
+  // A renamed or moved file keeps its tab, which follows it to the new path. Models can't change their
+  // URI, so the text moves into a new model there.
+  useEffect(() => {
+    const { openedTabs, getFileById, createModel } = latestRef.current!;
+    const movedFiles = new Map(openedTabs.flatMap(tab => {
+      const file = getFileById(tab.id);
+      return file?.type === 'file' && file.path !== tab.path ? [[tab.id, file] as const] : [];
+    }));
+    if (movedFiles.size === 0) return;
+
+    const moveTabTo = (tab: TabInfo): TabInfo => {
+      const file = movedFiles.get(tab.id);
+      return file ? { ...tab, path: file.path, name: file.name, language: file.language || 'plaintext' } : tab;
+    };
+
+    openedTabs.filter(tab => movedFiles.has(tab.id)).forEach(tab => {
+      const model = modelsRef.current.get(tab.path);
+      if (model && !model.isDisposed()) {
+        createModel(moveTabTo(tab), model.getValue());
+      }
+      disposeModel(tab.path);
+    });
+    setOpenedTabs(prevTabs => prevTabs.map(moveTabTo));
+  }, [files]);
+
+  // Keep unmodified tabs in step with their files when something else writes them (e.g. an applied AI edit).
+  // Only a file that changed since it was last taken in counts, so the editor's own edits, which reach the
+  // tab's state later than the model, are never written back over newer typing.
+  useEffect(() => {
+    const { openedTabs, getFileById } = latestRef.current!;
+    const updates = new Map<string, string>();
+    openedTabs.forEach(tab => {
+      const file = getFileById(tab.id);
+      if (file?.type !== 'file' || tab.content === undefined) return;
+      
+      const fileContent = file.content || '';
+      if (syncedContentRef.current.get(tab.id) === fileContent) return;
+      
+      // The model knows best whether there are unsaved edits; it may be ahead of the tab's state.
+      // Unsaved edits win, and the file is looked at again the next time anything changes.
+      const model = getLiveModel(file.path) ?? getLiveModel(tab.path);
+      const isModified = model ? model.getAlternativeVersionId() !== savedVersionsRef.current.get(tab.id) : tab.isModified;
+      if (isModified) return;
+      
+      syncedContentRef.current.set(tab.id, fileContent);
+      if ((model ? model.getValue() : tab.content) === fileContent) return;
+      
+      if (model) {
+        writeToModel(model, fileContent);
+        // The file's content is what's saved now
+        savedVersionsRef.current.set(tab.id, model.getAlternativeVersionId());
+      }
+      updates.set(tab.id, fileContent);
+    });
+    
+    if (updates.size === 0) return;
+    setOpenedTabs(prevTabs => prevTabs.map(tab => updates.has(tab.id) ? { ...tab, content: updates.get(tab.id) } : tab));
+  }, [files]);
+
+  // Every open file gets its model here rather than while rendering, where an abandoned render would
+  // leave one behind. A layout effect, so the editors show the new models before anything is painted.
+  const [, setModelCount] = useState(0);
+  useLayoutEffect(() => {
+    if (!monaco) return;
+    
+    const { createModel, getTabContent } = latestRef.current!;
+    const missing = openedTabs.filter(tab => !getLiveModel(tab.path));
+    if (missing.length === 0) return;
+    
+    missing.forEach(tab => createModel(tab, getTabContent(tab.id)));
+    setModelCount(count => count + missing.length);
+  }, [monaco, openedTabs]);
+
   // Save tabs to session storage whenever they change
   useEffect(() => {
     try {
@@ -99,13 +364,11 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         }
       });
       
-      if (activeTabId) {
-        sessionStorage.setItem(ACTIVE_TAB_KEY, activeTabId);
-      }
+      sessionStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(groupState));
     } catch (error) {
       console.error('Error saving tabs to session storage:', error);
     }
-  }, [openedTabs, activeTabId]);
+  }, [openedTabs, groupState]);
 
   // Get tab content - first check in memory, then session storage, then file system
   const getTabContent = (tabId: string): string => {
@@ -127,25 +390,15 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Update tab content in memory and session storage
-  const updateTabContent = (tabId: string, content: string) => {
-    // Add to undo stack first
-    const tab = openedTabs.find(t => t.id === tabId);
-    if (tab) {
-      const previousContent = tab.content;
-      setUndoStack(prev => [...prev, {
-        type: 'content',
-        tabId,
-        previousContent,
-        content
-      }]);
-      setRedoStack([]);
-    }
+  const setTabContent = (tabId: string, content: string, isModified: boolean) => {
+    // An edited file is no longer just a preview
+    keepTab(tabId);
     
     // Update content in memory
     setOpenedTabs(prevTabs => 
       prevTabs.map(tab => 
         tab.id === tabId 
-          ? { ...tab, content, isModified: true } 
+          ? { ...tab, content, isModified } 
           : tab
       )
     );
@@ -154,21 +407,111 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${tabId}`, content);
   };
 
-  // Open a tab for a file
-  const openTab = (fileId: string) => {
+  // Content from outside the editor (an applied AI edit, Replace All) goes into the model as an edit of
+  // its own, so it can be undone like typing
+  const writeToModel = (model: editor.ITextModel, content: string) => {
+    if (model.getValue() === content) return;
+    
+    syncingModelRef.current = true;
+    try {
+      model.pushStackElement();
+      model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+      model.pushStackElement();
+    } finally {
+      syncingModelRef.current = false;
+    }
+  };
+
+  const updateTabContent = (tabId: string, content: string) => {
+    setTabContent(tabId, content, true);
+    
+    const tab = openedTabs.find(t => t.id === tabId);
+    const model = tab && getLiveModel(tab.path);
+    if (model) {
+      writeToModel(model, content);
+    }
+  };
+
+  const createModel = (tab: TabInfo, content: string) => {
+    // Uri.file escapes what a parsed URI would read as its own parts, like # and ?
+    const uri = monaco.Uri.file(tab.path);
+    monaco.editor.getModel(uri)?.dispose();
+    const model = monaco.editor.createModel(content, tab.language, uri);
+    // A tab restored with unsaved changes has no saved version to go back to
+    savedVersionsRef.current.set(tab.id, tab.isModified ? -1 : model.getAlternativeVersionId());
+    model.onDidChangeContent(() => {
+      if (syncingModelRef.current) return;
+      setTabContent(tab.id, model.getValue(), model.getAlternativeVersionId() !== savedVersionsRef.current.get(tab.id));
+    });
+    modelsRef.current.set(tab.path, model);
+    return model;
+  };
+
+  const getLiveModel = (path: string) => {
+    const model = modelsRef.current.get(path);
+    return model && !model.isDisposed() ? model : null;
+  };
+
+  // Only looks the model up, so rendering never creates one
+  const getModel = (tabId: string): editor.ITextModel | null => {
+    const tab = openedTabs.find(t => t.id === tabId);
+    return tab ? getLiveModel(tab.path) : null;
+  };
+
+  const disposeModel = (path: string) => {
+    modelsRef.current.get(path)?.dispose();
+    modelsRef.current.delete(path);
+  };
+
+  // What a model holds now is what's saved
+  const markSaved = (tabs: TabInfo[]) => {
+    tabs.forEach(tab => {
+      const model = modelsRef.current.get(tab.path);
+      if (model && !model.isDisposed()) {
+        savedVersionsRef.current.set(tab.id, model.getAlternativeVersionId());
+      }
+    });
+  };
+
+  const recordTabAction = (action: EditorHistoryAction) => {
+    setUndoStack(prev => [...prev, action]);
+    setRedoStack([]);
+  };
+
+  // Close a file no group shows any more
+  const dropTab = (tabId: string) => {
+    if (groupStateRef.current.groups.some(group => group.tabIds.includes(tabId))) return false;
+    
+    const tab = openedTabs.find(t => t.id === tabId);
+    if (tab) {
+      disposeModel(tab.path);
+    }
+    savedVersionsRef.current.delete(tabId);
+    syncedContentRef.current.delete(tabId);
+    setOpenedTabs(prevTabs => prevTabs.filter(tab => tab.id !== tabId));
+    
+    // Remove from session storage
+    sessionStorage.removeItem(`${STORAGE_KEY_PREFIX}${tabId}`);
+    return true;
+  };
+
+  // Show a file in the active group, returning its new tab if it wasn't open yet. A preview takes the
+  // place of the group's current preview tab.
+  const showTab = (fileId: string, preview = false): TabInfo | null => {
     const file = getFileById(fileId);
     
-    if (!file || file.type !== 'file') return;
+    if (!file || file.type !== 'file') return null;
     
     // Check if tab is already open
     const existingTab = openedTabs.find(tab => tab.id === fileId);
+    let newTab: TabInfo | null = null;
     
     if (!existingTab) {
       // Get content from file system
       const content = file.content || '';
       
       // Add new tab
-      const newTab: TabInfo = {
+      newTab = {
         id: fileId,
         name: file.name,
         language: file.language || 'plaintext',
@@ -183,95 +526,280 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${fileId}`, content);
     }
     
-    // Set as active tab
-    setActiveTabId(fileId);
+    // Show it in the active group
+    let replacedTabId: string | null = null;
+    updateGroupState(state => updateGroup(state, state.activeGroupId, group => {
+      if (group.tabIds.includes(fileId)) {
+        // Opening a preview tab for good keeps it
+        const previewTabId = !preview && group.previewTabId === fileId ? null : group.previewTabId;
+        return { ...group, activeTabId: fileId, previewTabId };
+      }
+      
+      replacedTabId = preview ? group.previewTabId : null;
+      const tabIds = replacedTabId
+        ? group.tabIds.map(id => id === replacedTabId ? fileId : id)
+        : [...group.tabIds, fileId];
+      return { ...group, tabIds, activeTabId: fileId, previewTabId: preview ? fileId : group.previewTabId };
+    }));
+    if (replacedTabId) {
+      dropTab(replacedTabId);
+    }
     selectFile(fileId);
+    return newTab;
   };
 
-  // Close a tab
-  const closeTab = (tabId: string) => {
-    // Add to undo stack
-    const tab = openedTabs.find(t => t.id === tabId);
-    if (tab) {
-      setUndoStack(prev => [...prev, {
-        type: 'tab',
-        tabId,
-        tabInfo: tab
-      }]);
-      setRedoStack([]);
+  // Open a tab for a file
+  const openTab = (fileId: string, options?: { preview?: boolean }) => {
+    const newTab = showTab(fileId, options?.preview);
+    if (newTab) {
+      recordTabAction({ type: 'open', tabId: fileId, tabInfo: newTab });
     }
+  };
+
+  useEffect(() => {
+    if (!activeTabId) return;
+    setRecentFileIds(prev => [activeTabId, ...prev.filter(id => id !== activeTabId)].slice(0, MAX_RECENT_FILES));
+  }, [activeTabId]);
+
+  // Open a file and select a location in it once its content is in the editor
+  const openTabAt = (fileId: string, location: EditorLocation) => {
+    openTab(fileId);
+    setPendingReveal({ fileId, location });
+  };
+
+  useEffect(() => {
+    if (!pendingReveal || !monacoInstance || activeTabId !== pendingReveal.fileId) return;
+
+    const { line, column = 1, endColumn = column } = pendingReveal.location;
+    setPendingReveal(null);
+    monacoInstance.setSelection({ startLineNumber: line, startColumn: column, endLineNumber: line, endColumn });
+    monacoInstance.revealLineInCenter(line);
+    monacoInstance.focus();
+  }, [pendingReveal, activeTabId, monacoInstance]);
+
+  // Take a file out of the given groups (all of them by default), and out of the open files once no group shows it
+  const removeTab = (tabId: string, groupIds?: string[]) => {
+    const previousActiveTab = activeTabOf(groupStateRef.current);
+    const next = updateGroupState(state => state.groups
+      .filter(group => group.tabIds.includes(tabId) && (!groupIds || groupIds.includes(group.id)))
+      .reduce((current, group) => updateGroup(current, group.id, g => withoutTab(g, tabId)), state));
     
-    setOpenedTabs(prevTabs => prevTabs.filter(tab => tab.id !== tabId));
+    const nextActiveTab = activeTabOf(next);
+    if (nextActiveTab && nextActiveTab !== previousActiveTab) {
+      selectFile(nextActiveTab);
+    }
     
-    // Remove from session storage
-    sessionStorage.removeItem(`${STORAGE_KEY_PREFIX}${tabId}`);
+    return dropTab(tabId);
+  };
+
+  // Close a tab
+  const closeTab = (tabId: string, groupId?: string) => {
+    const tab = openedTabs.find(t => t.id === tabId);
+    const closed = removeTab(tabId, groupId ? [groupId] : undefined);
     
-    // If closing the active tab, select another one
-    if (activeTabId === tabId) {
-      const newActiveTab = openedTabs.length > 1 ? 
-        openedTabs.find(tab => tab.id !== tabId)?.id || null : 
-        null;
-      
-      setActiveTabId(newActiveTab);
-      if (newActiveTab) {
-        selectFile(newActiveTab);
-      }
+    // Add to undo stack once the file is closed everywhere
+    if (tab && closed) {
+      recordTabAction({ type: 'close', tabId, tabInfo: tab });
     }
   };
 
-  // Set active tab
-  const setActiveTab = (tabId: string) => {
-    setActiveTabId(tabId);
+  const closeTabs = (tabIds: string[], groupId: string) => {
+    tabIds.forEach(tabId => closeTab(tabId, groupId));
+  };
+
+  const keepTab = (tabId: string, groupId?: string) => {
+    const isPreview = (group: EditorGroup) => group.previewTabId === tabId && (!groupId || group.id === groupId);
+    updateGroupState(state => state.groups.some(isPreview)
+      ? { ...state, groups: state.groups.map(group => isPreview(group) ? { ...group, previewTabId: null } : group) }
+      : state);
+  };
+
+  // Pinning moves a tab to the end of the pinned ones; unpinning moves it just after them
+  const pinTab = (tabId: string, groupId?: string) => {
+    updateGroupState(state => updateGroup(state, groupId ?? state.activeGroupId, group => {
+      if (!group.tabIds.includes(tabId) || group.pinnedTabIds.includes(tabId)) return group;
+      const pinnedTabIds = [...group.pinnedTabIds, tabId];
+      return {
+        ...group,
+        tabIds: [...pinnedTabIds, ...group.tabIds.filter(id => !pinnedTabIds.includes(id))],
+        previewTabId: group.previewTabId === tabId ? null : group.previewTabId,
+        pinnedTabIds
+      };
+    }));
+  };
+
+  const unpinTab = (tabId: string, groupId?: string) => {
+    updateGroupState(state => updateGroup(state, groupId ?? state.activeGroupId, group => {
+      if (!group.pinnedTabIds.includes(tabId)) return group;
+      const pinnedTabIds = group.pinnedTabIds.filter(id => id !== tabId);
+      return {
+        ...group,
+        tabIds: [...pinnedTabIds, tabId, ...group.tabIds.filter(id => id !== tabId && !pinnedTabIds.includes(id))],
+        pinnedTabIds
+      };
+    }));
+  };
+
+  // Bring a closed tab back into the active group, with the content it had
+  const restoreTab = (tabInfo: TabInfo) => {
+    setOpenedTabs(prevTabs => prevTabs.some(tab => tab.id === tabInfo.id) ? prevTabs : [...prevTabs, tabInfo]);
+    updateGroupState(state => updateGroup(state, state.activeGroupId, group => ({
+      ...group,
+      tabIds: group.tabIds.includes(tabInfo.id) ? group.tabIds : [...group.tabIds, tabInfo.id],
+      activeTabId: tabInfo.id
+    })));
+    
+    // Restore content in session storage
+    if (tabInfo.content !== undefined) {
+      sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${tabInfo.id}`, tabInfo.content);
+    }
+    selectFile(tabInfo.id);
+  };
+
+  // Set active tab, in the given group or the one showing it (the active group first)
+  const setActiveTab = (tabId: string, groupId?: string) => {
+    updateGroupState(state => {
+      const targetId = groupId
+        ?? (state.groups.find(group => group.id === state.activeGroupId)?.tabIds.includes(tabId)
+          ? state.activeGroupId
+          : state.groups.find(group => group.tabIds.includes(tabId))?.id);
+      if (!targetId) return state;
+      return { ...updateGroup(state, targetId, group => ({ ...group, activeTabId: tabId })), activeGroupId: targetId };
+    });
     selectFile(tabId);
   };
 
-  // Update Monaco editor instance
-  const updateMonacoInstance = (instance: editor.IStandaloneCodeEditor | null) => {
-    setMonacoInstance(instance);
+  const registerEditor = (groupId: string, instance: editor.IStandaloneCodeEditor | null) => {
+    setEditors(prev => {
+      if (instance) return prev[groupId] === instance ? prev : { ...prev, [groupId]: instance };
+      if (!prev[groupId]) return prev;
+      const { [groupId]: _removed, ...rest } = prev;
+      return rest;
+    });
   };
 
-  // Save the active file
-  const saveActiveFile = () => {
-    if (!activeTabId) return;
+  const focusGroup = (groupId: string) => {
+    const state = groupStateRef.current;
+    const group = state.groups.find(candidate => candidate.id === groupId);
+    if (!group || state.activeGroupId === groupId) return;
     
-    const tabContent = getTabContent(activeTabId);
+    updateGroupState(current => ({ ...current, activeGroupId: groupId }));
+    if (group.activeTabId) {
+      selectFile(group.activeTabId);
+    }
+  };
+
+  const splitEditor = (direction: SplitDirection) => {
+    updateGroupState(state => {
+      const tabId = activeTabOf(state);
+      const group = createGroup(tabId ? [tabId] : [], tabId);
+      return {
+        groups: [...state.groups, group],
+        layout: splitLayout(state.layout, state.activeGroupId, group.id, direction),
+        activeGroupId: group.id
+      };
+    });
+  };
+
+  // Close a group with its tabs; the last group only loses its tabs
+  const closeGroup = (groupId: string) => {
+    const group = groupStateRef.current.groups.find(candidate => candidate.id === groupId);
+    if (!group) return;
     
-    // Update file in file system
-    updateFileContent(activeTabId, tabContent);
+    if (group.tabIds.length === 0) {
+      updateGroupState(state => removeGroup(state, groupId));
+    } else {
+      group.tabIds.forEach(tabId => closeTab(tabId, groupId));
+    }
+  };
+
+  // Move a tab into another group (for dragging tabs between groups), at the end unless an index is given
+  const moveTabToGroup = (tabId: string, fromGroupId: string, toGroupId: string, index?: number) => {
+    if (fromGroupId === toGroupId) return;
+    
+    updateGroupState(state => {
+      const next = updateGroup(state, toGroupId, group => {
+        const tabIds = group.tabIds.filter(id => id !== tabId);
+        const pinnedTabIds = group.pinnedTabIds.filter(id => id !== tabId);
+        // It arrives unpinned, so after the pinned tabs
+        tabIds.splice(Math.max(index ?? tabIds.length, pinnedTabIds.length), 0, tabId);
+        const previewTabId = group.previewTabId === tabId ? null : group.previewTabId;
+        return { ...group, tabIds, activeTabId: tabId, previewTabId, pinnedTabIds };
+      });
+      return { ...updateGroup(next, fromGroupId, group => withoutTab(group, tabId)), activeGroupId: toGroupId };
+    });
+    selectFile(tabId);
+  };
+
+  // The model holds what's in the editor; the tab's state can still be catching up with it
+  const getSavedContent = (tab: TabInfo) => getLiveModel(tab.path)?.getValue() ?? getTabContent(tab.id);
+  
+  const hasUnsavedChanges = (tab: TabInfo) => {
+    const model = getLiveModel(tab.path);
+    return model ? model.getAlternativeVersionId() !== savedVersionsRef.current.get(tab.id) : tab.isModified;
+  };
+  
+  // Write tabs to their files and take what was written as their saved content
+  const saveTabs = (tabs: TabInfo[]) => {
+    const saved = new Map<string, string>();
+    tabs.forEach(tab => {
+      const content = getSavedContent(tab);
+      updateFileContent(tab.id, content);
+      syncedContentRef.current.set(tab.id, content);
+      saved.set(tab.id, content);
+    });
+    markSaved(tabs);
     
     // Update tab state to remove modified indicator
     setOpenedTabs(prevTabs => 
       prevTabs.map(tab => 
-        tab.id === activeTabId ? { ...tab, isModified: false } : tab
+        saved.has(tab.id) ? { ...tab, content: saved.get(tab.id), isModified: false } : tab
       )
     );
+  };
+
+  // Save the active file
+  const saveActiveFile = () => {
+    const tab = openedTabs.find(tab => tab.id === activeTabId);
+    if (!tab) return;
     
-    toast.success(`File ${openedTabs.find(tab => tab.id === activeTabId)?.name} saved`);
+    saveTabs([tab]);
+    toast.success(`File ${tab.name} saved`);
   };
 
-  // Save all open files
+  // Save the open files with unsaved changes
   const saveAllFiles = () => {
-    openedTabs.forEach(tab => {
-      const content = getTabContent(tab.id);
-      updateFileContent(tab.id, content);
-    });
-    
-    // Mark all tabs as unmodified
-    setOpenedTabs(prevTabs => 
-      prevTabs.map(tab => ({ ...tab, isModified: false }))
-    );
-    
+    saveTabs(openedTabs.filter(hasUnsavedChanges));
     toast.success('All files saved');
   };
 
   // Move tab (for drag and drop reordering)
-  const moveTab = (fromIndex: number, toIndex: number) => {
-    setOpenedTabs(prevTabs => {
-      const newTabs = [...prevTabs];
-      const [movedTab] = newTabs.splice(fromIndex, 1);
-      newTabs.splice(toIndex, 0, movedTab);
-      return newTabs;
-    });
+  const moveTab = (fromIndex: number, toIndex: number, groupId?: string) => {
+    updateGroupState(state => updateGroup(state, groupId ?? state.activeGroupId, group => {
+      const tabIds = [...group.tabIds];
+      const [movedTab] = tabIds.splice(fromIndex, 1);
+      if (!movedTab) return group;
+      // A tab stays on its own side of the pinned tabs
+      const pinnedCount = group.pinnedTabIds.length;
+      const index = group.pinnedTabIds.includes(movedTab) ? Math.min(toIndex, pinnedCount - 1) : Math.max(toIndex, pinnedCount);
+      tabIds.splice(index, 0, movedTab);
+      return { ...group, tabIds };
+    }));
+  };
+
+  // Reopen the action's tab or close it again. The action comes back with the tab as it was when
+  // closed, so unsaved changes survive an undo and redo.
+  const applyTabAction = (action: EditorHistoryAction, reopen: boolean): EditorHistoryAction => {
+    if (reopen) {
+      restoreTab(action.tabInfo);
+      toast.info(`Restored tab: ${action.tabInfo.name}`);
+      return action;
+    }
+    
+    const tab = openedTabs.find(t => t.id === action.tabId);
+    removeTab(action.tabId);
+    toast.info(`Closed tab: ${action.tabInfo.name}`);
+    return tab ? { ...action, tabInfo: tab } : action;
   };
 
   // Undo last action
@@ -279,40 +807,10 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     const lastAction = undoStack[undoStack.length - 1];
     if (!lastAction) return;
     
-    // Remove from undo stack
+    // Move it to the redo stack once done
     setUndoStack(prev => prev.slice(0, -1));
-    
-    // Add to redo stack
-    setRedoStack(prev => [...prev, lastAction]);
-    
-    // Perform the undo
-    if (lastAction.type === 'content' && lastAction.previousContent !== undefined) {
-      // Restore previous content
-      setOpenedTabs(prevTabs => 
-        prevTabs.map(tab => 
-          tab.id === lastAction.tabId 
-            ? { ...tab, content: lastAction.previousContent, isModified: true } 
-            : tab
-        )
-      );
-      
-      // Update session storage
-      if (lastAction.previousContent) {
-        sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${lastAction.tabId}`, lastAction.previousContent);
-      }
-      
-      toast.info('Undid last edit');
-    } else if (lastAction.type === 'tab' && lastAction.tabInfo) {
-      // Restore closed tab
-      setOpenedTabs(prevTabs => [...prevTabs, lastAction.tabInfo!]);
-      
-      // Restore content in session storage
-      if (lastAction.tabInfo.content) {
-        sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${lastAction.tabId}`, lastAction.tabInfo.content);
-      }
-      
-      toast.info(`Restored tab: ${lastAction.tabInfo.name}`);
-    }
+    const undone = applyTabAction(lastAction, lastAction.type === 'close');
+    setRedoStack(prev => [...prev, undone]);
   };
 
   // Redo last undone action
@@ -320,54 +818,42 @@ export const EditorProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     const lastRedoAction = redoStack[redoStack.length - 1];
     if (!lastRedoAction) return;
     
-    // Remove from redo stack
+    // Move it back to the undo stack once done
     setRedoStack(prev => prev.slice(0, -1));
-    
-    // Add to undo stack
-    setUndoStack(prev => [...prev, lastRedoAction]);
-    
-    // Perform the redo
-    if (lastRedoAction.type === 'content') {
-      // Apply the content
-      setOpenedTabs(prevTabs => 
-        prevTabs.map(tab => 
-          tab.id === lastRedoAction.tabId 
-            ? { ...tab, content: lastRedoAction.content, isModified: true } 
-            : tab
-        )
-      );
-      
-      // Update session storage
-      if (lastRedoAction.content) {
-        sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${lastRedoAction.tabId}`, lastRedoAction.content);
-      }
-      
-      toast.info('Redid last edit');
-    } else if (lastRedoAction.type === 'tab') {
-      // Remove the tab again
-      setOpenedTabs(prevTabs => prevTabs.filter(tab => tab.id !== lastRedoAction.tabId));
-      
-      // Remove from session storage
-      sessionStorage.removeItem(`${STORAGE_KEY_PREFIX}${lastRedoAction.tabId}`);
-      
-      toast.info(`Closed tab: ${lastRedoAction.tabInfo?.name}`);
-    }
+    const redone = applyTabAction(lastRedoAction, lastRedoAction.type === 'open');
+    setUndoStack(prev => [...prev, redone]);
   };
 
+  latestRef.current = { openedTabs, selectFile, getFileById, createModel, getTabContent };
+
   return (
     <EditorContext.Provider value={{
       openedTabs,
+      groups,
+      layout,
+      activeGroupId,
       activeTabId,
+      recentFileIds,
       monacoInstance,
       openTab,
+      openTabAt,
       closeTab,
+      closeTabs,
+      keepTab,
+      pinTab,
+      unpinTab,
       setActiveTab,
-      updateMonacoInstance,
+      registerEditor,
+      focusGroup,
+      splitEditor,
+      closeGroup,
+      moveTabToGroup,
       saveActiveFile,
       saveAllFiles,
       moveTab,
       getTabContent,
       updateTabContent,
+      getModel,
       undoLastAction,
       redoLastAction
     }}>
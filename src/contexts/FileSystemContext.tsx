@@ -1,21 +1,42 @@
-
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef, useMemo } from 'react';
+import { getLanguageFromExtension } from '@/lib/languages';
+import {
+  canReplaceWorkspace,
+  createStorageBackend,
+  FileSystemItem,
+  FileType,
+  ProjectSummary,
+  REPLACE_WORKSPACE_UNSUPPORTED,
+  StorageBackend,
+  StorageBackendKind,
+  StorageChange,
+  WorkspaceSnapshot
+} from '@/lib/storage';
+import {
+  createEmptyFileSystem,
+  ensureItemAtPath,
+  findItemById,
+  findItemByPath,
+  findParentById,
+  generateId,
+  removeItemAtPath,
+  toStoragePath,
+  toTreePath
+} from '@/lib/storage/tree';
+import {
+  createLocalFolderBackend,
+  loadLastFolder,
+  requestFolderPermission,
+  saveLastFolder,
+  supportsLocalFolders
+} from '@/lib/storage/localFolderBackend';
+import { isAbortError } from '@/lib/ai/abort';
 
 // Types
-export type FileType = 'file' | 'folder';
+export type { FileSystemItem, FileType, ProjectSummary } from '@/lib/storage';
 
-export interface FileSystemItem {
-  id: string;
-  name: string;
-  type: FileType;
-  content?: string;
-  language?: string;
-  children?: FileSystemItem[];
-  path: string;
-  isOpen?: boolean;
-  isModified?: boolean;
-  parentId?: string;
-}
+// How long the tree must stay unchanged before it is written to storage
+const SNAPSHOT_DEBOUNCE_MS = 800;
 
 export interface Log {
   id: string;
@@ -35,219 +56,62 @@ interface FileSystemContextType {
   selectFile: (id: string) => void;
   getFileById: (id: string) => FileSystemItem | undefined;
   toggleFolder: (id: string) => void;
+  // Open the folders above a file and select it
+  revealFile: (id: string) => void;
   searchFiles: (query: string) => FileSystemItem[];
   moveFile: (fileId: string, newParentId: string) => void;
   addLogMessage: (type: 'info' | 'success' | 'error' | 'warning', message: string) => void;
   clearLogs: () => void;
   removeLog: (id: string) => void;
-  resetFileSystem: () => void;
+  // Both throw where the workspace can't be replaced (see canReplaceWorkspace)
+  resetFileSystem: (projectName?: string) => void;
   replaceFileSystem: (newRootName: string) => void;
+  canReplaceWorkspace: boolean;
+  backendKind: StorageBackendKind;
+  isLoading: boolean;
+  // Changes whenever a different workspace replaces the current one
+  workspaceId: string | null;
+  supportsProjects: boolean;
+  listRecentProjects: () => Promise<ProjectSummary[]>;
+  openProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  getFileByPath: (path: string) => FileSystemItem | undefined;
+  writeFileAtPath: (path: string, content: string) => string | undefined;
+  reloadFileSystem: () => Promise<void>;
+  // Local folders, through the File System Access API where the browser has it
+  canOpenFolders: boolean;
+  // Resolve to false when the user cancels or access is refused
+  openFolder: () => Promise<boolean>;
+  reopenFolder: () => Promise<boolean>;
+  closeFolder: () => Promise<void>;
+  // The folder open in the last session, when it needs the user's permission again
+  folderToReopen: string | null;
 }
 
 const FileSystemContext = createContext<FileSystemContextType | undefined>(undefined);
 
 
-// Helper function to determine language based on file extension
-const getLanguageFromExtension = (filename: string): string => {
-  const extension = filename.split('.').pop()?.toLowerCase() || '';
-  
-  const extensionMap: Record<string, string> = {
-    // Web
-    'html': 'html',
-    'htm': 'html',
-    'css': 'css',
-    'scss': 'scss',
-    'sass': 'sass',
-    'less': 'less',
-    
-    // JavaScript family
-    'js': 'javascript',
-    'jsx': 'javascript',
-    'ts': 'typescript',
-    'tsx': 'typescript',
-    'json': 'json',
-    
-    // Python
-    'py': 'python',
-    'pyc': 'python',
-    'pyd': 'python',
-    'pyo': 'python',
-    
-    // Java
-    'java': 'java',
-    
-    // C family
-    'c': 'c',
-    'cpp': 'cpp',
-    'h': 'c',
-    'hpp': 'cpp',
-    'cs': 'csharp',
-    
-    // Ruby
-    'rb': 'ruby',
-    
-    // PHP
-    'php': 'php',
-    
-    // Go
-    'go': 'go',
-    
-    // Rust
-    'rs': 'rust',
-    
-    // Swift
-    'swift': 'swift',
-    
-    // Kotlin
-    'kt': 'kotlin',
-    
-    // Shell
-    'sh': 'shell',
-    'bash': 'bash',
-    
-    // SQL
-    'sql': 'sql',
-    
-    // Markup and config
-    'md': 'markdown',
-    'yml': 'yaml',
-    'yaml': 'yaml',
-    'xml': 'xml',
-    'toml': 'toml',
-    'ini': 'ini',
-    
-    // Other
-    'graphql': 'graphql',
-    'dockerfile': 'dockerfile',
-  };
-  
-  return extensionMap[extension] || 'plaintext';
-};
-
-
-
-
-// Sample initial file system
-const initialFileSystem: FileSystemItem[] = [
-  {
-    id: 'root',
-    name: 'my-project',
-    type: 'folder',
-    path: '/my-project',
-    isOpen: true,
-    children: [
-      {
-        id: 'src',
-        name: 'src',
-        type: 'folder',
-        path: '/my-project/src',
-        isOpen: true,
-        parentId: 'root',
-        children: [
-          {
-            id: 'components',
-            name: 'components',
-            type: 'folder',
-            path: '/my-project/src/components',
-            isOpen: false,
-            parentId: 'src',
-            children: [
-              {
-                id: 'button',
-                name: 'Button.tsx',
-                type: 'file',
-                path: '/my-project/src/components/Button.tsx',
-                language: 'typescript',
-                content: 'import React from "react";\n\ninterface ButtonProps {\n  children: React.ReactNode;\n  onClick?: () => void;\n  variant?: "primary" | "secondary";\n}\n\nconst Button: React.FC<ButtonProps> = ({ children, onClick, variant = "primary" }) => {\n  return (\n    <button\n      className={`px-4 py-2 rounded ${variant === "primary" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-800"}`}\n      onClick={onClick}\n    >\n      {children}\n    </button>\n  );\n};\n\nexport default Button;',
-                parentId: 'components',
-              }
-            ]
-          },
-          {
-            id: 'app',
-            name: 'App.tsx',
-            type: 'file',
-            path: '/my-project/src/App.tsx',
-            language: 'typescript',
-            content: 'import React from "react";\nimport Button from "./components/Button";\n\nconst App: React.FC = () => {\n  return (\n    <div className="p-4">\n      <h1 className="text-2xl font-bold mb-4">My Application</h1>\n      <Button onClick={() => alert("Button clicked!")}>Click Me</Button>\n    </div>\n  );\n};\n\nexport default App;',
-            parentId: 'src',
-          },
-          {
-            id: 'index',
-            name: 'index.tsx',
-            type: 'file',
-            path: '/my-project/src/index.tsx',
-            language: 'typescript',
-            content: 'import React from "react";\nimport ReactDOM from "react-dom/client";\nimport App from "./App";\n\nReactDOM.createRoot(document.getElementById("root")!).render(\n  <React.StrictMode>\n    <App />\n  </React.StrictMode>\n);',
-            parentId: 'src',
-          }
-        ]
-      },
-      {
-        id: 'package',
-        name: 'package.json',
-        type: 'file',
-        path: '/my-project/package.json',
-        language: 'json',
-        content: '{\n  "name": "my-project",\n  "version": "1.0.0",\n  "dependencies": {\n    "react": "^18.0.0",\n    "react-dom": "^18.0.0"\n  }\n}',
-        parentId: 'root',
-      },
-      {
-        id: 'readme',
-        name: 'README.md',
-        type: 'file',
-        path: '/my-project/README.md',
-        language: 'markdown',
-        content: '# My Project\n\nThis is a sample React project.\n\n## Getting Started\n\nInstall dependencies:\n\n```bash\nnpm install\n```\n\nStart the development server:\n\n```bash\nnpm start\n```',
-        parentId: 'root',
-      }
-    ]
-  }
-];
-
-// Helper function to generate unique IDs
-const generateId = () => Math.random().toString(36).substring(2, 9);
-
-// Helper function to find an item by ID in the file system tree
-const findItemById = (files: FileSystemItem[], id: string): FileSystemItem | undefined => {
-  for (const file of files) {
-    if (file.id === id) return file;
-    if (file.children) {
-      const found = findItemById(file.children, id);
-      if (found) return found;
-    }
-  }
-  return undefined;
-};
-
-// Helper function to find a parent by child ID
-const findParentById = (files: FileSystemItem[], childId: string): FileSystemItem | undefined => {
-  for (const file of files) {
-    if (file.children?.some(child => child.id === childId)) return file;
-    if (file.children) {
-      const found = findParentById(file.children, childId);
-      if (found) return found;
-    }
-  }
-  return undefined;
-};
-
-// Empty file system for new projects
-const createEmptyFileSystem = (rootName: string = 'new-project'): FileSystemItem[] => {
-  return [
-    {
-      id: 'root',
-      name: rootName,
-      type: 'folder',
-      path: `/${rootName}`,
-      isOpen: true,
-      children: []
-    }
-  ];
-};
+interface FileSystemProviderProps {
+  children: React.ReactNode;
+  backend?: StorageBackend;
+}
 
-export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [files, setFiles] = useState<FileSystemItem[]>(initialFileSystem);
+export const FileSystemProvider: React.FC<FileSystemProviderProps> = ({ children, backend: backendProp }) => {
+  const defaultBackend = useMemo(() => backendProp ?? createStorageBackend(), [backendProp]);
+  // A local folder takes the configured backend's place while it is open
+  const [folderBackend, setFolderBackend] = useState<StorageBackend | null>(null);
+  const [folderToReopen, setFolderToReopen] = useState<FileSystemDirectoryHandle | null>(null);
+  const backend = folderBackend ?? defaultBackend;
+  // Where operations go, switched right away so writes just after a switch land in the new workspace
+  const backendRef = useRef(backend);
+  const [files, setFiles] = useState<FileSystemItem[]>(() => createEmptyFileSystem('workspace'));
+  const [isLoading, setIsLoading] = useState(true);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  // Latest tree, updated synchronously so back-to-back operations build on each other
+  const filesRef = useRef(files);
+  // Tree as it came out of storage, which doesn't need saving again
+  const loadedFilesRef = useRef<FileSystemItem[] | null>(null);
+  const pendingSnapshotRef = useRef<number | null>(null);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
   const [logs, setLogs] = useState<Log[]>([
     {
@@ -264,17 +128,40 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     }
   ]);
 
+  // Apply a tree update immediately and schedule the re-render
+  const updateFiles = (update: (prevFiles: FileSystemItem[]) => FileSystemItem[]) => {
+    const next = update(filesRef.current);
+    filesRef.current = next;
+    setFiles(next);
+  };
+
+  // Mirror a change to the storage backend, reporting failures in the logs panel
+  const persist = (description: string, operation: () => Promise<void>) => {
+    operation().catch(error => {
+      console.error(`Failed to ${description}:`, error);
+      addLogMessage('error', `Failed to ${description}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  };
+
   // Get file by ID
   const getFileById = (id: string) => {
-    return findItemById(files, id);
+    return findItemById(filesRef.current, id);
+  };
+
+  // Get file by tree path ("/my-project/src/App.tsx") or workspace-relative path ("src/App.tsx")
+  const getFileByPath = (path: string) => {
+    const root = filesRef.current[0];
+    if (!root) return undefined;
+    return findItemByPath(filesRef.current, path.startsWith('/') ? path : toTreePath(root.path, path));
   };
 
   // Create new file or folder
   const createFile = (parentPath: string, name: string, type: FileType) => {
     const newId = generateId();
     const path = `${parentPath}/${name}`;
+    let created = false;
     
-    setFiles(prevFiles => {
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       // Find the parent folder in which to create the new item
@@ -303,6 +190,7 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
             }
             
             item.children = [...(item.children || []), newItem];
+            created = true;
             return true;
           }
           
@@ -319,6 +207,13 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       return newFiles;
     });
     
+    if (created) {
+      const storagePath = toStoragePath(path);
+      persist(`create ${storagePath}`, () => type === 'folder'
+        ? backendRef.current.createDirectory(storagePath)
+        : backendRef.current.writeFile(storagePath, ''));
+    }
+    
     if (type === 'file') {
       setSelectedFile(newId);
     }
@@ -328,7 +223,9 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
 
   // Rename a file or folder
   const renameFile = (id: string, newName: string) => {
-    setFiles(prevFiles => {
+    const oldPath = getFileById(id)?.path;
+    
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       const updateItem = (items: FileSystemItem[]) => {
@@ -336,6 +233,7 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
           const item = items[i];
           
           if (item.id === id) {
+            const oldItemPath = item.path;
             const oldPathParts = item.path.split('/');
             oldPathParts[oldPathParts.length - 1] = newName;
             const newPath = oldPathParts.join('/');
@@ -363,7 +261,6 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
             };
             
             if (item.children) {
-              const oldItemPath = item.path.split('/').slice(0, -1).join('/') + '/' + item.name;
               updateChildrenPaths(item, oldItemPath, newPath);
             }
             
@@ -382,11 +279,19 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       updateItem(newFiles);
       return newFiles;
     });
+    
+    const newPath = getFileById(id)?.path;
+    // Renaming the root only changes its display name
+    if (oldPath && newPath && id !== 'root' && oldPath !== newPath) {
+      persist(`rename ${toStoragePath(oldPath)}`, () => backendRef.current.rename(toStoragePath(oldPath), toStoragePath(newPath)));
+    }
   };
 
   // Delete a file or folder
   const deleteFile = (id: string) => {
-    setFiles(prevFiles => {
+    const deletedPath = id !== 'root' ? getFileById(id)?.path : undefined;
+    
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       const removeItem = (items: FileSystemItem[]) => {
@@ -413,6 +318,10 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       return newFiles;
     });
     
+    if (deletedPath) {
+      persist(`delete ${toStoragePath(deletedPath)}`, () => backendRef.current.delete(toStoragePath(deletedPath)));
+    }
+    
     if (selectedFile === id) {
       setSelectedFile(null);
     }
@@ -420,7 +329,9 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
 
   // Update file content
   const updateFileContent = (id: string, content: string) => {
-    setFiles(prevFiles => {
+    let updatedPath: string | undefined;
+    
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       const updateItem = (items: FileSystemItem[]) => {
@@ -432,6 +343,7 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
             
             item.content = content;
             item.isModified = isContentChanged;
+            updatedPath = item.path;
             
             return true;
           }
@@ -448,6 +360,28 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       updateItem(newFiles);
       return newFiles;
     });
+    
+    if (updatedPath) {
+      const storagePath = toStoragePath(updatedPath);
+      persist(`save ${storagePath}`, () => backendRef.current.writeFile(storagePath, content));
+    }
+  };
+
+  // Create or overwrite a file by workspace-relative path, adding missing folders
+  const writeFileAtPath = (path: string, content: string) => {
+    const storagePath = path.startsWith('/') ? toStoragePath(path) : path;
+    let item: FileSystemItem | undefined;
+    
+    updateFiles(prevFiles => {
+      const newFiles = [...prevFiles];
+      item = ensureItemAtPath(newFiles, storagePath, 'file', content);
+      return newFiles;
+    });
+    
+    if (!item) return undefined;
+    
+    persist(`save ${storagePath}`, () => backendRef.current.writeFile(storagePath, content));
+    return item.id;
   };
 
   // Select a file
@@ -457,7 +391,7 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
 
   // Toggle folder open/closed
   const toggleFolder = (id: string) => {
-    setFiles(prevFiles => {
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       const toggleItem = (items: FileSystemItem[]) => {
@@ -483,6 +417,25 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     });
   };
 
+  const revealFile = (id: string) => {
+    updateFiles(prevFiles => {
+      const newFiles = [...prevFiles];
+      
+      const openAncestors = (items: FileSystemItem[]): boolean => items.some(item => {
+        if (item.id === id) return true;
+        if (item.children && openAncestors(item.children)) {
+          item.isOpen = true;
+          return true;
+        }
+        return false;
+      });
+      
+      openAncestors(newFiles);
+      return newFiles;
+    });
+    selectFile(id);
+  };
+
   // Search files by name
   const searchFiles = (query: string) => {
     if (!query.trim()) return [];
@@ -508,7 +461,9 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
 
   // Move a file or folder to a new parent
   const moveFile = (fileId: string, newParentId: string) => {
-    setFiles(prevFiles => {
+    const oldPath = getFileById(fileId)?.path;
+    
+    updateFiles(prevFiles => {
       const newFiles = [...prevFiles];
       
       // Find the item to move
@@ -548,6 +503,11 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       
       return newFiles;
     });
+    
+    const newPath = getFileById(fileId)?.path;
+    if (oldPath && newPath && oldPath !== newPath) {
+      persist(`move ${toStoragePath(oldPath)}`, () => backendRef.current.rename(toStoragePath(oldPath), toStoragePath(newPath)));
+    }
   };
 
   // Add a log message
@@ -573,19 +533,236 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   };
 
   // Reset file system to default empty state
-  const resetFileSystem = () => {
-    setFiles(createEmptyFileSystem());
-    setSelectedFile(null);
-    addLogMessage('info', 'File system reset to default empty state');
+  const resetFileSystem = (projectName: string = 'new-project') => {
+    replaceWorkspace(projectName);
+    addLogMessage('info', `Started new project ${projectName}`);
   };
 
   // Replace file system with a completely new one (for imports)
   const replaceFileSystem = (newRootName: string) => {
-    setFiles(createEmptyFileSystem(newRootName));
-    setSelectedFile(null);
+    replaceWorkspace(newRootName);
     addLogMessage('info', `Prepared new file system for ${newRootName}`);
   };
 
+  // Start over with an empty workspace. It goes into the configured backend, even while a folder is
+  // open, and only where that backend can begin empty.
+  const replaceWorkspace = (rootName: string) => {
+    if (!canReplaceWorkspace(defaultBackend)) {
+      throw new Error(REPLACE_WORKSPACE_UNSUPPORTED);
+    }
+    
+    flushSnapshot();
+    // A new project never goes into an open folder
+    leaveFolder();
+    updateFiles(() => createEmptyFileSystem(rootName));
+    setSelectedFile(null);
+    
+    persist('create workspace storage', async () => {
+      const snapshot = await defaultBackend.clear!(rootName);
+      setWorkspaceId((snapshot && snapshot.id) || generateId());
+    });
+  };
+
+  // Show a snapshot that just came out of storage
+  const showSnapshot = (snapshot: WorkspaceSnapshot) => {
+    loadedFilesRef.current = snapshot.files;
+    updateFiles(() => snapshot.files);
+    setWorkspaceId(prev => snapshot.id ?? prev ?? generateId());
+  };
+
+  // Load the tree from the backend, replacing whatever is shown
+  const reloadFileSystem = async () => {
+    const target = backendRef.current;
+    setIsLoading(true);
+    try {
+      const snapshot = await target.load();
+      // A folder may have been opened (or closed) meanwhile
+      if (backendRef.current !== target) return;
+      if (snapshot) {
+        showSnapshot(snapshot);
+        addLogMessage('success', `Loaded ${snapshot.name} from ${target.kind} storage`);
+      }
+    } catch (error) {
+      console.error('Failed to load workspace:', error);
+      addLogMessage('error', `Failed to load workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      if (backendRef.current === target) setIsLoading(false);
+    }
+  };
+
+  // Back to the configured backend, without loading anything; the caller replaces the tree
+  const leaveFolder = () => {
+    if (backendRef.current === defaultBackend) return;
+    
+    backendRef.current = defaultBackend;
+    setFolderBackend(null);
+    saveLastFolder(null).catch(error => console.error('Failed to forget the folder:', error));
+  };
+
+  // Show a folder from the user's machine as the workspace; saves write straight to it
+  const mountFolder = async (handle: FileSystemDirectoryHandle) => {
+    flushSnapshot();
+    const folder = createLocalFolderBackend(handle);
+    backendRef.current = folder;
+    setFolderBackend(folder);
+    setFolderToReopen(null);
+    setSelectedFile(null);
+    await reloadFileSystem();
+    saveLastFolder(handle).catch(error => console.error('Failed to remember the folder:', error));
+  };
+
+  const openFolder = async () => {
+    if (!window.showDirectoryPicker) return false;
+    
+    try {
+      await mountFolder(await window.showDirectoryPicker({ id: 'open-folder', mode: 'readwrite' }));
+      return true;
+    } catch (error) {
+      // Dismissing the picker rejects with an AbortError
+      if (!isAbortError(error)) {
+        addLogMessage('error', `Failed to open folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      return false;
+    }
+  };
+
+  // Browsers ask again for folders kept from an earlier session, and only in response to a click
+  const reopenFolder = async () => {
+    if (!folderToReopen) return false;
+    
+    if (!(await requestFolderPermission(folderToReopen, true))) {
+      addLogMessage('error', `Permission to edit ${folderToReopen.name} was not granted`);
+      return false;
+    }
+    await mountFolder(folderToReopen);
+    return true;
+  };
+
+  const closeFolder = async () => {
+    if (backendRef.current === defaultBackend) return;
+    
+    leaveFolder();
+    setSelectedFile(null);
+    await reloadFileSystem();
+  };
+
+  // Write the pending snapshot right away instead of waiting for the debounce
+  const flushSnapshot = () => {
+    if (pendingSnapshotRef.current === null) return;
+    
+    window.clearTimeout(pendingSnapshotRef.current);
+    pendingSnapshotRef.current = null;
+    
+    const root = filesRef.current[0];
+    const snapshot = { name: root.name, files: filesRef.current };
+    persist('save workspace', () => backendRef.current.saveSnapshot!(snapshot));
+  };
+
+  // Projects belong to the configured backend, and stay reachable while a folder is open
+  const listRecentProjects = useCallback(async () => {
+    return defaultBackend.listProjects ? defaultBackend.listProjects() : [];
+  }, [defaultBackend]);
+
+  const openProject = async (id: string) => {
+    if (!defaultBackend.openProject) return;
+    
+    flushSnapshot();
+    leaveFolder();
+    const snapshot = await defaultBackend.openProject(id);
+    if (!snapshot) {
+      addLogMessage('error', 'Project not found');
+      return;
+    }
+    
+    showSnapshot(snapshot);
+    setSelectedFile(null);
+    addLogMessage('success', `Opened project ${snapshot.name}`);
+  };
+
+  const deleteProject = async (id: string) => {
+    if (!defaultBackend.deleteProject) return;
+    await defaultBackend.deleteProject(id);
+  };
+
+  // Apply a change reported by the backend (e.g. a file edited on disk)
+  const applyStorageChange = (change: StorageChange) => {
+    if (change.type === 'write') {
+      const existing = getFileByPath(change.path);
+      if (existing?.type === 'file' && existing.content === change.content) return;
+    }
+    
+    updateFiles(prevFiles => {
+      const newFiles = [...prevFiles];
+      
+      if (change.type === 'write') {
+        const item = ensureItemAtPath(newFiles, change.path, 'file', change.content);
+        if (item) item.isModified = false;
+      } else if (change.type === 'mkdir') {
+        ensureItemAtPath(newFiles, change.path, 'folder');
+      } else if (!removeItemAtPath(newFiles, change.path)) {
+        return prevFiles;
+      }
+      
+      return newFiles;
+    });
+  };
+
+  // The effects below call the latest of these without re-running each time they are redefined
+  const callbacksRef = useRef({ flushSnapshot, reloadFileSystem, mountFolder, applyStorageChange });
+  callbacksRef.current = { flushSnapshot, reloadFileSystem, mountFolder, applyStorageChange };
+
+  // Debounced whole-tree saves for backends that store snapshots
+  useEffect(() => {
+    if (!backend.saveSnapshot || isLoading || files === loadedFilesRef.current) return;
+    
+    if (pendingSnapshotRef.current !== null) {
+      window.clearTimeout(pendingSnapshotRef.current);
+    }
+    pendingSnapshotRef.current = window.setTimeout(() => callbacksRef.current.flushSnapshot(), SNAPSHOT_DEBOUNCE_MS);
+  }, [files, isLoading, backend]);
+
+  // Don't lose the last edits when the page goes away
+  useEffect(() => {
+    const handlePageHide = () => callbacksRef.current.flushSnapshot();
+    window.addEventListener('pagehide', handlePageHide);
+    
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+    };
+  }, [backend]);
+
+  // Initial load of the configured backend
+  useEffect(() => {
+    backendRef.current = defaultBackend;
+    callbacksRef.current.reloadFileSystem();
+  }, [defaultBackend]);
+
+  // The folder open in the last session comes back right away if the browser still allows it
+  useEffect(() => {
+    if (!supportsLocalFolders()) return;
+    
+    loadLastFolder()
+      .then(async handle => {
+        if (!handle) return;
+        if (await requestFolderPermission(handle, false)) {
+          await callbacksRef.current.mountFolder(handle);
+        } else {
+          setFolderToReopen(handle);
+        }
+      })
+      .catch(error => console.error('Failed to restore the last folder:', error));
+  }, []);
+
+  // Outside changes from the active backend
+  useEffect(() => {
+    const unsubscribe = backend.subscribe?.(change => callbacksRef.current.applyStorageChange(change));
+    
+    return () => {
+      unsubscribe?.();
+    };
+  }, [backend]);
+
   return (
     <FileSystemContext.Provider value={{
       files,
@@ -598,13 +775,30 @@ export const FileSystemProvider: React.FC<{ children: React.ReactNode }> = ({ ch
       selectFile,
       getFileById,
       toggleFolder,
+      revealFile,
       searchFiles,
       moveFile,
       addLogMessage,
       clearLogs,
       removeLog,
       resetFileSystem,
-      replaceFileSystem
+      replaceFileSystem,
+      canReplaceWorkspace: canReplaceWorkspace(defaultBackend),
+      backendKind: backend.kind,
+      isLoading,
+      workspaceId,
+      supportsProjects: Boolean(defaultBackend.listProjects),
+      listRecentProjects,
+      openProject,
+      deleteProject,
+      getFileByPath,
+      writeFileAtPath,
+      reloadFileSystem,
+      canOpenFolders: supportsLocalFolders(),
+      openFolder,
+      reopenFolder,
+      closeFolder,
+      folderToReopen: folderToReopen?.name ?? null
     }}>
       {children}
     </FileSystemContext.Provider>
@@ -0,0 +1,229 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useFileSystem } from './FileSystemContext';
+import { createBrowserGit } from '@/lib/git/browserGit';
+import { createServerGit } from '@/lib/git/serverGit';
+import { createIndexedDbGitStore } from '@/lib/git/gitStore';
+import { loadGitAuthor, loadInlineBlame, saveGitAuthor, saveInlineBlame } from '@/lib/git/preferences';
+import { GitAuthor, GitBackend, GitBlameLine, GitCommit, GitRevision, GitStatusEntry } from '@/lib/git/types';
+import { flattenFiles, toStoragePath } from '@/lib/storage/tree';
+
+// Let a burst of edits settle before asking git what changed
+const REFRESH_DEBOUNCE_MS = 500;
+const LOG_DEPTH = 50;
+
+interface GitContextType {
+  // False for a folder opened from the user's computer (see below)
+  isSupported: boolean;
+  // null until the first check has finished
+  isRepository: boolean | null;
+  branch: string | null;
+  branches: string[];
+  changes: GitStatusEntry[];
+  commits: GitCommit[];
+  // Changes with every commit and checkout, for anything cached against HEAD
+  headOid: string | null;
+  // An operation that changes the repository is running
+  isBusy: boolean;
+  author: GitAuthor;
+  setAuthor: (author: GitAuthor) => void;
+  showInlineBlame: boolean;
+  toggleInlineBlame: () => void;
+  refresh: () => Promise<void>;
+  init: () => Promise<void>;
+  stage: (paths: string[]) => Promise<void>;
+  unstage: (paths: string[]) => Promise<void>;
+  // Resolves to false when nothing was committed
+  commit: (message: string) => Promise<boolean>;
+  createBranch: (name: string) => Promise<void>;
+  checkout: (branch: string) => Promise<void>;
+  readFile: (path: string, revision: GitRevision) => Promise<string | null>;
+  blame: (path: string) => Promise<GitBlameLine[] | null>;
+}
+
+const GitContext = createContext<GitContextType | undefined>(undefined);
+
+// Version control for the open workspace: in the browser for stored projects, through the dev server for a disk workspace
+export const GitProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const {
+    files, backendKind, workspaceId, addLogMessage, writeFileAtPath, getFileByPath, deleteFile
+  } = useFileSystem();
+  const [isRepository, setIsRepository] = useState<boolean | null>(null);
+  const [branch, setBranch] = useState<string | null>(null);
+  const [branches, setBranches] = useState<string[]>([]);
+  const [changes, setChanges] = useState<GitStatusEntry[]>([]);
+  const [commits, setCommits] = useState<GitCommit[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [author, setAuthorState] = useState<GitAuthor>(loadGitAuthor);
+  const [showInlineBlame, setShowInlineBlame] = useState(loadInlineBlame);
+
+  // The browser backend copies the saved workspace in before every operation
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // A local folder's history is in its own .git on disk, which the folder backend leaves out, and a
+  // repository made here would only live in memory. Source control stays off for those.
+  const isSupported = backendKind !== 'local';
+
+  const git = useMemo<GitBackend>(() => {
+    if (backendKind === 'http') return createServerGit();
+
+    return createBrowserGit({
+      getWorkspaceFiles: () => flattenFiles(filesRef.current).map(file => ({
+        path: toStoragePath(file.path),
+        content: file.content || '',
+      })),
+      // Memory workspaces are gone on reload, and so is their history
+      store: backendKind === 'browser' && workspaceId ? createIndexedDbGitStore(workspaceId) : undefined,
+    });
+  }, [backendKind, workspaceId]);
+
+  const gitRef = useRef(git);
+  gitRef.current = git;
+
+  const refresh = useCallback(async () => {
+    const current = git;
+    if (!isSupported) {
+      setIsRepository(false);
+      return;
+    }
+
+    try {
+      const repository = await current.isRepository();
+      const [status, currentBranch, branchList, log] = repository
+        ? await Promise.all([current.status(), current.currentBranch(), current.listBranches(), current.log(LOG_DEPTH)])
+        : [[], null, [], []];
+
+      // A different workspace may have been opened meanwhile
+      if (gitRef.current !== current) return;
+      setIsRepository(repository);
+      setChanges(status);
+      setBranch(currentBranch);
+      setBranches(branchList);
+      setCommits(log);
+    } catch (error) {
+      console.error('Failed to read git status:', error);
+    }
+  }, [git, isSupported]);
+
+  useEffect(() => {
+    setIsRepository(null);
+    setChanges([]);
+    setBranch(null);
+    setBranches([]);
+    setCommits([]);
+  }, [git]);
+
+  useEffect(() => {
+    if (!workspaceId) return;
+    const timer = window.setTimeout(refresh, REFRESH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [refresh, files, workspaceId]);
+
+  // Run an operation that changes the repository, reporting failures in the logs panel
+  const perform = async <T,>(description: string, operation: () => Promise<T>): Promise<T> => {
+    setIsBusy(true);
+    try {
+      return await operation();
+    } catch (error) {
+      addLogMessage('error', `Failed to ${description}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
+    } finally {
+      setIsBusy(false);
+      await refresh();
+    }
+  };
+
+  const init = () => perform('initialize repository', async () => {
+    if (!isSupported) throw new Error('Source control is not available for local folders');
+    await git.init();
+    addLogMessage('success', 'Initialized an empty git repository');
+  });
+
+  const stage = (paths: string[]) => perform('stage changes', () => git.stage(paths));
+
+  const unstage = (paths: string[]) => perform('unstage changes', () => git.unstage(paths));
+
+  const commit = (message: string) => perform('commit', async () => {
+    const trimmed = message.trim();
+    if (!trimmed) return false;
+
+    // With nothing staged, everything changed goes in, like VS Code's smart commit
+    if (!changes.some(entry => entry.staged)) {
+      const paths = changes.map(entry => entry.path);
+      if (paths.length === 0) return false;
+      await git.stage(paths);
+    }
+
+    const oid = await git.commit(trimmed, author);
+    addLogMessage('success', `Committed ${oid.slice(0, 7)}: ${trimmed.split('\n')[0]}`);
+    return true;
+  });
+
+  const createBranch = (name: string) => perform(`create branch ${name}`, async () => {
+    await git.createBranch(name);
+    addLogMessage('info', `Switched to a new branch '${name}'`);
+  });
+
+  const checkout = (target: string) => perform(`switch to ${target}`, async () => {
+    const { written, deleted } = await git.checkout(target);
+
+    // The browser working tree is a copy, so the workspace takes over what the checkout wrote
+    written.forEach(file => writeFileAtPath(file.path, file.content));
+    deleted.forEach(path => {
+      const item = getFileByPath(path);
+      if (item) deleteFile(item.id);
+    });
+    addLogMessage('info', `Switched to branch '${target}'`);
+  });
+
+  // Stable for a repository, so views can load from them in effects
+  const readFile = useCallback((path: string, revision: GitRevision) => git.readFile(path, revision), [git]);
+
+  const blame = useCallback((path: string) => git.blame(path), [git]);
+
+  const setAuthor = (next: GitAuthor) => {
+    setAuthorState(next);
+    saveGitAuthor(next);
+  };
+
+  const toggleInlineBlame = () => {
+    setShowInlineBlame(!showInlineBlame);
+    saveInlineBlame(!showInlineBlame);
+  };
+
+  return (
+    <GitContext.Provider value={{
+      isSupported,
+      isRepository,
+      branch,
+      branches,
+      changes,
+      commits,
+      headOid: commits[0]?.oid ?? null,
+      isBusy,
+      author,
+      setAuthor,
+      showInlineBlame,
+      toggleInlineBlame,
+      refresh,
+      init,
+      stage,
+      unstage,
+      commit,
+      createBranch,
+      checkout,
+      readFile,
+      blame
+    }}>
+      {children}
+    </GitContext.Provider>
+  );
+};
+
+export const useGit = () => {
+  const context = useContext(GitContext);
+  if (context === undefined) {
+    throw new Error('useGit must be used within a GitProvider');
+  }
+  return context;
+};
@@ -0,0 +1,141 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { useMonaco } from '@monaco-editor/react';
+import { useAISettings } from './AISettingsContext';
+import { useEditor } from './EditorContext';
+import { getConfigurationError, isAbortError } from '@/lib/ai/chatService';
+import { requestInlineCompletion } from '@/lib/ai/inlineCompletion';
+import { knownLanguages } from '@/lib/languages';
+
+export type InlineCompletionStatus = 'off' | 'idle' | 'busy' | 'unavailable' | 'error';
+
+interface InlineCompletionContextType {
+  status: InlineCompletionStatus;
+  // Why completions are unavailable or what went wrong last
+  statusDetail: string | null;
+  toggleInlineCompletions: () => void;
+}
+
+// Wait for a pause in typing before asking the model
+const DEBOUNCE_MS = 400;
+// How much code around the cursor to send
+const PREFIX_LINES = 60;
+const SUFFIX_LINES = 20;
+
+const InlineCompletionContext = createContext<InlineCompletionContextType | undefined>(undefined);
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Ghost-text completions from the configured model in the main editor; Tab accepts them
+export const InlineCompletionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const monaco = useMonaco();
+  const { settings, setSettings } = useAISettings();
+  const { monacoInstance, openedTabs, activeTabId } = useEditor();
+  const [pendingCount, setPendingCount] = useState(0);
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  // The provider is registered once; it reads the latest state through refs
+  const settingsRef = useRef(settings);
+  const editorRef = useRef(monacoInstance);
+  const activePathRef = useRef<string | undefined>(undefined);
+  settingsRef.current = settings;
+  editorRef.current = monacoInstance;
+  activePathRef.current = openedTabs.find(tab => tab.id === activeTabId)?.path;
+
+  useEffect(() => {
+    if (!monaco) return;
+
+    const registration = monaco.languages.registerInlineCompletionsProvider(knownLanguages, {
+      provideInlineCompletions: async (model, position, _context, token) => {
+        const currentSettings = settingsRef.current;
+        // Only the main editor; diff views and other editors share the language registry
+        if (!currentSettings.inlineCompletions || editorRef.current?.getModel() !== model) return { items: [] };
+        if (getConfigurationError(currentSettings)) return { items: [] };
+
+        // Monaco cancels the token as soon as the user keeps typing
+        await delay(DEBOUNCE_MS);
+        if (token.isCancellationRequested) return { items: [] };
+
+        const controller = new AbortController();
+        const cancellation = token.onCancellationRequested(() => controller.abort());
+        setPendingCount(count => count + 1);
+
+        try {
+          const lastLine = Math.min(model.getLineCount(), position.lineNumber + SUFFIX_LINES);
+          const prefix = model.getValueInRange({
+            startLineNumber: Math.max(1, position.lineNumber - PREFIX_LINES),
+            startColumn: 1,
+            endLineNumber: position.lineNumber,
+            endColumn: position.column,
+          });
+          const suffix = model.getValueInRange({
+            startLineNumber: position.lineNumber,
+            startColumn: position.column,
+            endLineNumber: lastLine,
+            endColumn: model.getLineMaxColumn(lastLine),
+          });
+
+          const text = await requestInlineCompletion({
+            path: activePathRef.current || model.uri.path,
+            language: model.getLanguageId(),
+            prefix,
+            suffix,
+            signal: controller.signal,
+          }, currentSettings);
+          setLastError(null);
+
+          if (!text || token.isCancellationRequested) return { items: [] };
+          return {
+            items: [{
+              insertText: text,
+              range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column),
+            }],
+          };
+        } catch (error) {
+          if (!isAbortError(error)) {
+            console.error('Inline completion failed:', error);
+            setLastError(error instanceof Error ? error.message : 'Unknown error');
+          }
+          return { items: [] };
+        } finally {
+          cancellation.dispose();
+          setPendingCount(count => count - 1);
+        }
+      },
+      freeInlineCompletions: () => {},
+    });
+
+    return () => registration.dispose();
+  }, [monaco]);
+
+  const configurationError = getConfigurationError(settings);
+  const status: InlineCompletionStatus = !settings.inlineCompletions
+    ? 'off'
+    : configurationError
+      ? 'unavailable'
+      : pendingCount > 0
+        ? 'busy'
+        : lastError ? 'error' : 'idle';
+
+  const toggleInlineCompletions = () => {
+    setSettings({ ...settings, inlineCompletions: !settings.inlineCompletions });
+    setLastError(null);
+  };
+
+  return (
+    <InlineCompletionContext.Provider value={{
+      status,
+      statusDetail: status === 'unavailable' ? configurationError : status === 'error' ? lastError : null,
+      toggleInlineCompletions
+    }}>
+      {children}
+    </InlineCompletionContext.Provider>
+  );
+};
+
+export const useInlineCompletions = () => {
+  const context = useContext(InlineCompletionContext);
+  if (context === undefined) {
+    throw new Error('useInlineCompletions must be used within an InlineCompletionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CommandResult } from '@/api/commands';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { isAbortError } from '@/lib/ai/chatService';
+import { AgentEvent, ToolStepStatus, runAgent } from '@/lib/ai/agent/runAgent';
+import { AgentEnvironment, ToolCall, describeToolCall } from '@/lib/ai/agent/tools';
+import { ContextReport, WorkspaceContext } from '@/lib/ai/workspaceContext';
+import { flattenFiles, generateId, toStoragePath } from '@/lib/storage/tree';
+import { getSessionToken, SESSION_HEADER } from '@/lib/workspaceSession';
+import { toast } from 'sonner';
+
+export type AgentStep =
+  | { id: string; kind: 'message'; content: string }
+  | { id: string; kind: 'tool'; call: ToolCall; status: ToolStepStatus; output?: string };
+
+export type AgentTaskStatus = 'running' | 'done' | 'error' | 'cancelled' | 'reverted';
+
+export interface AgentTask {
+  id: string;
+  prompt: string;
+  status: AgentTaskStatus;
+  steps: AgentStep[];
+  // Waiting for the model's next step
+  thinking: boolean;
+  answer?: string;
+  error?: string;
+  context?: ContextReport;
+  // Files the task created, changed or deleted
+  changedPaths: string[];
+  // What commands change on disk can't be snapshotted, so reverting leaves it in place
+  ranCommands: boolean;
+  startedAt: Date;
+}
+
+export type PermissionDecision = 'allow' | 'allow-all' | 'deny';
+
+// What a task changed, as it was before the task
+interface TaskSnapshot {
+  // Each touched file's content; null if it didn't exist
+  files: Map<string, string | null>;
+  // Folders the task's writes created, parents first
+  folders: string[];
+}
+
+interface UseAgentOptions {
+  getContext: (task: string) => WorkspaceContext;
+}
+
+// Tools whose successful calls are worth a line in the logs panel
+const LOGGED_TOOLS = ['write_file', 'edit_file', 'delete_file', 'run_command'];
+
+const runWorkspaceCommand = async (command: string, signal?: AbortSignal): Promise<CommandResult> => {
+  const response = await fetch('/api/run-command', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: getSessionToken() },
+    body: JSON.stringify({ command }),
+    signal,
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(body.error || `Command failed with status ${response.status}`);
+  }
+  return body as CommandResult;
+};
+
+// Runs AI Coworker tasks one at a time against the workspace. Every file a task touches is
+// snapshotted first so the whole task can be reverted.
+export function useAgent({ getContext }: UseAgentOptions) {
+  const {
+    workspaceId,
+    backendKind,
+    getFileByPath,
+    writeFileAtPath,
+    deleteFile,
+    addLogMessage
+  } = useFileSystem();
+  const { settings } = useAISettings();
+  const [tasks, setTasks] = useState<AgentTask[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  const permissionRef = useRef<{ taskId: string; resolve: (allowed: boolean) => void } | null>(null);
+  // Tasks whose destructive steps the user allowed all at once
+  const allowAllRef = useRef(new Set<string>());
+  const snapshotsRef = useRef(new Map<string, TaskSnapshot>());
+
+  const updateTask = (id: string, update: (task: AgentTask) => Partial<AgentTask>) => {
+    setTasks(prev => prev.map(task => (task.id === id ? { ...task, ...update(task) } : task)));
+  };
+
+  // Both only touch refs, so they stay the same across renders
+  const cancelPermission = useCallback(() => {
+    permissionRef.current?.resolve(false);
+    permissionRef.current = null;
+  }, []);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+    cancelPermission();
+  }, [cancelPermission]);
+
+  // Tasks and their snapshots belong to the workspace they ran in
+  useEffect(() => {
+    stop();
+    setTasks([]);
+    allowAllRef.current.clear();
+    snapshotsRef.current.clear();
+  }, [workspaceId, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  const readFile = (path: string) => {
+    const item = getFileByPath(path);
+    return item?.type === 'file' ? item.content || '' : undefined;
+  };
+
+  const createEnvironment = (taskId: string): AgentEnvironment => {
+    const snapshot: TaskSnapshot = { files: new Map(), folders: [] };
+    snapshotsRef.current.set(taskId, snapshot);
+
+    const remember = (path: string) => {
+      if (snapshot.files.has(path)) return;
+      snapshot.files.set(path, readFile(path) ?? null);
+      updateTask(taskId, () => ({ changedPaths: [...snapshot.files.keys()] }));
+    };
+
+    // Writing a file creates the folders it goes in
+    const rememberFolders = (path: string) => {
+      const parts = path.split('/').filter(Boolean);
+      for (let i = 1; i < parts.length; i++) {
+        const folder = parts.slice(0, i).join('/');
+        if (!getFileByPath(folder)) snapshot.folders.push(folder);
+      }
+    };
+
+    return {
+      listFiles: () => {
+        const root = getFileByPath('');
+        return root ? flattenFiles([root]).map(file => toStoragePath(file.path)) : [];
+      },
+      readFile,
+      writeFile: (path, content) => {
+        remember(path);
+        rememberFolders(path);
+        writeFileAtPath(path, content);
+      },
+      deleteFile: (path) => {
+        const item = getFileByPath(path);
+        if (!item) return;
+        remember(path);
+        deleteFile(item.id);
+      },
+      // Commands need a real shell, which only the dev server's disk workspace has
+      runCommand: backendKind === 'http'
+        ? (command, signal) => {
+          updateTask(taskId, () => ({ ranCommands: true }));
+          return runWorkspaceCommand(command, signal);
+        }
+        : undefined,
+    };
+  };
+
+  const handleEvent = (taskId: string, event: AgentEvent) => {
+    if (event.type === 'thinking') {
+      updateTask(taskId, () => ({ thinking: true }));
+      return;
+    }
+
+    if (event.type === 'message') {
+      updateTask(taskId, task => ({
+        thinking: false,
+        steps: [...task.steps, { id: `message-${task.steps.length}`, kind: 'message', content: event.content }],
+      }));
+      return;
+    }
+
+    const { id, call, status, output } = event;
+    updateTask(taskId, task => ({
+      thinking: false,
+      steps: task.steps.some(step => step.id === id)
+        ? task.steps.map(step => (step.id === id ? { ...step, status, output } : step))
+        : [...task.steps, { id, kind: 'tool', call, status, output }],
+    }));
+
+    if (status === 'done' && LOGGED_TOOLS.includes(call.tool)) {
+      addLogMessage('info', `AI Coworker: ${describeToolCall(call)}`);
+    }
+  };
+
+  const requestPermission = (taskId: string) => {
+    if (allowAllRef.current.has(taskId)) return Promise.resolve(true);
+
+    return new Promise<boolean>(resolve => {
+      permissionRef.current = { taskId, resolve };
+    });
+  };
+
+  // Answer the permission prompt of the running task
+  const respondToPermission = (decision: PermissionDecision) => {
+    const pending = permissionRef.current;
+    if (!pending) return;
+
+    permissionRef.current = null;
+    if (decision === 'allow-all') {
+      allowAllRef.current.add(pending.taskId);
+    }
+    pending.resolve(decision !== 'deny');
+  };
+
+  const runTask = async (prompt: string) => {
+    if (controllerRef.current || !prompt.trim()) return;
+
+    const id = generateId();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+
+    const { text, report } = getContext(prompt);
+    setTasks(prev => [...prev, {
+      id,
+      prompt,
+      status: 'running',
+      steps: [],
+      thinking: true,
+      context: report,
+      changedPaths: [],
+      ranCommands: false,
+      startedAt: new Date(),
+    }]);
+
+    try {
+      const answer = await runAgent({
+        task: prompt,
+        context: text,
+        settings,
+        env: createEnvironment(id),
+        signal: controller.signal,
+        onEvent: event => handleEvent(id, event),
+        requestPermission: () => requestPermission(id),
+      });
+      updateTask(id, () => ({ status: 'done', thinking: false, answer }));
+      addLogMessage('success', 'AI Coworker finished the task');
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateTask(id, () => ({ status: 'cancelled', thinking: false }));
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        updateTask(id, () => ({ status: 'error', thinking: false, error: message }));
+        addLogMessage('error', `AI Coworker: ${message}`);
+      }
+    } finally {
+      cancelPermission();
+      allowAllRef.current.delete(id);
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsRunning(false);
+      }
+    }
+  };
+
+  // Put every file the task touched back the way it was before the task, and remove the folders it
+  // created once they are empty again. Changes its commands made are out of reach.
+  const revertTask = (taskId: string) => {
+    const snapshot = snapshotsRef.current.get(taskId);
+    if (!snapshot || controllerRef.current) return;
+
+    snapshot.files.forEach((before, path) => {
+      const item = getFileByPath(path);
+      if (before === null) {
+        if (item) deleteFile(item.id);
+      } else if (item?.type !== 'file' || item.content !== before) {
+        writeFileAtPath(path, before);
+      }
+    });
+
+    // Deepest first, so a parent is empty by the time it comes up
+    [...snapshot.folders].reverse().forEach(path => {
+      const item = getFileByPath(path);
+      if (item?.type === 'folder' && !item.children?.length) deleteFile(item.id);
+    });
+
+    const ranCommands = tasks.find(task => task.id === taskId)?.ranCommands;
+    const count = snapshot.files.size;
+    snapshotsRef.current.delete(taskId);
+    updateTask(taskId, () => ({ status: 'reverted' }));
+    addLogMessage('info', `AI Coworker: reverted ${count} file${count === 1 ? '' : 's'}${ranCommands ? '; changes made by its commands were kept' : ''}`);
+    toast.success('Task reverted', ranCommands ? { description: 'Changes made by the commands it ran were kept.' } : undefined);
+  };
+
+  const canRevert = (taskId: string) => {
+    const snapshot = snapshotsRef.current.get(taskId);
+    return !isRunning && Boolean(snapshot && (snapshot.files.size || snapshot.folders.length));
+  };
+
+  const clearTasks = () => {
+    if (controllerRef.current) return;
+    setTasks([]);
+    snapshotsRef.current.clear();
+  };
+
+  return {
+    tasks,
+    isRunning,
+    runTask,
+    stop,
+    respondToPermission,
+    revertTask,
+    canRevert,
+    clearTasks,
+  };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+import { registerAssistant } from '@/lib/ai/assistantRequests';
+import { toast } from 'sonner';
+
+// Make a chat panel answer messages sent from elsewhere in the IDE, once its conversation is loaded
+export function useAssistantRequests(sendMessage: (text: string) => void, isReady: boolean, isStreaming: boolean) {
+  const sendMessageRef = useRef(sendMessage);
+  const isStreamingRef = useRef(isStreaming);
+  sendMessageRef.current = sendMessage;
+  isStreamingRef.current = isStreaming;
+
+  useEffect(() => {
+    if (!isReady) return;
+
+    return registerAssistant(message => {
+      if (isStreamingRef.current) {
+        toast.error('The assistant is still answering; try again when it is done');
+        return;
+      }
+      sendMessageRef.current(message);
+    });
+  }, [isReady]);
+}
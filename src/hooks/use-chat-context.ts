@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import { useEditor } from '@/contexts/EditorContext';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { parseMentions } from '@/lib/ai/mentions';
+import { buildWorkspaceContext, SelectionInfo } from '@/lib/ai/workspaceContext';
+import { flattenFiles, toStoragePath } from '@/lib/storage/tree';
+import { toast } from 'sonner';
+
+const MAX_RECENT_FILES = 20;
+
+// Workspace context for a chat panel: tracks recently active files and the files pinned or
+// excluded with @mentions, and builds the budgeted context for each message
+export function useChatContext() {
+  const { files } = useFileSystem();
+  const { openedTabs, activeTabId, getTabContent, monacoInstance } = useEditor();
+  const { settings } = useAISettings();
+  const [pinnedPaths, setPinnedPaths] = useState<string[]>([]);
+  const [excludedPaths, setExcludedPaths] = useState<string[]>([]);
+  const recentPathsRef = useRef<string[]>([]);
+
+  const activeTab = openedTabs.find(tab => tab.id === activeTabId);
+  const activePath = activeTab ? toStoragePath(activeTab.path) : undefined;
+
+  // Most recently active first
+  useEffect(() => {
+    if (!activePath) return;
+    recentPathsRef.current = [activePath, ...recentPathsRef.current.filter(path => path !== activePath)]
+      .slice(0, MAX_RECENT_FILES);
+  }, [activePath]);
+
+  const getSelection = (): SelectionInfo | null => {
+    const selection = monacoInstance?.getSelection();
+    const model = monacoInstance?.getModel();
+    if (!selection || !model || selection.isEmpty()) return null;
+
+    return {
+      text: model.getValueInRange(selection),
+      startLine: selection.startLineNumber,
+      endLine: selection.endLineNumber,
+    };
+  };
+
+  const getContext = (message: string) => {
+    const paths = flattenFiles(files).map(file => toStoragePath(file.path));
+    const mentions = parseMentions(message, paths);
+
+    if (mentions.unresolved.length > 0) {
+      toast.warning(`No file matches ${mentions.unresolved.map(mention => `@${mention}`).join(', ')}`);
+    }
+
+    // Mentions stick for the rest of the conversation; the latest one wins
+    const pinned = [...pinnedPaths.filter(path => !mentions.excluded.includes(path)), ...mentions.pinned]
+      .filter((path, index, all) => all.indexOf(path) === index);
+    const excluded = [...excludedPaths.filter(path => !mentions.pinned.includes(path)), ...mentions.excluded]
+      .filter((path, index, all) => all.indexOf(path) === index);
+    setPinnedPaths(pinned);
+    setExcludedPaths(excluded);
+
+    return buildWorkspaceContext({
+      files,
+      activeFile: activeTab && activePath
+        ? { path: activePath, language: activeTab.language, content: getTabContent(activeTab.id) }
+        : null,
+      selection: getSelection(),
+      openPaths: openedTabs.map(tab => toStoragePath(tab.path)),
+      recentPaths: recentPathsRef.current,
+      pinnedPaths: pinned,
+      excludedPaths: excluded,
+      budget: settings.providers[settings.provider].contextTokens,
+    });
+  };
+
+  const unpin = (path: string) => setPinnedPaths(prev => prev.filter(item => item !== path));
+  const unexclude = (path: string) => setExcludedPaths(prev => prev.filter(item => item !== path));
+
+  return { getContext, pinnedPaths, excludedPaths, unpin, unexclude };
+}
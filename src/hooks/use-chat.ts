@@ -0,0 +1,292 @@
+import { useEffect, useRef, useState } from 'react';
+import { isAbortError, streamChatResponse } from '@/lib/ai/chatService';
+import { useAISettings } from '@/contexts/AISettingsContext';
+import { useFileSystem } from '@/contexts/FileSystemContext';
+import type { ContextReport, WorkspaceContext } from '@/lib/ai/workspaceContext';
+import {
+  Conversation,
+  createConversation,
+  findLatestLeaf,
+  getSiblings,
+  getThread,
+  removeMessages,
+  titleFromMessage,
+} from '@/lib/ai/conversations';
+import {
+  listConversations,
+  loadConversation,
+  renameConversation as renameStoredConversation,
+  saveConversation,
+  subscribeToConversations,
+} from '@/lib/ai/conversationStore';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  // Only assistant messages go through streaming; user messages are always 'done'
+  status: 'streaming' | 'done' | 'cancelled' | 'error';
+  error?: string;
+  // What workspace context a user message was sent with
+  context?: ContextReport;
+  // Message this one follows in the conversation tree; null for the first one
+  parentId?: string | null;
+}
+
+interface UseChatOptions {
+  // Workspace context, built fresh for every request
+  getContext?: (message: string) => WorkspaceContext;
+  onResponse?: (message: ChatMessage) => void;
+}
+
+let messageCounter = 0;
+const createMessageId = () => `${Date.now()}-${++messageCounter}`;
+
+export const createChatMessage = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: createMessageId(),
+  role,
+  content,
+  timestamp: new Date(),
+  status: 'done',
+});
+
+const persist = (conversation: Conversation) => {
+  // Blank conversations only get stored once something is said
+  if (conversation.messages.length === 0) return;
+  saveConversation(conversation).catch(error => console.error('Error saving conversation:', error));
+};
+
+// Conversation state for a chat panel: sends messages, streams replies in, and can stop or retry
+// them. Conversations are stored per project and reopen where they were left.
+export function useChat({ getContext, onResponse }: UseChatOptions = {}) {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const { settings } = useAISettings();
+  const { workspaceId, supportsProjects, backendKind, files } = useFileSystem();
+  const conversationRef = useRef<Conversation | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Backends without projects have no stable workspace id; their folder name stands in
+  const rootName = files[0]?.name;
+  const projectId = supportsProjects ? workspaceId : rootName ? `${backendKind}:${rootName}` : null;
+
+  const showConversation = (next: Conversation) => {
+    conversationRef.current = next;
+    setConversation(next);
+  };
+
+  const updateConversation = (update: (prev: Conversation) => Conversation, save = false) => {
+    if (!conversationRef.current) return;
+    showConversation(update(conversationRef.current));
+    if (save) persist(conversationRef.current!);
+  };
+
+  const updateMessage = (id: string, changes: Partial<ChatMessage>, save = false) => {
+    updateConversation(prev => ({
+      ...prev,
+      messages: prev.messages.map(message => message.id === id ? { ...message, ...changes } : message),
+      updatedAt: save ? Date.now() : prev.updatedAt,
+    }), save);
+  };
+
+  // Reopen the project's latest conversation when the project changes
+  useEffect(() => {
+    if (!projectId) return;
+
+    abortRef.current?.abort();
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [latest] = await listConversations(projectId);
+        const loaded = latest ? await loadConversation(latest.id) : undefined;
+        if (!cancelled) showConversation(loaded || createConversation(projectId));
+      } catch (error) {
+        console.error('Error loading conversations:', error);
+        if (!cancelled) showConversation(createConversation(projectId));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  // Pick up changes made elsewhere, e.g. the other chat panel or a rename from the list
+  useEffect(() => {
+    return subscribeToConversations(async (changedProjectId) => {
+      const current = conversationRef.current;
+      if (!current || current.projectId !== changedProjectId || abortRef.current) return;
+
+      try {
+        const stored = await loadConversation(current.id);
+        if (conversationRef.current?.id !== current.id) return;
+
+        if (!stored) {
+          // Deleted; only start over if it had been stored at all
+          if (current.messages.length > 0) showConversation(createConversation(current.projectId));
+        } else if (stored.updatedAt > current.updatedAt) {
+          showConversation(stored);
+        }
+      } catch (error) {
+        console.error('Error refreshing conversation:', error);
+      }
+    });
+  }, []);
+
+  // Ask for a reply to `message`, which follows its parent in the conversation
+  const requestReply = async (message: ChatMessage) => {
+    const current = conversationRef.current;
+    if (!current) return;
+
+    const context = getContext?.(message.content);
+    const userMessage = context ? { ...message, context: context.report } : message;
+    const reply: ChatMessage = { ...createChatMessage('assistant', ''), status: 'streaming', parentId: userMessage.id };
+    const history = getThread({ ...current, leafId: userMessage.parentId ?? null });
+
+    updateConversation(prev => ({
+      ...prev,
+      title: prev.messages.length === 0 ? titleFromMessage(userMessage.content) : prev.title,
+      messages: [...prev.messages.filter(item => item.id !== userMessage.id), userMessage, reply],
+      leafId: reply.id,
+      updatedAt: Date.now(),
+    }), true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsStreaming(true);
+
+    let content = '';
+    try {
+      const stream = streamChatResponse({
+        history: history
+          .filter(item => item.status !== 'error')
+          .map(({ role, content }) => ({ role, content })),
+        message: userMessage.content,
+        context: context?.text,
+        signal: controller.signal,
+      }, settings);
+
+      for await (const chunk of stream) {
+        content += chunk;
+        updateMessage(reply.id, { content });
+      }
+
+      updateMessage(reply.id, { status: 'done' }, true);
+      onResponse?.({ ...reply, content, status: 'done' });
+    } catch (error) {
+      if (isAbortError(error)) {
+        updateMessage(reply.id, { status: 'cancelled' }, true);
+      } else {
+        console.error('Chat request failed:', error);
+        updateMessage(reply.id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }, true);
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  };
+
+  const sendMessage = (text: string) => {
+    if (!text.trim() || abortRef.current || !conversationRef.current) return;
+    requestReply({ ...createChatMessage('user', text.trim()), parentId: conversationRef.current.leafId });
+  };
+
+  // Edit an earlier user message: the edit becomes a new branch next to the original
+  const editMessage = (id: string, text: string) => {
+    const original = conversationRef.current?.messages.find(message => message.id === id);
+    if (!text.trim() || abortRef.current || !original || original.role !== 'user') return;
+    requestReply({ ...createChatMessage('user', text.trim()), parentId: original.parentId ?? null });
+  };
+
+  // Stop the reply being streamed; what arrived so far is kept
+  const stop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Ask again for the last reply, e.g. after an error; the failed reply is dropped
+  const retry = () => {
+    const current = conversationRef.current;
+    if (abortRef.current || !current) return;
+
+    const thread = getThread(current);
+    const lastUserIndex = thread.map(message => message.role).lastIndexOf('user');
+    if (lastUserIndex === -1) return;
+
+    const failed = thread.slice(lastUserIndex + 1).map(message => message.id);
+    showConversation({ ...current, messages: removeMessages(current, failed) });
+    requestReply(thread[lastUserIndex]);
+  };
+
+  // Which of its alternatives a message is, for "2 / 3" branch switchers
+  const getBranchInfo = (message: ChatMessage) => {
+    if (!conversation) return { index: 0, count: 1 };
+    const siblings = getSiblings(conversation, message);
+    return { index: siblings.findIndex(sibling => sibling.id === message.id), count: siblings.length };
+  };
+
+  // Show the previous (-1) or next (1) alternative to a message, with the rest of its branch
+  const switchBranch = (messageId: string, offset: number) => {
+    const current = conversationRef.current;
+    const message = current?.messages.find(item => item.id === messageId);
+    if (abortRef.current || !current || !message) return;
+
+    const siblings = getSiblings(current, message);
+    const target = siblings[siblings.findIndex(sibling => sibling.id === messageId) + offset];
+    if (!target) return;
+
+    updateConversation(prev => ({ ...prev, leafId: findLatestLeaf(prev, target.id) }), true);
+  };
+
+  const newConversation = () => {
+    if (!projectId) return;
+    stop();
+    showConversation(createConversation(projectId));
+  };
+
+  const openConversation = async (id: string) => {
+    stop();
+    try {
+      const loaded = await loadConversation(id);
+      if (loaded) showConversation(loaded);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+    }
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    if (conversationRef.current?.id === id) {
+      updateConversation(prev => ({ ...prev, title, updatedAt: Date.now() }), true);
+      return;
+    }
+    await renameStoredConversation(id, title);
+  };
+
+  // Don't keep streaming into a panel that is gone
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  return {
+    messages: conversation ? getThread(conversation) : [],
+    conversation,
+    projectId,
+    isStreaming,
+    sendMessage,
+    editMessage,
+    stop,
+    retry,
+    getBranchInfo,
+    switchBranch,
+    newConversation,
+    openConversation,
+    renameConversation,
+  };
+}
@@ -0,0 +1,72 @@
+import { AgentEnvironment, ToolCall, describeTools, isToolName } from './tools';
+
+// Tool calls travel as text, so the agent works with every provider, function calling or not
+export const buildAgentPrompt = (env: AgentEnvironment) => `You are AI Coworker, an expert programmer working directly in the user's workspace. You complete the user's task step by step with tools, looking at each result before deciding what to do next.
+
+To use a tool, end your reply with exactly one fenced block whose info string is "tool", holding a JSON object with the tool name and its arguments:
+
+\`\`\`tool
+{"tool": "read_file", "path": "src/App.tsx"}
+\`\`\`
+
+Before the block, say in a sentence what you are about to do and why. The result comes back in the next message. Use one tool per reply.
+
+Available tools:
+${describeTools(env)}
+
+Paths are relative to the workspace root. Read a file before changing it, and prefer edit_file over write_file for changes to existing files. Some tools need the user's permission; if they deny it, find another way or stop and explain.
+
+When the task is done, or you cannot make progress, reply without a tool block and summarise what you changed.`;
+
+export interface AgentReply {
+  // The reply without the tool block
+  text: string;
+  // The reply up to the end of the tool block; models sometimes go on to imagine the result
+  content: string;
+  call?: ToolCall;
+  // Set when the reply has a tool block that isn't a valid call
+  error?: string;
+}
+
+const TOOL_BLOCK_PATTERN = /^(`{3,})tool[ \t]*\r?\n([\s\S]*?)^\1`*[ \t]*$/m;
+
+// Split a model reply into its text and the tool call it ends with, if any
+export const parseAgentReply = (reply: string): AgentReply => {
+  const match = TOOL_BLOCK_PATTERN.exec(reply);
+  if (!match) return { text: reply.trim(), content: reply };
+
+  const text = reply.slice(0, match.index).trim();
+  const content = reply.slice(0, match.index + match[0].length);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[2]);
+  } catch {
+    return { text, content, error: 'The tool block is not valid JSON' };
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { text, content, error: 'The tool block must hold a JSON object' };
+  }
+
+  const { tool, ...args } = parsed as Record<string, unknown>;
+  if (!isToolName(tool)) {
+    return { text, content, error: `Unknown tool: ${String(tool)}` };
+  }
+
+  // Accept arguments nested under "args" too, which models sometimes do
+  const nested = args.args && typeof args.args === 'object' && !Array.isArray(args.args) ? args.args as Record<string, unknown> : null;
+  return { text, content, call: { tool, args: nested && Object.keys(args).length === 1 ? nested : args } };
+};
+
+// The message that carries a tool's result back to the model
+export const formatToolResult = (call: ToolCall, result: string, status: 'done' | 'error' | 'denied') => {
+  switch (status) {
+    case 'done':
+      return `Result of ${call.tool}:\n${result}`;
+    case 'error':
+      return `${call.tool} failed: ${result}`;
+    case 'denied':
+      return `The user denied permission for ${call.tool}.`;
+  }
+};
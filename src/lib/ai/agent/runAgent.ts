@@ -0,0 +1,98 @@
+import { completeChat } from '../chatService';
+import { AISettings, ProviderMessage } from '../types';
+import { buildAgentPrompt, formatToolResult, parseAgentReply } from './protocol';
+import { AgentEnvironment, ToolCall, needsPermission, runTool } from './tools';
+
+export type ToolStepStatus = 'waiting' | 'running' | 'done' | 'error' | 'denied';
+
+// What the loop reports as it goes, for the timeline
+export type AgentEvent =
+  | { type: 'thinking' }
+  | { type: 'message'; content: string }
+  | { type: 'tool'; id: string; call: ToolCall; status: ToolStepStatus; output?: string };
+
+export interface AgentRunOptions {
+  task: string;
+  // Workspace files and the open editor, sent ahead of the task
+  context?: string;
+  settings: AISettings;
+  env: AgentEnvironment;
+  signal: AbortSignal;
+  onEvent: (event: AgentEvent) => void;
+  // Resolves with whether a destructive call may go ahead
+  requestPermission: (call: ToolCall) => Promise<boolean>;
+  maxSteps?: number;
+}
+
+const DEFAULT_MAX_STEPS = 30;
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException('Aborted', 'AbortError');
+};
+
+// Ask the model for a step, run the tool it picks, feed back the result, until it answers without
+// a tool. Resolves with the final answer; aborting the signal rejects with an AbortError.
+export const runAgent = async ({
+  task,
+  context,
+  settings,
+  env,
+  signal,
+  onEvent,
+  requestPermission,
+  maxSteps = DEFAULT_MAX_STEPS,
+}: AgentRunOptions): Promise<string> => {
+  const prompt = buildAgentPrompt(env);
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: context ? `${prompt}\n\n${context}` : prompt },
+    { role: 'user', content: task },
+  ];
+
+  for (let step = 0; step < maxSteps; step++) {
+    onEvent({ type: 'thinking' });
+    const reply = parseAgentReply(await completeChat(messages, settings, {}, signal));
+    throwIfAborted(signal);
+
+    if (!reply.call && !reply.error) {
+      return reply.text;
+    }
+
+    if (reply.text) onEvent({ type: 'message', content: reply.text });
+    messages.push({ role: 'assistant', content: reply.content });
+
+    if (!reply.call) {
+      messages.push({ role: 'user', content: `${reply.error}. Send one valid tool block, or answer without one.` });
+      continue;
+    }
+
+    const call = reply.call;
+    const id = String(step);
+
+    if (needsPermission(call, env)) {
+      onEvent({ type: 'tool', id, call, status: 'waiting' });
+      const allowed = await requestPermission(call);
+      throwIfAborted(signal);
+
+      if (!allowed) {
+        onEvent({ type: 'tool', id, call, status: 'denied' });
+        messages.push({ role: 'user', content: formatToolResult(call, '', 'denied') });
+        continue;
+      }
+    }
+
+    onEvent({ type: 'tool', id, call, status: 'running' });
+    try {
+      const output = await runTool(call, env, signal);
+      onEvent({ type: 'tool', id, call, status: 'done', output });
+      messages.push({ role: 'user', content: formatToolResult(call, output, 'done') });
+    } catch (error) {
+      throwIfAborted(signal);
+      // Failed calls go back to the model, which can usually correct itself
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      onEvent({ type: 'tool', id, call, status: 'error', output: message });
+      messages.push({ role: 'user', content: formatToolResult(call, message, 'error') });
+    }
+  }
+
+  throw new Error(`Stopped after ${maxSteps} steps without finishing the task`);
+};
@@ -0,0 +1,227 @@
+import type { CommandResult } from '@/api/commands';
+
+// What the agent's tools act on. Paths are workspace-relative, e.g. "src/App.tsx".
+export interface AgentEnvironment {
+  listFiles: () => string[];
+  readFile: (path: string) => string | undefined;
+  writeFile: (path: string, content: string) => void;
+  deleteFile: (path: string) => void;
+  // Only when the workspace is on disk with a shell behind it
+  runCommand?: (command: string, signal?: AbortSignal) => Promise<CommandResult>;
+}
+
+export type ToolName = 'list_files' | 'read_file' | 'search' | 'write_file' | 'edit_file' | 'delete_file' | 'run_command';
+
+export interface ToolCall {
+  tool: ToolName;
+  args: Record<string, unknown>;
+}
+
+interface ToolDefinition {
+  name: ToolName;
+  // Arguments and behaviour, as the model sees them
+  usage: string;
+  // Destructive calls wait for the user's permission
+  needsPermission?: (args: Record<string, unknown>, env: AgentEnvironment) => boolean;
+  run: (args: Record<string, unknown>, env: AgentEnvironment, signal?: AbortSignal) => string | Promise<string>;
+}
+
+// Thrown for bad tool calls; the message goes back to the model so it can correct itself
+class ToolError extends Error {}
+
+const MAX_LISTED_FILES = 500;
+const MAX_READ_LENGTH = 30000;
+const MAX_SEARCH_RESULTS = 100;
+const MAX_SEARCH_LINE_LENGTH = 200;
+
+// Models write paths in all sorts of ways: "./src/a.ts", "/src/a.ts", "src\\a.ts"
+export const normalizePath = (path: string) => {
+  return path.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.').join('/');
+};
+
+const stringArg = (args: Record<string, unknown>, name: string, optional = false): string => {
+  const value = args[name];
+  if (typeof value === 'string') return value;
+  if (optional && value === undefined) return '';
+  throw new ToolError(`"${name}" must be a string`);
+};
+
+const pathArg = (args: Record<string, unknown>, name = 'path') => {
+  const path = normalizePath(stringArg(args, name));
+  if (!path) throw new ToolError(`"${name}" must not be empty`);
+  return path;
+};
+
+const readExisting = (env: AgentEnvironment, path: string) => {
+  const content = env.readFile(path);
+  if (content === undefined) throw new ToolError(`File not found: ${path}`);
+  return content;
+};
+
+// Overwriting or editing a file the user already has asks first; creating a new one doesn't
+const changesExistingFile = (args: Record<string, unknown>, env: AgentEnvironment) => {
+  return typeof args.path === 'string' && env.readFile(normalizePath(args.path)) !== undefined;
+};
+
+const countOccurrences = (text: string, search: string) => {
+  let count = 0;
+  for (let index = text.indexOf(search); index !== -1; index = text.indexOf(search, index + search.length)) {
+    count++;
+  }
+  return count;
+};
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'list_files',
+    usage: '{"path"?: string} - list the files in the workspace, or under one folder',
+    run: (args, env) => {
+      const folder = normalizePath(stringArg(args, 'path', true));
+      const files = env.listFiles().filter(path => !folder || path.startsWith(`${folder}/`));
+      if (files.length === 0) return folder ? `No files under ${folder}` : 'The workspace is empty';
+
+      const listed = files.slice(0, MAX_LISTED_FILES).join('\n');
+      return files.length > MAX_LISTED_FILES ? `${listed}\n(${files.length - MAX_LISTED_FILES} more)` : listed;
+    },
+  },
+  {
+    name: 'read_file',
+    usage: '{"path": string} - read a file',
+    run: (args, env) => {
+      const content = readExisting(env, pathArg(args));
+      return content.length > MAX_READ_LENGTH
+        ? `${content.slice(0, MAX_READ_LENGTH)}\n[truncated, ${content.length - MAX_READ_LENGTH} more characters]`
+        : content;
+    },
+  },
+  {
+    name: 'search',
+    usage: '{"query": string, "path"?: string} - find lines containing the text (case-insensitive), optionally under one folder',
+    run: (args, env) => {
+      const query = stringArg(args, 'query').toLowerCase();
+      if (!query) throw new ToolError('"query" must not be empty');
+      const folder = normalizePath(stringArg(args, 'path', true));
+
+      const results: string[] = [];
+      for (const path of env.listFiles()) {
+        if (folder && !path.startsWith(`${folder}/`)) continue;
+
+        const lines = (env.readFile(path) || '').split('\n');
+        for (let i = 0; i < lines.length && results.length <= MAX_SEARCH_RESULTS; i++) {
+          if (lines[i].toLowerCase().includes(query)) {
+            results.push(`${path}:${i + 1}: ${lines[i].trim().slice(0, MAX_SEARCH_LINE_LENGTH)}`);
+          }
+        }
+        if (results.length > MAX_SEARCH_RESULTS) break;
+      }
+
+      if (results.length === 0) return 'No matches';
+      return results.length > MAX_SEARCH_RESULTS
+        ? `${results.slice(0, MAX_SEARCH_RESULTS).join('\n')}\n(more matches not shown; narrow the search)`
+        : results.join('\n');
+    },
+  },
+  {
+    name: 'write_file',
+    usage: '{"path": string, "content": string} - create a file, or replace all of an existing one',
+    needsPermission: changesExistingFile,
+    run: (args, env) => {
+      const path = pathArg(args);
+      const content = stringArg(args, 'content');
+      const existed = env.readFile(path) !== undefined;
+      env.writeFile(path, content);
+      return existed ? `Replaced ${path}` : `Created ${path}`;
+    },
+  },
+  {
+    name: 'edit_file',
+    usage: '{"path": string, "old_text": string, "new_text": string} - replace text that occurs exactly once in a file; include enough surrounding lines to make it unique',
+    needsPermission: changesExistingFile,
+    run: (args, env) => {
+      const path = pathArg(args);
+      const oldText = stringArg(args, 'old_text');
+      const newText = stringArg(args, 'new_text');
+      const content = readExisting(env, path);
+
+      if (!oldText) throw new ToolError('"old_text" must not be empty');
+      const count = countOccurrences(content, oldText);
+      if (count === 0) throw new ToolError(`"old_text" was not found in ${path}; read the file again and copy the text exactly`);
+      if (count > 1) throw new ToolError(`"old_text" occurs ${count} times in ${path}; include more surrounding lines`);
+
+      const index = content.indexOf(oldText);
+      env.writeFile(path, content.slice(0, index) + newText + content.slice(index + oldText.length));
+      return `Edited ${path}`;
+    },
+  },
+  {
+    name: 'delete_file',
+    usage: '{"path": string} - delete a file',
+    needsPermission: () => true,
+    run: (args, env) => {
+      const path = pathArg(args);
+      readExisting(env, path);
+      env.deleteFile(path);
+      return `Deleted ${path}`;
+    },
+  },
+  {
+    name: 'run_command',
+    usage: '{"command": string} - run a shell command in the workspace root and get its output, e.g. to build or run tests; not for long-running processes like dev servers',
+    needsPermission: () => true,
+    run: async (args, env, signal) => {
+      const command = stringArg(args, 'command').trim();
+      if (!command) throw new ToolError('"command" must not be empty');
+      if (!env.runCommand) throw new ToolError('Commands are not available in this workspace');
+
+      const { output, exitCode, timedOut } = await env.runCommand(command, signal);
+      const status = timedOut ? 'Timed out' : `Exit code ${exitCode ?? 'unknown'}`;
+      return `${status}\n${output.trim() || '(no output)'}`;
+    },
+  },
+];
+
+// The tools this environment supports
+export const getAvailableTools = (env: AgentEnvironment) => {
+  return TOOLS.filter(tool => tool.name !== 'run_command' || env.runCommand);
+};
+
+export const describeTools = (env: AgentEnvironment) => {
+  return getAvailableTools(env).map(tool => `- ${tool.name} ${tool.usage}`).join('\n');
+};
+
+export const isToolName = (name: unknown): name is ToolName => {
+  return TOOLS.some(tool => tool.name === name);
+};
+
+export const needsPermission = (call: ToolCall, env: AgentEnvironment) => {
+  return TOOLS.find(tool => tool.name === call.tool)?.needsPermission?.(call.args, env) ?? false;
+};
+
+// Run a call; throws ToolError for bad arguments and unavailable tools
+export const runTool = async (call: ToolCall, env: AgentEnvironment, signal?: AbortSignal) => {
+  const tool = getAvailableTools(env).find(tool => tool.name === call.tool);
+  if (!tool) throw new ToolError(`Unknown tool: ${call.tool}`);
+  return tool.run(call.args, env, signal);
+};
+
+// One-line summary for the timeline and the permission prompt
+export const describeToolCall = ({ tool, args }: ToolCall) => {
+  const text = (name: string) => (typeof args[name] === 'string' ? normalizePath(args[name] as string) : '?');
+
+  switch (tool) {
+    case 'list_files':
+      return typeof args.path === 'string' && normalizePath(args.path) ? `List files in ${text('path')}` : 'List files';
+    case 'read_file':
+      return `Read ${text('path')}`;
+    case 'search':
+      return `Search for "${typeof args.query === 'string' ? args.query : '?'}"`;
+    case 'write_file':
+      return `Write ${text('path')}`;
+    case 'edit_file':
+      return `Edit ${text('path')}`;
+    case 'delete_file':
+      return `Delete ${text('path')}`;
+    case 'run_command':
+      return `Run \`${typeof args.command === 'string' ? args.command : '?'}\``;
+  }
+};
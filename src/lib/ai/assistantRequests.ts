@@ -0,0 +1,35 @@
+// Lets other parts of the IDE (e.g. editor actions) send a message to the chat panel. Messages
+// sent while no panel is mounted wait until one is, and ask for the panel to be shown.
+
+type MessageHandler = (message: string) => void;
+
+let handler: MessageHandler | null = null;
+const pending: string[] = [];
+const showListeners = new Set<() => void>();
+
+export const askAssistant = (message: string) => {
+  if (handler) {
+    handler(message);
+    return;
+  }
+  pending.push(message);
+  showListeners.forEach(listener => listener());
+};
+
+// The chat panel that answers; the last one registered wins
+export const registerAssistant = (messageHandler: MessageHandler) => {
+  handler = messageHandler;
+  pending.splice(0).forEach(message => messageHandler(message));
+
+  return () => {
+    if (handler === messageHandler) handler = null;
+  };
+};
+
+// Called when a message arrives and no chat panel is there to take it
+export const onAssistantNeeded = (listener: () => void) => {
+  showListeners.add(listener);
+  return () => {
+    showListeners.delete(listener);
+  };
+};
@@ -0,0 +1,74 @@
+import { EDIT_PROPOSAL_INSTRUCTIONS } from './editProposals';
+import { providers } from './providers';
+import { AISettings, ChatRequest, ProviderMessage, ProviderSettings } from './types';
+
+export { isAbortError } from './abort';
+export type { ChatRequest, ChatRole, ChatTurn } from './types';
+
+export const SYSTEM_PROMPT = `You are CodeBuddy, an expert programming assistant. Your role is to:
+1. Help users with coding tasks, debugging, and best practices
+2. Provide clear, concise explanations with code examples
+3. Follow modern development standards and patterns
+4. Consider security, performance, and maintainability
+5. Use markdown formatting for better readability
+6. Include relevant documentation links when helpful
+7. Break down complex problems into manageable steps
+8. Suggest improvements and optimizations
+9. Help with both frontend and backend development
+10. Maintain a friendly and professional tone
+
+${EDIT_PROPOSAL_INSTRUCTIONS}`;
+
+// Why the selected provider can't be used yet, if it can't
+export const getConfigurationError = (settings: AISettings): string | null => {
+  const provider = providers[settings.provider];
+  const providerSettings = settings.providers[settings.provider];
+
+  if (provider.requiresApiKey && !providerSettings.apiKey) {
+    return `No API key configured for ${provider.label}. Add one in the AI settings.`;
+  }
+  if (provider.usesBaseUrl && !providerSettings.baseUrl) {
+    return `No server URL configured for ${provider.label}. Add one in the AI settings.`;
+  }
+  return null;
+};
+
+// Stream the reply to a message from the provider selected in the settings. Aborting the
+// signal stops the stream and rejects with an AbortError.
+export async function* streamChatResponse(request: ChatRequest, settings: AISettings): AsyncGenerator<string> {
+  const provider = providers[settings.provider];
+  const providerSettings = settings.providers[settings.provider];
+
+  const configurationError = getConfigurationError(settings);
+  if (configurationError) {
+    throw new Error(configurationError);
+  }
+
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: request.context ? `${SYSTEM_PROMPT}\n\n${request.context}` : SYSTEM_PROMPT },
+    ...request.history.filter(turn => turn.content.trim()),
+    { role: 'user', content: request.message },
+  ];
+
+  yield* provider.streamChat(messages, providerSettings, request.signal);
+}
+
+// One-off request with its own prompt, outside any conversation; resolves with the whole reply
+export const completeChat = async (
+  messages: ProviderMessage[],
+  settings: AISettings,
+  overrides: Partial<ProviderSettings> = {},
+  signal?: AbortSignal
+): Promise<string> => {
+  const configurationError = getConfigurationError(settings);
+  if (configurationError) {
+    throw new Error(configurationError);
+  }
+
+  const provider = providers[settings.provider];
+  let text = '';
+  for await (const chunk of provider.streamChat(messages, { ...settings.providers[settings.provider], ...overrides }, signal)) {
+    text += chunk;
+  }
+  return text;
+};
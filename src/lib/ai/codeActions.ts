@@ -0,0 +1,88 @@
+import { completeChat } from './chatService';
+import { AISettings, ProviderMessage } from './types';
+
+export type CodeActionId = 'explain' | 'refactor' | 'document' | 'tests' | 'fix';
+
+export interface CodeActionRequest {
+  action: CodeActionId;
+  // Workspace-relative path of the file the selection is in
+  path: string;
+  language: string;
+  fileContent: string;
+  selection: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  // Editor problems inside the selection, for "Fix This"
+  diagnostics?: string[];
+}
+
+export const CODE_ACTIONS: { id: CodeActionId; label: string }[] = [
+  { id: 'explain', label: 'Explain Selection' },
+  { id: 'refactor', label: 'Refactor Selection' },
+  { id: 'document', label: 'Add Doc Comment' },
+  { id: 'tests', label: 'Generate Unit Tests' },
+  { id: 'fix', label: 'Fix This' },
+];
+
+const CODE_ACTION_PROMPT = `You are an expert programmer editing code in the user's editor. Reply with only the requested code in a single fenced code block, with no explanation before or after it.`;
+
+const INSTRUCTIONS: Record<Exclude<CodeActionId, 'explain'>, string> = {
+  refactor: 'Refactor the selected code for readability and maintainability without changing its behaviour. Reply with the replacement for the selection only.',
+  document: 'Add a doc comment in the idiomatic style for this language to the selected code. Reply with the selection including the new comment, keeping the code itself unchanged.',
+  tests: 'Write unit tests for the selected code, using the test framework the project most likely uses. Reply with the complete contents of the test file.',
+  fix: 'Fix the bugs and problems in the selected code. Reply with the corrected replacement for the selection only.',
+};
+
+const fenceFor = (code: string, language: string) => {
+  const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${language}\n${code}\n${ticks}`;
+};
+
+const describeSelection = ({ path, startLine, endLine, selection, language }: CodeActionRequest) => {
+  return `\`${path}\` (lines ${startLine}-${endLine}):\n\n${fenceFor(selection, language)}`;
+};
+
+// The chat message "Explain Selection" sends; the chat adds the file itself as context
+export const buildExplainMessage = (request: CodeActionRequest) => {
+  return `Explain this code from ${describeSelection(request)}`;
+};
+
+// Where generated tests go: next to the file, e.g. src/utils.ts -> src/utils.test.ts
+export const getTestFilePath = (path: string) => {
+  const match = /^(.*?)(\.[^./]+)?$/.exec(path);
+  return `${match?.[1] || path}.test${match?.[2] || ''}`;
+};
+
+// The code inside the first fenced block of a reply, or the whole reply without one
+export const extractCodeBlock = (text: string) => {
+  const match = /^(`{3,})[^\n]*\n([\s\S]*?)\n\1`*[ \t]*$/m.exec(text);
+  return match ? match[2] : text.trim();
+};
+
+// Run a code-changing action; resolves with the replacement for the selection, or the test file for "tests"
+export const runCodeAction = async (
+  request: CodeActionRequest,
+  settings: AISettings,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (request.action === 'explain') {
+    throw new Error('Explain answers in the chat panel');
+  }
+
+  const problems = request.diagnostics?.length
+    ? `\n\nProblems reported by the editor:\n${request.diagnostics.map(problem => `- ${problem}`).join('\n')}`
+    : '';
+
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: CODE_ACTION_PROMPT },
+    {
+      role: 'user',
+      content: `Full file \`${request.path}\`:\n\n${fenceFor(request.fileContent, request.language)}\n\n` +
+        `Selected code from ${describeSelection(request)}${problems}\n\n${INSTRUCTIONS[request.action]}`,
+    },
+  ];
+
+  return extractCodeBlock(await completeChat(messages, settings, {}, signal));
+};
@@ -0,0 +1,95 @@
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/storage/idb';
+import type { Conversation, ConversationSummary } from './conversations';
+
+const DB_NAME = 'vortexity-chat';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const PROJECT_INDEX = 'projectId';
+
+type Listener = (projectId: string) => void;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const listeners = new Set<Listener>();
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const store = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        store.createIndex(PROJECT_INDEX, PROJECT_INDEX);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const notify = (projectId: string) => {
+  listeners.forEach(listener => listener(projectId));
+};
+
+// Called with the project whose conversations changed, so every open list can refresh
+export const subscribeToConversations = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Most recently updated first
+export const listConversations = async (projectId: string): Promise<ConversationSummary[]> => {
+  const db = await getDb();
+  const index = db.transaction(CONVERSATIONS_STORE).objectStore(CONVERSATIONS_STORE).index(PROJECT_INDEX);
+  const conversations: Conversation[] = await requestToPromise(index.getAll(projectId));
+
+  return conversations
+    .map(({ id, title, createdAt, updatedAt }) => ({ id, projectId, title, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadConversation = async (id: string): Promise<Conversation | undefined> => {
+  const db = await getDb();
+  const conversation: Conversation | undefined = await requestToPromise(
+    db.transaction(CONVERSATIONS_STORE).objectStore(CONVERSATIONS_STORE).get(id)
+  );
+  if (!conversation) return undefined;
+
+  // A reload interrupted whatever was streaming
+  return {
+    ...conversation,
+    messages: conversation.messages.map(message =>
+      message.status === 'streaming' ? { ...message, status: 'cancelled' } : message
+    ),
+  };
+};
+
+export const saveConversation = async (conversation: Conversation) => {
+  const db = await getDb();
+  const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  transaction.objectStore(CONVERSATIONS_STORE).put(conversation);
+  await transactionDone(transaction);
+  notify(conversation.projectId);
+};
+
+export const renameConversation = async (id: string, title: string) => {
+  const conversation = await loadConversation(id);
+  if (!conversation) return;
+  await saveConversation({ ...conversation, title, updatedAt: Date.now() });
+};
+
+export const deleteConversation = async (conversation: ConversationSummary) => {
+  const db = await getDb();
+  const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  transaction.objectStore(CONVERSATIONS_STORE).delete(conversation.id);
+  await transactionDone(transaction);
+  notify(conversation.projectId);
+};
+
+export const deleteProjectConversations = async (projectId: string) => {
+  const db = await getDb();
+  const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  const store = transaction.objectStore(CONVERSATIONS_STORE);
+  const ids = await requestToPromise(store.index(PROJECT_INDEX).getAllKeys(projectId));
+  ids.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+  notify(projectId);
+};
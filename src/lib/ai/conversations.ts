@@ -0,0 +1,113 @@
+import type { ChatMessage } from '@/hooks/use-chat';
+import { generateId } from '@/lib/storage/tree';
+
+// A conversation is a tree of messages: editing an earlier user message adds a sibling, and the
+// thread shown is the path from the root to `leafId`
+export interface Conversation {
+  id: string;
+  // Project the conversation belongs to (see useChat)
+  projectId: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  leafId: string | null;
+}
+
+export type ConversationSummary = Pick<Conversation, 'id' | 'projectId' | 'title' | 'createdAt' | 'updatedAt'>;
+
+const TITLE_LENGTH = 60;
+
+export const createConversation = (projectId: string): Conversation => {
+  const now = Date.now();
+  return {
+    id: generateId(),
+    projectId,
+    title: 'New conversation',
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    leafId: null,
+  };
+};
+
+export const titleFromMessage = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line;
+};
+
+// Messages from the root down to the current leaf
+export const getThread = (conversation: Conversation): ChatMessage[] => {
+  const byId = new Map(conversation.messages.map(message => [message.id, message]));
+  const thread: ChatMessage[] = [];
+  let current = conversation.leafId ? byId.get(conversation.leafId) : undefined;
+
+  while (current) {
+    thread.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return thread.reverse();
+};
+
+const getChildren = (conversation: Conversation, parentId: string | null) => {
+  return conversation.messages
+    .filter(message => (message.parentId ?? null) === parentId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+// Alternatives to a message: it and the other messages sharing its parent, oldest first
+export const getSiblings = (conversation: Conversation, message: ChatMessage) => {
+  return getChildren(conversation, message.parentId ?? null).filter(sibling => sibling.role === message.role);
+};
+
+// Follow the newest child down from a message, to show a branch the way it was left
+export const findLatestLeaf = (conversation: Conversation, messageId: string) => {
+  let leafId = messageId;
+  let children = getChildren(conversation, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(conversation, leafId);
+  }
+
+  return leafId;
+};
+
+// Remove messages and everything below them
+export const removeMessages = (conversation: Conversation, ids: string[]): ChatMessage[] => {
+  const removed = new Set(ids);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const message of conversation.messages) {
+      if (!removed.has(message.id) && message.parentId && removed.has(message.parentId)) {
+        removed.add(message.id);
+        changed = true;
+      }
+    }
+  }
+
+  return conversation.messages.filter(message => !removed.has(message.id));
+};
+
+// The current thread as a readable document
+export const conversationToMarkdown = (conversation: Conversation) => {
+  const turns = getThread(conversation)
+    .filter(message => message.content)
+    .map(message => {
+      const speaker = message.role === 'user' ? 'You' : 'Assistant';
+      return `## ${speaker} (${message.timestamp.toLocaleString()})\n\n${message.content}`;
+    });
+
+  return `# ${conversation.title}\n\n${turns.join('\n\n')}\n`;
+};
+
+// Every branch, so the file can be inspected or re-imported later
+export const conversationToJSON = (conversation: Conversation) => {
+  return JSON.stringify({
+    ...conversation,
+    messages: conversation.messages.map(message => ({ ...message, timestamp: message.timestamp.toISOString() })),
+  }, null, 2);
+};
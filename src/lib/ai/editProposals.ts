@@ -0,0 +1,69 @@
+export type EditAction = 'create' | 'modify' | 'delete';
+
+export interface EditProposal {
+  // Stable within a message, so review state survives re-renders
+  key: string;
+  action: EditAction;
+  // Workspace-relative path, e.g. "src/App.tsx"
+  path: string;
+  // Full proposed file content; empty for deletes
+  content: string;
+}
+
+export type MessageSegment =
+  | { type: 'markdown'; content: string }
+  | { type: 'edit'; proposal: EditProposal };
+
+export const EDIT_PROPOSAL_INSTRUCTIONS = `When you want to change files in the workspace, propose the edit in a fenced block whose info string is "edit", the action and the workspace-relative path, containing the complete new file content:
+
+\`\`\`edit modify src/App.tsx
+...entire updated file...
+\`\`\`
+
+Use "edit create <path>" for new files and an empty "edit delete <path>" block to remove a file. Always include the whole file, never a fragment or a diff. The user reviews every proposal before it is applied.`;
+
+// Fences of three or more backticks; the closing fence must be at least as long as the opening one
+const FENCE_PATTERN = /^(`{3,})edit[ \t]+(create|modify|delete)[ \t]+(\S+)[ \t]*\r?\n([\s\S]*?)^\1`*[ \t]*$/gm;
+
+// Accept tree paths ("/my-project/src/App.tsx") and relative ones, with or without "./"
+const normalizePath = (path: string, rootPath?: string) => {
+  let normalized = path.trim();
+  if (rootPath && normalized.startsWith(`${rootPath}/`)) {
+    normalized = normalized.slice(rootPath.length + 1);
+  }
+  return normalized.split('/').filter(part => part && part !== '.').join('/');
+};
+
+// Split an assistant message into markdown and edit proposals, in order. Unclosed blocks
+// (still streaming) stay markdown until their closing fence arrives.
+export const parseEditProposals = (content: string, rootPath?: string): MessageSegment[] => {
+  const segments: MessageSegment[] = [];
+  let lastIndex = 0;
+  let index = 0;
+
+  for (const match of content.matchAll(FENCE_PATTERN)) {
+    const [block, , action, path, body] = match;
+    const start = match.index ?? 0;
+    const text = content.slice(lastIndex, start);
+    if (text.trim()) segments.push({ type: 'markdown', content: text });
+
+    const normalizedPath = normalizePath(path, rootPath);
+    if (normalizedPath) {
+      segments.push({
+        type: 'edit',
+        proposal: {
+          key: `${index++}:${normalizedPath}`,
+          action: action as EditAction,
+          path: normalizedPath,
+          content: action === 'delete' ? '' : body.replace(/\r?\n$/, ''),
+        }
+      });
+    }
+    lastIndex = start + block.length;
+  }
+
+  const rest = content.slice(lastIndex);
+  if (rest.trim()) segments.push({ type: 'markdown', content: rest });
+
+  return segments;
+};
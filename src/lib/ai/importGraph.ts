@@ -0,0 +1,85 @@
+// Import relationships between workspace files, for ranking chat context
+
+export interface ImportGraph {
+  // path -> paths it imports
+  imports: Map<string, Set<string>>;
+  // path -> paths that import it
+  importers: Map<string, Set<string>>;
+}
+
+const IMPORT_PATTERNS = [
+  // import x from '...', export { x } from '...', import '...'
+  /\b(?:import|export)\s+(?:[^'";]*?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  // import('...'), require('...')
+  /\b(?:import|require)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+  // CSS @import '...' / @import url('...')
+  /@import\s+(?:url\(\s*)?['"]([^'"\n]+)['"]/g,
+];
+
+const RESOLVE_SUFFIXES = [
+  '',
+  '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.json', '.css',
+  '/index.ts', '/index.tsx', '/index.js', '/index.jsx',
+];
+
+export const parseImports = (content: string): string[] => {
+  const specifiers = new Set<string>();
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return Array.from(specifiers);
+};
+
+// Collapse "." and ".." segments; paths are workspace-relative without a leading slash
+const normalize = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+// Resolve a specifier to a workspace file. Relative imports and the "@/" alias (src/) resolve;
+// package imports don't.
+export const resolveImport = (fromPath: string, specifier: string, paths: Set<string>): string | undefined => {
+  let base: string;
+  if (specifier.startsWith('.')) {
+    base = normalize(`${fromPath.split('/').slice(0, -1).join('/')}/${specifier}`);
+  } else if (specifier.startsWith('@/')) {
+    base = normalize(`src/${specifier.slice(2)}`);
+  } else if (specifier.startsWith('/')) {
+    base = normalize(specifier);
+  } else {
+    return undefined;
+  }
+
+  for (const suffix of RESOLVE_SUFFIXES) {
+    if (paths.has(base + suffix)) return base + suffix;
+  }
+  return undefined;
+};
+
+export const buildImportGraph = (files: { path: string; content: string }[]): ImportGraph => {
+  const paths = new Set(files.map(file => file.path));
+  const imports = new Map<string, Set<string>>();
+  const importers = new Map<string, Set<string>>();
+
+  for (const file of files) {
+    const targets = new Set<string>();
+    for (const specifier of parseImports(file.content)) {
+      const target = resolveImport(file.path, specifier, paths);
+      if (!target || target === file.path) continue;
+
+      targets.add(target);
+      if (!importers.has(target)) importers.set(target, new Set());
+      importers.get(target)!.add(file.path);
+    }
+    imports.set(file.path, targets);
+  }
+
+  return { imports, importers };
+};
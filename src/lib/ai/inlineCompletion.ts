@@ -0,0 +1,43 @@
+import { completeChat } from './chatService';
+import { AISettings, ProviderMessage } from './types';
+
+export interface CompletionRequest {
+  path: string;
+  language: string;
+  // Code before and after the cursor
+  prefix: string;
+  suffix: string;
+  signal?: AbortSignal;
+}
+
+const CURSOR_MARKER = '<CURSOR>';
+
+const COMPLETION_PROMPT = `You are a code completion engine. You get part of a file with the marker ${CURSOR_MARKER} where the cursor is. Reply with only the text to insert at the cursor: no explanations, no markdown fences, and no repetition of the code around the cursor. Prefer short completions, usually the rest of the line or of the current statement or block. Reply with nothing if no completion makes sense.`;
+
+// Completions are short; there's no point in waiting for long replies
+const COMPLETION_MAX_TOKENS = 256;
+const COMPLETION_TEMPERATURE = 0.2;
+
+// Models sometimes wrap the completion in a fence anyway
+const cleanCompletion = (text: string) => {
+  const fenced = /^```[^\n]*\n([\s\S]*?)\n?```\s*$/.exec(text.trim());
+  return (fenced ? fenced[1] : text).replace(/\s+$/, '');
+};
+
+// Ask the configured model for the text to insert at the cursor
+export const requestInlineCompletion = async (
+  { path, language, prefix, suffix, signal }: CompletionRequest,
+  settings: AISettings
+): Promise<string> => {
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: COMPLETION_PROMPT },
+    { role: 'user', content: `File: ${path} (${language})\n\n${prefix}${CURSOR_MARKER}${suffix}` },
+  ];
+
+  const text = await completeChat(messages, settings, {
+    temperature: COMPLETION_TEMPERATURE,
+    maxTokens: Math.min(settings.providers[settings.provider].maxTokens, COMPLETION_MAX_TOKENS),
+  }, signal);
+
+  return cleanCompletion(text);
+};
@@ -0,0 +1,41 @@
+// "@src/App.tsx" pins a file into the chat context, "@!src/App.tsx" keeps it out
+
+export interface FileMentions {
+  pinned: string[];
+  excluded: string[];
+  // Mentions that matched no file
+  unresolved: string[];
+}
+
+const MENTION_PATTERN = /(^|\s)@(!?)([^\s@]+)/g;
+
+// Exact workspace path first, then a unique match on the path's tail ("App.tsx", "components/Foo.tsx")
+const resolveMention = (mention: string, paths: string[]) => {
+  const normalized = mention.replace(/^\.?\//, '');
+  if (paths.includes(normalized)) return normalized;
+
+  const matches = paths.filter(path => path.endsWith(`/${normalized}`));
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+export const parseMentions = (text: string, paths: string[]): FileMentions => {
+  const mentions: FileMentions = { pinned: [], excluded: [], unresolved: [] };
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const [, , bang, raw] = match;
+    // Allow mentions at the end of a sentence
+    const mention = raw.replace(/[.,;:!?)\]]+$/, '');
+    if (!mention) continue;
+
+    const path = resolveMention(mention, paths);
+    if (!path) {
+      mentions.unresolved.push(mention);
+    } else if (bang) {
+      mentions.excluded.push(path);
+    } else {
+      mentions.pinned.push(path);
+    }
+  }
+
+  return mentions;
+};
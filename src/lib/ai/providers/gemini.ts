@@ -0,0 +1,85 @@
+import { Content, GoogleGenerativeAI } from '@google/generative-ai';
+import { abortable } from '../abort';
+import { ChatProvider, ProviderMessage } from '../types';
+
+// Gemini wants the history to start with the user and alternate roles, so merge
+// anything that doesn't (e.g. a greeting, or a question whose answer failed)
+const toGeminiHistory = (messages: ProviderMessage[]): Content[] => {
+  const history: Content[] = [];
+
+  for (const message of messages) {
+    if (!message.content.trim()) continue;
+
+    const role = message.role === 'assistant' ? 'model' : 'user';
+    const previous = history[history.length - 1];
+
+    if (!previous && role === 'model') continue;
+    if (previous?.role === role) {
+      previous.parts.push({ text: message.content });
+    } else {
+      history.push({ role, parts: [{ text: message.content }] });
+    }
+  }
+
+  // The new message is sent as a user turn, so the history has to end with the model
+  if (history[history.length - 1]?.role === 'user') {
+    history.pop();
+  }
+
+  return history;
+};
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaults: {
+    model: 'gemini-1.5-flash',
+    temperature: 0.7,
+    maxTokens: 8192,
+    contextTokens: 32000,
+    apiKey: '',
+    baseUrl: '',
+  },
+  requiresApiKey: true,
+  usesBaseUrl: false,
+  suggestedModels: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'],
+
+  async *streamChat(messages, settings, signal) {
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    const conversation = messages.filter(message => message.role !== 'system');
+    const last = conversation[conversation.length - 1];
+
+    const genAI = new GoogleGenerativeAI(settings.apiKey);
+    const model = genAI.getGenerativeModel({
+      model: settings.model,
+      generationConfig: {
+        temperature: settings.temperature,
+        topP: 0.95,
+        topK: 64,
+        maxOutputTokens: settings.maxTokens,
+      },
+    });
+
+    // This SDK version has no system instructions, so the system message opens the conversation
+    const chat = model.startChat({
+      history: [
+        { role: 'user', parts: [{ text: system }] },
+        { role: 'model', parts: [{ text: 'I understand the file context. How can I help you with your code?' }] },
+        ...toGeminiHistory(conversation.slice(0, -1)),
+      ],
+    });
+
+    const result = await abortable(chat.sendMessageStream(last.content), signal);
+    // Nobody awaits the aggregated response if we stop early
+    result.response.catch(() => undefined);
+
+    const chunks = result.stream[Symbol.asyncIterator]();
+    while (true) {
+      const { value, done } = await abortable(chunks.next(), signal);
+      if (done) return;
+
+      const text = value.text();
+      if (text) yield text;
+    }
+  },
+};
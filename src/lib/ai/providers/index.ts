@@ -0,0 +1,10 @@
+import { ChatProvider, ProviderId } from '../types';
+import { geminiProvider } from './gemini';
+import { openAICompatibleProvider } from './openaiCompatible';
+
+export const providers: Record<ProviderId, ChatProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+export const providerList = Object.values(providers);
@@ -0,0 +1,103 @@
+import { ChatProvider, ProviderSettings } from '../types';
+
+const endpoint = (settings: ProviderSettings, path: string) => {
+  return `${settings.baseUrl.replace(/\/+$/, '')}${path}`;
+};
+
+const headers = (settings: ProviderSettings): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+});
+
+// Servers answer errors with { error: { message } } or { error: "..." }; fall back to the status
+const readError = async (response: Response) => {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const message = typeof body.error === 'string' ? body.error : body.error?.message;
+    if (message) return new Error(message);
+  } catch {
+    // Not JSON
+  }
+  return new Error(`${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`);
+};
+
+// Any server speaking the OpenAI chat completions API: llama.cpp, Ollama, LM Studio, vLLM...
+export const openAICompatibleProvider: ChatProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaults: {
+    model: 'llama3.1',
+    temperature: 0.7,
+    maxTokens: 4096,
+    contextTokens: 6000,
+    apiKey: '',
+    baseUrl: 'http://localhost:11434/v1',
+  },
+  requiresApiKey: false,
+  usesBaseUrl: true,
+  suggestedModels: [],
+
+  async *streamChat(messages, settings, signal) {
+    const response = await fetch(endpoint(settings, '/chat/completions'), {
+      method: 'POST',
+      headers: headers(settings),
+      body: JSON.stringify({
+        model: settings.model,
+        messages,
+        temperature: settings.temperature,
+        max_tokens: settings.maxTokens,
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await readError(response);
+    }
+
+    // Server-Sent Events: "data: {...}" lines, ending with "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          const chunk = JSON.parse(payload);
+          if (chunk.error) {
+            throw new Error(typeof chunk.error === 'string' ? chunk.error : chunk.error.message);
+          }
+
+          const text = chunk.choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => undefined);
+    }
+  },
+
+  async listModels(settings, signal) {
+    const response = await fetch(endpoint(settings, '/models'), { headers: headers(settings), signal });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    const body = await response.json();
+    return (body.data || []).map((model: { id: string }) => model.id).sort();
+  },
+};
@@ -0,0 +1,48 @@
+import { providerList, providers } from './providers';
+import { AISettings, ProviderId, ProviderSettings } from './types';
+
+// Settings, API keys included, live in this browser only and never in the bundle
+const SETTINGS_STORAGE_KEY = 'ai-settings';
+
+export const createDefaultSettings = (): AISettings => ({
+  provider: 'gemini',
+  providers: Object.fromEntries(
+    providerList.map(provider => [provider.id, { ...provider.defaults }])
+  ) as Record<ProviderId, ProviderSettings>,
+  mirrorToLogs: true,
+  inlineCompletions: true,
+});
+
+// Saved settings merged over the defaults, so providers and fields added later get sensible values
+export const loadSettings = (): AISettings => {
+  const defaults = createDefaultSettings();
+
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return defaults;
+
+    for (const id of Object.keys(defaults.providers) as ProviderId[]) {
+      defaults.providers[id] = { ...defaults.providers[id], ...saved.providers?.[id] };
+    }
+    if (saved.provider in providers) {
+      defaults.provider = saved.provider;
+    }
+    for (const key of ['mirrorToLogs', 'inlineCompletions'] as const) {
+      if (typeof saved[key] === 'boolean') {
+        defaults[key] = saved[key];
+      }
+    }
+  } catch (error) {
+    console.error('Error loading AI settings:', error);
+  }
+
+  return defaults;
+};
+
+export const saveSettings = (settings: AISettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving AI settings:', error);
+  }
+};
@@ -0,0 +1,57 @@
+// Shared types for the AI chat layer
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatRequest {
+  // Earlier turns of the conversation, oldest first
+  history: ChatTurn[];
+  message: string;
+  // Workspace files and the open editor, sent ahead of the conversation
+  context?: string;
+  signal?: AbortSignal;
+}
+
+// What providers receive: a system message followed by the conversation, ending with the user
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Budget for the workspace context sent with each message
+  contextTokens: number;
+  apiKey: string;
+  // Only used by providers that talk to a configurable endpoint
+  baseUrl: string;
+}
+
+export interface AISettings {
+  provider: ProviderId;
+  providers: Record<ProviderId, ProviderSettings>;
+  // Copy chat messages and replies into the logs panel
+  mirrorToLogs: boolean;
+  // Ghost-text completions in the editor
+  inlineCompletions: boolean;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  defaults: ProviderSettings;
+  requiresApiKey: boolean;
+  usesBaseUrl: boolean;
+  suggestedModels: string[];
+  // Stream the reply to the last message; aborting the signal rejects with an AbortError
+  streamChat: (messages: ProviderMessage[], settings: ProviderSettings, signal?: AbortSignal) => AsyncGenerator<string>;
+  listModels?: (settings: ProviderSettings, signal?: AbortSignal) => Promise<string[]>;
+}
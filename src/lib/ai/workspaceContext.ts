@@ -0,0 +1,243 @@
+import type { FileSystemItem } from '@/lib/storage/types';
+import { flattenFiles, toStoragePath } from '@/lib/storage/tree';
+import { getLanguageFromExtension } from '@/lib/languages';
+import { buildImportGraph } from './importGraph';
+
+// Paths here are workspace-relative ("src/App.tsx"), like the ones edit proposals use
+
+export interface ActiveFileInfo {
+  path: string;
+  language: string;
+  content: string;
+}
+
+export interface SelectionInfo {
+  text: string;
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+}
+
+export type ContextReason = 'active' | 'selection' | 'pinned' | 'imported' | 'importer' | 'related' | 'open' | 'recent' | 'workspace';
+
+export interface ContextEntry {
+  path: string;
+  reason: ContextReason;
+  tokens: number;
+  truncated?: boolean;
+}
+
+// What went into a request, shown next to the message it was sent with
+export interface ContextReport {
+  entries: ContextEntry[];
+  // Files that didn't fit the budget, most relevant first
+  omitted: string[];
+  excluded: string[];
+  tokens: number;
+  budget: number;
+}
+
+export interface WorkspaceContext {
+  text: string;
+  report: ContextReport;
+}
+
+export interface ContextOptions {
+  files: FileSystemItem[];
+  activeFile: ActiveFileInfo | null;
+  selection?: SelectionInfo | null;
+  openPaths?: string[];
+  // Most recently active first
+  recentPaths?: string[];
+  pinnedPaths?: string[];
+  excludedPaths?: string[];
+  // Token budget for everything built here
+  budget: number;
+}
+
+// Share of the budget the workspace file listing may use
+const LISTING_SHARE = 0.1;
+const OTHER_FILES_HEADER = 'Other workspace files:';
+
+// Rough, model-agnostic estimate: about four characters per token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const TRUNCATION_NOTE = '\n... (truncated)';
+
+// The note counts against the same tokens
+const truncateToTokens = (content: string, tokens: number) => {
+  return `${content.slice(0, Math.max(0, tokens - estimateTokens(TRUNCATION_NOTE)) * 4)}${TRUNCATION_NOTE}`;
+};
+
+// A fence longer than any backtick run in the content, so the content can't close it early
+const fence = (content: string, language: string) => {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${language}\n${content}\n${ticks}`;
+};
+
+const renderFile = (path: string, content: string) => {
+  return `File: ${path}\n${fence(content, getLanguageFromExtension(path))}`;
+};
+
+// Scores for files that aren't the active one; anything above zero is worth sending before the rest
+const rankFiles = (
+  paths: string[],
+  graph: ReturnType<typeof buildImportGraph>,
+  activePath: string | undefined,
+  pinnedPaths: string[],
+  openPaths: string[],
+  recentPaths: string[]
+) => {
+  const scores = new Map<string, { score: number; reason: ContextReason }>();
+  const bump = (path: string, score: number, reason: ContextReason) => {
+    const current = scores.get(path) || { score: 0, reason };
+    scores.set(path, {
+      score: current.score + score,
+      // The strongest single signal names the reason
+      reason: current.score >= score ? current.reason : reason,
+    });
+  };
+
+  const sources = activePath ? [activePath, ...pinnedPaths] : pinnedPaths;
+  for (const source of sources) {
+    const weight = source === activePath ? 1 : 0.5;
+    const direct = graph.imports.get(source) || new Set<string>();
+    direct.forEach(path => bump(path, 100 * weight, 'imported'));
+    graph.importers.get(source)?.forEach(path => bump(path, 60 * weight, 'importer'));
+    // Second hop: what the direct imports import
+    direct.forEach(path => graph.imports.get(path)?.forEach(next => bump(next, 30 * weight, 'related')));
+  }
+
+  openPaths.forEach(path => bump(path, 25, 'open'));
+  recentPaths.forEach((path, index) => bump(path, 20 * (1 - index / recentPaths.length), 'recent'));
+
+  return paths
+    .map(path => ({ path, ...(scores.get(path) || { score: 0, reason: 'workspace' as ContextReason }) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Describe the workspace for the model within a token budget: the selection and the active file
+// always, pinned files next, then other files ranked by import graph, open tabs and recency
+export const buildWorkspaceContext = ({
+  files,
+  activeFile,
+  selection,
+  openPaths = [],
+  recentPaths = [],
+  pinnedPaths = [],
+  excludedPaths = [],
+  budget,
+}: ContextOptions): WorkspaceContext => {
+  const excluded = new Set(excludedPaths);
+  const workspaceFiles = flattenFiles(files).map(file => ({
+    path: toStoragePath(file.path),
+    content: file.content || '',
+  }));
+  const contentByPath = new Map(workspaceFiles.map(file => [file.path, file.content]));
+  const activePath = activeFile && !excluded.has(activeFile.path) ? activeFile.path : undefined;
+
+  const sections: string[] = [];
+  const entries: ContextEntry[] = [];
+  const omitted: string[] = [];
+  let remaining = budget;
+
+  const addSection = (text: string) => {
+    sections.push(text);
+    remaining -= estimateTokens(text);
+  };
+
+  // File listing, so the model knows what exists even when it can't see the content. It is written
+  // after the open file but its share is set aside first, so file contents can't crowd it out.
+  const allPaths = workspaceFiles.map(file => file.path).filter(path => !excluded.has(path));
+  const listingBudget = Math.floor(budget * LISTING_SHARE);
+  const listed: string[] = [];
+  let listingTokens = 0;
+  for (const path of allPaths) {
+    const tokens = estimateTokens(path) + 1;
+    if (listingTokens + tokens > listingBudget) break;
+    listed.push(path);
+    listingTokens += tokens;
+  }
+  const listing = `Workspace files (${listed.length === allPaths.length ? allPaths.length : `${listed.length} of ${allPaths.length}`}):\n${listed.join('\n')}`;
+  remaining -= estimateTokens(listing);
+
+  // The selection is what the user is asking about, so it goes first and is never excluded
+  if (selection?.text && activeFile) {
+    const header = `Selected text in ${activeFile.path} (lines ${selection.startLine}-${selection.endLine}):`;
+    const room = remaining - estimateTokens(`${header}\n${fence('', activeFile.language)}`);
+    const truncated = estimateTokens(selection.text) > room;
+    const text = truncated ? truncateToTokens(selection.text, room) : selection.text;
+    addSection(`${header}\n${fence(text, activeFile.language)}`);
+    entries.push({ path: activeFile.path, reason: 'selection', tokens: estimateTokens(text), truncated });
+  }
+
+  if (activeFile && activePath) {
+    const header = `Currently open file: ${activeFile.path}\nFile type: ${activeFile.language}\nContent:`;
+    const room = remaining - estimateTokens(`${header}\n${fence('', activeFile.language)}`);
+    const truncated = estimateTokens(activeFile.content) > room;
+    const text = truncated ? truncateToTokens(activeFile.content, room) : activeFile.content;
+    addSection(`${header}\n${fence(text, activeFile.language)}`);
+    entries.push({ path: activeFile.path, reason: 'active', tokens: estimateTokens(text), truncated });
+  } else if (!activeFile) {
+    addSection('No file currently open.');
+  }
+
+  // Its tokens were already taken off the budget
+  sections.push(listing);
+
+  // Pinned files come before ranked ones but still have to fit
+  const candidates = workspaceFiles
+    .filter(file => file.content && file.path !== activePath && !excluded.has(file.path))
+    .map(file => file.path);
+  const candidateSet = new Set(candidates);
+  const pinned = pinnedPaths.filter(path => candidateSet.has(path));
+  const pinnedSet = new Set(pinned);
+  const graph = buildImportGraph(workspaceFiles);
+  const ranked = rankFiles(
+    candidates.filter(path => !pinnedSet.has(path)),
+    graph,
+    activePath,
+    pinned,
+    openPaths,
+    recentPaths
+  );
+
+  const relatedSections: string[] = [];
+  remaining -= estimateTokens(OTHER_FILES_HEADER);
+  const consider = (path: string, reason: ContextReason) => {
+    const content = contentByPath.get(path) || '';
+    const text = renderFile(path, content);
+    const tokens = estimateTokens(text);
+    if (tokens <= remaining) {
+      relatedSections.push(text);
+      remaining -= tokens;
+      entries.push({ path, reason, tokens });
+    } else {
+      omitted.push(path);
+    }
+  };
+
+  pinned.forEach(path => consider(path, 'pinned'));
+  // Unrelated files only fill what is left, smallest first so more of them fit
+  const unrelated = ranked.filter(file => file.score === 0)
+    .sort((a, b) => (contentByPath.get(a.path) || '').length - (contentByPath.get(b.path) || '').length);
+  ranked.filter(file => file.score > 0).forEach(file => consider(file.path, file.reason));
+  unrelated.forEach(file => consider(file.path, file.reason));
+
+  if (relatedSections.length > 0) {
+    sections.push(`${OTHER_FILES_HEADER}\n\n${relatedSections.join('\n\n')}`);
+  }
+
+  const text = sections.join('\n\n');
+  return {
+    text,
+    report: {
+      entries,
+      omitted,
+      excluded: excludedPaths,
+      tokens: estimateTokens(text),
+      budget,
+    },
+  };
+};
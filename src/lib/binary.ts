@@ -0,0 +1,20 @@
+// Telling text files from binary ones by their bytes, for imports that can only keep text
+
+// Git looks this far into a file for a NUL byte; so do we
+const SNIFF_LENGTH = 8000;
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+// The file's text, or null when it looks binary (a NUL byte early on, or not valid UTF-8)
+export const decodeTextContent = (bytes: Uint8Array): string | null => {
+  const sniffed = Math.min(bytes.length, SNIFF_LENGTH);
+  for (let i = 0; i < sniffed; i++) {
+    if (bytes[i] === 0) return null;
+  }
+
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return null;
+  }
+};
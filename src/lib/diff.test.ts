@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { applyHunk, computeHunks, DiffHunk, formatHunkHeader, revertHunk } from './diff';
+
+// Apply every hunk, last first so earlier line numbers stay valid
+const applyAll = (oldText: string, hunks: DiffHunk[]) => {
+  return [...hunks].reverse().reduce((text, hunk) => applyHunk(text, hunk), oldText);
+};
+
+const changedLines = (hunks: DiffHunk[]) => {
+  return hunks.reduce((count, hunk) => count + hunk.oldLines.length + hunk.newLines.length, 0);
+};
+
+// Lines in a longest common subsequence, by plain dynamic programming
+const lcsLength = (a: string[], b: string[]) => {
+  let previous = new Array(b.length + 1).fill(0);
+  for (const line of a) {
+    const current = [0];
+    for (let j = 0; j < b.length; j++) {
+      current.push(line === b[j] ? previous[j] + 1 : Math.max(previous[j + 1], current[j]));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Small deterministic generator, so failures can be reproduced
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x7fffffff;
+};
+
+describe('computeHunks', () => {
+  it('finds nothing to change in equal texts', () => {
+    expect(computeHunks('a\nb\nc', 'a\nb\nc')).toEqual([]);
+  });
+
+  it('groups adjacent changes into one hunk', () => {
+    const hunks = computeHunks('a\nb\nc\nd', 'a\nB\nC\nd');
+    expect(hunks).toEqual([{ oldStart: 1, oldLines: ['b', 'c'], newStart: 1, newLines: ['B', 'C'] }]);
+    expect(formatHunkHeader(hunks[0])).toBe('@@ -2,2 +2,2 @@');
+  });
+
+  it('reports pure insertions and deletions', () => {
+    expect(computeHunks('a\nc', 'a\nb\nc')).toEqual([{ oldStart: 1, oldLines: [], newStart: 1, newLines: ['b'] }]);
+    expect(computeHunks('a\nb\nc', 'a\nc')).toEqual([{ oldStart: 1, oldLines: ['b'], newStart: 1, newLines: [] }]);
+    expect(computeHunks('', 'a')).toEqual([{ oldStart: 0, oldLines: [''], newStart: 0, newLines: ['a'] }]);
+  });
+
+  it('produces a minimal script that rebuilds the new text', () => {
+    const next = random(42);
+    const alphabet = ['a', 'b', 'c', 'd'];
+    for (let round = 0; round < 200; round++) {
+      const a = Array.from({ length: Math.floor(next() * 30) }, () => alphabet[Math.floor(next() * 4)]);
+      const b = Array.from({ length: Math.floor(next() * 30) }, () => alphabet[Math.floor(next() * 4)]);
+      const oldText = a.join('\n');
+      const newText = b.join('\n');
+      const hunks = computeHunks(oldText, newText);
+
+      expect(applyAll(oldText, hunks)).toBe(newText);
+      const oldLines = oldText.split('\n');
+      const newLines = newText.split('\n');
+      expect(changedLines(hunks)).toBe(oldLines.length + newLines.length - 2 * lcsLength(oldLines, newLines));
+    }
+  });
+
+  it('lets each hunk be reverted in the new text', () => {
+    const oldText = 'one\ntwo\nthree\nfour\nfive';
+    const newText = 'one\n2\nthree\nfour\nfive\nsix';
+    const hunks = computeHunks(oldText, newText);
+    expect(hunks).toHaveLength(2);
+    expect(revertHunk(revertHunk(newText, hunks[1]), hunks[0])).toBe(oldText);
+  });
+
+  it('finds scattered edits in a large file', () => {
+    const lines = Array.from({ length: 20000 }, (_, i) => `line ${i}`);
+    const edited = [...lines];
+    for (let i = 100; i < edited.length; i += 1000) edited[i] = `changed ${i}`;
+    edited.splice(5000, 0, 'inserted');
+
+    const hunks = computeHunks(lines.join('\n'), edited.join('\n'));
+    expect(hunks).toHaveLength(21);
+    expect(changedLines(hunks)).toBe(41);
+    expect(applyAll(lines.join('\n'), hunks)).toBe(edited.join('\n'));
+  });
+
+  it('reports a fully changed large file as one hunk without running out of memory', () => {
+    const lf = Array.from({ length: 10000 }, (_, i) => `const value${i} = ${i};\n`).join('');
+    const crlf = lf.replace(/\n/g, '\r\n');
+    const before = process.memoryUsage().heapUsed;
+
+    const hunks = computeHunks(crlf, lf);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].oldLines).toHaveLength(10000);
+    expect(hunks[0].newLines).toHaveLength(10000);
+    expect(applyAll(crlf, hunks)).toBe(lf);
+    expect(process.memoryUsage().heapUsed - before).toBeLessThan(100 * 1024 * 1024);
+  });
+});
@@ -0,0 +1,206 @@
+// Line diffs for reviewing proposed edits
+
+export interface DiffHunk {
+  // 0-based line where the hunk starts in the old and the new text
+  oldStart: number;
+  oldLines: string[];
+  newStart: number;
+  newLines: string[];
+}
+
+type DiffOp = 'equal' | 'delete' | 'insert';
+
+export const splitLines = (text: string) => text.split('\n');
+
+// How far each end of the middle-snake search may get before a range is given up on and reported as
+// replaced whole. Keeps a fully rewritten file (say, after a line-ending change) from taking seconds.
+const MAX_EDIT_COST = 1024;
+
+// Lines are compared as numbers, one per distinct line
+const toLineIds = (a: string[], b: string[]) => {
+  const ids = new Map<string, number>();
+  const idOf = (line: string) => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  };
+  return [Int32Array.from(a, idOf), Int32Array.from(b, idOf)];
+};
+
+// Myers' middle snake: run the search from both ends at once until the paths meet, and return where
+// they did. Only the two frontier arrays are kept, so memory stays linear. Null past MAX_EDIT_COST.
+const findMiddle = (
+  a: Int32Array, aStart: number, aEnd: number,
+  b: Int32Array, bStart: number, bEnd: number
+): { x: number; y: number } | null => {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.min(Math.ceil((n + m) / 2), MAX_EDIT_COST);
+  const offset = maxD;
+  const size = 2 * maxD;
+  const forward = new Int32Array(size).fill(-1);
+  const backward = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  const delta = n - m;
+  // With an odd delta the paths meet while going forward, with an even one while going backward
+  const meetsForward = delta % 2 !== 0;
+  // Diagonals that ran off the edges are skipped on later rounds
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+        ? forward[index + 1]
+        : forward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (meetsForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < size && backward[other] !== -1 && x >= n - backward[other]) {
+          return { x: aStart + x, y: bStart + y };
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+        ? backward[index + 1]
+        : backward[index - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aEnd - 1 - x] === b[bEnd - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!meetsForward) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < size && forward[other] !== -1) {
+          const forwardX = forward[other];
+          if (forwardX >= n - x) {
+            return { x: aStart + forwardX, y: bStart + forwardX - (other - offset) };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+// Append the edit script for a[aStart..aEnd) against b[bStart..bEnd) to `ops`, one op per line
+const diffRange = (
+  a: Int32Array, aStart: number, aEnd: number,
+  b: Int32Array, bStart: number, bEnd: number,
+  ops: DiffOp[]
+) => {
+  // Common prefix and suffix never need diffing, which keeps typical edits cheap
+  let prefix = 0;
+  while (aStart + prefix < aEnd && bStart + prefix < bEnd && a[aStart + prefix] === b[bStart + prefix]) prefix++;
+  let suffix = 0;
+  while (
+    aEnd - suffix > aStart + prefix &&
+    bEnd - suffix > bStart + prefix &&
+    a[aEnd - 1 - suffix] === b[bEnd - 1 - suffix]
+  ) suffix++;
+
+  for (let i = 0; i < prefix; i++) ops.push('equal');
+  aStart += prefix;
+  bStart += prefix;
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  const middle = aStart < aEnd && bStart < bEnd ? findMiddle(a, aStart, aEnd, b, bStart, bEnd) : null;
+  if (middle) {
+    diffRange(a, aStart, middle.x, b, bStart, middle.y, ops);
+    diffRange(a, middle.x, aEnd, b, middle.y, bEnd, ops);
+  } else {
+    for (let i = aStart; i < aEnd; i++) ops.push('delete');
+    for (let i = bStart; i < bEnd; i++) ops.push('insert');
+  }
+
+  for (let i = 0; i < suffix; i++) ops.push('equal');
+};
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  const [aIds, bIds] = toLineIds(a, b);
+  const ops: DiffOp[] = [];
+  diffRange(aIds, 0, aIds.length, bIds, 0, bIds.length, ops);
+  return ops;
+};
+
+// Group the differences between two texts into hunks of adjacent changed lines
+export const computeHunks = (oldText: string, newText: string): DiffHunk[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  const ops = diffLines(a, b);
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let current: DiffHunk | null = null;
+
+  for (const op of ops) {
+    if (op === 'equal') {
+      current = null;
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    if (!current) {
+      current = { oldStart: oldIndex, oldLines: [], newStart: newIndex, newLines: [] };
+      hunks.push(current);
+    }
+
+    if (op === 'delete') {
+      current.oldLines.push(a[oldIndex++]);
+    } else {
+      current.newLines.push(b[newIndex++]);
+    }
+  }
+
+  return hunks;
+};
+
+// Apply one hunk to the text it was computed from (the old side)
+export const applyHunk = (oldText: string, hunk: DiffHunk): string => {
+  const lines = splitLines(oldText);
+  lines.splice(hunk.oldStart, hunk.oldLines.length, ...hunk.newLines);
+  return lines.join('\n');
+};
+
+// Undo one hunk in the text it produced (the new side)
+export const revertHunk = (newText: string, hunk: DiffHunk): string => {
+  const lines = splitLines(newText);
+  lines.splice(hunk.newStart, hunk.newLines.length, ...hunk.oldLines);
+  return lines.join('\n');
+};
+
+// "@@ -3,2 +3,4 @@", 1-based like unified diffs
+export const formatHunkHeader = (hunk: DiffHunk) => {
+  return `@@ -${hunk.oldStart + 1},${hunk.oldLines.length} +${hunk.newStart + 1},${hunk.newLines.length} @@`;
+};
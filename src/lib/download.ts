@@ -0,0 +1,18 @@
+// Save generated content as a file through the browser's download prompt
+export const downloadFile = (fileName: string, content: BlobPart, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Something safe to use as a file name, from free text like a title
+export const toFileName = (text: string, fallback = 'untitled') => {
+  const name = text.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  return name || fallback;
+};
@@ -0,0 +1,75 @@
+// The arrangement of editor groups: a tree of splits with a group at every leaf
+
+export type SplitDirection = 'horizontal' | 'vertical';
+
+export type EditorLayout =
+  | { type: 'group'; groupId: string }
+  // 'horizontal' puts children side by side, 'vertical' stacks them, as react-resizable-panels does
+  | { type: 'split'; direction: SplitDirection; children: EditorLayout[] };
+
+export const groupLayout = (groupId: string): EditorLayout => ({ type: 'group', groupId });
+
+// Group ids in reading order
+export const layoutGroupIds = (layout: EditorLayout): string[] => {
+  return layout.type === 'group' ? [layout.groupId] : layout.children.flatMap(layoutGroupIds);
+};
+
+// Put `newGroupId` right after (beside or below) `groupId`. A split in the same direction just gets
+// one more child, so splitting right three times gives three columns rather than nested pairs.
+export const splitLayout = (
+  layout: EditorLayout,
+  groupId: string,
+  newGroupId: string,
+  direction: SplitDirection
+): EditorLayout => {
+  if (layout.type === 'group') {
+    return layout.groupId === groupId
+      ? { type: 'split', direction, children: [layout, groupLayout(newGroupId)] }
+      : layout;
+  }
+
+  const index = layout.children.findIndex(child => child.type === 'group' && child.groupId === groupId);
+  if (index !== -1 && layout.direction === direction) {
+    const children = [...layout.children];
+    children.splice(index + 1, 0, groupLayout(newGroupId));
+    return { ...layout, children };
+  }
+
+  return { ...layout, children: layout.children.map(child => splitLayout(child, groupId, newGroupId, direction)) };
+};
+
+// Take a group out, collapsing splits left with a single child. Null when it was the last group.
+export const removeFromLayout = (layout: EditorLayout, groupId: string): EditorLayout | null => {
+  if (layout.type === 'group') return layout.groupId === groupId ? null : layout;
+
+  const children = layout.children
+    .map(child => removeFromLayout(child, groupId))
+    .filter((child): child is EditorLayout => child !== null)
+    // A split inside a split of the same direction is one split
+    .flatMap(child => child.type === 'split' && child.direction === layout.direction ? child.children : [child]);
+
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { ...layout, children };
+};
+
+// A saved layout is only trusted if it is well formed and names exactly the given groups
+export const isValidLayout = (layout: unknown, groupIds: string[]): layout is EditorLayout => {
+  const found: string[] = [];
+  const check = (node: unknown): boolean => {
+    if (!node || typeof node !== 'object') return false;
+    const candidate = node as Partial<{ type: string; groupId: unknown; direction: unknown; children: unknown }>;
+    if (candidate.type === 'group') {
+      if (typeof candidate.groupId !== 'string') return false;
+      found.push(candidate.groupId);
+      return true;
+    }
+    return candidate.type === 'split'
+      && (candidate.direction === 'horizontal' || candidate.direction === 'vertical')
+      && Array.isArray(candidate.children)
+      && candidate.children.length > 0
+      && candidate.children.every(check);
+  };
+
+  return check(layout) && found.length === groupIds.length && found.every(id => groupIds.includes(id));
+};
@@ -0,0 +1,112 @@
+// Fuzzy matching for quick open: the query's characters must appear in order, and matches at
+// word starts and in runs score higher, so "edar" finds "EditorArea.tsx" before "readme.md"
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices of the matched characters in the target
+  matches: number[];
+}
+
+const SCORE_MATCH = 1;
+const BONUS_CONSECUTIVE = 10;
+const BONUS_WORD_START = 8;
+const BONUS_FIRST_CHAR = 4;
+const BONUS_SAME_CASE = 1;
+const PENALTY_GAP = 0.3;
+// Quick open prefers matches in the file name over matches in its folders
+const BONUS_BASENAME = 20;
+
+const isSeparator = (ch: string) => /[\s/\\_\-.:]/.test(ch);
+
+// Start of a word: after a separator, or an upper-case letter after a lower-case one
+const isWordStart = (target: string, index: number) => {
+  if (index === 0) return true;
+  const previous = target[index - 1];
+  const current = target[index];
+  return isSeparator(previous) || (previous === previous.toLowerCase() && current !== current.toLowerCase());
+};
+
+// Best-scoring way to match the query in the target, or null when it doesn't match at all
+export const fuzzyMatch = (query: string, target: string): FuzzyMatch | null => {
+  const needle = query.replace(/\s+/g, '');
+  if (!needle) return { score: 0, matches: [] };
+  if (needle.length > target.length) return null;
+
+  const lowerNeedle = needle.toLowerCase();
+  const lowerTarget = target.toLowerCase();
+  const n = needle.length;
+  const m = target.length;
+
+  // scores[i][j]: best score with needle[i] matched at target[j]; from[i][j]: where needle[i - 1] went
+  const scores: Float64Array[] = [];
+  const from: Int32Array[] = [];
+
+  for (let i = 0; i < n; i++) {
+    const row = new Float64Array(m).fill(-Infinity);
+    const back = new Int32Array(m).fill(-1);
+    // Best score of the previous row at any index before j, and where it was
+    let bestBefore = -Infinity;
+    let bestBeforeIndex = -1;
+
+    for (let j = i; j < m; j++) {
+      if (i > 0 && j > 0 && scores[i - 1][j - 1] > bestBefore) {
+        bestBefore = scores[i - 1][j - 1];
+        bestBeforeIndex = j - 1;
+      }
+      if (lowerTarget[j] !== lowerNeedle[i]) continue;
+
+      let bonus = SCORE_MATCH;
+      if (isWordStart(target, j)) bonus += BONUS_WORD_START;
+      if (j === 0) bonus += BONUS_FIRST_CHAR;
+      if (target[j] === needle[i]) bonus += BONUS_SAME_CASE;
+
+      if (i === 0) {
+        row[j] = bonus - j * PENALTY_GAP;
+        continue;
+      }
+
+      // Either continue a run from j - 1, or jump from the best earlier match
+      const consecutive = scores[i - 1][j - 1] + BONUS_CONSECUTIVE;
+      const jump = bestBefore - (j - bestBeforeIndex - 1) * PENALTY_GAP;
+      if (consecutive >= jump && consecutive > -Infinity) {
+        row[j] = consecutive + bonus;
+        back[j] = j - 1;
+      } else if (jump > -Infinity) {
+        row[j] = jump + bonus;
+        back[j] = bestBeforeIndex;
+      }
+    }
+
+    scores.push(row);
+    from.push(back);
+  }
+
+  let end = -1;
+  for (let j = 0; j < m; j++) {
+    if (scores[n - 1][j] > (end === -1 ? -Infinity : scores[n - 1][end])) end = j;
+  }
+  if (end === -1) return null;
+
+  const matches: number[] = [];
+  for (let i = n - 1, j = end; i >= 0; j = from[i][j], i--) {
+    matches.unshift(j);
+  }
+  return { score: scores[n - 1][end], matches };
+};
+
+// Match a workspace path, preferring the file name unless the query has a slash in it
+export const fuzzyMatchPath = (query: string, path: string): FuzzyMatch | null => {
+  const nameStart = path.lastIndexOf('/') + 1;
+
+  if (!query.includes('/')) {
+    const nameMatch = fuzzyMatch(query, path.slice(nameStart));
+    if (nameMatch) {
+      return {
+        score: nameMatch.score + BONUS_BASENAME,
+        matches: nameMatch.matches.map(index => index + nameStart),
+      };
+    }
+  }
+
+  return fuzzyMatch(query, path);
+};
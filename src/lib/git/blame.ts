@@ -0,0 +1,59 @@
+import { computeHunks, splitLines } from '@/lib/diff';
+import { GitBlameLine } from './types';
+
+// One version of a file, newest first, with the commit that produced it
+export interface FileRevision {
+  line: GitBlameLine;
+  content: string;
+}
+
+// Blame from a file's history: each line belongs to the newest commit whose diff
+// against the version before it added or changed that line
+export const blameFromHistory = (revisions: FileRevision[]): GitBlameLine[] => {
+  if (revisions.length === 0) return [];
+
+  const headLines = splitLines(revisions[0].content);
+  const blame: (GitBlameLine | undefined)[] = new Array(headLines.length);
+  // For each line of the version being looked at, the HEAD line it became (or -1)
+  let tracked = headLines.map((_, index) => index);
+
+  for (let i = 0; i < revisions.length && tracked.some(line => line >= 0); i++) {
+    const { line: commit, content } = revisions[i];
+    const parent = revisions[i + 1];
+    const lineCount = splitLines(content).length;
+
+    if (!parent) {
+      tracked.forEach(headLine => {
+        if (headLine >= 0) blame[headLine] = commit;
+      });
+      break;
+    }
+
+    const parentTracked = new Array<number>(splitLines(parent.content).length).fill(-1);
+    let newIndex = 0;
+    let oldIndex = 0;
+
+    // Lines inside a hunk are this commit's; lines between hunks carry over to the parent
+    const carryOver = (until: number) => {
+      while (newIndex < until) {
+        parentTracked[oldIndex++] = tracked[newIndex++];
+      }
+    };
+
+    for (const hunk of computeHunks(parent.content, content)) {
+      carryOver(hunk.newStart);
+      for (let j = 0; j < hunk.newLines.length; j++) {
+        const headLine = tracked[newIndex++];
+        if (headLine >= 0) blame[headLine] = commit;
+      }
+      oldIndex += hunk.oldLines.length;
+    }
+    carryOver(lineCount);
+
+    tracked = parentTracked;
+  }
+
+  // Anything left over came from the oldest revision looked at
+  const oldest = revisions[revisions.length - 1].line;
+  return Array.from(blame, line => line ?? oldest);
+};
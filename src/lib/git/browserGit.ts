@@ -0,0 +1,259 @@
+import { Buffer } from 'buffer';
+import git from 'isomorphic-git';
+import { blameFromHistory, FileRevision } from './blame';
+import { MemoryFs, sameBytes } from './memoryFs';
+import { GitAuthor, GitBackend, GitBlameLine, GitCommit, GitRevision, GitStatusEntry, GitWorkdirChanges } from './types';
+
+// isomorphic-git uses Node's Buffer, which browsers don't have
+if (!globalThis.Buffer) {
+  (globalThis as { Buffer?: typeof Buffer }).Buffer = Buffer;
+}
+
+const DIR = '/workspace';
+const GITDIR = `${DIR}/.git`;
+
+// Keeps the .git folder between visits, where the workspace itself is kept
+export interface GitDirStore {
+  load: () => Promise<Map<string, Uint8Array> | null>;
+  save: (files: Map<string, Uint8Array>) => Promise<void>;
+}
+
+interface BrowserGitOptions {
+  // Saved content of every workspace file, by workspace-relative path
+  getWorkspaceFiles: () => { path: string; content: string }[];
+  store?: GitDirStore;
+}
+
+const isGitPath = (path: string) => path === '.git' || path.startsWith('.git/');
+
+// statusMatrix rows: [path, HEAD, WORKDIR, STAGE]. HEAD and WORKDIR are 0 (absent), 1 (same as HEAD)
+// or 2 (different); STAGE adds 2 (same as WORKDIR) and 3 (different from both).
+export const toStatusEntry = ([path, head, workdir, stage]: [string, number, number, number]): GitStatusEntry => {
+  const entry: GitStatusEntry = { path };
+
+  if (!head && stage) {
+    entry.staged = 'added';
+  } else if (head && !stage) {
+    entry.staged = 'deleted';
+  } else if (head && (stage === 3 || (stage === 2 && workdir === 2))) {
+    entry.staged = 'modified';
+  }
+
+  if (!stage && workdir) {
+    entry.unstaged = 'untracked';
+  } else if (stage && !workdir) {
+    entry.unstaged = 'deleted';
+  } else if ((stage === 1 && workdir === 2) || stage === 3) {
+    entry.unstaged = 'modified';
+  }
+
+  return entry;
+};
+
+// Git in the browser: isomorphic-git over an in-memory copy of the workspace, with .git kept in `store`
+export const createBrowserGit = ({ getWorkspaceFiles, store }: BrowserGitOptions): GitBackend => {
+  const memoryFs = new MemoryFs();
+  const fs = memoryFs.client;
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let loaded: Promise<void> | null = null;
+  // isomorphic-git isn't safe to run concurrently on one repository
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const load = () => {
+    loaded ??= (async () => {
+      const files = await store?.load();
+      files?.forEach((data, path) => memoryFs.putFile(`${GITDIR}/${path}`, data));
+    })();
+    return loaded;
+  };
+
+  // Copy the workspace into the working tree, so git sees what's saved right now
+  const syncWorkdir = () => {
+    const files = getWorkspaceFiles();
+    const paths = new Set(files.map(file => file.path));
+
+    memoryFs.listFiles(DIR, isGitPath).forEach((_, path) => {
+      if (!paths.has(path)) memoryFs.removeFile(`${DIR}/${path}`);
+    });
+    files.forEach(file => memoryFs.putFile(`${DIR}/${file.path}`, encoder.encode(file.content)));
+  };
+
+  const save = async () => {
+    await store?.save(memoryFs.listFiles(GITDIR));
+  };
+
+  // Run one operation at a time, on an up-to-date working tree
+  const run = <T>(operation: () => Promise<T>, changesRepository = false): Promise<T> => {
+    const result = queue.then(async () => {
+      await load();
+      syncWorkdir();
+      const value = await operation();
+      if (changesRepository) await save();
+      return value;
+    });
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const hasHead = async () => {
+    try {
+      await git.resolveRef({ fs, gitdir: GITDIR, ref: 'HEAD' });
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const readIndexFile = async (path: string) => {
+    const oids = await git.walk({
+      fs,
+      dir: DIR,
+      gitdir: GITDIR,
+      trees: [git.STAGE()],
+      // Only descend into the folders on the way to the file
+      map: async (filepath, [entry]) => {
+        if (filepath === path) return entry ? await entry.oid() : null;
+        return filepath === '.' || path.startsWith(`${filepath}/`) ? undefined : null;
+      },
+      reduce: async (parent, children) => [parent, ...children].flat().filter(Boolean),
+    });
+    const oid = (oids as string[])[0];
+    if (!oid) return null;
+
+    const { blob } = await git.readBlob({ fs, gitdir: GITDIR, oid });
+    return decoder.decode(blob);
+  };
+
+  return {
+    kind: 'browser',
+
+    isRepository: () => run(async () => {
+      try {
+        await memoryFs.stat(`${GITDIR}/HEAD`);
+        return true;
+      } catch {
+        return false;
+      }
+    }),
+
+    init: () => run(() => git.init({ fs, dir: DIR, defaultBranch: 'main' }), true),
+
+    status: () => run(async () => {
+      const matrix = await git.statusMatrix({ fs, dir: DIR, gitdir: GITDIR });
+      return matrix
+        .map(toStatusEntry)
+        .filter(entry => entry.staged || entry.unstaged);
+    }),
+
+    currentBranch: () => run(async () => {
+      return (await git.currentBranch({ fs, gitdir: GITDIR })) || null;
+    }),
+
+    listBranches: () => run(async () => {
+      const branches = await git.listBranches({ fs, gitdir: GITDIR });
+      // Before the first commit the current branch has no ref yet
+      const current = await git.currentBranch({ fs, gitdir: GITDIR });
+      return current && !branches.includes(current) ? [current, ...branches] : branches;
+    }),
+
+    readFile: (path: string, revision: GitRevision) => run(async () => {
+      try {
+        if (revision === 'INDEX') return await readIndexFile(path);
+
+        const oid = await git.resolveRef({ fs, gitdir: GITDIR, ref: 'HEAD' });
+        const { blob } = await git.readBlob({ fs, gitdir: GITDIR, oid, filepath: path });
+        return decoder.decode(blob);
+      } catch {
+        return null;
+      }
+    }),
+
+    stage: (paths: string[]) => run(async () => {
+      const workdir = memoryFs.listFiles(DIR, isGitPath);
+      for (const path of paths) {
+        if (workdir.has(path)) {
+          await git.add({ fs, dir: DIR, gitdir: GITDIR, filepath: path });
+        } else {
+          await git.remove({ fs, dir: DIR, gitdir: GITDIR, filepath: path });
+        }
+      }
+    }, true),
+
+    unstage: (paths: string[]) => run(async () => {
+      for (const path of paths) {
+        await git.resetIndex({ fs, dir: DIR, gitdir: GITDIR, filepath: path });
+      }
+    }, true),
+
+    commit: (message: string, author: GitAuthor) => run(() => {
+      return git.commit({ fs, dir: DIR, gitdir: GITDIR, message, author });
+    }, true),
+
+    createBranch: (name: string) => run(async () => {
+      if (!(await hasHead())) {
+        throw new Error('Commit something before creating a branch');
+      }
+      await git.branch({ fs, dir: DIR, gitdir: GITDIR, ref: name, checkout: true });
+    }, true),
+
+    checkout: (branch: string) => run(async (): Promise<GitWorkdirChanges> => {
+      const before = memoryFs.listFiles(DIR, isGitPath);
+      await git.checkout({ fs, dir: DIR, gitdir: GITDIR, ref: branch });
+      const after = memoryFs.listFiles(DIR, isGitPath);
+
+      return {
+        written: [...after]
+          .filter(([path, data]) => !before.has(path) || !sameBytes(before.get(path)!, data))
+          .map(([path, data]) => ({ path, content: decoder.decode(data) })),
+        deleted: [...before.keys()].filter(path => !after.has(path)),
+      };
+    }, true),
+
+    log: (depth: number) => run(async (): Promise<GitCommit[]> => {
+      if (!(await hasHead())) return [];
+
+      const commits = await git.log({ fs, dir: DIR, gitdir: GITDIR, depth });
+      return commits.map(({ oid, commit }) => ({
+        oid,
+        message: commit.message.trim(),
+        author: commit.author.name,
+        email: commit.author.email,
+        timestamp: commit.author.timestamp * 1000,
+      }));
+    }),
+
+    blame: (path: string) => run(async (): Promise<GitBlameLine[] | null> => {
+      if (!(await hasHead())) return null;
+
+      // Only the commits that changed the file, newest first
+      let commits;
+      try {
+        commits = await git.log({ fs, dir: DIR, gitdir: GITDIR, filepath: path });
+      } catch {
+        return null;
+      }
+
+      const revisions: FileRevision[] = [];
+      for (const { oid, commit } of commits) {
+        try {
+          const { blob } = await git.readBlob({ fs, gitdir: GITDIR, oid, filepath: path });
+          revisions.push({
+            content: decoder.decode(blob),
+            line: {
+              oid,
+              author: commit.author.name,
+              timestamp: commit.author.timestamp * 1000,
+              summary: commit.message.trim().split('\n')[0],
+            },
+          });
+        } catch {
+          // The commit that deleted the file; older ones are a different file
+          break;
+        }
+      }
+
+      return revisions.length ? blameFromHistory(revisions) : null;
+    }),
+  };
+};
@@ -0,0 +1,43 @@
+import { openDatabase, requestToPromise, transactionDone } from '@/lib/storage/idb';
+import { GitDirStore } from './browserGit';
+
+const DB_NAME = 'vortexity-git';
+const DB_VERSION = 1;
+const REPOSITORIES_STORE = 'repositories';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  dbPromise ??= openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(REPOSITORIES_STORE)) {
+      db.createObjectStore(REPOSITORIES_STORE);
+    }
+  });
+  return dbPromise;
+};
+
+// The .git folder of one browser project, stored whole under the project's id
+export const createIndexedDbGitStore = (projectId: string): GitDirStore => ({
+  load: async () => {
+    const db = await getDb();
+    const files = await requestToPromise<Map<string, Uint8Array> | undefined>(
+      db.transaction(REPOSITORIES_STORE).objectStore(REPOSITORIES_STORE).get(projectId)
+    );
+    return files ?? null;
+  },
+
+  save: async (files) => {
+    const db = await getDb();
+    const transaction = db.transaction(REPOSITORIES_STORE, 'readwrite');
+    transaction.objectStore(REPOSITORIES_STORE).put(files, projectId);
+    await transactionDone(transaction);
+  },
+});
+
+// A deleted project's repository goes with it
+export const deleteProjectRepository = async (projectId: string) => {
+  const db = await getDb();
+  const transaction = db.transaction(REPOSITORIES_STORE, 'readwrite');
+  transaction.objectStore(REPOSITORIES_STORE).delete(projectId);
+  await transactionDone(transaction);
+};
@@ -0,0 +1,45 @@
+import { computeHunks, DiffHunk } from '@/lib/diff';
+
+export type LineChangeKind = 'added' | 'modified' | 'deleted';
+
+// A changed region of the editor, for gutter markers. Lines are 1-based, like Monaco's.
+export interface LineChange {
+  kind: LineChangeKind;
+  // For deletions, the line the removed lines used to follow (0 when they were at the top)
+  startLine: number;
+  endLine: number;
+  hunk: DiffHunk;
+}
+
+export const computeLineChanges = (baseline: string, current: string): LineChange[] => {
+  return computeHunks(baseline, current).map(hunk => {
+    if (hunk.newLines.length === 0) {
+      return { kind: 'deleted', startLine: hunk.newStart, endLine: hunk.newStart, hunk };
+    }
+    return {
+      kind: hunk.oldLines.length === 0 ? 'added' : 'modified',
+      startLine: hunk.newStart + 1,
+      endLine: hunk.newStart + hunk.newLines.length,
+      hunk,
+    };
+  });
+};
+
+// The change whose marker sits on a line; deletions at the very top are marked on line 1
+export const findLineChange = (changes: LineChange[], line: number) => {
+  return changes.find(change => change.kind === 'deleted'
+    ? Math.max(change.startLine, 1) === line
+    : change.startLine <= line && line <= change.endLine
+  );
+};
+
+// The baseline line (1-based) an unchanged editor line came from, or null for changed lines
+export const toBaselineLine = (changes: LineChange[], line: number): number | null => {
+  let offset = 0;
+  for (const { hunk } of changes) {
+    if (line <= hunk.newStart) break;
+    if (line <= hunk.newStart + hunk.newLines.length) return null;
+    offset += hunk.oldLines.length - hunk.newLines.length;
+  }
+  return line + offset;
+};
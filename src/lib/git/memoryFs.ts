@@ -0,0 +1,218 @@
+// A small in-memory file system with the promise API isomorphic-git expects from Node's fs
+
+interface FileNode {
+  type: 'file';
+  data: Uint8Array;
+  ino: number;
+  mtimeMs: number;
+}
+
+interface DirectoryNode {
+  type: 'dir';
+  children: Set<string>;
+  ino: number;
+  mtimeMs: number;
+}
+
+type FsNode = FileNode | DirectoryNode;
+
+// Errors shaped like Node's, which isomorphic-git checks by code
+const fsError = (code: string, path: string) => {
+  return Object.assign(new Error(`${code}: ${path}`), { code, path });
+};
+
+const normalizePath = (path: string) => {
+  const parts = path.split('/').filter(part => part && part !== '.');
+  return `/${parts.join('/')}`;
+};
+
+const splitPath = (path: string): [string, string] => {
+  const slash = path.lastIndexOf('/');
+  return [slash === 0 ? '/' : path.slice(0, slash), path.slice(slash + 1)];
+};
+
+const isUtf8 = (options: unknown) => {
+  return options === 'utf8' || (typeof options === 'object' && options !== null && (options as { encoding?: string }).encoding === 'utf8');
+};
+
+export class MemoryFs {
+  private nodes = new Map<string, FsNode>();
+  private nextIno = 1;
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  // The shape isomorphic-git takes as its `fs` option
+  readonly client = {
+    promises: {
+      readFile: this.readFile.bind(this),
+      writeFile: this.writeFile.bind(this),
+      unlink: this.unlink.bind(this),
+      readdir: this.readdir.bind(this),
+      mkdir: this.mkdir.bind(this),
+      rmdir: this.rmdir.bind(this),
+      stat: this.stat.bind(this),
+      lstat: this.stat.bind(this),
+      readlink: this.readlink.bind(this),
+      symlink: this.symlink.bind(this),
+    },
+  };
+
+  constructor() {
+    this.nodes.set('/', this.createDirectory());
+  }
+
+  private createDirectory(): DirectoryNode {
+    return { type: 'dir', children: new Set(), ino: this.nextIno++, mtimeMs: Date.now() };
+  }
+
+  private getDirectory(path: string): DirectoryNode {
+    const node = this.nodes.get(path);
+    if (!node) throw fsError('ENOENT', path);
+    if (node.type !== 'dir') throw fsError('ENOTDIR', path);
+    return node;
+  }
+
+  async readFile(path: string, options?: unknown): Promise<Uint8Array | string> {
+    const node = this.nodes.get(normalizePath(path));
+    if (!node) throw fsError('ENOENT', path);
+    if (node.type !== 'file') throw fsError('EISDIR', path);
+    return isUtf8(options) ? this.decoder.decode(node.data) : node.data;
+  }
+
+  async writeFile(path: string, data: Uint8Array | string): Promise<void> {
+    const normalized = normalizePath(path);
+    const [parentPath, name] = splitPath(normalized);
+    const parent = this.getDirectory(parentPath);
+
+    const existing = this.nodes.get(normalized);
+    if (existing?.type === 'dir') throw fsError('EISDIR', path);
+
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : new Uint8Array(data);
+    this.nodes.set(normalized, { type: 'file', data: bytes, ino: existing?.ino ?? this.nextIno++, mtimeMs: Date.now() });
+    parent.children.add(name);
+  }
+
+  async unlink(path: string): Promise<void> {
+    const normalized = normalizePath(path);
+    const node = this.nodes.get(normalized);
+    if (!node) throw fsError('ENOENT', path);
+    if (node.type === 'dir') throw fsError('EISDIR', path);
+
+    const [parentPath, name] = splitPath(normalized);
+    this.nodes.delete(normalized);
+    this.getDirectory(parentPath).children.delete(name);
+  }
+
+  async readdir(path: string): Promise<string[]> {
+    return [...this.getDirectory(normalizePath(path)).children];
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const normalized = normalizePath(path);
+    if (this.nodes.has(normalized)) throw fsError('EEXIST', path);
+
+    const [parentPath, name] = splitPath(normalized);
+    const parent = this.getDirectory(parentPath);
+    this.nodes.set(normalized, this.createDirectory());
+    parent.children.add(name);
+  }
+
+  async rmdir(path: string): Promise<void> {
+    const normalized = normalizePath(path);
+    const node = this.getDirectory(normalized);
+    if (node.children.size > 0) throw fsError('ENOTEMPTY', path);
+    if (normalized === '/') throw fsError('EBUSY', path);
+
+    const [parentPath, name] = splitPath(normalized);
+    this.nodes.delete(normalized);
+    this.getDirectory(parentPath).children.delete(name);
+  }
+
+  async stat(path: string) {
+    const node = this.nodes.get(normalizePath(path));
+    if (!node) throw fsError('ENOENT', path);
+
+    const isFile = node.type === 'file';
+    return {
+      type: node.type,
+      mode: isFile ? 0o100644 : 0o40000,
+      size: isFile ? node.data.length : 0,
+      ino: node.ino,
+      mtimeMs: node.mtimeMs,
+      ctimeMs: node.mtimeMs,
+      uid: 1,
+      gid: 1,
+      dev: 1,
+      isFile: () => isFile,
+      isDirectory: () => !isFile,
+      isSymbolicLink: () => false,
+    };
+  }
+
+  // Workspace files are never links
+  async readlink(path: string): Promise<string> {
+    throw fsError('EINVAL', path);
+  }
+
+  async symlink(_target: string, path: string): Promise<void> {
+    throw fsError('ENOSYS', path);
+  }
+
+  // Synchronous helpers for moving whole trees in and out
+
+  // Every file under a directory, by path relative to it
+  listFiles(directory: string, skip?: (relativePath: string) => boolean): Map<string, Uint8Array> {
+    const root = normalizePath(directory);
+    const prefix = root === '/' ? '/' : `${root}/`;
+    const files = new Map<string, Uint8Array>();
+
+    for (const [path, node] of this.nodes) {
+      if (node.type !== 'file' || !path.startsWith(prefix)) continue;
+      const relativePath = path.slice(prefix.length);
+      if (!skip?.(relativePath)) files.set(relativePath, node.data);
+    }
+    return files;
+  }
+
+  // Write a file, creating its folders; unchanged content keeps its timestamps so git can skip it
+  putFile(path: string, data: Uint8Array) {
+    const normalized = normalizePath(path);
+    const existing = this.nodes.get(normalized);
+    if (existing?.type === 'file' && sameBytes(existing.data, data)) return;
+
+    const [parentPath, name] = splitPath(normalized);
+    if (!this.nodes.has(parentPath)) this.putDirectory(parentPath);
+    this.nodes.set(normalized, { type: 'file', data, ino: existing?.ino ?? this.nextIno++, mtimeMs: Date.now() });
+    (this.nodes.get(parentPath) as DirectoryNode).children.add(name);
+  }
+
+  private putDirectory(path: string) {
+    const [parentPath, name] = splitPath(path);
+    if (!this.nodes.has(parentPath)) this.putDirectory(parentPath);
+    this.nodes.set(path, this.createDirectory());
+    (this.nodes.get(parentPath) as DirectoryNode).children.add(name);
+  }
+
+  // Remove a file and any folders it leaves empty
+  removeFile(path: string) {
+    let current = normalizePath(path);
+    if (this.nodes.get(current)?.type !== 'file') return;
+
+    while (current !== '/') {
+      const [parentPath, name] = splitPath(current);
+      this.nodes.delete(current);
+      const parent = this.nodes.get(parentPath) as DirectoryNode;
+      parent.children.delete(name);
+      if (parent.children.size > 0) break;
+      current = parentPath;
+    }
+  }
+}
+
+export const sameBytes = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
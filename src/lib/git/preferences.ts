@@ -0,0 +1,49 @@
+import { GitAuthor } from './types';
+
+// Who commits are made as; kept in this browser like the other settings
+const AUTHOR_STORAGE_KEY = 'git-author';
+
+const DEFAULT_AUTHOR: GitAuthor = {
+  name: 'Vortexity User',
+  email: 'user@vortexity.local',
+};
+
+export const loadGitAuthor = (): GitAuthor => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(AUTHOR_STORAGE_KEY) || 'null');
+    if (saved && typeof saved.name === 'string' && typeof saved.email === 'string') {
+      return { name: saved.name, email: saved.email };
+    }
+  } catch (error) {
+    console.error('Error loading git author:', error);
+  }
+
+  return { ...DEFAULT_AUTHOR };
+};
+
+export const saveGitAuthor = (author: GitAuthor) => {
+  try {
+    localStorage.setItem(AUTHOR_STORAGE_KEY, JSON.stringify(author));
+  } catch (error) {
+    console.error('Error saving git author:', error);
+  }
+};
+
+// Whether the editor annotates the cursor line with who last changed it
+const INLINE_BLAME_STORAGE_KEY = 'git-inline-blame';
+
+export const loadInlineBlame = (): boolean => {
+  try {
+    return localStorage.getItem(INLINE_BLAME_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const saveInlineBlame = (enabled: boolean) => {
+  try {
+    localStorage.setItem(INLINE_BLAME_STORAGE_KEY, String(enabled));
+  } catch (error) {
+    console.error('Error saving inline blame setting:', error);
+  }
+};
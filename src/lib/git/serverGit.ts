@@ -0,0 +1,37 @@
+import { getSessionToken, SESSION_HEADER } from '@/lib/workspaceSession';
+import { GitBackend, GitBlameLine, GitCommit, GitStatusEntry, GitWorkdirChanges } from './types';
+
+// Git for a disk workspace, run by the dev server's /api/git route
+export const createServerGit = (baseUrl: string = '/api'): GitBackend => {
+  const request = async <T>(action: string, args: Record<string, unknown> = {}): Promise<T> => {
+    const response = await fetch(`${baseUrl}/git`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SESSION_HEADER]: getSessionToken() },
+      body: JSON.stringify({ action, ...args }),
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(body.error || `git ${action} failed with status ${response.status}`);
+    }
+
+    return body.result as T;
+  };
+
+  return {
+    kind: 'server',
+    isRepository: () => request<boolean>('isRepository'),
+    init: () => request<void>('init'),
+    status: () => request<GitStatusEntry[]>('status'),
+    currentBranch: () => request<string | null>('currentBranch'),
+    listBranches: () => request<string[]>('listBranches'),
+    readFile: (path, revision) => request<string | null>('readFile', { path, revision }),
+    stage: (paths) => request<void>('stage', { paths }),
+    unstage: (paths) => request<void>('unstage', { paths }),
+    commit: (message, author) => request<string>('commit', { message, author }),
+    createBranch: (name) => request<void>('createBranch', { name }),
+    checkout: (branch) => request<GitWorkdirChanges>('checkout', { branch }),
+    log: (depth) => request<GitCommit[]>('log', { depth }),
+    blame: (path) => request<GitBlameLine[] | null>('blame', { path }),
+  };
+};
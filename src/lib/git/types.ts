@@ -0,0 +1,68 @@
+// Shared types for version control over the workspace
+
+export type GitChangeType = 'added' | 'modified' | 'deleted' | 'untracked';
+
+// A changed file. Paths are workspace-relative, like everywhere in storage.
+export interface GitStatusEntry {
+  path: string;
+  // HEAD -> index
+  staged?: GitChangeType;
+  // index -> working tree
+  unstaged?: GitChangeType;
+}
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: string;
+  email: string;
+  // Milliseconds, like Date.now()
+  timestamp: number;
+}
+
+// Who last changed one line of a file at HEAD
+export interface GitBlameLine {
+  oid: string;
+  author: string;
+  // Milliseconds, like Date.now()
+  timestamp: number;
+  // First line of the commit message
+  summary: string;
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+// Content of a file at HEAD or in the index, for diffs
+export type GitRevision = 'HEAD' | 'INDEX';
+
+// Files written or removed in the working tree by a checkout, for the workspace to apply
+export interface GitWorkdirChanges {
+  written: { path: string; content: string }[];
+  deleted: string[];
+}
+
+export type GitBackendKind = 'browser' | 'server';
+
+export interface GitBackend {
+  readonly kind: GitBackendKind;
+  isRepository: () => Promise<boolean>;
+  init: () => Promise<void>;
+  status: () => Promise<GitStatusEntry[]>;
+  // null on a detached HEAD
+  currentBranch: () => Promise<string | null>;
+  listBranches: () => Promise<string[]>;
+  // null when the file isn't there at that revision
+  readFile: (path: string, revision: GitRevision) => Promise<string | null>;
+  stage: (paths: string[]) => Promise<void>;
+  unstage: (paths: string[]) => Promise<void>;
+  // Returns the new commit's id
+  commit: (message: string, author: GitAuthor) => Promise<string>;
+  createBranch: (name: string) => Promise<void>;
+  checkout: (branch: string) => Promise<GitWorkdirChanges>;
+  log: (depth: number) => Promise<GitCommit[]>;
+  // One entry per line of the file at HEAD; null when HEAD doesn't have the file
+  blame: (path: string) => Promise<GitBlameLine[] | null>;
+}
@@ -0,0 +1,237 @@
+// Importing repositories from GitHub: one tree listing per import, then the file contents in parallel
+import { decodeTextContent } from './binary';
+import { mapWithConcurrency } from './concurrency';
+import { ImportProgress, MAX_IMPORT_FILE_SIZE } from './projectImport';
+
+const API_URL = 'https://api.github.com';
+const RAW_URL = 'https://raw.githubusercontent.com';
+const TOKEN_STORAGE_KEY = 'github-token';
+
+const DOWNLOAD_CONCURRENCY = 8;
+
+export interface GithubLocation {
+  owner: string;
+  repo: string;
+  // Whatever followed /tree/ or /blob/ in the URL; may be a ref followed by a path
+  refPath?: string;
+}
+
+export interface GithubRepository {
+  name: string;
+  fullName: string;
+  defaultBranch: string;
+  isPrivate: boolean;
+}
+
+export interface GithubRefs {
+  branches: string[];
+  tags: string[];
+}
+
+export interface ImportedRepository {
+  files: { path: string; content: string }[];
+  skipped: { path: string; reason: 'large' | 'binary' | 'failed' }[];
+  // The tree listing was too big for GitHub to return whole
+  truncated: boolean;
+  commit: string;
+}
+
+export class GithubError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GithubError';
+  }
+}
+
+// "https://github.com/owner/repo/tree/branch", "github.com/owner/repo.git" or just "owner/repo"
+export const parseGithubUrl = (input: string): GithubLocation | null => {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  let pathParts: string[];
+  if (/^[\w.-]+\/[\w.-]+$/.test(trimmed)) {
+    pathParts = trimmed.split('/');
+  } else {
+    try {
+      const url = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`);
+      if (url.hostname !== 'github.com' && url.hostname !== 'www.github.com') return null;
+      pathParts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      return null;
+    }
+  }
+
+  if (pathParts.length < 2) return null;
+
+  const location: GithubLocation = { owner: pathParts[0], repo: pathParts[1].replace(/\.git$/, '') };
+  if ((pathParts[2] === 'tree' || pathParts[2] === 'blob' || pathParts[2] === 'commit') && pathParts.length > 3) {
+    location.refPath = pathParts.slice(3).join('/');
+  }
+  return location;
+};
+
+// Branch names can contain slashes, so the longest known ref at the start of the path wins
+export const resolveRefPath = (refPath: string, refs: GithubRefs): string => {
+  const candidates = [...refs.branches, ...refs.tags]
+    .filter(ref => refPath === ref || refPath.startsWith(`${ref}/`))
+    .sort((a, b) => b.length - a.length);
+  return candidates[0] ?? refPath.split('/')[0];
+};
+
+export const loadGithubToken = (): string => {
+  try {
+    return localStorage.getItem(TOKEN_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveGithubToken = (token: string | null) => {
+  try {
+    if (token) {
+      localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving GitHub token:', error);
+  }
+};
+
+const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+interface TreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+export const createGithubClient = (token?: string, signal?: AbortSignal) => {
+  const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const request = async <T>(endpoint: string): Promise<T> => {
+    const response = await fetch(`${API_URL}${endpoint}`, { headers, signal });
+    if (response.ok) return response.json() as Promise<T>;
+
+    if (response.status === 401) {
+      throw new GithubError('GitHub rejected the access token. Check that it is valid and not expired.');
+    }
+    if ((response.status === 403 || response.status === 429) && response.headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number(response.headers.get('x-ratelimit-reset')) * 1000;
+      const when = reset ? ` until ${new Date(reset).toLocaleTimeString()}` : '';
+      throw new GithubError(`GitHub's API rate limit is used up${when}. ${token ? '' : 'An access token raises the limit.'}`.trim());
+    }
+    if (response.status === 404) {
+      throw new GithubError(token
+        ? 'Not found. Check the repository and ref, and that the token can read the repository.'
+        : 'Not found. Check the repository and ref; private repositories need an access token.');
+    }
+
+    const body = await response.json().catch(() => ({}));
+    throw new GithubError(body.message || `GitHub request failed with status ${response.status}`);
+  };
+
+  // Every page of a list endpoint
+  const requestAll = async <T>(endpoint: string): Promise<T[]> => {
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await request<T[]>(`${endpoint}${endpoint.includes('?') ? '&' : '?'}per_page=100&page=${page}`);
+      items.push(...batch);
+      if (batch.length < 100) return items;
+    }
+  };
+
+  // Public files come from raw.githubusercontent.com, which doesn't count against the API limit;
+  // with a token, blobs come through the API so private repositories work too
+  const downloadBlob = async (owner: string, repo: string, commit: string, entry: TreeEntry): Promise<Uint8Array> => {
+    if (token) {
+      const response = await fetch(`${API_URL}/repos/${owner}/${repo}/git/blobs/${entry.sha}`, {
+        headers: { ...headers, Accept: 'application/vnd.github.raw+json' },
+        signal,
+      });
+      if (!response.ok) throw new GithubError(`Failed to download ${entry.path} (${response.status})`);
+      return new Uint8Array(await response.arrayBuffer());
+    }
+
+    const response = await fetch(`${RAW_URL}/${owner}/${repo}/${commit}/${encodePath(entry.path)}`, { signal });
+    if (!response.ok) throw new GithubError(`Failed to download ${entry.path} (${response.status})`);
+    return new Uint8Array(await response.arrayBuffer());
+  };
+
+  return {
+    getRepository: async (owner: string, repo: string): Promise<GithubRepository> => {
+      const data = await request<{ name: string; full_name: string; default_branch: string; private: boolean }>(
+        `/repos/${owner}/${repo}`
+      );
+      return { name: data.name, fullName: data.full_name, defaultBranch: data.default_branch, isPrivate: data.private };
+    },
+
+    listRefs: async (owner: string, repo: string): Promise<GithubRefs> => {
+      const [branches, tags] = await Promise.all([
+        requestAll<{ name: string }>(`/repos/${owner}/${repo}/branches`),
+        requestAll<{ name: string }>(`/repos/${owner}/${repo}/tags`),
+      ]);
+      return { branches: branches.map(branch => branch.name), tags: tags.map(tag => tag.name) };
+    },
+
+    // Download every text file at a branch, tag or commit
+    importRepository: async (
+      owner: string,
+      repo: string,
+      ref: string,
+      onProgress: (progress: ImportProgress) => void
+    ): Promise<ImportedRepository> => {
+      const { sha: commit } = await request<{ sha: string }>(`/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`);
+      const { tree, truncated } = await request<{ tree: TreeEntry[]; truncated: boolean }>(
+        `/repos/${owner}/${repo}/git/trees/${commit}?recursive=1`
+      );
+
+      // Regular files only: no submodules (commits) and no symlinks (mode 120000)
+      const blobs = tree.filter(entry => entry.type === 'blob' && entry.mode !== '120000');
+      const files: ImportedRepository['files'] = [];
+      const skipped: ImportedRepository['skipped'] = [];
+      const progress: ImportProgress = { total: blobs.length, done: 0, skipped: 0 };
+      onProgress({ ...progress });
+
+      const finish = (skip?: ImportedRepository['skipped'][number]) => {
+        if (skip) {
+          skipped.push(skip);
+          progress.skipped++;
+        }
+        progress.done++;
+        onProgress({ ...progress });
+      };
+
+      await mapWithConcurrency(blobs, DOWNLOAD_CONCURRENCY, async entry => {
+        if ((entry.size ?? 0) > MAX_IMPORT_FILE_SIZE) {
+          finish({ path: entry.path, reason: 'large' });
+          return;
+        }
+
+        let bytes: Uint8Array;
+        try {
+          bytes = await downloadBlob(owner, repo, commit, entry);
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          console.error(`Failed to download ${entry.path}:`, error);
+          finish({ path: entry.path, reason: 'failed' });
+          return;
+        }
+
+        const content = decodeTextContent(bytes);
+        if (content === null) {
+          finish({ path: entry.path, reason: 'binary' });
+          return;
+        }
+        files.push({ path: entry.path, content });
+        finish();
+      });
+
+      files.sort((a, b) => a.path.localeCompare(b.path));
+      return { files, skipped, truncated, commit };
+    },
+  };
+};
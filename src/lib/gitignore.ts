@@ -0,0 +1,105 @@
+// .gitignore rules for workspace-relative paths, as git applies them
+
+interface IgnoreRule {
+  // Folder holding the .gitignore, '' for the root; patterns are relative to it
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  folderOnly: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Git's wildmatch: "*" and "?" stay within a segment, "**" spans folders, "[a-z]" is a class
+const patternToRegExp = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (ch === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+const parseRule = (line: string, base: string): IgnoreRule | null => {
+  let pattern = line.replace(/\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+
+  const negated = pattern.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+  // "\#file" and "\!file" name files that start with those characters
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+
+  const folderOnly = pattern.endsWith('/');
+  pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+
+  // A slash anywhere but the end ties the pattern to the .gitignore's folder; otherwise it
+  // matches a name at any depth
+  const anchored = pattern.includes('/');
+  pattern = pattern.replace(/^\/+/, '');
+
+  return { base, regex: patternToRegExp(anchored ? pattern : `**/${pattern}`), negated, folderOnly };
+};
+
+export const createIgnoreRules = () => {
+  const rules: IgnoreRule[] = [];
+
+  // The last rule that matches decides, so deeper .gitignore files must be added after their parents.
+  // Only the path itself is tested; isIgnored walks its folders
+  const matches = (path: string, isFolder: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.folderOnly && !isFolder) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.regex.test(relative)) ignored = !rule.negated;
+    }
+    return ignored;
+  };
+
+  return {
+    // The rules of the .gitignore in `folder`, '' for the root
+    add: (folder: string, content: string) => {
+      content.split(/\r?\n/).forEach(line => {
+        const rule = parseRule(line, folder);
+        if (rule) rules.push(rule);
+      });
+    },
+
+    // Whether git would leave the path out; nothing inside an ignored folder can be brought back
+    isIgnored: (path: string, isFolder = false): boolean => {
+      if (rules.length === 0) return false;
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        if (matches(parts.slice(0, i).join('/'), true)) return true;
+      }
+      return matches(path, isFolder);
+    },
+  };
+};
+
+export type IgnoreRules = ReturnType<typeof createIgnoreRules>;
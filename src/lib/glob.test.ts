@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { createPathMatcher, globToRegExp } from './glob';
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one path segment', () => {
+    const regex = globToRegExp('src/*.ts');
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/lib/index.ts')).toBe(false);
+    expect(globToRegExp('a?.ts').test('ab.ts')).toBe(true);
+    expect(globToRegExp('a?.ts').test('a/.ts')).toBe(false);
+  });
+
+  it('lets ** span folders, including none', () => {
+    const regex = globToRegExp('src/**/*.ts');
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/lib/storage/tree.ts')).toBe(true);
+    expect(regex.test('test/index.ts')).toBe(false);
+  });
+
+  it('matches any alternative in braces', () => {
+    const regex = globToRegExp('*.{js,jsx}');
+    expect(regex.test('app.js')).toBe(true);
+    expect(regex.test('app.jsx')).toBe(true);
+    expect(regex.test('app.ts')).toBe(false);
+  });
+
+  it('takes regular expression characters and unclosed braces literally', () => {
+    expect(globToRegExp('a+b(1).ts').test('a+b(1).ts')).toBe(true);
+    expect(globToRegExp('file.ts').test('fileXts')).toBe(false);
+    expect(globToRegExp('{a,b').test('{a,b')).toBe(true);
+    expect(globToRegExp('{a,b').test('a')).toBe(false);
+  });
+
+  it('ignores case only when asked', () => {
+    expect(globToRegExp('*.MD').test('readme.md')).toBe(false);
+    expect(globToRegExp('*.MD', true).test('readme.md')).toBe(true);
+  });
+});
+
+describe('createPathMatcher', () => {
+  it('is null for an empty list', () => {
+    expect(createPathMatcher('')).toBeNull();
+    expect(createPathMatcher(' , ')).toBeNull();
+  });
+
+  it('matches names without a slash at any depth', () => {
+    const matches = createPathMatcher('*.md')!;
+    expect(matches('README.md')).toBe(true);
+    expect(matches('docs/guide/intro.md')).toBe(true);
+    expect(matches('src/index.ts')).toBe(false);
+  });
+
+  it('matches everything inside a matching folder', () => {
+    const matches = createPathMatcher('node_modules, ./dist/')!;
+    expect(matches('node_modules/react/index.js')).toBe(true);
+    expect(matches('packages/app/node_modules/lib.js')).toBe(true);
+    expect(matches('dist/assets/index.js')).toBe(true);
+    expect(matches('src/dist.ts')).toBe(false);
+  });
+
+  it('anchors patterns with a slash at the root', () => {
+    const matches = createPathMatcher('src/*.ts')!;
+    expect(matches('src/index.ts')).toBe(true);
+    expect(matches('packages/src/index.ts')).toBe(false);
+  });
+
+  it('splits only on commas outside braces', () => {
+    const matches = createPathMatcher('*.{ts,tsx}, docs')!;
+    expect(matches('src/App.tsx')).toBe(true);
+    expect(matches('docs/intro.md')).toBe(true);
+    expect(matches('src/App.css')).toBe(false);
+  });
+});
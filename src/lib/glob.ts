@@ -0,0 +1,77 @@
+// Glob patterns for workspace-relative paths, e.g. "src/**/*.ts" or "*.{js,jsx}"
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// "*" and "?" stay within one path segment, "**" spans folders and "{a,b}" matches either
+export const globToRegExp = (pattern: string, ignoreCase = false): RegExp => {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+
+    if (ch === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no folder at all, so "**/*.ts" covers files at the root
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i++;
+      }
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '{' && !inGroup) {
+      source += '(?:';
+      inGroup = true;
+    } else if (ch === '}' && inGroup) {
+      source += ')';
+      inGroup = false;
+    } else if (ch === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+
+  // An unclosed brace is taken literally
+  if (inGroup) return new RegExp(`^${escapeRegExp(pattern)}$`, ignoreCase ? 'i' : '');
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+};
+
+// Split "src/**, *.{ts,tsx}" on the commas that aren't inside braces
+const splitPatterns = (patterns: string) => {
+  const result: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const ch of patterns) {
+    if (ch === ',' && depth === 0) {
+      result.push(current);
+      current = '';
+      continue;
+    }
+    if (ch === '{') depth++;
+    if (ch === '}') depth = Math.max(0, depth - 1);
+    current += ch;
+  }
+  result.push(current);
+
+  return result.map(pattern => pattern.trim()).filter(Boolean);
+};
+
+// Matcher for a comma-separated list of globs, as typed in an include or exclude box, or null
+// when the list is empty. Patterns without a slash match a name at any depth ("*.md",
+// "node_modules"), and a pattern matching a folder also matches everything inside it.
+export const createPathMatcher = (patterns: string): ((path: string) => boolean) | null => {
+  const regexes = splitPatterns(patterns).map(pattern => {
+    const relative = pattern.replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    const anchored = relative.includes('/') ? relative : `**/${relative}`;
+    return new RegExp(globToRegExp(anchored).source.replace(/\$$/, '(?:/.*)?$'));
+  });
+
+  if (regexes.length === 0) return null;
+  return (path: string) => regexes.some(regex => regex.test(path));
+};
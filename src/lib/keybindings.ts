@@ -0,0 +1,162 @@
+// Keybindings are strings like "Ctrl+Shift+P": modifiers in a fixed order, then one key.
+// "Ctrl" means Ctrl or Cmd, as the shortcuts in the app always have.
+
+// User changes to the default keybindings by command id; null means the binding was removed
+export type KeybindingOverrides = Record<string, string | null>;
+
+const KEYBINDINGS_STORAGE_KEY = 'keybindings';
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, typeof MODIFIERS[number]> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  cmd: 'Ctrl',
+  meta: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+};
+
+// KeyboardEvent.code for punctuation, so Shift doesn't change the key ("Ctrl+Shift+`", not "Ctrl+~")
+const CODE_KEYS: Record<string, string> = {
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Space: 'Space',
+};
+
+const NAMED_KEYS = [
+  'Enter', 'Escape', 'Tab', 'Backspace', 'Delete', 'Insert', 'Home', 'End', 'PageUp', 'PageDown',
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Space',
+];
+
+const normalizeKey = (key: string): string | null => {
+  if (/^[a-z0-9]$/i.test(key)) return key.toUpperCase();
+  if (/^f([1-9]|1[0-9])$/i.test(key)) return key.toUpperCase();
+  if (Object.values(CODE_KEYS).includes(key)) return key;
+  return NAMED_KEYS.find(name => name.toLowerCase() === key.toLowerCase()) ?? null;
+};
+
+// Canonical form of a typed keybinding, or null when it isn't one
+export const normalizeKeybinding = (keybinding: string): string | null => {
+  // Split on "+" that joins parts, so "Ctrl++" isn't supported but "Ctrl+=" is
+  const parts = keybinding.split('+').map(part => part.trim()).filter(Boolean);
+  const key = parts.pop();
+  if (!key) return null;
+
+  const modifiers = new Set<string>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+
+  const normalizedKey = normalizeKey(key);
+  if (!normalizedKey) return null;
+
+  return [...MODIFIERS.filter(modifier => modifiers.has(modifier)), normalizedKey].join('+');
+};
+
+// The keybinding a key press makes, or null for a lone modifier
+export const keybindingFromEvent = (e: KeyboardEvent): string | null => {
+  let key: string | null = null;
+  if (/^Key[A-Z]$/.test(e.code)) {
+    key = e.code.slice(3);
+  } else if (/^Digit[0-9]$/.test(e.code)) {
+    key = e.code.slice(5);
+  } else if (CODE_KEYS[e.code]) {
+    key = CODE_KEYS[e.code];
+  } else {
+    key = normalizeKey(e.key);
+  }
+  if (!key) return null;
+
+  const modifiers = [
+    (e.ctrlKey || e.metaKey) && 'Ctrl',
+    e.altKey && 'Alt',
+    e.shiftKey && 'Shift',
+  ].filter(Boolean);
+  return [...modifiers, key].join('+');
+};
+
+// Bindings without Ctrl or Alt would get in the way of typing, except function keys
+export const isTypingKeybinding = (keybinding: string) => {
+  return !/^(Ctrl|Alt)\+/.test(keybinding) && !/(^|\+)F\d+$/.test(keybinding);
+};
+
+// Keybindings bound to more than one command, with the commands' ids
+export const findKeybindingConflicts = (bindings: Map<string, string | undefined>) => {
+  const commandsByKeybinding = new Map<string, string[]>();
+  bindings.forEach((keybinding, commandId) => {
+    if (!keybinding) return;
+    commandsByKeybinding.set(keybinding, [...(commandsByKeybinding.get(keybinding) || []), commandId]);
+  });
+
+  return new Map([...commandsByKeybinding].filter(([, commandIds]) => commandIds.length > 1));
+};
+
+// Saved overrides, keeping only entries that still parse
+export const loadKeybindingOverrides = (): KeybindingOverrides => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(KEYBINDINGS_STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return {};
+
+    const overrides: KeybindingOverrides = {};
+    for (const [commandId, keybinding] of Object.entries(saved)) {
+      if (keybinding === null) {
+        overrides[commandId] = null;
+      } else if (typeof keybinding === 'string' && normalizeKeybinding(keybinding)) {
+        overrides[commandId] = normalizeKeybinding(keybinding);
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.error('Error loading keybindings:', error);
+    return {};
+  }
+};
+
+export const saveKeybindingOverrides = (overrides: KeybindingOverrides) => {
+  try {
+    localStorage.setItem(KEYBINDINGS_STORAGE_KEY, JSON.stringify(overrides));
+  } catch (error) {
+    console.error('Error saving keybindings:', error);
+  }
+};
+
+export interface ShortcutEntry {
+  category: string;
+  title: string;
+  keybinding?: string;
+}
+
+// Code span that survives a backtick in the key, as in "Ctrl+`"
+const toInlineCode = (text: string) => text.includes('`') ? `\`\` ${text} \`\`` : `\`${text}\``;
+
+// Markdown cheat sheet of every command with a keybinding, grouped by category
+export const buildShortcutsReference = (entries: ShortcutEntry[]) => {
+  const categories = new Map<string, ShortcutEntry[]>();
+  for (const entry of entries) {
+    if (!entry.keybinding) continue;
+    categories.set(entry.category, [...(categories.get(entry.category) || []), entry]);
+  }
+
+  const sections = [...categories].map(([category, categoryEntries]) => [
+    `## ${category}`,
+    '',
+    '| Command | Shortcut |',
+    '| --- | --- |',
+    ...categoryEntries.map(entry => `| ${entry.title} | ${toInlineCode(entry.keybinding!)} |`),
+  ].join('\n'));
+
+  return ['# Keyboard Shortcuts', '', 'Ctrl is Cmd on macOS.', '', sections.join('\n\n'), ''].join('\n');
+};
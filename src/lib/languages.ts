@@ -0,0 +1,79 @@
+// File extension -> Monaco language id
+const extensionMap: Record<string, string> = {
+  // Web
+  'html': 'html',
+  'htm': 'html',
+  'css': 'css',
+  'scss': 'scss',
+  'sass': 'sass',
+  'less': 'less',
+  
+  // JavaScript family
+  'js': 'javascript',
+  'jsx': 'javascript',
+  'ts': 'typescript',
+  'tsx': 'typescript',
+  'json': 'json',
+  
+  // Python
+  'py': 'python',
+  'pyc': 'python',
+  'pyd': 'python',
+  'pyo': 'python',
+  
+  // Java
+  'java': 'java',
+  
+  // C family
+  'c': 'c',
+  'cpp': 'cpp',
+  'h': 'c',
+  'hpp': 'cpp',
+  'cs': 'csharp',
+  
+  // Ruby
+  'rb': 'ruby',
+  
+  // PHP
+  'php': 'php',
+  
+  // Go
+  'go': 'go',
+  
+  // Rust
+  'rs': 'rust',
+  
+  // Swift
+  'swift': 'swift',
+  
+  // Kotlin
+  'kt': 'kotlin',
+  
+  // Shell
+  'sh': 'shell',
+  'bash': 'bash',
+  
+  // SQL
+  'sql': 'sql',
+  
+  // Markup and config
+  'md': 'markdown',
+  'yml': 'yaml',
+  'yaml': 'yaml',
+  'xml': 'xml',
+  'toml': 'toml',
+  'ini': 'ini',
+  
+  // Other
+  'graphql': 'graphql',
+  'dockerfile': 'dockerfile',
+};
+
+// Every language the extension map can produce
+export const knownLanguages = Array.from(new Set(Object.values(extensionMap)));
+
+// Helper function to determine language based on file extension
+export const getLanguageFromExtension = (filename: string): string => {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return extensionMap[extension] || 'plaintext';
+};
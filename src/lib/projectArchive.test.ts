@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { MAX_ARCHIVE_INFLATED_SIZE, readZipArchive, toArchivePath } from './projectArchive';
+import { MAX_IMPORT_FILE_SIZE } from './projectImport';
+
+const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+describe('toArchivePath', () => {
+  it('keeps ordinary paths as they are', () => {
+    expect(toArchivePath('src/index.ts')).toBe('src/index.ts');
+  });
+
+  it('treats backslashes as separators', () => {
+    expect(toArchivePath('src\\lib\\util.ts')).toBe('src/lib/util.ts');
+  });
+
+  it('drops parent, current and empty segments', () => {
+    expect(toArchivePath('../../etc/passwd')).toBe('etc/passwd');
+    expect(toArchivePath('/abs//./path/../file.txt')).toBe('abs/path/file.txt');
+    expect(toArchivePath('..\\..\\windows\\system.ini')).toBe('windows/system.ini');
+  });
+
+  it('leaves nothing of a name that is only separators and dots', () => {
+    expect(toArchivePath('../')).toBe('');
+    expect(toArchivePath('./.')).toBe('');
+  });
+});
+
+describe('readZipArchive', () => {
+  it('unwraps the single top folder', async () => {
+    const source = readZipArchive(zipSync({ project: { 'a.txt': strToU8('a'), src: { 'b.ts': strToU8('b') } } }), 'upload.zip');
+
+    expect(source.name).toBe('project');
+    expect(source.entries.map(entry => entry.path).sort()).toEqual(['a.txt', 'src/b.ts']);
+    expect(decode(await source.entries.find(entry => entry.path === 'a.txt')!.read())).toBe('a');
+  });
+
+  it('keeps entries inside the project whatever their names say', async () => {
+    const source = readZipArchive(zipSync({
+      '../escape.txt': strToU8('out'),
+      'dir\\nested.txt': strToU8('nested'),
+      './here.txt': strToU8('here'),
+    }), 'upload.zip');
+
+    expect(source.name).toBe('upload');
+    expect(source.entries.map(entry => entry.path).sort()).toEqual(['dir/nested.txt', 'escape.txt', 'here.txt']);
+    expect(source.entries.every(entry => !entry.path.split('/').includes('..'))).toBe(true);
+    expect(decode(await source.entries.find(entry => entry.path === 'escape.txt')!.read())).toBe('out');
+  });
+
+  it('refuses archives that expand past the total size cap', () => {
+    const file = new Uint8Array(MAX_IMPORT_FILE_SIZE);
+    const files: Record<string, Uint8Array> = {};
+    for (let i = 0; i <= MAX_ARCHIVE_INFLATED_SIZE / MAX_IMPORT_FILE_SIZE; i++) files[`f${i}.txt`] = file;
+
+    expect(() => readZipArchive(zipSync(files), 'bomb.zip')).toThrow(/expands to more than/);
+  });
+});
@@ -0,0 +1,59 @@
+// Zip archives of a project: the workspace going out, and projects coming in
+import { strToU8, unzipSync, zipSync, Zippable } from 'fflate';
+import { FileSystemItem } from './storage/types';
+import { ImportEntry, ImportSource, isSkippedFolder, MAX_IMPORT_FILE_SIZE } from './projectImport';
+
+// The whole tree under its root folder, so the archive unpacks into one folder like GitHub's do.
+// Empty folders are kept.
+export const createProjectZip = (root: FileSystemItem): Uint8Array => {
+  const toZippable = (items: FileSystemItem[]): Zippable => {
+    const result: Zippable = {};
+    for (const item of items) {
+      result[item.name] = item.type === 'folder' ? toZippable(item.children || []) : strToU8(item.content || '');
+    }
+    return result;
+  };
+
+  return zipSync({ [root.name]: toZippable(root.children || []) });
+};
+
+// Archives expanding to more than this in total are refused rather than inflated
+export const MAX_ARCHIVE_INFLATED_SIZE = 100 * 1024 * 1024;
+
+// An entry name as a path inside the project: backslashes count as separators, and "..", "." and
+// empty segments are dropped so nothing can point outside the root. Empty when nothing is left.
+export const toArchivePath = (name: string) =>
+  name.split(/[\\/]/).filter(part => part !== '' && part !== '.' && part !== '..').join('/');
+
+// The archive's files, without the single top folder most archives wrap everything in
+export const readZipArchive = (data: Uint8Array, fileName: string): ImportSource => {
+  const found: { name: string; path: string; size: number }[] = [];
+  let inflatedSize = 0;
+
+  // Only what can be imported is inflated; large files are still listed so they show up as skipped
+  const unzipped = unzipSync(data, {
+    filter: file => {
+      const path = toArchivePath(file.name);
+      if (!path || /[\\/]$/.test(file.name) || isSkippedFolder(path)) return false;
+      found.push({ name: file.name, path, size: file.originalSize });
+      if (file.originalSize > MAX_IMPORT_FILE_SIZE) return false;
+
+      inflatedSize += file.originalSize;
+      if (inflatedSize > MAX_ARCHIVE_INFLATED_SIZE) {
+        throw new Error(`${fileName} expands to more than ${MAX_ARCHIVE_INFLATED_SIZE / 1024 / 1024} MB`);
+      }
+      return true;
+    },
+  });
+
+  const top = found[0]?.path.split('/')[0];
+  const wrapped = found.length > 0 && found.every(file => file.path.startsWith(`${top}/`));
+
+  const entries: ImportEntry[] = found.map(file => ({
+    path: wrapped ? file.path.slice(top.length + 1) : file.path,
+    size: file.size,
+    read: async () => unzipped[file.name] ?? new Uint8Array(0),
+  }));
+
+  return { name: wrapped ? top : fileName.replace(/\.zip$/i, ''), entries };
+};
@@ -0,0 +1,153 @@
+// Importing a project from the user's machine: a folder picked or dropped, or a zip archive
+import { decodeTextContent } from './binary';
+import { createIgnoreRules } from './gitignore';
+
+// Files past this are left out of any import; the editor isn't meant for them
+export const MAX_IMPORT_FILE_SIZE = 500 * 1024;
+
+// Never worth importing, .gitignore or not
+const SKIPPED_FOLDERS = new Set(['.git', 'node_modules']);
+
+export interface ImportProgress {
+  total: number;
+  done: number;
+  // Files left out for being too large or binary
+  skipped: number;
+}
+
+// A file found in the source, read only if it is kept
+export interface ImportEntry {
+  path: string;
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+export interface ImportSource {
+  // Becomes the workspace's root folder
+  name: string;
+  entries: ImportEntry[];
+}
+
+export interface ImportedProject {
+  files: { path: string; content: string }[];
+  skipped: { path: string; reason: 'large' | 'binary' | 'failed' }[];
+  // Left out by .gitignore rules
+  ignored: number;
+}
+
+export const isSkippedFolder = (path: string) => path.split('/').some(part => SKIPPED_FOLDERS.has(part));
+
+const fileEntry = (path: string, file: File): ImportEntry => ({
+  path,
+  size: file.size,
+  read: async () => new Uint8Array(await file.arrayBuffer()),
+});
+
+// Folders from <input webkitdirectory>, where every path starts with the picked folder's name
+export const readFileList = (files: FileList | File[]): ImportSource | null => {
+  const list = Array.from(files);
+  if (list.length === 0) return null;
+
+  const name = (list[0].webkitRelativePath || list[0].name).split('/')[0];
+  const entries = list
+    .map(file => fileEntry((file.webkitRelativePath || file.name).split('/').slice(1).join('/'), file))
+    .filter(entry => entry.path && !isSkippedFolder(entry.path));
+  return { name, entries };
+};
+
+// Folders from the File System Access API's directory picker
+export const readDirectoryHandle = async (handle: FileSystemDirectoryHandle): Promise<ImportSource> => {
+  const entries: ImportEntry[] = [];
+
+  const walk = async (folder: FileSystemDirectoryHandle, prefix: string) => {
+    for await (const child of folder.values()) {
+      if (child.kind === 'directory') {
+        if (!SKIPPED_FOLDERS.has(child.name)) await walk(child as FileSystemDirectoryHandle, `${prefix}${child.name}/`);
+      } else {
+        entries.push(fileEntry(`${prefix}${child.name}`, await (child as FileSystemFileHandle).getFile()));
+      }
+    }
+  };
+
+  await walk(handle, '');
+  return { name: handle.name, entries };
+};
+
+// A folder dropped onto the page, through the older entries API that drag and drop still uses
+export const readDroppedFolder = async (folder: FileSystemDirectoryEntry): Promise<ImportSource> => {
+  const entries: ImportEntry[] = [];
+
+  // readEntries hands the children over in batches until it returns an empty one
+  const readChildren = async (directory: FileSystemDirectoryEntry) => {
+    const reader = directory.createReader();
+    const children: FileSystemEntry[] = [];
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) return children;
+      children.push(...batch);
+    }
+  };
+
+  const walk = async (directory: FileSystemDirectoryEntry, prefix: string) => {
+    for (const child of await readChildren(directory)) {
+      if (child.isDirectory) {
+        if (!SKIPPED_FOLDERS.has(child.name)) await walk(child as FileSystemDirectoryEntry, `${prefix}${child.name}/`);
+      } else {
+        const file = await new Promise<File>((resolve, reject) => (child as FileSystemFileEntry).file(resolve, reject));
+        entries.push(fileEntry(`${prefix}${child.name}`, file));
+      }
+    }
+  };
+
+  await walk(folder, '');
+  return { name: folder.name, entries };
+};
+
+// Read the source's text files, leaving out what its .gitignore files exclude, binaries and large files
+export const loadImportSource = async (
+  source: ImportSource,
+  onProgress: (progress: ImportProgress) => void,
+  signal?: AbortSignal
+): Promise<ImportedProject> => {
+  const rules = createIgnoreRules();
+
+  // Parents before children, so a nested .gitignore has the last word
+  const gitignores = source.entries
+    .filter(entry => entry.path === '.gitignore' || entry.path.endsWith('/.gitignore'))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  for (const entry of gitignores) {
+    const content = decodeTextContent(await entry.read());
+    if (content !== null) rules.add(entry.path.split('/').slice(0, -1).join('/'), content);
+  }
+
+  const kept = source.entries.filter(entry => !rules.isIgnored(entry.path));
+  const files: ImportedProject['files'] = [];
+  const skipped: ImportedProject['skipped'] = [];
+  const progress: ImportProgress = { total: kept.length, done: 0, skipped: 0 };
+  onProgress({ ...progress });
+
+  for (const entry of kept) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    let content: string | null = null;
+    if (entry.size > MAX_IMPORT_FILE_SIZE) {
+      skipped.push({ path: entry.path, reason: 'large' });
+    } else {
+      try {
+        content = decodeTextContent(await entry.read());
+        if (content === null) skipped.push({ path: entry.path, reason: 'binary' });
+      } catch (error) {
+        console.error(`Failed to read ${entry.path}:`, error);
+        skipped.push({ path: entry.path, reason: 'failed' });
+      }
+    }
+
+    if (content !== null) files.push({ path: entry.path, content });
+    progress.done++;
+    progress.skipped = skipped.length;
+    onProgress({ ...progress });
+  }
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, skipped, ignored: source.entries.length - kept.length };
+};
@@ -0,0 +1,78 @@
+import type { TerminalClientMessage, TerminalServerMessage } from '@/api/terminal';
+import { getSessionToken } from './workspaceSession';
+
+const TERMINAL_PATH = '/api/terminal';
+
+export interface PtySessionOptions {
+  cols: number;
+  rows: number;
+  onOutput: (data: string) => void;
+  onExit: (exitCode: number) => void;
+  // Called when the connection fails or drops without the shell exiting
+  onDisconnect: (wasConnected: boolean) => void;
+}
+
+export interface PtySession {
+  write: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  dispose: () => void;
+}
+
+// Connect to a shell spawned by the dev server (see src/api/terminal.ts)
+export const createPtySession = (options: PtySessionOptions): PtySession => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const params = new URLSearchParams({ cols: String(options.cols), rows: String(options.rows), session: getSessionToken() });
+  const url = `${protocol}//${window.location.host}${TERMINAL_PATH}?${params}`;
+  const socket = new WebSocket(url);
+
+  let wasConnected = false;
+  let exited = false;
+  let disposed = false;
+  // Input typed before the socket opens
+  let queued: TerminalClientMessage[] = [];
+
+  const send = (message: TerminalClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    } else if (socket.readyState === WebSocket.CONNECTING) {
+      queued.push(message);
+    }
+  };
+
+  socket.onopen = () => {
+    wasConnected = true;
+    queued.forEach(message => socket.send(JSON.stringify(message)));
+    queued = [];
+  };
+
+  socket.onmessage = (event) => {
+    let message: TerminalServerMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'output') {
+      options.onOutput(message.data);
+    } else if (message.type === 'exit') {
+      exited = true;
+      options.onExit(message.exitCode);
+    }
+  };
+
+  socket.onclose = () => {
+    if (!exited && !disposed) {
+      options.onDisconnect(wasConnected);
+    }
+  };
+
+  return {
+    write: (data) => send({ type: 'input', data }),
+    resize: (cols, rows) => send({ type: 'resize', cols, rows }),
+    dispose: () => {
+      disposed = true;
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,156 @@
+import { createPathMatcher } from './glob';
+
+// Full-text search and replace over workspace files, one line at a time
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+  // Comma-separated globs, e.g. "src/**, *.md"
+  include: string;
+  exclude: string;
+}
+
+export interface SearchFile {
+  // Workspace-relative, e.g. "src/App.tsx"
+  path: string;
+  content: string;
+}
+
+export interface SearchMatch {
+  // 1-based, like Monaco
+  line: number;
+  column: number;
+  length: number;
+  // The line, shortened around the match when it is long
+  preview: string;
+  // Where the match starts in the preview
+  previewOffset: number;
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  matchCount: number;
+  // The match limit was reached and later matches are missing
+  truncated: boolean;
+}
+
+const MAX_MATCHES = 5000;
+// Bigger files are most likely minified or generated
+const MAX_FILE_SIZE = 1024 * 1024;
+const PREVIEW_BEFORE = 30;
+const PREVIEW_LENGTH = 200;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws a SyntaxError for invalid regular expressions
+export const buildSearchRegExp = ({ query, isRegex, matchCase, wholeWord }: SearchOptions) => {
+  const source = isRegex ? query : escapeRegExp(query);
+  return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, matchCase ? 'g' : 'gi');
+};
+
+// The files the include and exclude globs let through
+export const filterSearchFiles = <T extends SearchFile>(files: T[], { include, exclude }: SearchOptions): T[] => {
+  const isIncluded = createPathMatcher(include);
+  const isExcluded = createPathMatcher(exclude);
+
+  return files.filter(file =>
+    file.content.length <= MAX_FILE_SIZE &&
+    (!isIncluded || isIncluded(file.path)) &&
+    (!isExcluded || !isExcluded(file.path))
+  );
+};
+
+const toPreview = (line: string, index: number) => {
+  const isCut = index > PREVIEW_BEFORE;
+  let start = isCut ? index - PREVIEW_BEFORE : 0;
+  // Indentation isn't worth the space
+  while (start < index && /\s/.test(line[start])) start++;
+
+  const prefix = isCut ? '…' : '';
+  return {
+    preview: prefix + line.slice(start, start + PREVIEW_LENGTH),
+    previewOffset: prefix.length + index - start,
+  };
+};
+
+// Find every non-empty match, grouped by file in the order given
+export const searchInFiles = (files: SearchFile[], options: SearchOptions, maxMatches = MAX_MATCHES): SearchResults => {
+  const results: SearchResults = { files: [], matchCount: 0, truncated: false };
+  if (!options.query) return results;
+
+  const regex = buildSearchRegExp(options);
+
+  for (const file of filterSearchFiles(files, options)) {
+    const matches: SearchMatch[] = [];
+    const lines = file.content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].replace(/\r$/, '');
+      regex.lastIndex = 0;
+
+      for (let match = regex.exec(line); match; match = regex.exec(line)) {
+        if (match[0].length === 0) {
+          // Step over empty matches, e.g. from "a*"
+          regex.lastIndex++;
+          continue;
+        }
+
+        if (results.matchCount === maxMatches) {
+          results.truncated = true;
+          break;
+        }
+
+        matches.push({ line: i + 1, column: match.index + 1, length: match[0].length, ...toPreview(line, match.index) });
+        results.matchCount++;
+      }
+    }
+
+    if (matches.length > 0) results.files.push({ path: file.path, matches });
+    if (results.truncated) break;
+  }
+
+  return results;
+};
+
+// "$&", "$1" and "$$" in regex replacements, like String.prototype.replace
+const expandReplacement = (replacement: string, match: string, groups: (string | undefined)[]) => {
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match;
+    const group = Number(ref);
+    return group >= 1 && group <= groups.length ? groups[group - 1] ?? '' : token;
+  });
+};
+
+// Replace every match the search would find in the content. The replacement is literal unless
+// the search is a regex.
+export const replaceInContent = (content: string, options: SearchOptions, replacement: string) => {
+  const regex = buildSearchRegExp(options);
+  let count = 0;
+
+  const lines = content.split('\n').map(rawLine => {
+    const carriageReturn = rawLine.endsWith('\r') ? '\r' : '';
+    const line = carriageReturn ? rawLine.slice(0, -1) : rawLine;
+
+    const replaced = line.replace(regex, (match: string, ...rest: unknown[]) => {
+      if (!match) return match;
+      count++;
+      if (!options.isRegex) return replacement;
+
+      // rest is the groups, then the offset, the whole string and, with named groups, an object
+      const groupCount = rest.findIndex(value => typeof value === 'number');
+      return expandReplacement(replacement, match, rest.slice(0, groupCount) as (string | undefined)[]);
+    });
+
+    return replaced + carriageReturn;
+  });
+
+  return { content: lines.join('\n'), count };
+};
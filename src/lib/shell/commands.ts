@@ -0,0 +1,611 @@
+import type { FileSystemItem, FileType } from '@/lib/storage/types';
+import { CommandIO, ShellCommand, ShellState } from './types';
+import { basename, dirname, globToRegExp, joinPath, resolvePath, toWorkspacePath } from './paths';
+
+const FOLDER_COLOR = '\x1b[1;34m';
+const MATCH_COLOR = '\x1b[1;31m';
+const RESET = '\x1b[0m';
+
+export const lookup = (shell: ShellState, shellPath: string) => {
+  return shell.fs.getFileByPath(toWorkspacePath(shellPath));
+};
+
+const fail = (io: CommandIO, command: string, message: string) => {
+  io.stderr(`${command}: ${message}\n`);
+};
+
+// Split "-rf a b" into flags and operands; returns the first flag that isn't allowed
+const parseFlags = (args: string[], allowed: string) => {
+  const flags = new Set<string>();
+  const operands: string[] = [];
+  let invalid: string | undefined;
+  let onlyOperands = false;
+
+  for (const arg of args) {
+    if (onlyOperands || !arg.startsWith('-') || arg === '-') {
+      operands.push(arg);
+    } else if (arg === '--') {
+      onlyOperands = true;
+    } else {
+      for (const flag of arg.slice(1)) {
+        if (!allowed.includes(flag)) invalid ??= flag;
+        flags.add(flag);
+      }
+    }
+  }
+
+  return { flags, operands, invalid };
+};
+
+const sortByName = (items: FileSystemItem[]) => {
+  return [...items].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Visit an item and everything below it, depth first
+const walk = (item: FileSystemItem, displayPath: string, visit: (item: FileSystemItem, displayPath: string) => void) => {
+  visit(item, displayPath);
+  for (const child of sortByName(item.children || [])) {
+    walk(child, `${displayPath.replace(/\/$/, '')}/${child.name}`, visit);
+  }
+};
+
+// Create a file or folder whose parent already exists; returns an error message on failure
+const createItem = (shell: ShellState, shellPath: string, type: FileType): string | null => {
+  const parent = lookup(shell, dirname(shellPath));
+  if (!parent) return 'No such file or directory';
+  if (parent.type !== 'folder') return 'Not a directory';
+
+  shell.fs.createFile(parent.path, basename(shellPath), type);
+  return null;
+};
+
+// Write (or append to) a file, creating it if needed; returns an error message on failure
+export const writeShellFile = (shell: ShellState, shellPath: string, content: string, append = false): string | null => {
+  const existing = lookup(shell, shellPath);
+  if (existing) {
+    if (existing.type === 'folder') return 'Is a directory';
+    shell.fs.updateFileContent(existing.id, append ? (existing.content || '') + content : content);
+    return null;
+  }
+
+  const error = createItem(shell, shellPath, 'file');
+  if (error) return error;
+
+  const created = lookup(shell, shellPath);
+  if (created && content) {
+    shell.fs.updateFileContent(created.id, content);
+  }
+  return null;
+};
+
+const formatSize = (item: FileSystemItem) => {
+  return item.type === 'folder' ? '-' : String(new TextEncoder().encode(item.content || '').length);
+};
+
+const ls: ShellCommand = (io, shell) => {
+  const { flags, operands, invalid } = parseFlags(io.args, 'al1');
+  if (invalid) {
+    fail(io, 'ls', `invalid option -- '${invalid}'`);
+    return 2;
+  }
+
+  const targets = operands.length > 0 ? operands : ['.'];
+  let status = 0;
+
+  targets.forEach((target, index) => {
+    const item = lookup(shell, resolvePath(shell.cwd, target));
+    if (!item) {
+      fail(io, 'ls', `cannot access '${target}': No such file or directory`);
+      status = 2;
+      return;
+    }
+
+    const entries = item.type === 'folder'
+      ? sortByName(item.children || []).filter(child => flags.has('a') || !child.name.startsWith('.'))
+      : [item];
+    const names = entries.map(entry => {
+      const name = entry.type === 'file' && item.type === 'file' ? target : entry.name;
+      return io.isTerminal && entry.type === 'folder' ? `${FOLDER_COLOR}${name}${RESET}` : name;
+    });
+
+    if (targets.length > 1 && item.type === 'folder') {
+      io.stdout(`${index > 0 ? '\n' : ''}${target}:\n`);
+    }
+
+    if (flags.has('l')) {
+      entries.forEach((entry, i) => {
+        io.stdout(`${entry.type === 'folder' ? 'd' : '-'} ${formatSize(entry).padStart(8)}  ${names[i]}\n`);
+      });
+    } else if (names.length > 0) {
+      io.stdout(io.isTerminal && !flags.has('1') ? `${names.join('  ')}\n` : `${names.join('\n')}\n`);
+    }
+  });
+
+  return status;
+};
+
+const cd: ShellCommand = (io, shell) => {
+  const target = io.args[0] ?? '/';
+  const path = resolvePath(shell.cwd, target);
+  const item = lookup(shell, path);
+
+  if (!item) {
+    fail(io, 'cd', `${target}: No such file or directory`);
+    return 1;
+  }
+  if (item.type !== 'folder') {
+    fail(io, 'cd', `${target}: Not a directory`);
+    return 1;
+  }
+
+  shell.cwd = path;
+  return 0;
+};
+
+const pwd: ShellCommand = (io, shell) => {
+  io.stdout(`${shell.cwd}\n`);
+  return 0;
+};
+
+const cat: ShellCommand = (io, shell) => {
+  if (io.args.length === 0) {
+    io.stdout(io.stdin ?? '');
+    return 0;
+  }
+
+  let status = 0;
+  for (const arg of io.args) {
+    if (arg === '-') {
+      io.stdout(io.stdin ?? '');
+      continue;
+    }
+
+    const item = lookup(shell, resolvePath(shell.cwd, arg));
+    if (!item) {
+      fail(io, 'cat', `${arg}: No such file or directory`);
+      status = 1;
+    } else if (item.type === 'folder') {
+      fail(io, 'cat', `${arg}: Is a directory`);
+      status = 1;
+    } else {
+      io.stdout(item.content || '');
+    }
+  }
+  return status;
+};
+
+const mkdir: ShellCommand = (io, shell) => {
+  const { flags, operands, invalid } = parseFlags(io.args, 'p');
+  if (invalid || operands.length === 0) {
+    fail(io, 'mkdir', invalid ? `invalid option -- '${invalid}'` : 'missing operand');
+    return 1;
+  }
+
+  let status = 0;
+  for (const operand of operands) {
+    const path = resolvePath(shell.cwd, operand);
+    const existing = lookup(shell, path);
+
+    if (existing) {
+      if (!flags.has('p') || existing.type !== 'folder') {
+        fail(io, 'mkdir', `cannot create directory '${operand}': File exists`);
+        status = 1;
+      }
+      continue;
+    }
+
+    if (flags.has('p')) {
+      // Create each missing folder on the way down
+      let current = '/';
+      for (const part of path.split('/').filter(Boolean)) {
+        current = joinPath(current, part);
+        const item = lookup(shell, current);
+        const error = item
+          ? item.type === 'folder' ? null : 'Not a directory'
+          : createItem(shell, current, 'folder');
+
+        if (error) {
+          fail(io, 'mkdir', `cannot create directory '${operand}': ${error}`);
+          status = 1;
+          break;
+        }
+      }
+    } else {
+      const error = createItem(shell, path, 'folder');
+      if (error) {
+        fail(io, 'mkdir', `cannot create directory '${operand}': ${error}`);
+        status = 1;
+      }
+    }
+  }
+  return status;
+};
+
+const touch: ShellCommand = (io, shell) => {
+  if (io.args.length === 0) {
+    fail(io, 'touch', 'missing file operand');
+    return 1;
+  }
+
+  let status = 0;
+  for (const arg of io.args) {
+    const path = resolvePath(shell.cwd, arg);
+    if (lookup(shell, path)) continue;
+
+    const error = createItem(shell, path, 'file');
+    if (error) {
+      fail(io, 'touch', `cannot touch '${arg}': ${error}`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+const rm: ShellCommand = (io, shell) => {
+  const { flags, operands, invalid } = parseFlags(io.args, 'rRf');
+  const recursive = flags.has('r') || flags.has('R');
+  const force = flags.has('f');
+
+  if (invalid) {
+    fail(io, 'rm', `invalid option -- '${invalid}'`);
+    return 1;
+  }
+  if (operands.length === 0) {
+    if (force) return 0;
+    fail(io, 'rm', 'missing operand');
+    return 1;
+  }
+
+  let status = 0;
+  for (const operand of operands) {
+    const path = resolvePath(shell.cwd, operand);
+    const name = basename(operand.replace(/\/+$/, ''));
+
+    if (path === '/' || name === '.' || name === '..') {
+      fail(io, 'rm', `refusing to remove '${operand}'`);
+      status = 1;
+      continue;
+    }
+
+    const item = lookup(shell, path);
+    if (!item) {
+      if (!force) {
+        fail(io, 'rm', `cannot remove '${operand}': No such file or directory`);
+        status = 1;
+      }
+      continue;
+    }
+    if (item.type === 'folder' && !recursive) {
+      fail(io, 'rm', `cannot remove '${operand}': Is a directory`);
+      status = 1;
+      continue;
+    }
+
+    shell.fs.deleteFile(item.id);
+  }
+  return status;
+};
+
+// Where "mv/cp a b" puts a: inside b when b is a folder, otherwise at b
+const resolveDestination = (io: CommandIO, shell: ShellState, command: string, operands: string[]) => {
+  if (operands.length < 2) {
+    fail(io, command, operands.length === 0 ? 'missing file operand' : `missing destination file operand after '${operands[0]}'`);
+    return null;
+  }
+
+  const destination = operands[operands.length - 1];
+  const destinationPath = resolvePath(shell.cwd, destination);
+  const intoFolder = lookup(shell, destinationPath)?.type === 'folder';
+
+  if (operands.length > 2 && !intoFolder) {
+    fail(io, command, `target '${destination}' is not a directory`);
+    return null;
+  }
+
+  return {
+    destination,
+    sources: operands.slice(0, -1),
+    targetFor: (sourcePath: string) => intoFolder ? joinPath(destinationPath, basename(sourcePath)) : destinationPath,
+  };
+};
+
+const isInside = (path: string, folderPath: string) => {
+  return folderPath === '/' || path === folderPath || path.startsWith(`${folderPath}/`);
+};
+
+const mv: ShellCommand = (io, shell) => {
+  const { operands, invalid } = parseFlags(io.args, '');
+  if (invalid) {
+    fail(io, 'mv', `invalid option -- '${invalid}'`);
+    return 1;
+  }
+
+  const plan = resolveDestination(io, shell, 'mv', operands);
+  if (!plan) return 1;
+
+  let status = 0;
+  for (const source of plan.sources) {
+    const sourcePath = resolvePath(shell.cwd, source);
+    const item = lookup(shell, sourcePath);
+
+    if (!item || sourcePath === '/') {
+      fail(io, 'mv', item ? `cannot move '${source}'` : `cannot stat '${source}': No such file or directory`);
+      status = 1;
+      continue;
+    }
+
+    const targetPath = plan.targetFor(sourcePath);
+    if (targetPath === sourcePath) continue;
+
+    if (item.type === 'folder' && isInside(targetPath, sourcePath)) {
+      fail(io, 'mv', `cannot move '${source}' to a subdirectory of itself, '${plan.destination}'`);
+      status = 1;
+      continue;
+    }
+
+    const targetParent = lookup(shell, dirname(targetPath));
+    if (!targetParent || targetParent.type !== 'folder') {
+      fail(io, 'mv', `cannot move '${source}' to '${plan.destination}': No such file or directory`);
+      status = 1;
+      continue;
+    }
+
+    const existing = lookup(shell, targetPath);
+    if (existing) {
+      if (existing.type === 'folder' || item.type === 'folder') {
+        fail(io, 'mv', `cannot overwrite '${plan.destination}'`);
+        status = 1;
+        continue;
+      }
+      shell.fs.deleteFile(existing.id);
+    }
+
+    const newName = basename(targetPath);
+    const moving = dirname(sourcePath) !== dirname(targetPath);
+    const renaming = item.name !== newName;
+    // Rename first when the target folder already has something with the old name
+    const renameFirst = moving && renaming && targetParent.children?.some(child => child.name === item.name);
+
+    if (renameFirst) shell.fs.renameFile(item.id, newName);
+    if (moving) shell.fs.moveFile(item.id, targetParent.id);
+    if (renaming && !renameFirst) shell.fs.renameFile(item.id, newName);
+  }
+  return status;
+};
+
+// Copy a file or (already validated) folder tree to a new path
+const copyItem = (shell: ShellState, item: FileSystemItem, targetPath: string): string | null => {
+  if (item.type === 'file') {
+    return writeShellFile(shell, targetPath, item.content || '');
+  }
+
+  const existing = lookup(shell, targetPath);
+  if (existing?.type === 'file') return 'Not a directory';
+  if (!existing) {
+    const error = createItem(shell, targetPath, 'folder');
+    if (error) return error;
+  }
+
+  // Children are captured up front, so new copies are never copied again
+  for (const child of [...(item.children || [])]) {
+    const error = copyItem(shell, child, joinPath(targetPath, child.name));
+    if (error) return error;
+  }
+  return null;
+};
+
+const cp: ShellCommand = (io, shell) => {
+  const { flags, operands, invalid } = parseFlags(io.args, 'rR');
+  if (invalid) {
+    fail(io, 'cp', `invalid option -- '${invalid}'`);
+    return 1;
+  }
+
+  const plan = resolveDestination(io, shell, 'cp', operands);
+  if (!plan) return 1;
+
+  let status = 0;
+  for (const source of plan.sources) {
+    const sourcePath = resolvePath(shell.cwd, source);
+    const item = lookup(shell, sourcePath);
+
+    if (!item) {
+      fail(io, 'cp', `cannot stat '${source}': No such file or directory`);
+      status = 1;
+      continue;
+    }
+    if (item.type === 'folder' && !flags.has('r') && !flags.has('R')) {
+      fail(io, 'cp', `-r not specified; omitting directory '${source}'`);
+      status = 1;
+      continue;
+    }
+
+    const targetPath = plan.targetFor(sourcePath);
+    if (item.type === 'folder' && isInside(targetPath, sourcePath)) {
+      fail(io, 'cp', `cannot copy a directory, '${source}', into itself, '${plan.destination}'`);
+      status = 1;
+      continue;
+    }
+
+    const error = copyItem(shell, item, targetPath);
+    if (error) {
+      fail(io, 'cp', `cannot create '${plan.destination}': ${error}`);
+      status = 1;
+    }
+  }
+  return status;
+};
+
+const echo: ShellCommand = (io) => {
+  const noNewline = io.args[0] === '-n';
+  const words = noNewline ? io.args.slice(1) : io.args;
+  io.stdout(`${words.join(' ')}${noNewline ? '' : '\n'}`);
+  return 0;
+};
+
+const splitLines = (content: string) => {
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const grep: ShellCommand = (io, shell) => {
+  const { flags, operands, invalid } = parseFlags(io.args, 'invlcrR');
+  const recursive = flags.has('r') || flags.has('R');
+  const pattern = operands.shift();
+
+  if (invalid || pattern === undefined) {
+    fail(io, 'grep', invalid ? `invalid option -- '${invalid}'` : 'usage: grep [-invlcr] pattern [file...]');
+    return 2;
+  }
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern, flags.has('i') ? 'i' : '');
+  } catch {
+    // Not a valid regular expression; search for the text as typed
+    regex = new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags.has('i') ? 'i' : '');
+  }
+
+  const inputs: { name: string; content: string }[] = [];
+  let hadError = false;
+
+  if (operands.length === 0 && !recursive) {
+    inputs.push({ name: '(standard input)', content: io.stdin ?? '' });
+  }
+
+  for (const operand of operands.length === 0 && recursive ? ['.'] : operands) {
+    const item = lookup(shell, resolvePath(shell.cwd, operand));
+    if (!item) {
+      fail(io, 'grep', `${operand}: No such file or directory`);
+      hadError = true;
+    } else if (item.type === 'folder' && !recursive) {
+      fail(io, 'grep', `${operand}: Is a directory`);
+      hadError = true;
+    } else {
+      walk(item, operand, (entry, name) => {
+        if (entry.type === 'file') inputs.push({ name, content: entry.content || '' });
+      });
+    }
+  }
+
+  const showNames = recursive || inputs.length > 1;
+  const highlight = new RegExp(regex.source, `${regex.flags}g`);
+  let matched = false;
+
+  for (const input of inputs) {
+    const prefix = showNames ? `${input.name}:` : '';
+    let count = 0;
+
+    splitLines(input.content).forEach((line, index) => {
+      if (regex.test(line) === flags.has('v')) return;
+      count++;
+      if (flags.has('l') || flags.has('c')) return;
+
+      const text = io.isTerminal && !flags.has('v')
+        ? line.replace(highlight, match => `${MATCH_COLOR}${match}${RESET}`)
+        : line;
+      io.stdout(`${prefix}${flags.has('n') ? `${index + 1}:` : ''}${text}\n`);
+    });
+
+    if (flags.has('l') && count > 0) io.stdout(`${input.name}\n`);
+    if (flags.has('c') && !flags.has('l')) io.stdout(`${prefix}${count}\n`);
+    if (count > 0) matched = true;
+  }
+
+  return matched ? 0 : hadError ? 2 : 1;
+};
+
+const find: ShellCommand = (io, shell) => {
+  const starts: string[] = [];
+  let namePattern: RegExp | undefined;
+  let type: FileType | undefined;
+
+  for (let i = 0; i < io.args.length; i++) {
+    const arg = io.args[i];
+    const value = io.args[i + 1];
+
+    if (!arg.startsWith('-') && namePattern === undefined && type === undefined) {
+      starts.push(arg);
+    } else if ((arg === '-name' || arg === '-iname') && value !== undefined) {
+      namePattern = globToRegExp(value, arg === '-iname');
+      i++;
+    } else if (arg === '-type' && (value === 'f' || value === 'd')) {
+      type = value === 'f' ? 'file' : 'folder';
+      i++;
+    } else {
+      fail(io, 'find', value === undefined && arg.startsWith('-') ? `missing argument to '${arg}'` : `unknown predicate '${arg}'`);
+      return 1;
+    }
+  }
+
+  let status = 0;
+  for (const start of starts.length > 0 ? starts : ['.']) {
+    const item = lookup(shell, resolvePath(shell.cwd, start));
+    if (!item) {
+      fail(io, 'find', `'${start}': No such file or directory`);
+      status = 1;
+      continue;
+    }
+
+    walk(item, start, (entry, displayPath) => {
+      if (type && entry.type !== type) return;
+      if (namePattern && !namePattern.test(basename(displayPath) || entry.name)) return;
+      io.stdout(`${displayPath}\n`);
+    });
+  }
+  return status;
+};
+
+const clear: ShellCommand = (io, shell) => {
+  shell.clearScreen();
+  return 0;
+};
+
+const history: ShellCommand = (io, shell) => {
+  shell.history.forEach((line, index) => {
+    io.stdout(`${String(index + 1).padStart(5)}  ${line}\n`);
+  });
+  return 0;
+};
+
+const HELP: [string, string][] = [
+  ['ls [-al1] [path...]', 'list folder contents'],
+  ['cd [path]', 'change the working folder'],
+  ['pwd', 'print the working folder'],
+  ['cat [file...]', 'print files'],
+  ['mkdir [-p] path...', 'create folders'],
+  ['touch file...', 'create empty files'],
+  ['rm [-rf] path...', 'remove files and folders'],
+  ['mv source... dest', 'move or rename'],
+  ['cp [-r] source... dest', 'copy files and folders'],
+  ['echo [-n] text...', 'print text; use > or >> to write files'],
+  ['grep [-invlcr] pattern [file...]', 'search file contents'],
+  ['find [path...] [-name glob] [-type f|d]', 'list matching paths'],
+  ['history', 'show previous commands'],
+  ['clear', 'clear the screen'],
+];
+
+const help: ShellCommand = (io) => {
+  io.stdout('Built-in shell for the workspace. Commands can be joined with |, ; and &&.\n\n');
+  HELP.forEach(([usage, description]) => io.stdout(`  ${usage.padEnd(42)}${description}\n`));
+  return 0;
+};
+
+export const commands: Record<string, ShellCommand> = {
+  ls,
+  cd,
+  pwd,
+  cat,
+  mkdir,
+  touch,
+  rm,
+  mv,
+  cp,
+  echo,
+  grep,
+  find,
+  history,
+  clear,
+  help,
+};
@@ -0,0 +1,257 @@
+// Line editing for xterm: cursor movement, history and tab completion, redrawn across wrapped lines
+
+export interface Completion {
+  // Where the text being completed starts; everything from there to the cursor is replaced
+  start: number;
+  candidates: string[];
+}
+
+export interface LineEditorOptions {
+  write: (data: string) => void;
+  onSubmit: (line: string) => void;
+  complete?: (line: string, cursor: number) => Completion | null;
+}
+
+export interface LineEditor {
+  // Show a prompt and start reading a new line
+  prompt: (text: string) => void;
+  handleInput: (data: string) => void;
+  resize: (cols: number) => void;
+  history: string[];
+}
+
+const MAX_HISTORY = 500;
+const ESC = '\x1b';
+const COLOR_CODE = new RegExp(`${ESC}\\[[0-9;]*m`, 'g');
+
+// Visible width of the prompt, ignoring color codes
+const visibleLength = (text: string) => text.replace(COLOR_CODE, '').length;
+
+// Length of the escape sequence starting at `index` ("\x1b[15~", "\x1bOP", "\x1bb"...)
+const escapeSequenceLength = (data: string, index: number) => {
+  if (data[index + 1] === 'O') return Math.min(3, data.length - index);
+  if (data[index + 1] !== '[') return Math.min(2, data.length - index);
+
+  let end = index + 2;
+  while (end < data.length && /[0-9;]/.test(data[end])) end++;
+  return Math.min(end + 1, data.length) - index;
+};
+
+const commonPrefix = (values: string[]) => {
+  let prefix = values[0] || '';
+  for (const value of values) {
+    while (!value.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  }
+  return prefix;
+};
+
+export const createLineEditor = (options: LineEditorOptions, initialCols: number): LineEditor => {
+  const history: string[] = [];
+  let cols = Math.max(initialCols, 1);
+  let promptText = '';
+  let line = '';
+  let cursor = 0;
+  // Row of the terminal cursor, counted from the prompt's first row
+  let cursorRow = 0;
+  // Position in history while browsing with the arrow keys; history.length means the line being typed
+  let historyIndex = 0;
+  let draft = '';
+
+  const rowAndColumn = (offset: number) => ({
+    row: Math.floor(offset / cols),
+    col: offset % cols,
+  });
+
+  // Redraw prompt and line from the prompt's first row, leaving the cursor at `cursor`
+  const render = () => {
+    let out = cursorRow > 0 ? `\x1b[${cursorRow}A\r` : '\r';
+    out += promptText + line;
+
+    const endOffset = visibleLength(promptText) + line.length;
+    // A full last row leaves the terminal cursor waiting to wrap; force the wrap so positions add up
+    if (endOffset > 0 && endOffset % cols === 0) out += ' \b';
+    out += '\x1b[J';
+
+    const end = rowAndColumn(endOffset);
+    const target = rowAndColumn(visibleLength(promptText) + cursor);
+    if (end.row > target.row) out += `\x1b[${end.row - target.row}A`;
+    out += '\r';
+    if (target.col > 0) out += `\x1b[${target.col}C`;
+
+    cursorRow = target.row;
+    options.write(out);
+  };
+
+  const setLine = (text: string, position = text.length) => {
+    line = text;
+    cursor = position;
+    render();
+  };
+
+  const insert = (text: string) => {
+    setLine(line.slice(0, cursor) + text + line.slice(cursor), cursor + text.length);
+  };
+
+  // Move the terminal cursor below the current line so output starts on a fresh row
+  const moveBelowLine = () => {
+    const end = rowAndColumn(visibleLength(promptText) + line.length);
+    const down = end.row - cursorRow;
+    options.write(`${down > 0 ? `\x1b[${down}B` : ''}\r\n`);
+    cursorRow = 0;
+  };
+
+  const submit = () => {
+    const submitted = line;
+    moveBelowLine();
+
+    if (submitted.trim() && history[history.length - 1] !== submitted) {
+      history.push(submitted);
+      if (history.length > MAX_HISTORY) history.shift();
+    }
+    historyIndex = history.length;
+    line = '';
+    cursor = 0;
+
+    options.onSubmit(submitted);
+  };
+
+  const browseHistory = (direction: -1 | 1) => {
+    const next = historyIndex + direction;
+    if (next < 0 || next > history.length) return;
+
+    if (historyIndex === history.length) draft = line;
+    historyIndex = next;
+    setLine(next === history.length ? draft : history[next]);
+  };
+
+  const complete = () => {
+    const completion = options.complete?.(line, cursor);
+    if (!completion || completion.candidates.length === 0) return;
+
+    const typed = line.slice(completion.start, cursor);
+    const replaceWith = (text: string) => {
+      setLine(line.slice(0, completion.start) + text + line.slice(cursor), completion.start + text.length);
+    };
+
+    if (completion.candidates.length === 1) {
+      const [candidate] = completion.candidates;
+      replaceWith(candidate.endsWith('/') ? candidate : `${candidate} `);
+      return;
+    }
+
+    const prefix = commonPrefix(completion.candidates);
+    if (prefix.length > typed.length) {
+      replaceWith(prefix);
+      return;
+    }
+
+    // Nothing more to fill in; list the options and redraw the line underneath
+    const names = completion.candidates.map(candidate => {
+      const trimmed = candidate.replace(/\/$/, '');
+      return candidate.slice(trimmed.lastIndexOf('/') + 1);
+    });
+    moveBelowLine();
+    options.write(`${names.join('  ')}\r\n`);
+    render();
+  };
+
+  const deleteBack = (count: number) => {
+    const from = Math.max(0, cursor - count);
+    setLine(line.slice(0, from) + line.slice(cursor), from);
+  };
+
+  // Escape sequences for the keys we handle, as xterm sends them
+  const sequences: Record<string, () => void> = {
+    '\x1b[A': () => browseHistory(-1),
+    '\x1b[B': () => browseHistory(1),
+    '\x1b[C': () => cursor < line.length && setLine(line, cursor + 1),
+    '\x1b[D': () => cursor > 0 && setLine(line, cursor - 1),
+    '\x1b[H': () => setLine(line, 0),
+    '\x1b[F': () => setLine(line, line.length),
+    '\x1bOH': () => setLine(line, 0),
+    '\x1bOF': () => setLine(line, line.length),
+    '\x1b[1~': () => setLine(line, 0),
+    '\x1b[4~': () => setLine(line, line.length),
+    '\x1b[3~': () => cursor < line.length && setLine(line.slice(0, cursor) + line.slice(cursor + 1), cursor),
+  };
+
+  const controls: Record<string, () => void> = {
+    '\r': submit,
+    '\x7f': () => deleteBack(1),
+    '\b': () => deleteBack(1),
+    '\t': complete,
+    '\x01': () => setLine(line, 0),
+    '\x05': () => setLine(line, line.length),
+    '\x0b': () => setLine(line.slice(0, cursor), cursor),
+    '\x15': () => setLine(line.slice(cursor), 0),
+    '\x17': () => {
+      const before = line.slice(0, cursor).replace(/\s+$/, '');
+      deleteBack(cursor - before.replace(/\S+$/, '').length);
+    },
+    '\x03': () => {
+      moveBelowLine();
+      line = '';
+      cursor = 0;
+      historyIndex = history.length;
+      options.write(`^C\r\n`);
+      render();
+    },
+    '\x0c': () => clearScreen(),
+  };
+
+  const clearScreen = () => {
+    options.write('\x1b[2J\x1b[3J\x1b[H');
+    cursorRow = 0;
+    render();
+  };
+
+  const handleInput = (data: string) => {
+    let text = '';
+    const flushText = () => {
+      if (text) insert(text);
+      text = '';
+    };
+
+    for (let i = 0; i < data.length; i++) {
+      const ch = data[i];
+
+      if (ch === ESC) {
+        flushText();
+        const sequence = Object.keys(sequences).find(key => data.startsWith(key, i));
+        if (sequence) {
+          sequences[sequence]();
+          i += sequence.length - 1;
+        } else {
+          // Skip sequences we don't handle (function keys, Alt combinations...)
+          i += escapeSequenceLength(data, i) - 1;
+        }
+      } else if (ch === '\n') {
+        // Pasted text may use \r\n or plain \n
+        flushText();
+        if (data[i - 1] !== '\r') submit();
+      } else if (controls[ch]) {
+        flushText();
+        controls[ch]();
+      } else if (ch >= ' ') {
+        text += ch;
+      }
+    }
+    flushText();
+  };
+
+  return {
+    prompt: (text) => {
+      promptText = text;
+      line = '';
+      cursor = 0;
+      cursorRow = 0;
+      historyIndex = history.length;
+      render();
+    },
+    handleInput,
+    resize: (newCols) => {
+      cols = Math.max(newCols, 1);
+    },
+    history,
+  };
+};
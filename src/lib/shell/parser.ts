@@ -0,0 +1,135 @@
+// Command line parsing for the virtual shell: quotes, escapes, pipes, redirects, ";" and "&&"
+
+export interface Word {
+  text: string;
+  // Any part was quoted or escaped, so the word is never glob-expanded
+  quoted: boolean;
+}
+
+export interface SimpleCommand {
+  words: Word[];
+  redirect?: { target: Word; append: boolean };
+}
+
+export interface CommandList {
+  pipeline: SimpleCommand[];
+  // How the next list runs: always (";") or only after success ("&&")
+  next?: ';' | '&&';
+}
+
+type Operator = '|' | '>' | '>>' | ';' | '&&';
+
+type Token =
+  | { kind: 'word'; word: Word }
+  | { kind: 'op'; op: Operator };
+
+const tokenize = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  let text = '';
+  let quoted = false;
+  let inWord = false;
+
+  const endWord = () => {
+    if (inWord) {
+      tokens.push({ kind: 'word', word: { text, quoted } });
+    }
+    text = '';
+    quoted = false;
+    inWord = false;
+  };
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+
+    if (ch === "'") {
+      const end = line.indexOf("'", i + 1);
+      if (end === -1) throw new Error('unexpected end of line while looking for matching \'');
+      text += line.slice(i + 1, end);
+      quoted = inWord = true;
+      i = end;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < line.length && line[j] !== '"') {
+        if (line[j] === '\\' && (line[j + 1] === '"' || line[j + 1] === '\\')) j++;
+        text += line[j];
+        j++;
+      }
+      if (j >= line.length) throw new Error('unexpected end of line while looking for matching "');
+      quoted = inWord = true;
+      i = j;
+    } else if (ch === '\\') {
+      if (i + 1 < line.length) {
+        text += line[++i];
+        quoted = inWord = true;
+      }
+    } else if (/\s/.test(ch)) {
+      endWord();
+    } else if (ch === '#' && !inWord) {
+      break;
+    } else if (ch === '|' || ch === ';') {
+      endWord();
+      tokens.push({ kind: 'op', op: ch });
+    } else if (ch === '&' && line[i + 1] === '&') {
+      endWord();
+      tokens.push({ kind: 'op', op: '&&' });
+      i++;
+    } else if (ch === '>') {
+      endWord();
+      const append = line[i + 1] === '>';
+      tokens.push({ kind: 'op', op: append ? '>>' : '>' });
+      if (append) i++;
+    } else {
+      text += ch;
+      inWord = true;
+    }
+  }
+
+  endWord();
+  return tokens;
+};
+
+// Parse a command line; throws an Error with a bash-like message on bad syntax
+export const parseCommandLine = (line: string): CommandList[] => {
+  const tokens = tokenize(line);
+  const lists: CommandList[] = [];
+  let pipeline: SimpleCommand[] = [];
+  let command: SimpleCommand = { words: [] };
+
+  const isEmpty = (cmd: SimpleCommand) => cmd.words.length === 0 && !cmd.redirect;
+
+  const endCommand = (op: Operator) => {
+    if (isEmpty(command)) throw new Error(`syntax error near unexpected token \`${op}'`);
+    pipeline.push(command);
+    command = { words: [] };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.kind === 'word') {
+      command.words.push(token.word);
+    } else if (token.op === '>' || token.op === '>>') {
+      const target = tokens[i + 1];
+      if (!target || target.kind !== 'word') {
+        throw new Error(`syntax error near unexpected token \`${target?.kind === 'op' ? target.op : 'newline'}'`);
+      }
+      command.redirect = { target: target.word, append: token.op === '>>' };
+      i++;
+    } else if (token.op === '|') {
+      endCommand(token.op);
+    } else {
+      endCommand(token.op);
+      lists.push({ pipeline, next: token.op });
+      pipeline = [];
+    }
+  }
+
+  if (!isEmpty(command)) {
+    pipeline.push(command);
+    lists.push({ pipeline });
+  } else if (pipeline.length > 0 || lists[lists.length - 1]?.next === '&&') {
+    throw new Error('syntax error: unexpected end of line');
+  }
+
+  return lists;
+};
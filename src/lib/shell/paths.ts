@@ -0,0 +1,39 @@
+// Shell paths are absolute from the workspace root: "/" is the project folder, "/src/App.tsx" a file in it
+
+// Resolve a path typed by the user against the working directory
+export const resolvePath = (cwd: string, input: string): string => {
+  const base = input.startsWith('/') || input === '~' || input.startsWith('~/') ? '' : cwd;
+  const parts: string[] = [];
+
+  for (const part of `${base}/${input.replace(/^~/, '')}`.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+
+  return `/${parts.join('/')}`;
+};
+
+// "/src/App.tsx" -> "src/App.tsx", as FileSystemContext expects
+export const toWorkspacePath = (shellPath: string): string => shellPath.replace(/^\/+/, '');
+
+export const dirname = (shellPath: string): string => {
+  const index = shellPath.lastIndexOf('/');
+  return index <= 0 ? '/' : shellPath.slice(0, index);
+};
+
+export const basename = (shellPath: string): string => {
+  return shellPath.slice(shellPath.lastIndexOf('/') + 1);
+};
+
+export const joinPath = (dir: string, name: string): string => {
+  return dir === '/' ? `/${name}` : `${dir}/${name}`;
+};
+
+// Shell globs only ever match a single path segment, e.g. "*.ts"
+export { globToRegExp } from '@/lib/glob';
+
+export const hasGlob = (text: string) => /[*?]/.test(text);
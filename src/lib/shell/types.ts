@@ -0,0 +1,35 @@
+import type { FileSystemItem, FileType } from '@/lib/storage/types';
+
+// The parts of FileSystemContext the shell works through, so the explorer and editor see every change
+export interface ShellFileSystem {
+  // Workspace-relative path; "" is the root folder
+  getFileByPath: (path: string) => FileSystemItem | undefined;
+  createFile: (parentPath: string, name: string, type: FileType) => string | undefined;
+  renameFile: (id: string, newName: string) => void;
+  deleteFile: (id: string) => void;
+  moveFile: (fileId: string, newParentId: string) => void;
+  updateFileContent: (id: string, content: string) => void;
+}
+
+// Everything a command gets to run: its arguments, piped input and somewhere to write
+export interface CommandIO {
+  args: string[];
+  // Output of the previous command in a pipeline, null when reading from the terminal
+  stdin: string | null;
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  // False when stdout goes to a pipe or a file, so no colors or columns
+  isTerminal: boolean;
+}
+
+// Shell state commands can read and change
+export interface ShellState {
+  fs: ShellFileSystem;
+  // Absolute shell path; "/" is the workspace root
+  cwd: string;
+  history: string[];
+  clearScreen: () => void;
+}
+
+// Returns the exit code
+export type ShellCommand = (io: CommandIO, shell: ShellState) => number;
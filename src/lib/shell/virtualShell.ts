@@ -0,0 +1,198 @@
+import { commands, lookup, writeShellFile } from './commands';
+import { createLineEditor, Completion } from './lineEditor';
+import { parseCommandLine, SimpleCommand, Word } from './parser';
+import { dirname, globToRegExp, hasGlob, resolvePath } from './paths';
+import { CommandIO, ShellFileSystem, ShellState } from './types';
+
+export type { ShellFileSystem } from './types';
+
+export interface VirtualShellOptions {
+  cols: number;
+  // Output for the terminal, with \r\n line endings
+  write: (data: string) => void;
+  // Called for every command so the shell always sees the latest tree
+  getFileSystem: () => ShellFileSystem;
+}
+
+// Same shape as a PtySession, so the terminal panel can use either
+export interface VirtualShell {
+  write: (data: string) => void;
+  resize: (cols: number, rows: number) => void;
+  dispose: () => void;
+}
+
+const ERROR_COLOR = '\x1b[31m';
+const RESET = '\x1b[0m';
+
+// Characters that have to be escaped when a completed path is put back on the command line
+const escapeWord = (text: string) => text.replace(/([\s\\'"|;&>#])/g, '\\$1');
+
+// A command interpreter that runs on the workspace tree, for when there is no real shell to talk to
+export const createVirtualShell = (options: VirtualShellOptions): VirtualShell => {
+  let disposed = false;
+  const output = (text: string) => options.write(text.replace(/\r?\n/g, '\r\n'));
+
+  const state: ShellState = {
+    get fs() {
+      return options.getFileSystem();
+    },
+    cwd: '/',
+    history: [],
+    clearScreen: () => options.write('\x1b[2J\x1b[3J\x1b[H'),
+  };
+
+  // Expand unquoted "*" and "?" against the folder they point into; patterns that match nothing stay as typed
+  const expandWord = (word: Word): string[] => {
+    if (word.quoted || !hasGlob(word.text)) return [word.text];
+
+    const slash = word.text.lastIndexOf('/');
+    const dirPart = word.text.slice(0, slash + 1);
+    const pattern = word.text.slice(slash + 1);
+    if (hasGlob(dirPart)) return [word.text];
+
+    const folder = lookup(state, resolvePath(state.cwd, dirPart || '.'));
+    if (folder?.type !== 'folder') return [word.text];
+
+    const regex = globToRegExp(pattern);
+    const matches = (folder.children || [])
+      .filter(child => regex.test(child.name) && (pattern.startsWith('.') || !child.name.startsWith('.')))
+      .map(child => `${dirPart}${child.name}`)
+      .sort();
+
+    return matches.length > 0 ? matches : [word.text];
+  };
+
+  const runPipeline = (pipeline: SimpleCommand[]) => {
+    let stdin: string | null = null;
+    let status = 0;
+
+    pipeline.forEach((command, index) => {
+      const toTerminal = index === pipeline.length - 1 && !command.redirect;
+      const [name, ...args] = command.words.flatMap(expandWord);
+      let captured = '';
+
+      const io: CommandIO = {
+        args,
+        stdin,
+        stdout: text => {
+          if (toTerminal) output(text);
+          else captured += text;
+        },
+        stderr: text => output(`${ERROR_COLOR}${text}${RESET}`),
+        isTerminal: toTerminal,
+      };
+
+      if (name === undefined) {
+        status = 0;
+      } else if (!commands[name]) {
+        io.stderr(`${name}: command not found\n`);
+        status = 127;
+      } else {
+        try {
+          status = commands[name](io, state);
+        } catch (error) {
+          io.stderr(`${name}: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+          status = 1;
+        }
+      }
+
+      if (command.redirect) {
+        const target = command.redirect.target.text;
+        const error = writeShellFile(state, resolvePath(state.cwd, target), captured, command.redirect.append);
+        if (error) {
+          io.stderr(`${target}: ${error}\n`);
+          status = 1;
+        }
+        captured = '';
+      }
+
+      stdin = captured;
+    });
+
+    return status;
+  };
+
+  const run = (line: string) => {
+    let lists;
+    try {
+      lists = parseCommandLine(line);
+    } catch (error) {
+      output(`${ERROR_COLOR}${error instanceof Error ? error.message : 'syntax error'}${RESET}\n`);
+      return;
+    }
+
+    let skip = false;
+    for (const list of lists) {
+      const status = skip ? 1 : runPipeline(list.pipeline);
+      skip = list.next === '&&' && status !== 0;
+    }
+  };
+
+  const complete = (line: string, cursor: number): Completion | null => {
+    const before = line.slice(0, cursor);
+
+    // Start of the word under the cursor; escaped spaces don't end a word
+    let start = 0;
+    for (let i = 0; i < before.length; i++) {
+      if (before[i] === '\\') {
+        i++;
+      } else if (/[\s|;&>]/.test(before[i])) {
+        start = i + 1;
+      }
+    }
+
+    const fragment = before.slice(start).replace(/\\(.)/g, '$1');
+    const isCommandName = /(^|[|;&])\s*$/.test(before.slice(0, start));
+
+    if (isCommandName && !fragment.includes('/')) {
+      const names = Object.keys(commands).filter(name => name.startsWith(fragment)).sort();
+      return { start, candidates: names };
+    }
+
+    const slash = fragment.lastIndexOf('/');
+    const dirPart = fragment.slice(0, slash + 1);
+    const namePart = fragment.slice(slash + 1);
+    const folder = lookup(state, resolvePath(state.cwd, dirPart || '.'));
+    if (folder?.type !== 'folder') return null;
+
+    const candidates = (folder.children || [])
+      .filter(child => child.name.startsWith(namePart) && (namePart.startsWith('.') || !child.name.startsWith('.')))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(child => `${escapeWord(dirPart + child.name)}${child.type === 'folder' ? '/' : ''}`);
+
+    return { start, candidates };
+  };
+
+  const showPrompt = () => {
+    // The working folder may have been deleted or moved from the explorer
+    while (state.cwd !== '/' && lookup(state, state.cwd)?.type !== 'folder') {
+      state.cwd = dirname(state.cwd);
+    }
+
+    const rootName = lookup(state, '/')?.name ?? 'workspace';
+    editor.prompt(`\x1b[1;32m${rootName}\x1b[0m:\x1b[1;34m${state.cwd}\x1b[0m$ `);
+  };
+
+  const editor = createLineEditor({
+    write: options.write,
+    onSubmit: (line) => {
+      run(line);
+      if (!disposed) showPrompt();
+    },
+    complete,
+  }, options.cols);
+  state.history = editor.history;
+
+  output(`Built-in workspace shell. Type 'help' for a list of commands.\n`);
+  showPrompt();
+
+  return {
+    write: (data) => {
+      if (!disposed) editor.handleInput(data);
+    },
+    resize: (cols) => editor.resize(cols),
+    dispose: () => {
+      disposed = true;
+    },
+  };
+};
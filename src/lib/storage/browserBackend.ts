@@ -0,0 +1,150 @@
+import { FileSystemItem, ProjectSummary, StorageBackend, WorkspaceSnapshot } from './types';
+import { buildTreeFromEntries, createEmptyFileSystem, flattenFiles, generateId, StorageEntry } from './tree';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { SAMPLE_PROJECT_NAME, sampleProjectEntries } from './sampleProject';
+
+const DB_NAME = 'vortexity-workspace';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const TREES_STORE = 'trees';
+const META_STORE = 'meta';
+const LAST_PROJECT_KEY = 'lastProjectId';
+
+// Persists whole workspace trees in IndexedDB as named projects that survive reloads
+export const createBrowserBackend = (
+  defaultName: string = SAMPLE_PROJECT_NAME,
+  seed: StorageEntry[] = sampleProjectEntries
+): StorageBackend => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  let currentProjectId: string | null = null;
+  // Operations run one after another so a save never lands in the wrong project
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, DB_VERSION, db => {
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(TREES_STORE)) {
+          db.createObjectStore(TREES_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const writeProject = async (summary: ProjectSummary, files: FileSystemItem[]) => {
+    const db = await getDb();
+    const transaction = db.transaction([PROJECTS_STORE, TREES_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(PROJECTS_STORE).put(summary);
+    transaction.objectStore(TREES_STORE).put(files, summary.id);
+    transaction.objectStore(META_STORE).put(summary.id, LAST_PROJECT_KEY);
+    await transactionDone(transaction);
+  };
+
+  const createProject = async (name: string, files: FileSystemItem[]): Promise<WorkspaceSnapshot> => {
+    const now = Date.now();
+    const id = generateId();
+
+    await writeProject({
+      id,
+      name,
+      fileCount: flattenFiles(files).length,
+      createdAt: now,
+      updatedAt: now,
+      lastOpenedAt: now,
+    }, files);
+
+    currentProjectId = id;
+    return { id, name, files };
+  };
+
+  const readProject = async (id: string): Promise<WorkspaceSnapshot | null> => {
+    const db = await getDb();
+    const transaction = db.transaction([PROJECTS_STORE, TREES_STORE, META_STORE], 'readwrite');
+    const summary = await requestToPromise(transaction.objectStore(PROJECTS_STORE).get(id)) as ProjectSummary | undefined;
+    const files = await requestToPromise(transaction.objectStore(TREES_STORE).get(id)) as FileSystemItem[] | undefined;
+
+    if (!summary || !files) return null;
+
+    transaction.objectStore(PROJECTS_STORE).put({ ...summary, lastOpenedAt: Date.now() });
+    transaction.objectStore(META_STORE).put(id, LAST_PROJECT_KEY);
+    await transactionDone(transaction);
+
+    currentProjectId = id;
+    return { id, name: summary.name, files };
+  };
+
+  // Individual operations are covered by the next snapshot
+  const noop = async () => {};
+
+  return {
+    kind: 'browser',
+
+    load: () => enqueue(async () => {
+      const db = await getDb();
+      const lastProjectId = await requestToPromise(
+        db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(LAST_PROJECT_KEY)
+      ) as string | undefined;
+
+      const snapshot = lastProjectId ? await readProject(lastProjectId) : null;
+      // First visit (or the last project was deleted): start from the default workspace
+      return snapshot ?? createProject(defaultName, buildTreeFromEntries(defaultName, seed));
+    }),
+
+    writeFile: noop,
+    createDirectory: noop,
+    delete: noop,
+    rename: noop,
+
+    clear: (rootName) => enqueue(() => createProject(rootName, createEmptyFileSystem(rootName))),
+
+    saveSnapshot: (snapshot) => enqueue(async () => {
+      if (!currentProjectId) return;
+
+      const db = await getDb();
+      const existing = await requestToPromise(
+        db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).get(currentProjectId)
+      ) as ProjectSummary | undefined;
+      const now = Date.now();
+
+      await writeProject({
+        id: currentProjectId,
+        name: snapshot.name,
+        fileCount: flattenFiles(snapshot.files).length,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        lastOpenedAt: existing?.lastOpenedAt ?? now,
+      }, snapshot.files);
+    }),
+
+    listProjects: () => enqueue(async () => {
+      const db = await getDb();
+      const projects = await requestToPromise(
+        db.transaction(PROJECTS_STORE, 'readonly').objectStore(PROJECTS_STORE).getAll()
+      ) as ProjectSummary[];
+
+      return projects.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+    }),
+
+    openProject: (id) => enqueue(() => readProject(id)),
+
+    deleteProject: (id) => enqueue(async () => {
+      const db = await getDb();
+      const transaction = db.transaction([PROJECTS_STORE, TREES_STORE], 'readwrite');
+      transaction.objectStore(PROJECTS_STORE).delete(id);
+      transaction.objectStore(TREES_STORE).delete(id);
+      await transactionDone(transaction);
+    }),
+  };
+};
@@ -0,0 +1,120 @@
+import { StorageBackend, StorageChange } from './types';
+import { buildTreeFromEntries, StorageEntry } from './tree';
+import { mapWithConcurrency } from '../concurrency';
+import { getSessionToken, SESSION_HEADER, SESSION_PARAM } from '../workspaceSession';
+
+// Files read at once while loading, so a large workspace doesn't flood the dev server
+const READ_CONCURRENCY = 8;
+
+// What the dev server answers for a binary file, which is left out of the workspace
+const NOT_TEXT_STATUS = 415;
+
+class RequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+// Talks to the dev server's disk-backed /api/* routes
+export const createHttpBackend = (baseUrl: string = '/api'): StorageBackend => {
+  const request = async <T>(endpoint: string, init?: RequestInit): Promise<T> => {
+    const headers = new Headers(init?.headers);
+    headers.set(SESSION_HEADER, getSessionToken());
+    const response = await fetch(`${baseUrl}${endpoint}`, { ...init, headers });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new RequestError(body.error || `Request to ${endpoint} failed with status ${response.status}`, response.status);
+    }
+
+    return body as T;
+  };
+
+  const withPath = (endpoint: string, path: string) => `${endpoint}?path=${encodeURIComponent(path)}`;
+
+  const readFile = async (path: string) => {
+    const { content } = await request<{ content: string }>(withPath('/read-file', path));
+    return content;
+  };
+
+  return {
+    kind: 'http',
+
+    load: async () => {
+      const { name } = await request<{ name: string }>('/workspace');
+      const paths = await request<string[]>('/list-files');
+
+      const entries = await mapWithConcurrency(paths, READ_CONCURRENCY, async (path): Promise<StorageEntry | null> => {
+        try {
+          return { path, type: 'file', content: await readFile(path) };
+        } catch (error) {
+          // Binary, oversized or unreadable files are left out rather than failing the whole load
+          if (!(error instanceof RequestError && error.status === NOT_TEXT_STATUS)) {
+            console.error(`Error reading file ${path}:`, error);
+          }
+          return null;
+        }
+      });
+
+      return { name, files: buildTreeFromEntries(name, entries.filter((entry): entry is StorageEntry => entry !== null)) };
+    },
+
+    writeFile: async (path, content) => {
+      await request(withPath('/write-file', path), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content }),
+      });
+    },
+
+    createDirectory: async (path) => {
+      await request('/create-directory', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path }),
+      });
+    },
+
+    delete: async (path) => {
+      await request(withPath('/delete-file', path), { method: 'DELETE' });
+    },
+
+    rename: async (oldPath, newPath) => {
+      await request('/rename-file', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: oldPath, to: newPath }),
+      });
+    },
+
+    // Follow the server's file watcher over Server-Sent Events
+    subscribe: (listener) => {
+      // EventSource can't send headers, so the token goes in the query
+      const events = new EventSource(`${baseUrl}/watch?${new URLSearchParams({ [SESSION_PARAM]: getSessionToken() })}`);
+      const getPath = (event: MessageEvent) => (JSON.parse(event.data) as { path: string }).path;
+      const emit = (change: StorageChange) => listener(change);
+
+      const handleWrite = (event: MessageEvent) => {
+        const path = getPath(event);
+        readFile(path)
+          .then(content => emit({ type: 'write', path, content }))
+          .catch(error => {
+            // A file that is binary now leaves the workspace, as it would have on load
+            if (error instanceof RequestError && error.status === NOT_TEXT_STATUS) {
+              emit({ type: 'delete', path });
+              return;
+            }
+            console.error(`Error reading changed file ${path}:`, error);
+          });
+      };
+
+      events.addEventListener('fileAdded', handleWrite);
+      events.addEventListener('fileChanged', handleWrite);
+      events.addEventListener('directoryCreated', (event: MessageEvent) => emit({ type: 'mkdir', path: getPath(event) }));
+      events.addEventListener('fileRemoved', (event: MessageEvent) => emit({ type: 'delete', path: getPath(event) }));
+      events.addEventListener('directoryRemoved', (event: MessageEvent) => emit({ type: 'delete', path: getPath(event) }));
+
+      return () => events.close();
+    },
+  };
+};
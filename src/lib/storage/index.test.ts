@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { canReplaceWorkspace, createHttpBackend, createMemoryBackend } from './index';
+
+describe('canReplaceWorkspace', () => {
+  it('refuses the disk-backed workspace, whose real files an import would overwrite', () => {
+    expect(canReplaceWorkspace(createHttpBackend())).toBe(false);
+  });
+
+  it('allows backends that can start over empty', () => {
+    expect(canReplaceWorkspace(createMemoryBackend())).toBe(true);
+  });
+});
@@ -0,0 +1,36 @@
+import { StorageBackend, StorageBackendKind } from './types';
+import { createMemoryBackend } from './memoryBackend';
+import { createHttpBackend } from './httpBackend';
+import { createBrowserBackend } from './browserBackend';
+import { createLocalFolderBackend } from './localFolderBackend';
+
+export * from './types';
+export { createMemoryBackend, createHttpBackend, createBrowserBackend, createLocalFolderBackend };
+
+const BACKEND_KINDS: StorageBackendKind[] = ['memory', 'http', 'browser'];
+
+// VITE_STORAGE_BACKEND picks where the workspace lives; defaults to IndexedDB projects
+export const getConfiguredBackendKind = (): StorageBackendKind => {
+  const configured = import.meta.env.VITE_STORAGE_BACKEND as string | undefined;
+  return BACKEND_KINDS.includes(configured as StorageBackendKind)
+    ? configured as StorageBackendKind
+    : 'browser';
+};
+
+export const createStorageBackend = (kind: StorageBackendKind = getConfiguredBackendKind()): StorageBackend => {
+  switch (kind) {
+    case 'http':
+      return createHttpBackend();
+    case 'memory':
+      return createMemoryBackend();
+    case 'browser':
+    default:
+      return createBrowserBackend();
+  }
+};
+
+// Starting the workspace over (a new project or an import) needs a backend that can begin empty. The
+// disk-backed one can't: its new files would be written over, and mixed in with, the real ones.
+export const canReplaceWorkspace = (backend: StorageBackend) => Boolean(backend.clear);
+
+export const REPLACE_WORKSPACE_UNSUPPORTED = 'The workspace is a folder served by the dev server, so new projects and imports are turned off: they would overwrite its files on disk. Use browser storage (VITE_STORAGE_BACKEND=browser) to create or import projects.';
@@ -0,0 +1,322 @@
+import { StorageBackend, StorageChange } from './types';
+import { buildTreeFromEntries, StorageEntry } from './tree';
+import { openDatabase, requestToPromise, transactionDone } from './idb';
+import { decodeTextContent } from '../binary';
+
+const DB_NAME = 'vortexity-folders';
+const DB_VERSION = 1;
+const HANDLES_STORE = 'handles';
+const LAST_FOLDER_KEY = 'lastFolder';
+
+// Same limit and skipped folders as the dev server's disk workspace
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git']);
+// Browsers can't watch a folder, so it is listed again this often to find outside changes
+const POLL_INTERVAL_MS = 3000;
+
+interface KnownFile {
+  lastModified: number;
+  size: number;
+  // Binary and oversized files stay on disk but out of the tree
+  isText: boolean;
+}
+
+export const supportsLocalFolders = () => typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+// Ask for read and write access; only prompts when called from a click or key press
+export const requestFolderPermission = async (handle: FileSystemDirectoryHandle, prompt: boolean): Promise<boolean> => {
+  const descriptor = { mode: 'readwrite' as const };
+  if (await handle.queryPermission?.(descriptor) === 'granted') return true;
+  return prompt && await handle.requestPermission?.(descriptor) === 'granted';
+};
+
+// The open folder's handle survives reloads in IndexedDB; the browser asks again before using it
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, db => {
+  if (!db.objectStoreNames.contains(HANDLES_STORE)) {
+    db.createObjectStore(HANDLES_STORE);
+  }
+});
+
+export const loadLastFolder = async (): Promise<FileSystemDirectoryHandle | null> => {
+  const db = await getDb();
+  const handle = await requestToPromise(
+    db.transaction(HANDLES_STORE, 'readonly').objectStore(HANDLES_STORE).get(LAST_FOLDER_KEY)
+  ) as FileSystemDirectoryHandle | undefined;
+  return handle ?? null;
+};
+
+export const saveLastFolder = async (handle: FileSystemDirectoryHandle | null) => {
+  const db = await getDb();
+  const transaction = db.transaction(HANDLES_STORE, 'readwrite');
+  if (handle) {
+    transaction.objectStore(HANDLES_STORE).put(handle, LAST_FOLDER_KEY);
+  } else {
+    transaction.objectStore(HANDLES_STORE).delete(LAST_FOLDER_KEY);
+  }
+  await transactionDone(transaction);
+};
+
+// Reads and writes a folder on the user's machine through the File System Access API
+export const createLocalFolderBackend = (root: FileSystemDirectoryHandle): StorageBackend => {
+  // Every file as last seen, to tell outside changes from our own writes
+  const known = new Map<string, KnownFile>();
+  const knownFolders = new Set<string>();
+  // Operations run one after another so a poll never sees a half-finished rename
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const enqueue = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const splitPath = (path: string) => {
+    const parts = path.split('/').filter(Boolean);
+    return { folders: parts.slice(0, -1), name: parts[parts.length - 1] };
+  };
+
+  const getFolder = async (parts: string[], create = false) => {
+    let folder = root;
+    for (const part of parts) {
+      folder = await folder.getDirectoryHandle(part, { create });
+    }
+    return folder;
+  };
+
+  const getFileHandle = async (path: string, create = false) => {
+    const { folders, name } = splitPath(path);
+    return (await getFolder(folders, create)).getFileHandle(name, { create });
+  };
+
+  const toKnownFile = (file: File, isText: boolean): KnownFile => ({ lastModified: file.lastModified, size: file.size, isText });
+
+  const remember = (path: string, file: File, isText: boolean) => {
+    known.set(path, toKnownFile(file, isText));
+  };
+
+  const readText = async (file: File): Promise<string | null> => {
+    if (file.size > MAX_FILE_SIZE) return null;
+    return decodeTextContent(new Uint8Array(await file.arrayBuffer()));
+  };
+
+  // Every file and folder under a folder, without reading any content. Paths start with the prefix.
+  const list = async (from = root, prefix = '', skipIgnored = true) => {
+    const files = new Map<string, File>();
+    const folders = new Set<string>();
+
+    const walk = async (folder: FileSystemDirectoryHandle, prefix: string) => {
+      for await (const child of folder.values()) {
+        const path = `${prefix}${child.name}`;
+        if (child.kind === 'directory') {
+          if (skipIgnored && IGNORED_DIRECTORIES.has(child.name)) continue;
+          folders.add(path);
+          await walk(child as FileSystemDirectoryHandle, `${path}/`);
+        } else {
+          files.set(path, await (child as FileSystemFileHandle).getFile());
+        }
+      }
+    };
+
+    await walk(from, prefix);
+    return { files, folders };
+  };
+
+  const writeBytes = async (path: string, content: string | Blob) => {
+    const handle = await getFileHandle(path, true);
+    const writable = await handle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    return handle.getFile();
+  };
+
+  const removeEntry = async (path: string) => {
+    const { folders, name } = splitPath(path);
+    await (await getFolder(folders)).removeEntry(name, { recursive: true });
+  };
+
+  const getHandle = async (path: string): Promise<FileSystemHandle> => {
+    const { folders, name } = splitPath(path);
+    const parent = await getFolder(folders);
+    try {
+      return await parent.getFileHandle(name);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'TypeMismatchError')) throw error;
+      return parent.getDirectoryHandle(name);
+    }
+  };
+
+  // Copy a file or a whole folder, including what the tree leaves out, since the original goes away
+  const copyEntry = async (handle: FileSystemHandle, oldPath: string, newPath: string) => {
+    const moved = (path: string) => newPath + path.slice(oldPath.length);
+
+    if (handle.kind === 'file') {
+      const copy = await writeBytes(newPath, await (handle as FileSystemFileHandle).getFile());
+      remember(newPath, copy, known.get(oldPath)?.isText ?? true);
+      return;
+    }
+
+    await getFolder(newPath.split('/'), true);
+    knownFolders.add(newPath);
+    const { files, folders } = await list(handle as FileSystemDirectoryHandle, `${oldPath}/`, false);
+    for (const path of Array.from(folders)) {
+      await getFolder(moved(path).split('/'), true);
+      if (knownFolders.has(path)) knownFolders.add(moved(path));
+    }
+    for (const [path, file] of Array.from(files.entries())) {
+      const copy = await writeBytes(moved(path), file);
+      const previous = known.get(path);
+      if (previous) remember(moved(path), copy, previous.isText);
+    }
+  };
+
+  // What was known under the old path now lives under the new one
+  const moveKnown = (oldPath: string, newPath: string) => {
+    const moved = (path: string) => newPath + path.slice(oldPath.length);
+    const isWithin = (path: string) => path === oldPath || path.startsWith(`${oldPath}/`);
+
+    for (const [path, file] of Array.from(known.entries()).filter(([path]) => isWithin(path))) {
+      known.delete(path);
+      known.set(moved(path), file);
+    }
+    for (const path of Array.from(knownFolders).filter(isWithin)) {
+      knownFolders.delete(path);
+      knownFolders.add(moved(path));
+    }
+  };
+
+  const forget = (path: string) => {
+    for (const key of Array.from(known.keys())) {
+      if (key === path || key.startsWith(`${path}/`)) known.delete(key);
+    }
+    for (const key of Array.from(knownFolders)) {
+      if (key === path || key.startsWith(`${path}/`)) knownFolders.delete(key);
+    }
+  };
+
+  // Find what changed on disk since the last look
+  const poll = async (emit: (change: StorageChange) => void) => {
+    const { files, folders } = await list();
+    const seen = new Map<string, KnownFile>();
+
+    for (const path of Array.from(folders)) {
+      if (!knownFolders.has(path)) emit({ type: 'mkdir', path });
+    }
+
+    for (const [path, file] of Array.from(files.entries())) {
+      const previous = known.get(path);
+      if (previous && previous.lastModified === file.lastModified && previous.size === file.size) {
+        seen.set(path, previous);
+        continue;
+      }
+
+      const content = await readText(file);
+      seen.set(path, toKnownFile(file, content !== null));
+      if (content !== null) {
+        emit({ type: 'write', path, content });
+      } else if (previous?.isText) {
+        // A file that stopped being text leaves the tree
+        emit({ type: 'delete', path });
+      }
+    }
+
+    // Deleting a folder takes what's inside along, so only the outermost deletions are reported
+    const gone = [
+      ...Array.from(knownFolders).filter(path => !folders.has(path)),
+      ...Array.from(known.entries()).filter(([path, file]) => file.isText && !files.has(path)).map(([path]) => path),
+    ].sort();
+    let lastDeleted: string | null = null;
+    for (const path of gone) {
+      if (lastDeleted && path.startsWith(`${lastDeleted}/`)) continue;
+      emit({ type: 'delete', path });
+      lastDeleted = path;
+    }
+
+    known.clear();
+    seen.forEach((file, path) => known.set(path, file));
+    knownFolders.clear();
+    folders.forEach(path => knownFolders.add(path));
+  };
+
+  return {
+    kind: 'local',
+
+    load: () => enqueue(async () => {
+      const { files, folders } = await list();
+      const entries: StorageEntry[] = Array.from(folders).map(path => ({ path, type: 'folder' as const }));
+      known.clear();
+      knownFolders.clear();
+      folders.forEach(path => knownFolders.add(path));
+
+      for (const [path, file] of Array.from(files.entries())) {
+        const content = await readText(file);
+        remember(path, file, content !== null);
+        if (content !== null) entries.push({ path, type: 'file', content });
+      }
+
+      // The same folder keeps the same id, so its chats and settings find it again
+      return { id: `folder:${root.name}`, name: root.name, files: buildTreeFromEntries(root.name, entries) };
+    }),
+
+    writeFile: (path, content) => enqueue(async () => {
+      remember(path, await writeBytes(path, content), true);
+    }),
+
+    createDirectory: (path) => enqueue(async () => {
+      await getFolder(path.split('/').filter(Boolean), true);
+      knownFolders.add(path);
+    }),
+
+    delete: (path) => enqueue(async () => {
+      await removeEntry(path);
+      forget(path);
+    }),
+
+    // Moved in place where the browser can; otherwise copied over and the original removed
+    rename: (oldPath, newPath) => enqueue(async () => {
+      const handle = await getHandle(oldPath);
+      const target = splitPath(newPath);
+
+      if (handle.move) {
+        try {
+          await handle.move(await getFolder(target.folders, true), target.name);
+          moveKnown(oldPath, newPath);
+          return;
+        } catch (error) {
+          // Some versions only move files; anything else falls back to copying
+          console.warn(`Could not move ${oldPath}, copying it instead:`, error);
+        }
+      }
+
+      try {
+        await copyEntry(handle, oldPath, newPath);
+      } catch (error) {
+        // Leave the original as it was rather than half of it in two places
+        await removeEntry(newPath).catch(() => undefined);
+        forget(newPath);
+        throw error;
+      }
+
+      // Whatever removal leaves behind is found again by the next poll
+      try {
+        await removeEntry(oldPath);
+      } finally {
+        forget(oldPath);
+      }
+    }),
+
+    subscribe: (listener) => {
+      // A large folder can take longer to list than the interval, so ticks wait for the last poll
+      let polling = false;
+      const timer = window.setInterval(() => {
+        // No point listing the folder while nobody is looking
+        if (document.hidden || polling) return;
+        polling = true;
+        enqueue(() => poll(listener))
+          .catch(error => console.error('Failed to check the folder for changes:', error))
+          .finally(() => { polling = false; });
+      }, POLL_INTERVAL_MS);
+
+      return () => window.clearInterval(timer);
+    },
+  };
+};
@@ -0,0 +1,52 @@
+import { StorageBackend } from './types';
+import { buildTreeFromEntries, StorageEntry } from './tree';
+import { SAMPLE_PROJECT_NAME, sampleProjectEntries } from './sampleProject';
+
+// Keeps the workspace in a Map for the lifetime of the page
+export const createMemoryBackend = (
+  name: string = SAMPLE_PROJECT_NAME,
+  seed: StorageEntry[] = sampleProjectEntries
+): StorageBackend => {
+  let workspaceName = name;
+  const entries = new Map<string, StorageEntry>(seed.map(entry => [entry.path, { ...entry }]));
+
+  const isWithin = (path: string, prefix: string) => path === prefix || path.startsWith(`${prefix}/`);
+
+  return {
+    kind: 'memory',
+
+    load: async () => ({
+      name: workspaceName,
+      files: buildTreeFromEntries(workspaceName, Array.from(entries.values())),
+    }),
+
+    writeFile: async (path, content) => {
+      entries.set(path, { path, type: 'file', content });
+    },
+
+    createDirectory: async (path) => {
+      entries.set(path, { path, type: 'folder' });
+    },
+
+    delete: async (path) => {
+      for (const key of Array.from(entries.keys())) {
+        if (isWithin(key, path)) entries.delete(key);
+      }
+    },
+
+    rename: async (oldPath, newPath) => {
+      for (const [key, entry] of Array.from(entries.entries())) {
+        if (isWithin(key, oldPath)) {
+          const movedPath = newPath + key.slice(oldPath.length);
+          entries.delete(key);
+          entries.set(movedPath, { ...entry, path: movedPath });
+        }
+      }
+    },
+
+    clear: async (rootName) => {
+      workspaceName = rootName;
+      entries.clear();
+    },
+  };
+};
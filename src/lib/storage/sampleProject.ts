@@ -0,0 +1,32 @@
+import { StorageEntry } from './tree';
+
+// Sample project shown when the IDE runs without a persistent backend
+export const SAMPLE_PROJECT_NAME = 'my-project';
+
+export const sampleProjectEntries: StorageEntry[] = [
+  {
+    path: 'src/components/Button.tsx',
+    type: 'file',
+    content: 'import React from "react";\n\ninterface ButtonProps {\n  children: React.ReactNode;\n  onClick?: () => void;\n  variant?: "primary" | "secondary";\n}\n\nconst Button: React.FC<ButtonProps> = ({ children, onClick, variant = "primary" }) => {\n  return (\n    <button\n      className={`px-4 py-2 rounded ${variant === "primary" ? "bg-blue-500 text-white" : "bg-gray-200 text-gray-800"}`}\n      onClick={onClick}\n    >\n      {children}\n    </button>\n  );\n};\n\nexport default Button;',
+  },
+  {
+    path: 'src/App.tsx',
+    type: 'file',
+    content: 'import React from "react";\nimport Button from "./components/Button";\n\nconst App: React.FC = () => {\n  return (\n    <div className="p-4">\n      <h1 className="text-2xl font-bold mb-4">My Application</h1>\n      <Button onClick={() => alert("Button clicked!")}>Click Me</Button>\n    </div>\n  );\n};\n\nexport default App;',
+  },
+  {
+    path: 'src/index.tsx',
+    type: 'file',
+    content: 'import React from "react";\nimport ReactDOM from "react-dom/client";\nimport App from "./App";\n\nReactDOM.createRoot(document.getElementById("root")!).render(\n  <React.StrictMode>\n    <App />\n  </React.StrictMode>\n);',
+  },
+  {
+    path: 'package.json',
+    type: 'file',
+    content: '{\n  "name": "my-project",\n  "version": "1.0.0",\n  "dependencies": {\n    "react": "^18.0.0",\n    "react-dom": "^18.0.0"\n  }\n}',
+  },
+  {
+    path: 'README.md',
+    type: 'file',
+    content: '# My Project\n\nThis is a sample React project.\n\n## Getting Started\n\nInstall dependencies:\n\n```bash\nnpm install\n```\n\nStart the development server:\n\n```bash\nnpm start\n```',
+  },
+];
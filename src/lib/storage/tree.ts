@@ -0,0 +1,197 @@
+import { getLanguageFromExtension } from '@/lib/languages';
+import { FileSystemItem, FileType } from './types';
+
+// Flat description of a file or folder, as backends list them
+export interface StorageEntry {
+  path: string;
+  type: FileType;
+  content?: string;
+}
+
+// Helper function to generate unique IDs
+export const generateId = () => Math.random().toString(36).substring(2, 9);
+
+// Helper function to find an item by ID in the file system tree
+export const findItemById = (files: FileSystemItem[], id: string): FileSystemItem | undefined => {
+  for (const file of files) {
+    if (file.id === id) return file;
+    if (file.children) {
+      const found = findItemById(file.children, id);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Helper function to find a parent by child ID
+export const findParentById = (files: FileSystemItem[], childId: string): FileSystemItem | undefined => {
+  for (const file of files) {
+    if (file.children?.some(child => child.id === childId)) return file;
+    if (file.children) {
+      const found = findParentById(file.children, childId);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Find an item by its full tree path ("/my-project/src/App.tsx")
+export const findItemByPath = (files: FileSystemItem[], path: string): FileSystemItem | undefined => {
+  for (const file of files) {
+    if (file.path === path) return file;
+    if (file.children && path.startsWith(`${file.path}/`)) {
+      const found = findItemByPath(file.children, path);
+      if (found) return found;
+    }
+  }
+  return undefined;
+};
+
+// Collect every file (not folder) in the tree
+export const flattenFiles = (files: FileSystemItem[]): FileSystemItem[] => {
+  const result: FileSystemItem[] = [];
+  const walk = (items: FileSystemItem[]) => {
+    for (const item of items) {
+      if (item.type === 'file') result.push(item);
+      if (item.children) walk(item.children);
+    }
+  };
+  walk(files);
+  return result;
+};
+
+// Empty file system for new projects
+export const createEmptyFileSystem = (rootName: string = 'new-project'): FileSystemItem[] => {
+  return [
+    {
+      id: 'root',
+      name: rootName,
+      type: 'folder',
+      path: `/${rootName}`,
+      isOpen: true,
+      children: []
+    }
+  ];
+};
+
+// "/my-project/src/App.tsx" -> "src/App.tsx"
+export const toStoragePath = (treePath: string): string => {
+  return treePath.split('/').filter(Boolean).slice(1).join('/');
+};
+
+// ("/my-project", "src/App.tsx") -> "/my-project/src/App.tsx"
+export const toTreePath = (rootPath: string, storagePath: string): string => {
+  const relative = storagePath.split('/').filter(Boolean).join('/');
+  return relative ? `${rootPath}/${relative}` : rootPath;
+};
+
+// Make sure an item exists at a workspace-relative path, creating missing folders on the way.
+// Mutates the tree in place and returns the item.
+export const ensureItemAtPath = (
+  files: FileSystemItem[],
+  storagePath: string,
+  type: FileType,
+  content?: string,
+  idFor: (storagePath: string) => string = () => generateId()
+): FileSystemItem | undefined => {
+  const root = files[0];
+  if (!root) return undefined;
+
+  const parts = storagePath.split('/').filter(Boolean);
+  if (parts.length === 0) return root;
+
+  let parent = root;
+  for (let i = 0; i < parts.length; i++) {
+    const isLast = i === parts.length - 1;
+    const itemType: FileType = isLast ? type : 'folder';
+    let child = parent.children?.find(c => c.name === parts[i]);
+
+    if (!child) {
+      child = {
+        id: idFor(parts.slice(0, i + 1).join('/')),
+        name: parts[i],
+        type: itemType,
+        path: `${parent.path}/${parts[i]}`,
+        parentId: parent.id,
+        isOpen: false,
+      };
+
+      if (itemType === 'folder') {
+        child.children = [];
+      } else {
+        child.content = '';
+        child.language = getLanguageFromExtension(parts[i]);
+        child.isModified = false;
+      }
+
+      parent.children = [...(parent.children || []), child];
+    }
+
+    if (isLast) {
+      if (child.type === 'file' && content !== undefined) {
+        child.content = content;
+      }
+      return child;
+    }
+
+    if (child.type !== 'folder') return undefined;
+    parent = child;
+  }
+
+  return undefined;
+};
+
+// Remove the item at a workspace-relative path; returns whether anything was removed
+export const removeItemAtPath = (files: FileSystemItem[], storagePath: string): boolean => {
+  const root = files[0];
+  if (!root || !storagePath) return false;
+
+  const target = findItemByPath(files, toTreePath(root.path, storagePath));
+  if (!target) return false;
+
+  const parent = findParentById(files, target.id);
+  if (!parent) return false;
+
+  parent.children = parent.children!.filter(child => child.id !== target.id);
+  return true;
+};
+
+// Folders first, then alphabetical, like most explorers
+const sortChildren = (item: FileSystemItem) => {
+  if (!item.children) return;
+  item.children.sort((a, b) => {
+    if (a.type !== b.type) return a.type === 'folder' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+  item.children.forEach(sortChildren);
+};
+
+// Build a tree from a flat listing of entries. Ids are derived from the path so
+// tabs restored from the previous session still point at the same files.
+export const buildTreeFromEntries = (rootName: string, entries: StorageEntry[]): FileSystemItem[] => {
+  const files = createEmptyFileSystem(rootName);
+
+  for (const entry of entries) {
+    ensureItemAtPath(files, entry.path, entry.type, entry.content, path => `path:${path}`);
+  }
+
+  sortChildren(files[0]);
+  return files;
+};
+
+// Inverse of buildTreeFromEntries
+export const treeToEntries = (files: FileSystemItem[]): StorageEntry[] => {
+  const entries: StorageEntry[] = [];
+  const walk = (items: FileSystemItem[]) => {
+    for (const item of items) {
+      entries.push({
+        path: toStoragePath(item.path),
+        type: item.type,
+        ...(item.type === 'file' ? { content: item.content || '' } : {}),
+      });
+      if (item.children) walk(item.children);
+    }
+  };
+  walk(files[0]?.children || []);
+  return entries;
+};
@@ -0,0 +1,62 @@
+// Shared types for the workspace storage layer
+
+export type FileType = 'file' | 'folder';
+
+export interface FileSystemItem {
+  id: string;
+  name: string;
+  type: FileType;
+  content?: string;
+  language?: string;
+  children?: FileSystemItem[];
+  path: string;
+  isOpen?: boolean;
+  isModified?: boolean;
+  parentId?: string;
+}
+
+// 'local' is a folder opened in the browser, never the configured default
+export type StorageBackendKind = 'memory' | 'http' | 'browser' | 'local';
+
+// A change that happened outside the IDE and should be applied to the tree.
+// Paths are workspace-relative ("src/App.tsx"), never prefixed with the root folder.
+export type StorageChange =
+  | { type: 'write'; path: string; content: string }
+  | { type: 'mkdir'; path: string }
+  | { type: 'delete'; path: string };
+
+export interface WorkspaceSnapshot {
+  // Set by backends that keep several projects
+  id?: string;
+  name: string;
+  files: FileSystemItem[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  fileCount: number;
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number;
+}
+
+// Every backend speaks workspace-relative paths; FileSystemContext owns the tree and ids
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  load: () => Promise<WorkspaceSnapshot | null>;
+  writeFile: (path: string, content: string) => Promise<void>;
+  createDirectory: (path: string) => Promise<void>;
+  delete: (path: string) => Promise<void>;
+  rename: (oldPath: string, newPath: string) => Promise<void>;
+  // Start over with an empty workspace (a new project where the backend keeps several);
+  // backends mirroring real folders leave this out
+  clear?: (rootName: string) => Promise<WorkspaceSnapshot | void>;
+  subscribe?: (listener: (change: StorageChange) => void) => () => void;
+  // Backends that store the whole tree get it here, debounced, after every change
+  saveSnapshot?: (snapshot: WorkspaceSnapshot) => Promise<void>;
+  // Named projects, most recently opened first
+  listProjects?: () => Promise<ProjectSummary[]>;
+  openProject?: (id: string) => Promise<WorkspaceSnapshot | null>;
+  deleteProject?: (id: string) => Promise<void>;
+}
@@ -0,0 +1,158 @@
+import type * as Monaco from 'monaco-editor';
+
+// Symbols in a file for "@" navigation in the command palette
+
+export type SymbolKind =
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'function'
+  | 'method'
+  | 'property'
+  | 'variable'
+  | 'module'
+  | 'heading'
+  | 'selector';
+
+export interface DocumentSymbol {
+  name: string;
+  kind: SymbolKind;
+  // 1-based, like Monaco
+  line: number;
+  column: number;
+  // The class, namespace or heading the symbol is inside
+  container?: string;
+}
+
+interface SymbolPattern {
+  regex: RegExp;
+  kind: SymbolKind;
+}
+
+const JS_PATTERNS: SymbolPattern[] = [
+  { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/, kind: 'function' },
+  { regex: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([\w$]+)/, kind: 'class' },
+  { regex: /^\s*(?:export\s+)?interface\s+([\w$]+)/, kind: 'interface' },
+  { regex: /^\s*(?:export\s+)?type\s+([\w$]+)\s*(?:<[^=]*>)?\s*=/, kind: 'type' },
+  { regex: /^\s*(?:export\s+)?(?:const\s+)?enum\s+([\w$]+)/, kind: 'enum' },
+  { regex: /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)/, kind: 'variable' },
+];
+
+// Regex outlines for languages the editor has no symbol support for
+const PATTERNS: Record<string, SymbolPattern[]> = {
+  javascript: JS_PATTERNS,
+  typescript: JS_PATTERNS,
+  python: [
+    { regex: /^\s*(?:async\s+)?def\s+(\w+)/, kind: 'function' },
+    { regex: /^\s*class\s+(\w+)/, kind: 'class' },
+  ],
+  go: [
+    { regex: /^func\s+(?:\([^)]*\)\s*)?(\w+)/, kind: 'function' },
+    { regex: /^type\s+(\w+)/, kind: 'type' },
+  ],
+  rust: [
+    { regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?fn\s+(\w+)/, kind: 'function' },
+    { regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:struct|trait)\s+(\w+)/, kind: 'class' },
+    { regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?enum\s+(\w+)/, kind: 'enum' },
+    { regex: /^\s*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)/, kind: 'module' },
+  ],
+  java: [
+    { regex: /^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*(?:class|record)\s+(\w+)/, kind: 'class' },
+    { regex: /^\s*(?:(?:public|private|protected|static)\s+)*interface\s+(\w+)/, kind: 'interface' },
+    { regex: /^\s*(?:(?:public|private|protected|static)\s+)*enum\s+(\w+)/, kind: 'enum' },
+    { regex: /^\s*(?:(?:public|private|protected|static|final|abstract|synchronized)\s+)+[\w<>[\], ]+\s+(\w+)\s*\(/, kind: 'method' },
+  ],
+  markdown: [{ regex: /^#{1,6}\s+(.+?)\s*#*$/, kind: 'heading' }],
+  css: [{ regex: /^\s*([^\s{}@/][^{}]*?)\s*\{/, kind: 'selector' }],
+  scss: [{ regex: /^\s*([^\s{}@/][^{}]*?)\s*\{/, kind: 'selector' }],
+  less: [{ regex: /^\s*([^\s{}@/][^{}]*?)\s*\{/, kind: 'selector' }],
+};
+
+export const findSymbolsByPattern = (content: string, language: string): DocumentSymbol[] => {
+  const patterns = PATTERNS[language];
+  if (!patterns) return [];
+
+  const symbols: DocumentSymbol[] = [];
+  content.split('\n').forEach((line, index) => {
+    for (const { regex, kind } of patterns) {
+      const match = regex.exec(line);
+      if (match) {
+        symbols.push({ name: match[1], kind, line: index + 1, column: line.indexOf(match[1]) + 1 });
+        break;
+      }
+    }
+  });
+  return symbols;
+};
+
+// TypeScript's navigation tree kinds. A Map, since one of them is "constructor"
+const NAVIGATION_KINDS = new Map<string, SymbolKind>([
+  ['class', 'class'],
+  ['interface', 'interface'],
+  ['type', 'type'],
+  ['enum', 'enum'],
+  ['function', 'function'],
+  ['local function', 'function'],
+  ['method', 'method'],
+  ['constructor', 'method'],
+  ['getter', 'property'],
+  ['setter', 'property'],
+  ['property', 'property'],
+  ['const', 'variable'],
+  ['let', 'variable'],
+  ['var', 'variable'],
+  ['module', 'module'],
+]);
+
+interface NavigationTree {
+  text: string;
+  kind: string;
+  spans: { start: number; length: number }[];
+  childItems?: NavigationTree[];
+}
+
+// Symbols from the editor's TypeScript service, which also understands JavaScript
+const getTypeScriptSymbols = async (monaco: typeof Monaco, model: Monaco.editor.ITextModel) => {
+  const getWorker = model.getLanguageId() === 'typescript'
+    ? monaco.languages.typescript.getTypeScriptWorker
+    : monaco.languages.typescript.getJavaScriptWorker;
+  const worker = await (await getWorker())(model.uri);
+  const tree: NavigationTree | undefined = await worker.getNavigationTree(model.uri.toString());
+
+  const symbols: DocumentSymbol[] = [];
+  const walk = (items: NavigationTree[] | undefined, container?: string) => {
+    for (const item of items || []) {
+      const kind = NAVIGATION_KINDS.get(item.kind);
+      if (kind && item.spans.length > 0) {
+        const position = model.getPositionAt(item.spans[0].start);
+        symbols.push({ name: item.text, kind, line: position.lineNumber, column: position.column, container });
+      }
+      // Locals inside functions are noise; members of classes and namespaces are not
+      if (!kind || kind === 'class' || kind === 'interface' || kind === 'module' || kind === 'enum') {
+        walk(item.childItems, kind ? item.text : container);
+      }
+    }
+  };
+  walk(tree?.childItems);
+
+  return symbols.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+// Symbols in the model, in document order
+export const getDocumentSymbols = async (
+  monaco: typeof Monaco | null,
+  model: Monaco.editor.ITextModel
+): Promise<DocumentSymbol[]> => {
+  const language = model.getLanguageId();
+
+  if (monaco && (language === 'typescript' || language === 'javascript')) {
+    try {
+      return await getTypeScriptSymbols(monaco, model);
+    } catch (error) {
+      console.error('Error getting symbols from the TypeScript service:', error);
+    }
+  }
+
+  return findSymbolsByPattern(model.getValue(), language);
+};
@@ -0,0 +1,8 @@
+// The dev server's per-session token (see src/api/http.ts), which its /api routes ask for. It comes
+// in a meta tag on the page; outside the dev server there is none.
+export const SESSION_HEADER = 'X-Workspace-Session';
+export const SESSION_PARAM = 'session';
+
+export const getSessionToken = () => {
+  return document.querySelector<HTMLMetaElement>('meta[name="workspace-session"]')?.content ?? '';
+};
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface Window {
+  // File System Access API; only Chromium-based browsers have it so far
+  showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+}
+
+interface FileSystemHandle {
+  // Chromium has these; handles kept from an earlier visit must ask again before use
+  queryPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  requestPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  // Newer Chromium moves files, and sometimes folders, in place
+  move?: (destination: FileSystemDirectoryHandle, name: string) => Promise<void>;
+}
@@ -1,86 +1,22 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
-import { 
-  handleListFiles, 
-  handleReadFile, 
-  handleWriteFile, 
-  handleDeleteFile, 
-  handleCreateDirectory,
-  initFileWatcher
-} from './src/api/fileSystem';
-import type { IncomingMessage, ServerResponse } from 'http';
-
-type NextFunction = () => void;
+import { workspaceApiPlugin } from './src/api/devServer';
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
-  // Initialize file watcher
-  initFileWatcher();
-  
+  // WORKSPACE_ROOT may come from the shell or from a .env file
+  const env = loadEnv(mode, process.cwd(), '');
+
   return {
+    // The workspace API plugin keeps the host to localhost
     server: {
-      host: "::",
       port: 8080,
-      middleware: [
-        async (req: IncomingMessage, res: ServerResponse, next: NextFunction) => {
-          if (req.url === '/api/list-files') {
-            const response = await handleListFiles(new Request(`http://localhost${req.url}`));
-            res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
-            res.end(await response.text());
-            return;
-          }
-          
-          if (req.url?.startsWith('/api/read-file')) {
-            const response = await handleReadFile(new Request(`http://localhost${req.url}`));
-            res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
-            res.end(await response.text());
-            return;
-          }
-          
-          if (req.url?.startsWith('/api/write-file')) {
-            const response = await handleWriteFile(new Request(`http://localhost${req.url}`));
-            res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
-            res.end(await response.text());
-            return;
-          }
-          
-          if (req.url?.startsWith('/api/delete-file')) {
-            const response = await handleDeleteFile(new Request(`http://localhost${req.url}`));
-            res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
-            res.end(await response.text());
-            return;
-          }
-          
-          if (req.url?.startsWith('/api/create-directory')) {
-            const response = await handleCreateDirectory(new Request(`http://localhost${req.url}`));
-            res.statusCode = response.status;
-            for (const [key, value] of response.headers.entries()) {
-              res.setHeader(key, value);
-            }
-            res.end(await response.text());
-            return;
-          }
-          
-          next();
-        }
-      ]
     },
     plugins: [
       react(),
+      workspaceApiPlugin({ root: env.WORKSPACE_ROOT }),
       mode === 'development' &&
       componentTagger(),
     ].filter(Boolean),